@@ -1,4 +1,7 @@
 import { AnyObject } from '../interfaces/any-object';
+import { RateLimit } from '../interfaces/connect';
+import { ChargeRateTable } from '../interfaces/charges';
+import { OrderState } from '../interfaces/order-tracker';
 
 export const ROUTES: { [key: string]: string } = {
     'api.token': '/session/token',
@@ -59,4 +62,132 @@ export const DEFAULTS: AnyObject = {
     'login': 'https://kite.zerodha.com/connect/login',
     'debug': false,
     'timeout': 7000
-};
\ No newline at end of file
+};
+
+export const RETRY_DEFAULTS: AnyObject = {
+    'max_attempts': 3,
+    'initial_delay': 500,
+    'max_delay': 5000,
+    'multiplier': 2,
+    'jitter': true,
+    'retry_error_types': ['NetworkException'],
+    'retry_statuses': [429, 500, 502, 503, 504],
+    'retry_non_idempotent': false
+};
+
+export const RATE_LIMITS: { [family: string]: RateLimit } = {
+    'market.quote': { 'rate': 1 },
+    'market.historical': { 'rate': 3 },
+    'order': { 'rate': 10 },
+    'default': { 'rate': 10 }
+};
+
+/**
+ * Maximum number of days of candles the historical API returns per request for each interval.
+ */
+export const HISTORICAL_INTERVAL_LIMITS: { [interval: string]: number } = {
+    'minute': 60,
+    '3minute': 100,
+    '5minute': 100,
+    '10minute': 100,
+    '15minute': 200,
+    '30minute': 200,
+    '60minute': 400,
+    'day': 2000
+};
+
+/**
+ * Maximum number of instruments the quote APIs accept per request.
+ */
+export const QUOTE_INSTRUMENT_LIMITS: { [route: string]: number } = {
+    'market.quote': 500,
+    'market.quote.ohlc': 1000,
+    'market.quote.ltp': 1000
+};
+
+/**
+ * Defaults of the option greeks calculator. The risk-free rate and dividend yield are annualised
+ * and continuously compounded. Expiry time is in exchange time (IST).
+ */
+export const GREEKS_DEFAULTS = {
+    'risk_free_rate': 0.065,
+    'dividend_yield': 0,
+    'model': 'black-scholes' as const,
+    'expiry_time': '15:30'
+};
+
+/**
+ * Defaults of the paper trading broker. Margin rates are the fraction of the order value blocked
+ * per product, a flat approximation of the exchange SPAN and exposure margins.
+ */
+export const PAPER_TRADING_DEFAULTS = {
+    'opening_balance': 1000000,
+    'margin_rates': { 'CNC': 1, 'MIS': 0.2, 'NRML': 0.2 } as { [product: string]: number }
+};
+
+/**
+ * Largest quantity of a single order in the index derivatives of each underlying, larger orders
+ * are rejected by the exchange. The exchanges revise these, pass `freeze_quantities` to override.
+ */
+export const FREEZE_QUANTITIES: { [name: string]: number } = {
+    'NIFTY': 1800,
+    'BANKNIFTY': 900,
+    'FINNIFTY': 1800,
+    'MIDCPNIFTY': 2800,
+    'NIFTYNXT50': 600,
+    'SENSEX': 1000,
+    'BANKEX': 900
+};
+
+/**
+ * Offset of IST, the time zone of the exchanges, from UTC in milliseconds.
+ */
+export const IST_OFFSET = 330 * 60 * 1000;
+
+/**
+ * Exchanges whose funds and margins are reported in the commodity segment.
+ */
+export const COMMODITY_EXCHANGES = ['MCX'];
+
+/**
+ * States of an order that no longer change.
+ */
+export const FINAL_ORDER_STATES: OrderState[] = ['COMPLETE', 'CANCELLED', 'REJECTED'];
+
+/**
+ * Versions of the brokerage and statutory charges, each in force from its `effective_from` date
+ * until the next one. Brokerage is that of the Zerodha plans, the other rates are those levied by
+ * the exchanges and the government. Pass `rate_tables` to override.
+ */
+export const CHARGE_RATES: ChargeRateTable[] = [
+    {
+        'effective_from': '2023-04-01',
+        'sebi_turnover_charge': 0.000001,
+        'gst': 0.18,
+        'segments': {
+            'equity_delivery': { 'brokerage_rate': 0, 'max_brokerage': 0, 'transaction_tax_buy': 0.001, 'transaction_tax_sell': 0.001, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NSE': 0.0000322, 'BSE': 0.0000375 }, 'stamp_duty': 0.00015 },
+            'equity_intraday': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.00025, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NSE': 0.0000322, 'BSE': 0.0000375 }, 'stamp_duty': 0.00003 },
+            'equity_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.000125, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NFO': 0.000019, 'BFO': 0 }, 'stamp_duty': 0.00002 },
+            'equity_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.000625, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NFO': 0.0005, 'BFO': 0.0005 }, 'stamp_duty': 0.00003 },
+            'currency_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'CDS': 0.000009, 'BCD': 0.0000022 }, 'stamp_duty': 0.000001 },
+            'currency_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'CDS': 0.00035, 'BCD': 0.00001 }, 'stamp_duty': 0.000001 },
+            'commodity_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.0001, 'transaction_tax_type': 'ctt', 'exchange_turnover_charge': { 'MCX': 0.000026 }, 'stamp_duty': 0.00002 },
+            'commodity_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.0005, 'transaction_tax_type': 'ctt', 'exchange_turnover_charge': { 'MCX': 0.0005 }, 'stamp_duty': 0.00003 }
+        }
+    },
+    {
+        'effective_from': '2024-10-01',
+        'sebi_turnover_charge': 0.000001,
+        'gst': 0.18,
+        'segments': {
+            'equity_delivery': { 'brokerage_rate': 0, 'max_brokerage': 0, 'transaction_tax_buy': 0.001, 'transaction_tax_sell': 0.001, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NSE': 0.0000297, 'BSE': 0.0000375 }, 'stamp_duty': 0.00015 },
+            'equity_intraday': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.00025, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NSE': 0.0000297, 'BSE': 0.0000375 }, 'stamp_duty': 0.00003 },
+            'equity_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.0002, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NFO': 0.0000173, 'BFO': 0 }, 'stamp_duty': 0.00002 },
+            'equity_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.001, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'NFO': 0.0003503, 'BFO': 0.000325 }, 'stamp_duty': 0.00003 },
+            'currency_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'CDS': 0.0000035, 'BCD': 0.0000045 }, 'stamp_duty': 0.000001 },
+            'currency_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0, 'transaction_tax_type': 'stt', 'exchange_turnover_charge': { 'CDS': 0.000311, 'BCD': 0.00001 }, 'stamp_duty': 0.000001 },
+            'commodity_futures': { 'brokerage_rate': 0.0003, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.0001, 'transaction_tax_type': 'ctt', 'exchange_turnover_charge': { 'MCX': 0.000021 }, 'stamp_duty': 0.00002 },
+            'commodity_options': { 'brokerage_rate': null, 'max_brokerage': 20, 'transaction_tax_buy': 0, 'transaction_tax_sell': 0.0005, 'transaction_tax_type': 'ctt', 'exchange_turnover_charge': { 'MCX': 0.000418 }, 'stamp_duty': 0.00003 }
+        }
+    }
+];
\ No newline at end of file
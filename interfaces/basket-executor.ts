@@ -0,0 +1,81 @@
+import { BasketMargin, PlaceOrderParams, Varieties } from './connect';
+import { OrderState } from './order-tracker';
+
+/**
+ * Represents the options of `BasketExecutor.placeBasket`.
+ *
+ * @public
+ * @name PlaceBasketOptions
+ */
+export interface PlaceBasketOptions {
+    /**
+     * Undo the basket when a leg fails: cancel the open legs and square off the filled ones.
+     * Defaults to `false`.
+     */
+    atomic?: boolean;
+    /**
+     * Check the margin of the basket with `orderBasketMargins` against the available funds before
+     * placing it. Defaults to `true`.
+     */
+    check_margin?: boolean;
+    /**
+     * Place the BUY legs and wait for their fills before placing the SELL legs, so the hedges
+     * reduce the margin of the short legs. Defaults to `true`.
+     */
+    hedge_first?: boolean;
+    /**
+     * Milliseconds to wait for the fills of the legs. Defaults to `30000`.
+     */
+    fill_timeout?: number;
+};
+
+/**
+ * Represents a leg of a basket placed with `BasketExecutor.placeBasket`.
+ *
+ * @public
+ * @name BasketLeg
+ */
+export interface BasketLeg {
+    variety: Varieties;
+    params: PlaceOrderParams;
+    /**
+     * `null` when the leg was not placed
+     */
+    order_id: string | null;
+    /**
+     * `null` when the leg was not placed
+     */
+    state: OrderState | null;
+    filled_quantity: number;
+    average_price: number;
+    /**
+     * Why the leg was not placed or not filled
+     */
+    error: Error | null;
+    /**
+     * Order squaring off the filled quantity when the basket was rolled back
+     */
+    exit_order_id: string | null;
+};
+
+/**
+ * Represents the outcome of a basket placed with `BasketExecutor.placeBasket`.
+ *
+ * @public
+ * @name BasketResult
+ */
+export interface BasketResult {
+    /**
+     * `complete` when every leg filled, `rolled_back` when an atomic basket was undone and
+     * `partial` when some legs of a basket that is not atomic failed
+     */
+    state: 'complete' | 'partial' | 'rolled_back';
+    /**
+     * Legs in the order they were placed
+     */
+    legs: BasketLeg[];
+    /**
+     * Margin of the basket, `null` when it was not checked
+     */
+    margin: BasketMargin | null;
+};
@@ -0,0 +1,55 @@
+/**
+ * Represents parameters for the candle store.
+ *
+ * @remarks
+ * This interface defines the parameters required to initialize a `CandleStore`.
+ *
+ * @public
+ * @name CandleStoreParams
+ */
+export interface CandleStoreParams {
+    /**
+     * Directory the candle files are written to. Created if it does not exist.
+     */
+    directory: string;
+    /**
+     * Never call the API and serve every query from disk only.
+     *
+     * Defaults to `false`
+     */
+    offline?: boolean;
+    /**
+     * Maximum number of window requests in flight at once when filling a gap.
+     *
+     * Defaults to `3`
+     */
+    concurrency?: number;
+};
+
+/**
+ * Represents the options of a candle store query.
+ *
+ * @remarks
+ * Candles fetched with different `continuous` / `oi` flags are stored separately.
+ *
+ * @public
+ * @name CandleQueryOptions
+ */
+export interface CandleQueryOptions {
+    /**
+     * Continuous data for expired futures contracts.
+     *
+     * Defaults to `false`
+     */
+    continuous?: boolean;
+    /**
+     * Include open interest in the candles.
+     *
+     * Defaults to `false`
+     */
+    oi?: boolean;
+    /**
+     * Serve this query from disk only, overriding `CandleStoreParams.offline`.
+     */
+    offline?: boolean;
+};
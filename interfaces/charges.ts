@@ -0,0 +1,100 @@
+import { VirtualContractParam } from './connect';
+
+/**
+ * Segment the charges of an order are calculated for.
+ *
+ * @public
+ * @name ChargeSegment
+ */
+export type ChargeSegment = 'equity_delivery' | 'equity_intraday' | 'equity_futures' | 'equity_options' |
+    'currency_futures' | 'currency_options' | 'commodity_futures' | 'commodity_options';
+
+/**
+ * Represents the rates of a segment. Rates are fractions of the turnover of an order, the premium
+ * turnover for options.
+ *
+ * @public
+ * @name SegmentRates
+ */
+export interface SegmentRates {
+    /**
+     * Brokerage as a fraction of the turnover, capped at `max_brokerage`. `null` for a flat brokerage of `max_brokerage` per order.
+     */
+    brokerage_rate: number | null;
+    max_brokerage: number;
+    /**
+     * STT or CTT levied on BUY orders
+     */
+    transaction_tax_buy: number;
+    /**
+     * STT or CTT levied on SELL orders
+     */
+    transaction_tax_sell: number;
+    /**
+     * stt or ctt
+     */
+    transaction_tax_type: string;
+    /**
+     * Transaction charge of each exchange of the segment
+     */
+    exchange_turnover_charge: { [exchange: string]: number };
+    /**
+     * Stamp duty levied on BUY orders
+     */
+    stamp_duty: number;
+};
+
+/**
+ * Represents the rates in force from a date.
+ *
+ * @public
+ * @name ChargeRateTable
+ */
+export interface ChargeRateTable {
+    /**
+     * First day the rates apply, in `YYYY-MM-DD` IST
+     */
+    effective_from: string;
+    /**
+     * SEBI turnover fee as a fraction of the turnover
+     */
+    sebi_turnover_charge: number;
+    /**
+     * GST levied on the brokerage, exchange and SEBI charges
+     */
+    gst: number;
+    segments: { [segment in ChargeSegment]: SegmentRates };
+};
+
+/**
+ * Represents parameters for the charges calculator.
+ *
+ * @public
+ * @name ChargesCalculatorParams
+ */
+export interface ChargesCalculatorParams {
+    /**
+     * Versions of the rates, in any order. Defaults to `CHARGE_RATES`.
+     */
+    rate_tables?: ChargeRateTable[];
+    /**
+     * Split GST into CGST and SGST as for a client in the state of the broker, instead of IGST.
+     *
+     * Defaults to `false`
+     */
+    intrastate?: boolean;
+};
+
+/**
+ * Represents an executed order the charges are calculated for.
+ *
+ * @public
+ * @name ChargeableOrder
+ */
+export type ChargeableOrder = Pick<VirtualContractParam, 'exchange' | 'tradingsymbol' | 'transaction_type' | 'product' | 'quantity' | 'average_price'> & {
+    /**
+     * Units of the underlying per unit of quantity, eg. 1000 for USDINR or 100 for CRUDEOIL whose
+     * quantities are in lots. Defaults to `1`.
+     */
+    multiplier?: number;
+};
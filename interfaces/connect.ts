@@ -1,3 +1,4 @@
+import { AnyObject } from './any-object';
 
 /**
  * @public
@@ -122,6 +123,144 @@ export interface KiteConnectParams {
      * Defaults to `7000`
      */
     timeout?: number;
+    /**
+     * Retry policy for failed requests. Only `GET` requests are retried unless
+     * `retry_non_idempotent` is set.
+     *
+     * Defaults to `null` (no retries)
+     */
+    retry?: RetryPolicy | null;
+    /**
+     * Throttle requests on the client to stay within the API rate limits. Pass a map of
+     * route family to {@link RateLimit} to override the default limits or `false` to disable it.
+     * Requests over the limit are queued instead of failing.
+     *
+     * Defaults to `true`
+     */
+    rate_limit?: boolean | { [family: string]: RateLimit };
+};
+
+/**
+ * Represents the rate limit of a family of routes.
+ *
+ * @remarks
+ * A family is a `ROUTES` key prefix, for example `market.quote` covers `market.quote`,
+ * `market.quote.ohlc` and `market.quote.ltp`, and `order` covers every `order.*` route.
+ * Routes that don't belong to any family use the `default` limit.
+ *
+ * @public
+ * @name RateLimit
+ */
+export interface RateLimit {
+    /**
+     * Requests allowed per second
+     */
+    rate: number;
+    /**
+     * Maximum number of requests that can be sent at once. Defaults to `rate`.
+     */
+    burst?: number;
+};
+
+/**
+ * Represents the rate limiter metrics of a family of routes.
+ *
+ * @public
+ * @name RateLimitMetrics
+ */
+export interface RateLimitMetrics {
+    /**
+     * Number of requests waiting for a slot
+     */
+    queue_depth: number;
+    /**
+     * Number of requests sent
+     */
+    total_requests: number;
+    /**
+     * Number of requests that had to wait for a slot
+     */
+    throttled_requests: number;
+    /**
+     * Total time (milliseconds) spent waiting by all requests
+     */
+    total_wait_time: number;
+    /**
+     * Average time (milliseconds) a request waited
+     */
+    average_wait_time: number;
+    /**
+     * Longest time (milliseconds) a request waited
+     */
+    max_wait_time: number;
+};
+
+/**
+ * Represents the retry policy of the API client.
+ *
+ * @remarks
+ * Failed attempts are retried with exponential backoff: the n-th retry waits
+ * `initial_delay * multiplier^(n-1)` milliseconds, capped at `max_delay`.
+ * With `jitter` enabled a random delay between zero and that value is used instead.
+ *
+ * @public
+ * @name RetryPolicy
+ */
+export interface RetryPolicy {
+    /**
+     * Maximum number of attempts including the first one.
+     *
+     * Defaults to `3`
+     */
+    max_attempts?: number;
+    /**
+     * Delay (milliseconds) before the first retry.
+     *
+     * Defaults to `500`
+     */
+    initial_delay?: number;
+    /**
+     * Maximum delay (milliseconds) between two attempts.
+     *
+     * Defaults to `5000`
+     */
+    max_delay?: number;
+    /**
+     * Factor by which the delay grows after every retry.
+     *
+     * Defaults to `2`
+     */
+    multiplier?: number;
+    /**
+     * Randomise the delay between zero and the computed backoff.
+     *
+     * Defaults to `true`
+     */
+    jitter?: boolean;
+    /**
+     * Error types that are retried.
+     *
+     * Defaults to `['NetworkException']`
+     */
+    retry_error_types?: string[];
+    /**
+     * HTTP status codes that are retried.
+     *
+     * Defaults to `[429, 500, 502, 503, 504]`
+     */
+    retry_statuses?: number[];
+    /**
+     * Custom predicate deciding whether a failed attempt is retried. When set,
+     * it replaces the `retry_error_types` and `retry_statuses` checks.
+     */
+    retry_on?: (error_type: string, status: number | null, attempt: number) => boolean;
+    /**
+     * Also retry `POST`, `PUT` and `DELETE` requests. Retrying order placement
+     * may result in duplicate orders, so enable this only if you know what you're doing.
+     *
+     * Defaults to `false`
+     */
+    retry_non_idempotent?: boolean;
 };
 
 /**
@@ -304,17 +443,19 @@ export interface Order {
      */
     status_message_raw?: string;
     /**
-     * @type {?(string | Date)}
+     * Converted to a `Date` object by the client.
+     * @type {?Date}
      */
-    order_timestamp?: string | Date;
+    order_timestamp?: Date;
     /**
-     * @type {?(string | Date)}
+     * @type {?(string | null)}
      */
-    exchange_update_timestamp?: string | Date;
+    exchange_update_timestamp?: string | null;
     /**
-     * @type {?(string | Date)}
+     * Converted to a `Date` object by the client. Orders that don't reach the exchange have null timestamps.
+     * @type {?(Date | null)}
      */
-    exchange_timestamp?: string | Date;
+    exchange_timestamp?: Date | null;
     /**
      * @type {?Varieties}
      */
@@ -491,6 +632,36 @@ export interface getHistoricalDataParms {
     oi?: boolean;
 };
 
+/**
+ * Represents options for fetching historical data over a long range.
+ *
+ * @remarks
+ * This interface defines the options accepted by `getHistoricalDataRange`.
+ *
+ * @public
+ * @name HistoricalDataRangeOptions
+ */
+export interface HistoricalDataRangeOptions {
+    /**
+     * Fetch continuous data for expired futures contracts.
+     *
+     * Defaults to `false`
+     */
+    continuous?: boolean;
+    /**
+     * Include open interest in the candles.
+     *
+     * Defaults to `false`
+     */
+    oi?: boolean;
+    /**
+     * Maximum number of window requests in flight at once.
+     *
+     * Defaults to `3`
+     */
+    concurrency?: number;
+};
+
 /**
  * Represents parameters for modifying a GTT (Good 'Til Triggered) order.
  *
@@ -793,6 +964,30 @@ export interface PlaceOrderParams {
      * @type {?number}
      */
     price?: number;
+    /**
+     * Price at which SL and SL-M orders are triggered
+     * @type {?number}
+     */
+    trigger_price?: number;
+    /**
+     * @type {?number}
+     */
+    disclosed_quantity?: number;
+    /**
+     * Minutes the order stays open with the `TTL` validity
+     * @type {?number}
+     */
+    validity_ttl?: number;
+    /**
+     * Number of legs of an iceberg order
+     * @type {?number}
+     */
+    iceberg_legs?: number;
+    /**
+     * Quantity of each leg of an iceberg order
+     * @type {?number}
+     */
+    iceberg_quantity?: number;
     /**
      * @type {?string}
      */
@@ -896,4 +1091,878 @@ export type MarginOrder = {
      * Average price at which the order was executed (Note: Should be non-zero).
      */
     average_price: number;
-  };
\ No newline at end of file
+  };
+
+/**
+ * Represents the session data returned after a successful login.
+ *
+ * @remarks
+ * `login_time` is converted to a `Date` object by the client.
+ *
+ * @public
+ * @name SessionData
+ */
+export interface SessionData {
+    /**
+     * The unique, permanent user id registered with the broker and the exchanges
+     */
+    user_id: string;
+    /**
+     * User's real name
+     */
+    user_name: string;
+    /**
+     * Shortened version of the user's real name
+     */
+    user_shortname: string;
+    /**
+     * User's email
+     */
+    email: string;
+    /**
+     * User's registered role at the broker. This will be `individual` for all retail users
+     */
+    user_type: string;
+    /**
+     * The broker ID
+     */
+    broker: string;
+    /**
+     * Exchanges enabled for trading on the user's account
+     */
+    exchanges: string[];
+    /**
+     * Margin product types enabled for the user
+     */
+    products: string[];
+    /**
+     * Order types enabled for the user
+     */
+    order_types: string[];
+    /**
+     * The API key for which the authentication was performed
+     */
+    api_key: string;
+    /**
+     * The authentication token that's used with every subsequent request
+     */
+    access_token: string;
+    /**
+     * A token for public session validation where requests may be exposed to the public
+     */
+    public_token: string;
+    /**
+     * A token for getting long standing read permissions. This is only available to certain approved platforms
+     */
+    refresh_token: string;
+    /**
+     * User's last login time
+     */
+    login_time: Date;
+    /**
+     * Additional user metadata
+     */
+    meta: {
+        /**
+         * empty, consent or physical
+         */
+        demat_consent: string;
+    };
+    /**
+     * Full URL to the user's avatar (PNG image) if there's one
+     */
+    avatar_url: string | null;
+};
+
+/**
+ * Represents the user profile.
+ *
+ * @public
+ * @name Profile
+ */
+export interface Profile {
+    /**
+     * The unique, permanent user id registered with the broker and the exchanges
+     */
+    user_id: string;
+    /**
+     * User's real name
+     */
+    user_name: string;
+    /**
+     * Shortened version of the user's real name
+     */
+    user_shortname: string;
+    /**
+     * User's email
+     */
+    email: string;
+    /**
+     * User's registered role at the broker. This will be `individual` for all retail users
+     */
+    user_type: string;
+    /**
+     * The broker ID
+     */
+    broker: string;
+    /**
+     * Exchanges enabled for trading on the user's account
+     */
+    exchanges: string[];
+    /**
+     * Margin product types enabled for the user
+     */
+    products: string[];
+    /**
+     * Order types enabled for the user
+     */
+    order_types: string[];
+    /**
+     * Additional user metadata
+     */
+    meta: {
+        /**
+         * empty, consent or physical
+         */
+        demat_consent: string;
+    };
+    /**
+     * Full URL to the user's avatar (PNG image) if there's one
+     */
+    avatar_url: string | null;
+};
+
+/**
+ * Represents the funds and margin details of a single segment.
+ *
+ * @public
+ * @name UserMargin
+ */
+export interface UserMargin {
+    /**
+     * Indicates whether the segment is enabled for the user
+     */
+    enabled: boolean;
+    /**
+     * Net cash balance available for trading (`intraday_payin` + `adhoc_margin` + `collateral`)
+     */
+    net: number;
+    /**
+     * Available funds
+     */
+    available: {
+        adhoc_margin: number;
+        cash: number;
+        opening_balance: number;
+        live_balance: number;
+        collateral: number;
+        intraday_payin: number;
+    };
+    /**
+     * Utilised funds
+     */
+    utilised: {
+        debits: number;
+        exposure: number;
+        m2m_realised: number;
+        m2m_unrealised: number;
+        option_premium: number;
+        payout: number;
+        span: number;
+        holding_sales: number;
+        turnover: number;
+        liquid_collateral: number;
+        stock_collateral: number;
+        delivery: number;
+    };
+};
+
+/**
+ * Represents the funds and margin details across segments.
+ *
+ * @public
+ * @name Margins
+ */
+export interface Margins {
+    /**
+     * Equity segment margins
+     */
+    equity?: UserMargin;
+    /**
+     * Commodity segment margins
+     */
+    commodity?: UserMargin;
+};
+
+/**
+ * Represents the response of an order placement, modification or cancellation.
+ *
+ * @public
+ * @name OrderResponse
+ */
+export interface OrderResponse {
+    /**
+     * Unique order ID
+     */
+    order_id: string;
+};
+
+/**
+ * Represents a trade (fill) in the tradebook.
+ *
+ * @remarks
+ * `fill_timestamp`, `order_timestamp` and `exchange_timestamp` are converted to `Date` objects by the client.
+ *
+ * @public
+ * @name Trade
+ */
+export interface Trade {
+    /**
+     * Exchange generated trade ID
+     */
+    trade_id: string;
+    /**
+     * Unique order ID
+     */
+    order_id: string;
+    /**
+     * Exchange generated order ID
+     */
+    exchange_order_id: string | null;
+    /**
+     * Exchange tradingsymbol of the instrument
+     */
+    tradingsymbol: string;
+    /**
+     * Exchange
+     */
+    exchange: Exchanges;
+    /**
+     * The numerical identifier issued by the exchange representing the instrument
+     */
+    instrument_token: number;
+    /**
+     * BUY or SELL
+     */
+    transaction_type: TransactionTypes;
+    /**
+     * Margin product used for the order
+     */
+    product: Products;
+    /**
+     * Price at which the quantity was filled
+     */
+    average_price: number;
+    /**
+     * Filled quantity
+     */
+    quantity: number;
+    /**
+     * Date at which the trade was filled at the exchange
+     */
+    fill_timestamp: Date;
+    /**
+     * Date at which the order was registered by the API
+     */
+    order_timestamp: Date;
+    /**
+     * Date at which the order was registered by the exchange
+     */
+    exchange_timestamp: Date;
+};
+
+/**
+ * Represents a position in the portfolio.
+ *
+ * @public
+ * @name Position
+ */
+export interface Position {
+    tradingsymbol: string;
+    exchange: Exchanges;
+    instrument_token: number;
+    product: Products;
+    /**
+     * Quantity held
+     */
+    quantity: number;
+    /**
+     * Quantity held previously and carried forward over night
+     */
+    overnight_quantity: number;
+    /**
+     * The quantity/lot size multiplier used for calculating P&Ls
+     */
+    multiplier: number;
+    average_price: number;
+    close_price: number;
+    last_price: number;
+    value: number;
+    pnl: number;
+    m2m: number;
+    unrealised: number;
+    realised: number;
+    buy_quantity: number;
+    buy_price: number;
+    buy_value: number;
+    buy_m2m: number;
+    day_buy_quantity: number;
+    day_buy_price: number;
+    day_buy_value: number;
+    sell_quantity: number;
+    sell_price: number;
+    sell_value: number;
+    sell_m2m: number;
+    day_sell_quantity: number;
+    day_sell_price: number;
+    day_sell_value: number;
+};
+
+/**
+ * Represents the net and day positions.
+ *
+ * @public
+ * @name Positions
+ */
+export interface Positions {
+    /**
+     * Actual, current net position portfolio
+     */
+    net: Position[];
+    /**
+     * Snapshot of the buying and selling activity for the day
+     */
+    day: Position[];
+};
+
+/**
+ * Represents a holding in the equity portfolio.
+ *
+ * @public
+ * @name Holding
+ */
+export interface Holding {
+    tradingsymbol: string;
+    exchange: Exchanges;
+    instrument_token: number;
+    /**
+     * The standard ISIN representing stocks listed on multiple exchanges
+     */
+    isin: string;
+    product: Products;
+    price: number;
+    /**
+     * Net quantity (T+1 + realised)
+     */
+    quantity: number;
+    used_quantity: number;
+    t1_quantity: number;
+    realised_quantity: number;
+    authorised_quantity: number;
+    authorised_date: string;
+    opening_quantity: number;
+    collateral_quantity: number;
+    collateral_type: string;
+    discrepancy: boolean;
+    average_price: number;
+    last_price: number;
+    close_price: number;
+    pnl: number;
+    day_change: number;
+    day_change_percentage: number;
+};
+
+/**
+ * Represents an instrument available for an auction session.
+ *
+ * @public
+ * @name AuctionInstrument
+ */
+export interface AuctionInstrument extends Holding {
+    /**
+     * Auction number to be used while placing an auction order
+     */
+    auction_number: string;
+};
+
+/**
+ * Represents an instrument from the instrument master.
+ *
+ * @remarks
+ * Numeric columns are parsed and `expiry` is converted to a `Date` object by the client.
+ *
+ * @public
+ * @name Instrument
+ */
+export interface Instrument {
+    /**
+     * Numerical identifier used for subscribing to live market quotes with the WebSocket API
+     */
+    instrument_token: string;
+    /**
+     * The numerical identifier issued by the exchange representing the instrument
+     */
+    exchange_token: string;
+    tradingsymbol: string;
+    /**
+     * Name of the company (for equity instruments)
+     */
+    name: string;
+    last_price: number;
+    /**
+     * Expiry date (for derivatives). Empty string for instruments that don't expire.
+     */
+    expiry: Date | string;
+    /**
+     * Strike (for options)
+     */
+    strike: number;
+    /**
+     * Value of a single price tick
+     */
+    tick_size: number;
+    /**
+     * Quantity of a single lot
+     */
+    lot_size: number;
+    /**
+     * EQ, FUT, CE, PE
+     */
+    instrument_type: string;
+    segment: string;
+    exchange: Exchanges;
+};
+
+/**
+ * Represents a single historical candle.
+ *
+ * @public
+ * @name HistoricalData
+ */
+export interface HistoricalData {
+    /**
+     * Timestamp of the candle
+     */
+    date: Date;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    /**
+     * Open Interest (only when requested with `oi` for F&O instruments)
+     */
+    oi?: number;
+};
+
+/**
+ * Represents the OHLC of an instrument.
+ *
+ * @public
+ * @name OHLC
+ */
+export interface OHLC {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+};
+
+/**
+ * Represents a single level of market depth.
+ *
+ * @public
+ * @name QuoteDepthLevel
+ */
+export interface QuoteDepthLevel {
+    price: number;
+    quantity: number;
+    orders: number;
+};
+
+/**
+ * Represents the LTP quote of an instrument.
+ *
+ * @public
+ * @name LTPQuote
+ */
+export interface LTPQuote {
+    instrument_token: number;
+    last_price: number;
+};
+
+/**
+ * Represents the range trigger prices of an instrument are accepted within.
+ *
+ * @public
+ * @name TriggerRange
+ */
+export interface TriggerRange {
+    instrument_token: number;
+    lower: number;
+    upper: number;
+    /**
+     * Distance of the bounds from the last price, in percent
+     */
+    percentage: number;
+};
+
+/**
+ * Represents the OHLC quote of an instrument.
+ *
+ * @public
+ * @name OHLCQuote
+ */
+export interface OHLCQuote extends LTPQuote {
+    ohlc: OHLC;
+};
+
+/**
+ * Represents the full market quote of an instrument.
+ *
+ * @remarks
+ * `timestamp` and `last_trade_time` are converted to `Date` objects by the client.
+ *
+ * @public
+ * @name Quote
+ */
+export interface Quote extends OHLCQuote {
+    /**
+     * Exchange timestamp of the quote packet
+     */
+    timestamp: Date;
+    /**
+     * Last trade timestamp
+     */
+    last_trade_time: Date;
+    last_quantity: number;
+    average_price: number;
+    volume: number;
+    buy_quantity: number;
+    sell_quantity: number;
+    net_change: number;
+    lower_circuit_limit: number;
+    upper_circuit_limit: number;
+    oi: number;
+    oi_day_high: number;
+    oi_day_low: number;
+    depth: {
+        buy: QuoteDepthLevel[];
+        sell: QuoteDepthLevel[];
+    };
+};
+
+/**
+ * Represents a mutual fund order.
+ *
+ * @remarks
+ * `order_timestamp` and `exchange_timestamp` are converted to `Date` objects by the client.
+ *
+ * @public
+ * @name MFOrder
+ */
+export interface MFOrder {
+    order_id: string;
+    exchange_order_id: string | null;
+    /**
+     * ISIN of the fund
+     */
+    tradingsymbol: string;
+    status: string;
+    status_message: string | null;
+    folio: string | null;
+    fund: string;
+    order_timestamp: Date;
+    exchange_timestamp: Date | null;
+    settlement_id: string | null;
+    transaction_type: TransactionTypes;
+    amount: number;
+    variety: string;
+    purchase_type: string | null;
+    quantity: number;
+    price: number;
+    last_price: number;
+    average_price: number;
+    placed_by: string;
+    last_price_date: string;
+    tag: string | null;
+};
+
+/**
+ * Represents a mutual fund SIP.
+ *
+ * @remarks
+ * `created` and `last_instalment` are converted to `Date` objects by the client.
+ *
+ * @public
+ * @name MFSIP
+ */
+export interface MFSIP {
+    sip_id: string;
+    /**
+     * ISIN of the fund
+     */
+    tradingsymbol: string;
+    fund: string;
+    dividend_type: string;
+    transaction_type: TransactionTypes;
+    /**
+     * ACTIVE, PAUSED or CANCELLED
+     */
+    status: string;
+    created: Date;
+    /**
+     * monthly, weekly or quarterly
+     */
+    frequency: string;
+    next_instalment: string;
+    instalment_amount: number;
+    /**
+     * Number of instalments (-1 in case of SIPs active until cancelled)
+     */
+    instalments: number;
+    last_instalment: Date;
+    pending_instalments: number;
+    instalment_day: number;
+    completed_instalments: number;
+    tag: string | null;
+    sip_reg_num: string | null;
+    trigger_price: number;
+    step_up: Record<string, number>;
+    sip_type: string;
+};
+
+/**
+ * Represents a mutual fund holding.
+ *
+ * @public
+ * @name MFHolding
+ */
+export interface MFHolding {
+    folio: string | null;
+    fund: string;
+    /**
+     * ISIN of the fund
+     */
+    tradingsymbol: string;
+    average_price: number;
+    last_price: number;
+    last_price_date: string;
+    pledged_quantity: number;
+    pnl: number;
+    quantity: number;
+};
+
+/**
+ * Represents a mutual fund instrument.
+ *
+ * @remarks
+ * Numeric and boolean columns are parsed and `last_price_date` is converted to a `Date` object by the client.
+ *
+ * @public
+ * @name MFInstrument
+ */
+export interface MFInstrument {
+    /**
+     * ISIN of the fund
+     */
+    tradingsymbol: string;
+    amc: string;
+    name: string;
+    purchase_allowed: boolean;
+    redemption_allowed: boolean;
+    minimum_purchase_amount: number;
+    purchase_amount_multiplier: number;
+    minimum_additional_purchase_amount: number;
+    minimum_redemption_quantity: number;
+    redemption_quantity_multiplier: number;
+    dividend_type: string;
+    scheme_type: string;
+    plan: string;
+    settlement_type: string;
+    last_price: number;
+    last_price_date: Date | string;
+};
+
+/**
+ * Represents the response of a mutual fund order placement or cancellation.
+ *
+ * @public
+ * @name MFOrderResponse
+ */
+export interface MFOrderResponse {
+    order_id: string;
+};
+
+/**
+ * Represents the response of a SIP placement, modification or cancellation.
+ *
+ * @public
+ * @name MFSIPResponse
+ */
+export interface MFSIPResponse {
+    sip_id: string;
+};
+
+/**
+ * Represents a GTT (Good Till Triggered) trigger.
+ *
+ * @public
+ * @name GTT
+ */
+export interface GTT {
+    id: number;
+    user_id: string;
+    parent_trigger: number | null;
+    type: GTTStatusTypes.GTT_TYPE_OCO | GTTStatusTypes.GTT_TYPE_SINGLE;
+    created_at: string;
+    updated_at: string;
+    expires_at: string;
+    /**
+     * active, triggered, disabled, expired, cancelled, rejected or deleted
+     */
+    status: string;
+    condition: {
+        exchange: Exchanges;
+        last_price: number;
+        tradingsymbol: string;
+        trigger_values: number[];
+        instrument_token: number;
+    };
+    orders: {
+        exchange: Exchanges;
+        tradingsymbol: string;
+        product: Products;
+        order_type: OrderTypes;
+        transaction_type: TransactionTypes;
+        quantity: number;
+        price: number;
+        result: AnyObject | null;
+    }[];
+    meta: AnyObject | null;
+};
+
+/**
+ * Represents the response of a GTT placement, modification or deletion.
+ *
+ * @public
+ * @name GTTResponse
+ */
+export interface GTTResponse {
+    trigger_id: number;
+};
+
+/**
+ * Represents the charges applied to an order.
+ *
+ * @public
+ * @name OrderCharges
+ */
+export interface OrderCharges {
+    /**
+     * Tax levied for each transaction on the exchanges
+     */
+    transaction_tax: number;
+    /**
+     * Type of transaction tax (stt or ctt)
+     */
+    transaction_tax_type: string;
+    /**
+     * Charge levied by the exchange on the total turnover of the day
+     */
+    exchange_turnover_charge: number;
+    /**
+     * Charge levied by SEBI on the total turnover of the day
+     */
+    sebi_turnover_charge: number;
+    /**
+     * The brokerage charge for a particular trade
+     */
+    brokerage: number;
+    /**
+     * Duty levied on the transaction value by Government of India
+     */
+    stamp_duty: number;
+    gst: {
+        igst: number;
+        cgst: number;
+        sgst: number;
+        total: number;
+    };
+    /**
+     * Total charges
+     */
+    total: number;
+};
+
+/**
+ * Represents the margin required for an order.
+ *
+ * @public
+ * @name OrderMargin
+ */
+export interface OrderMargin {
+    /**
+     * equity or commodity
+     */
+    type: string;
+    tradingsymbol: string;
+    exchange: Exchanges;
+    span: number;
+    exposure: number;
+    option_premium: number;
+    additional: number;
+    bo: number;
+    cash: number;
+    var: number;
+    pnl: {
+        realised: number;
+        unrealised: number;
+    };
+    leverage: number;
+    charges: OrderCharges;
+    total: number;
+};
+
+/**
+ * Represents the margin required for a basket of orders.
+ *
+ * @public
+ * @name BasketMargin
+ */
+export interface BasketMargin {
+    /**
+     * Total margin required to execute the basket
+     */
+    initial: OrderMargin;
+    /**
+     * Total margin required after considering existing positions
+     */
+    final: OrderMargin;
+    /**
+     * Margins for individual orders
+     */
+    orders: OrderMargin[];
+    /**
+     * Charges for individual orders
+     */
+    charges: OrderCharges;
+};
+
+/**
+ * Represents a single order in the virtual contract note.
+ *
+ * @public
+ * @name VirtualContractNote
+ */
+export interface VirtualContractNote {
+    transaction_type: TransactionTypes;
+    tradingsymbol: string;
+    exchange: Exchanges;
+    variety: Varieties;
+    product: Products;
+    order_type: OrderTypes;
+    quantity: number;
+    price: number;
+    charges: OrderCharges;
+};
@@ -0,0 +1,69 @@
+/**
+ * Represents the context attached to a Kite Connect error.
+ *
+ * @remarks
+ * This interface defines the optional details that are captured when an API call fails.
+ *
+ * @public
+ * @name KiteErrorParams
+ */
+export interface KiteErrorParams {
+    /**
+     * Exception type reported by the API (eg. TokenException, InputException)
+     */
+    error_type?: string;
+    /**
+     * HTTP status code of the response. `null` when no response was received.
+     */
+    status?: number | null;
+    /**
+     * Request id sent by the API in the `X-Request-Id` response header, if any.
+     */
+    request_id?: string | null;
+    /**
+     * Name of the route in `ROUTES` that was requested (eg. `order.place`)
+     */
+    route?: string | null;
+    /**
+     * The `data` field of the error response
+     */
+    data?: unknown;
+    /**
+     * The original error payload or underlying error
+     */
+    payload?: unknown;
+};
+
+/**
+ * Represents a failed batch of a request split into several API calls.
+ *
+ * @public
+ * @name BatchFailure
+ */
+export interface BatchFailure {
+    /**
+     * Instruments requested by the failed batch
+     */
+    instruments: string[];
+    /**
+     * Error the batch failed with
+     */
+    error: unknown;
+};
+
+/**
+ * Represents the error a ticker emits with the `failed` event when it gives up reconnecting.
+ *
+ * @public
+ * @name TickerError
+ */
+export interface TickerError extends Error {
+    /**
+     * Always `TickerException`
+     */
+    error_type: string;
+    /**
+     * Number of reconnection attempts made
+     */
+    reconnect_count: number;
+};
@@ -0,0 +1,131 @@
+import { Exchanges, PlaceOrderParams, TransactionTypes, Varieties } from './connect';
+
+/**
+ * Execution algorithm of an `ExecutionReport`.
+ *
+ * @public
+ * @name ExecutionAlgo
+ */
+export type ExecutionAlgo = 'peg' | 'twap' | 'vwap';
+
+/**
+ * Represents the order an execution algorithm works.
+ *
+ * @public
+ * @name AlgoOrderParams
+ */
+export interface AlgoOrderParams extends Pick<PlaceOrderParams, 'exchange' | 'tradingsymbol' | 'transaction_type' | 'quantity' | 'product' | 'tag'> {
+    /**
+     * Token of the instrument, its ticks are the quotes the orders are priced with
+     */
+    instrument_token: number;
+    /**
+     * Defaults to `regular`
+     */
+    variety?: Varieties;
+};
+
+/**
+ * Represents the options of a limit order pegged to the best bid or ask.
+ *
+ * @public
+ * @name PegOptions
+ */
+export interface PegOptions {
+    /**
+     * Largest distance of the limit price from the arrival price, as a fraction of it. Defaults to `0.005`.
+     */
+    max_slippage?: number;
+    /**
+     * Milliseconds, including the wait for a quote, the order is pegged before it is converted to
+     * a MARKET order. Defaults to `30000`.
+     */
+    timeout?: number;
+    /**
+     * Convert the order to a MARKET order on timeout, or cancel its remaining quantity. Defaults to `true`.
+     */
+    market_on_timeout?: boolean;
+    /**
+     * Least milliseconds between two modifications of the order. Defaults to `1000`.
+     */
+    reprice_interval?: number;
+    /**
+     * Defaults to `0.05`
+     */
+    tick_size?: number;
+};
+
+/**
+ * Represents the options of an order sliced over time, each slice pegged until the next one is due.
+ *
+ * @public
+ * @name ScheduleOptions
+ */
+export interface ScheduleOptions extends Omit<PegOptions, 'timeout'> {
+    /**
+     * Milliseconds the order is worked over
+     */
+    duration: number;
+    /**
+     * Slices are whole lots. Defaults to `1`.
+     */
+    lot_size?: number;
+};
+
+/**
+ * Represents the options of a TWAP order, sliced into equal parts at equal intervals.
+ *
+ * @public
+ * @name TwapOptions
+ */
+export interface TwapOptions extends ScheduleOptions {
+    slices: number;
+};
+
+/**
+ * Represents the options of a VWAP order, sliced at equal intervals in proportion to a volume profile.
+ *
+ * @public
+ * @name VwapOptions
+ */
+export interface VwapOptions extends ScheduleOptions {
+    /**
+     * Expected traded volume of each interval, eg. from the candles of earlier days
+     */
+    volume_profile: number[];
+};
+
+/**
+ * Represents the outcome of an execution algorithm.
+ *
+ * @public
+ * @name ExecutionReport
+ */
+export interface ExecutionReport {
+    algo: ExecutionAlgo;
+    exchange: Exchanges;
+    tradingsymbol: string;
+    transaction_type: TransactionTypes;
+    quantity: number;
+    filled_quantity: number;
+    average_price: number;
+    /**
+     * Mid price, or last price without a two sided quote, when the algorithm started
+     */
+    arrival_price: number;
+    /**
+     * Average price relative to the arrival price per unit, positive when worse
+     */
+    slippage: number;
+    /**
+     * Slippage in basis points of the arrival price
+     */
+    slippage_bps: number;
+    order_ids: string[];
+    /**
+     * Number of orders converted to MARKET orders on timeout
+     */
+    market_orders: number;
+    started_at: Date;
+    finished_at: Date;
+};
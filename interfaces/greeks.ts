@@ -0,0 +1,99 @@
+/**
+ * Pricing model: Black-Scholes for options on the spot price, Black-76 for options on a futures price.
+ *
+ * @public
+ * @name PricingModel
+ */
+export type PricingModel = 'black-scholes' | 'black-76';
+
+/**
+ * Represents parameters for the greeks calculator.
+ *
+ * @public
+ * @name GreeksParams
+ */
+export interface GreeksParams {
+    /**
+     * Annualised, continuously compounded risk-free rate.
+     *
+     * Defaults to `0.065`
+     */
+    risk_free_rate?: number;
+    /**
+     * Annualised, continuously compounded dividend yield of the underlying. Not used by Black-76.
+     *
+     * Defaults to `0`
+     */
+    dividend_yield?: number;
+    /**
+     * Defaults to `black-scholes`
+     */
+    model?: PricingModel;
+    /**
+     * Time of day the contracts expire at, in `HH:MM` IST.
+     *
+     * Defaults to `15:30`
+     */
+    expiry_time?: string;
+};
+
+/**
+ * Represents the inputs of an option pricing calculation.
+ *
+ * @public
+ * @name OptionPricingInput
+ */
+export interface OptionPricingInput {
+    option_type: 'CE' | 'PE';
+    /**
+     * Spot price for Black-Scholes, futures price for Black-76
+     */
+    underlying_price: number;
+    strike: number;
+    /**
+     * Time to expiry in years
+     */
+    time_to_expiry: number;
+    /**
+     * Annualised volatility, eg. `0.15` for 15%
+     */
+    volatility: number;
+    risk_free_rate: number;
+    dividend_yield: number;
+    model: PricingModel;
+};
+
+/**
+ * Represents the theoretical price and greeks of an option.
+ *
+ * @remarks
+ * Theta is per calendar day, vega and rho are per 1% change in volatility and rate.
+ *
+ * @public
+ * @name OptionGreeks
+ */
+export interface OptionGreeks {
+    price: number;
+    delta: number;
+    gamma: number;
+    theta: number;
+    vega: number;
+    rho: number;
+};
+
+/**
+ * Represents the implied volatility and greeks of a traded option.
+ *
+ * @public
+ * @name OptionAnalytics
+ */
+export interface OptionAnalytics extends OptionGreeks {
+    /**
+     * Annualised implied volatility solved from the option price
+     */
+    implied_volatility: number;
+    /**
+     * Time to expiry in years
+     */
+    time_to_expiry: number;
+};
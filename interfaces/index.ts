@@ -1,3 +1,20 @@
 export * from './connect';
 export * from './any-object';
-export * from './ticker';
\ No newline at end of file
+export * from './ticker';
+export * from './errors';
+export * from './candle-store';
+export * from './instrument-store';
+export * from './option-chain';
+export * from './greeks';
+export * from './ticker-pool';
+export * from './tick-recorder';
+export * from './mock-ticker-server';
+export * from './mock-kite-server';
+export * from './paper-kite-connect';
+export * from './order-tracker';
+export * from './protection-manager';
+export * from './order-validator';
+export * from './order-slicer';
+export * from './basket-executor';
+export * from './execution-algos';
+export * from './charges';
\ No newline at end of file
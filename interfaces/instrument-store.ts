@@ -0,0 +1,48 @@
+import { Exchanges } from './connect';
+
+/**
+ * Represents parameters for the instrument store.
+ *
+ * @remarks
+ * This interface defines the parameters required to initialize an `InstrumentStore`.
+ *
+ * @public
+ * @name InstrumentStoreParams
+ */
+export interface InstrumentStoreParams {
+    /**
+     * Directory the instrument master is cached in. The master is only kept in memory when not set.
+     */
+    directory?: string;
+    /**
+     * Exchanges to load the instruments of. All exchanges are loaded when not set.
+     */
+    exchanges?: Exchanges[];
+};
+
+/**
+ * Represents a filter over the derivatives of an underlying.
+ *
+ * @public
+ * @name DerivativeQuery
+ */
+export interface DerivativeQuery {
+    /**
+     * Expiry date, either as returned by the store or in `YYYY-MM-DD` format.
+     */
+    expiry?: Date | string;
+    /**
+     * Strike price (for options)
+     */
+    strike?: number;
+    /**
+     * CE, PE or FUT
+     */
+    instrument_type?: 'CE' | 'PE' | 'FUT';
+    /**
+     * Include contracts that have expired before today.
+     *
+     * Defaults to `false`
+     */
+    include_expired?: boolean;
+};
@@ -0,0 +1,69 @@
+import { AnyObject } from './any-object';
+
+/**
+ * Represents the parameters of a mock Kite Connect server.
+ *
+ * @public
+ * @name MockKiteServerParams
+ */
+export interface MockKiteServerParams {
+    /**
+     * Port to listen on. Defaults to `0`, a free port.
+     */
+    port?: number;
+    /**
+     * Directory with the kiteconnect-mocks fixtures, eg. `test/kiteconnect-mocks`. Routes without
+     * a fixture or a response set with `setResponse` answer with a 404 error.
+     */
+    fixtures?: string;
+    /**
+     * Only accept requests with this access token. All requests are accepted when not set.
+     */
+    access_token?: string;
+    /**
+     * Milliseconds every response is delayed by. Defaults to `0`.
+     */
+    latency?: number;
+};
+
+/**
+ * Represents an error injected into the responses of a mock Kite Connect server.
+ *
+ * @public
+ * @name MockKiteFailure
+ */
+export interface MockKiteFailure {
+    /**
+     * HTTP status of the response
+     */
+    status: number;
+    /**
+     * Exception type of the response. Defaults to `TokenException` for 403, `InputException` for
+     * other 4xx statuses, `GeneralException` for 500 and `NetworkException` otherwise.
+     */
+    error_type?: string;
+    message?: string;
+    /**
+     * Number of requests that fail. Defaults to 1.
+     */
+    times?: number;
+};
+
+/**
+ * Represents a request received by a mock Kite Connect server.
+ *
+ * @public
+ * @name MockKiteRequest
+ */
+export interface MockKiteRequest {
+    method: string;
+    /**
+     * Name of the route in `ROUTES`
+     */
+    route: string;
+    path: string;
+    /**
+     * Path, query and body parameters
+     */
+    params: AnyObject;
+};
@@ -0,0 +1,48 @@
+import { FullTick } from './ticker';
+
+/**
+ * Represents the parameters of a mock ticker server.
+ *
+ * @public
+ * @name MockTickerServerParams
+ */
+export interface MockTickerServerParams {
+    /**
+     * Port to listen on. Defaults to `0`, a free port.
+     */
+    port?: number;
+    /**
+     * Only accept connections with this access token. All connections are accepted when not set.
+     */
+    access_token?: string;
+    /**
+     * Milliseconds between heartbeats, `0` disables them. Defaults to 1000.
+     */
+    heartbeat_interval?: number;
+};
+
+/**
+ * Represents a tick sent by the mock ticker server. Fields that are not set are sent as `0`.
+ *
+ * @public
+ * @name MockTick
+ */
+export type MockTick = Partial<Omit<FullTick, 'tradable' | 'mode' | 'change'>> & {
+    instrument_token: number;
+    last_price: number;
+};
+
+/**
+ * Represents a client connected to the mock ticker server.
+ *
+ * @public
+ * @name MockTickerConnection
+ */
+export interface MockTickerConnection {
+    api_key: string;
+    access_token: string;
+    /**
+     * Subscribed instrument tokens and their modes
+     */
+    subscriptions: { [instrument_token: number]: string };
+};
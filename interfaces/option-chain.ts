@@ -0,0 +1,86 @@
+import { Instrument, QuoteDepthLevel } from './connect';
+import { OptionAnalytics } from './greeks';
+
+/**
+ * Represents the options of an option chain request.
+ *
+ * @public
+ * @name OptionChainParams
+ */
+export interface OptionChainParams {
+    /**
+     * Only include this many strikes on either side of the at-the-money strike. All strikes are included when not set.
+     */
+    strikes_around?: number;
+    /**
+     * Price of the underlying used to find the at-the-money strike. The last price of the
+     * nearest futures contract is used when not set.
+     */
+    spot?: number;
+};
+
+/**
+ * Represents one option contract of an option chain.
+ *
+ * @public
+ * @name OptionChainLeg
+ */
+export interface OptionChainLeg {
+    instrument: Instrument;
+    last_price: number;
+    oi: number;
+    volume: number;
+    /**
+     * Best bid price, `0` when there are no bids
+     */
+    bid: number;
+    /**
+     * Best ask price, `0` when there are no asks
+     */
+    ask: number;
+    depth: {
+        buy: QuoteDepthLevel[];
+        sell: QuoteDepthLevel[];
+    };
+    /**
+     * Implied volatility and greeks, set by `GreeksCalculator.forChain`
+     */
+    greeks?: OptionAnalytics | null;
+};
+
+/**
+ * Represents the call and put of a strike.
+ *
+ * @public
+ * @name OptionChainRow
+ */
+export interface OptionChainRow {
+    strike: number;
+    /**
+     * Call option, `null` when not listed or not quoted
+     */
+    CE: OptionChainLeg | null;
+    /**
+     * Put option, `null` when not listed or not quoted
+     */
+    PE: OptionChainLeg | null;
+};
+
+/**
+ * Represents the option chain of an underlying for an expiry.
+ *
+ * @public
+ * @name OptionChain
+ */
+export interface OptionChain {
+    underlying: string;
+    expiry: Date;
+    /**
+     * Price of the underlying used to select the strikes, `null` when all strikes were requested
+     */
+    spot: number | null;
+    /**
+     * Rows ordered by strike
+     */
+    rows: OptionChainRow[];
+};
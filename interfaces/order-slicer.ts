@@ -0,0 +1,104 @@
+import { PlaceOrderParams, Varieties } from './connect';
+import { OrderState, TrackedOrder } from './order-tracker';
+
+/**
+ * How an order over the freeze quantity is split: into separate child orders, or into iceberg
+ * orders the exchange releases leg by leg.
+ *
+ * @public
+ * @name SliceMode
+ */
+export type SliceMode = 'orders' | 'iceberg';
+
+/**
+ * Represents the parameters of an order slicer.
+ *
+ * @public
+ * @name OrderSlicerParams
+ */
+export interface OrderSlicerParams {
+    /**
+     * Freeze quantities by underlying name, eg. `{ NIFTY: 1800 }`, merged over `FREEZE_QUANTITIES`
+     */
+    freeze_quantities?: { [name: string]: number };
+    /**
+     * Milliseconds between placing child orders. Defaults to `200`.
+     */
+    interval?: number;
+};
+
+/**
+ * Represents the options of `OrderSlicer.placeOrderSliced`.
+ *
+ * @public
+ * @name SliceOrderOptions
+ */
+export interface SliceOrderOptions {
+    /**
+     * Defaults to `orders`
+     */
+    mode?: SliceMode;
+    /**
+     * Largest quantity of a child order or iceberg leg, instead of the freeze quantity of the underlying
+     */
+    freeze_quantity?: number;
+    /**
+     * Lot size of the instrument, read from the instrument store when not given
+     */
+    lot_size?: number;
+};
+
+/**
+ * Represents a child order of a sliced order.
+ *
+ * @public
+ * @name OrderSlice
+ */
+export interface OrderSlice {
+    variety: Varieties;
+    params: PlaceOrderParams;
+};
+
+/**
+ * Represents the combined state of the child orders of a sliced order.
+ *
+ * @public
+ * @name SlicedOrderStatus
+ */
+export interface SlicedOrderStatus {
+    /**
+     * `COMPLETE` once every child order is, `PARTIALLY FILLED` while some quantity is filled and
+     * child orders are still open. Once every child order is final and some are not complete the
+     * state is `REJECTED` when all were rejected and `CANCELLED` otherwise.
+     */
+    state: OrderState;
+    quantity: number;
+    filled_quantity: number;
+    pending_quantity: number;
+    /**
+     * Average price of the filled quantity over every child order
+     */
+    average_price: number;
+    orders: TrackedOrder[];
+};
+
+/**
+ * Events emitted by SlicedOrder
+ */
+export type SlicedOrderEvents =
+    | 'change'
+    | 'fill';
+
+/**
+ * Event callback types for SlicedOrder
+ */
+export interface SlicedOrderEventCallbacks {
+    /**
+     * The state or the filled quantity of a child order changed
+     */
+    change: (status: SlicedOrderStatus) => void;
+    /**
+     * Quantity of a child order was filled
+     */
+    fill: (status: SlicedOrderStatus, quantity: number) => void;
+};
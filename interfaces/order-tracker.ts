@@ -0,0 +1,94 @@
+import { Order } from './connect';
+
+/**
+ * State of a tracked order. `PENDING` covers the transient statuses an order passes through
+ * before it reaches the exchange or while it is modified, eg. `VALIDATION PENDING`. An open
+ * order with filled quantity is `PARTIALLY FILLED`.
+ *
+ * @public
+ * @name OrderState
+ */
+export type OrderState = 'PENDING' | 'TRIGGER PENDING' | 'OPEN' | 'PARTIALLY FILLED' | 'COMPLETE' | 'CANCELLED' | 'REJECTED';
+
+/**
+ * Represents the parameters of an order tracker.
+ *
+ * @public
+ * @name OrderTrackerParams
+ */
+export interface OrderTrackerParams {
+    /**
+     * Milliseconds between `getOrders` reconciliations while tracked orders are not complete,
+     * cancelled or rejected. Defaults to `5000`, `0` disables periodic reconciliation.
+     */
+    reconcile_interval?: number;
+};
+
+/**
+ * Represents the state of an order known to an order tracker.
+ *
+ * @public
+ * @name TrackedOrder
+ */
+export interface TrackedOrder {
+    order_id: string;
+    state: OrderState;
+    /**
+     * Status reported by Kite, eg. `VALIDATION PENDING`
+     */
+    status: string;
+    filled_quantity: number;
+    pending_quantity: number;
+    average_price: number;
+    /**
+     * Latest order update, `null` until the order is seen on the stream or in the order book
+     */
+    order: Order | null;
+    /**
+     * Where the latest change of state or fill came from, `null` until the order is seen
+     */
+    source: 'stream' | 'reconcile' | null;
+    updated_at: Date;
+};
+
+/**
+ * Represents a source of order updates, eg. `KiteTicker`, `KiteTickerPool` or `PaperKiteConnect`.
+ *
+ * @public
+ * @name OrderUpdateSource
+ */
+export interface OrderUpdateSource {
+    on(event: 'order_update', callback: (order: Order) => void): unknown;
+    off(event: 'order_update', callback: (order: Order) => void): unknown;
+};
+
+/**
+ * Events emitted by OrderTracker
+ */
+export type OrderTrackerEvents =
+    | 'change'
+    | 'fill'
+    | 'missed_update'
+    | 'error';
+
+/**
+ * Event callback types for OrderTracker
+ */
+export interface OrderTrackerEventCallbacks {
+    /**
+     * The state or the filled quantity of an order changed
+     */
+    change: (order: TrackedOrder, previous: OrderState | null) => void;
+    /**
+     * Quantity of an order was filled
+     */
+    fill: (order: TrackedOrder, quantity: number) => void;
+    /**
+     * Reconciliation found a change that never arrived on the stream
+     */
+    missed_update: (order: TrackedOrder, previous: OrderState | null) => void;
+    /**
+     * A periodic reconciliation failed
+     */
+    error: (error: Error) => void;
+};
@@ -0,0 +1,29 @@
+import { PlaceOrderParams, Varieties } from './connect';
+
+/**
+ * Represents the parameters of an order validator.
+ *
+ * @public
+ * @name OrderValidatorParams
+ */
+export interface OrderValidatorParams {
+    /**
+     * Whether trigger prices are checked against `getTriggerRange`, which costs a request per
+     * order with a trigger price. Defaults to `true`.
+     */
+    trigger_range?: boolean;
+};
+
+/**
+ * Represents a check run on the parameters of every order before `placeOrder` sends it, set with
+ * `KiteConnect.setOrderValidator`.
+ *
+ * @public
+ * @name PlaceOrderValidator
+ */
+export interface PlaceOrderValidator {
+    /**
+     * Resolves when the order may be sent, rejects with the reason otherwise
+     */
+    validate(variety: Varieties, params: PlaceOrderParams): Promise<void>;
+};
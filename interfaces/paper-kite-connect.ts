@@ -0,0 +1,35 @@
+import { Tick } from './ticker';
+
+/**
+ * Represents the parameters of a paper trading broker.
+ *
+ * @public
+ * @name PaperKiteConnectParams
+ */
+export interface PaperKiteConnectParams {
+    /**
+     * Funds available for equity and F&O orders at the start of the session. Defaults to `PAPER_TRADING_DEFAULTS.opening_balance`.
+     */
+    opening_balance?: number;
+    /**
+     * Funds available for MCX orders at the start of the session. Defaults to `0`.
+     */
+    commodity_balance?: number;
+    /**
+     * Fraction of the order value blocked as margin per product, eg. `{ MIS: 0.2 }`. Merged with
+     * `PAPER_TRADING_DEFAULTS.margin_rates`. Option buyers always pay the full premium.
+     */
+    margin_rates?: { [product: string]: number };
+};
+
+/**
+ * Represents a source of ticks a paper trading broker fills orders against, eg. `KiteTicker`,
+ * `KiteTickerPool` or `TickReplayer`.
+ *
+ * @public
+ * @name TickSource
+ */
+export interface TickSource {
+    on(event: 'ticks', callback: (ticks: Tick[]) => void): unknown;
+    off(event: 'ticks', callback: (ticks: Tick[]) => void): unknown;
+};
@@ -0,0 +1,103 @@
+import { Exchanges, Products, TransactionTypes } from './connect';
+
+/**
+ * How a position is protected: resting SL and LIMIT orders, or an OCO GTT.
+ *
+ * @public
+ * @name ProtectionMode
+ */
+export type ProtectionMode = 'orders' | 'gtt';
+
+/**
+ * Represents the parameters of `ProtectionManager.protect`.
+ *
+ * @public
+ * @name ProtectParams
+ */
+export interface ProtectParams {
+    exchange: Exchanges;
+    tradingsymbol: string;
+    /**
+     * Side of the position: `BUY` for a long position, which is protected with SELL orders
+     */
+    transaction_type: TransactionTypes;
+    quantity: number;
+    product: Products;
+    /**
+     * Trigger price of the stop loss
+     */
+    stop_loss: number;
+    /**
+     * Limit price of the stop loss. Without it the stop loss is an SL-M order, or a LIMIT order at
+     * the trigger price in GTT mode.
+     */
+    stop_limit_price?: number;
+    /**
+     * Price of the target LIMIT order
+     */
+    target?: number;
+    /**
+     * Defaults to `orders`
+     */
+    mode?: ProtectionMode;
+    /**
+     * Last price of the instrument, required in GTT mode
+     */
+    last_price?: number;
+    tag?: string;
+};
+
+/**
+ * Represents a position protected by a `ProtectionManager`.
+ *
+ * @public
+ * @name ProtectedPosition
+ */
+export interface ProtectedPosition {
+    id: string;
+    exchange: Exchanges;
+    tradingsymbol: string;
+    /**
+     * Side of the exit orders
+     */
+    transaction_type: TransactionTypes;
+    product: Products;
+    quantity: number;
+    /**
+     * Quantity not exited yet
+     */
+    remaining_quantity: number;
+    stop_loss: number;
+    stop_limit_price: number | null;
+    target: number | null;
+    mode: ProtectionMode;
+    stop_order_id: string | null;
+    target_order_id: string | null;
+    trigger_id: number | null;
+    /**
+     * `exited` once a leg filled the position, `released` once the protection was removed
+     */
+    state: 'active' | 'exited' | 'released';
+    exit_reason: 'stop' | 'target' | null;
+};
+
+/**
+ * Events emitted by ProtectionManager
+ */
+export type ProtectionManagerEvents =
+    | 'exit'
+    | 'error';
+
+/**
+ * Event callback types for ProtectionManager
+ */
+export interface ProtectionManagerEventCallbacks {
+    /**
+     * A leg filled the remaining quantity of a position and its sibling was cancelled
+     */
+    exit: (position: ProtectedPosition, leg: 'stop' | 'target') => void;
+    /**
+     * A leg was cancelled or rejected outside of the manager, or its sibling could not be updated
+     */
+    error: (error: Error, position: ProtectedPosition) => void;
+};
@@ -0,0 +1,21 @@
+/**
+ * Represents the options of a tick replay.
+ *
+ * @public
+ * @name TickReplayParams
+ */
+export interface TickReplayParams {
+    /**
+     * Replay speed relative to the recording, eg. `10` replays ten times faster. `max` replays
+     * without waiting between messages. Defaults to `1`, real time.
+     */
+    speed?: number | 'max';
+    /**
+     * Skip the messages recorded before this time
+     */
+    from?: Date;
+    /**
+     * Stop at the first message recorded after this time
+     */
+    to?: Date;
+};
@@ -0,0 +1,75 @@
+import { Order } from './connect';
+import { TickerError } from './errors';
+import { KiteTickerParams, KiteTickerState, Tick } from './ticker';
+
+/**
+ * Represents the parameters of a ticker pool.
+ *
+ * @public
+ * @name KiteTickerPoolParams
+ */
+export interface KiteTickerPoolParams extends KiteTickerParams {
+    /**
+     * Maximum number of connections opened by the pool. Defaults to 3, the number of
+     * connections Kite allows per API key.
+     */
+    max_connections?: number;
+};
+
+/**
+ * Represents the health of one connection of a ticker pool.
+ *
+ * @public
+ * @name TickerShardHealth
+ */
+export interface TickerShardHealth {
+    /**
+     * Identifier of the connection, connections are numbered in the order they are opened
+     */
+    shard: number;
+    connected: boolean;
+    state: KiteTickerState;
+    /**
+     * Number of instruments subscribed on the connection
+     */
+    tokens: number;
+    /**
+     * Time of the last tick received on the connection
+     */
+    last_tick: Date | null;
+    /**
+     * Number of reconnection attempts since the connection was last established
+     */
+    reconnect_attempts: number;
+    /**
+     * Number of times the connection was lost
+     */
+    disconnects: number;
+};
+
+/**
+ * Events emitted by KiteTickerPool
+ */
+export type KiteTickerPoolEvents =
+    | 'connect'
+    | 'ticks'
+    | 'disconnect'
+    | 'error'
+    | 'reconnect'
+    | 'noreconnect'
+    | 'failed'
+    | 'order_update';
+
+/**
+ * Event callback types for KiteTickerPool. Connection events receive the identifier of the connection.
+ */
+export interface KiteTickerPoolEventCallbacks {
+    connect: (shard: number) => void;
+    ticks: (ticks: Tick[]) => void;
+    disconnect: (shard: number, error: Error) => void;
+    error: (shard: number, error: Error) => void;
+    reconnect: (shard: number, reconnect_count: number, reconnect_interval: number) => void;
+    noreconnect: (shard: number) => void;
+    failed: (shard: number, error: TickerError) => void;
+    order_update: (order: Order) => void;
+}
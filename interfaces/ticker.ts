@@ -1,3 +1,6 @@
+import { Order } from './connect';
+import { TickerError } from './errors';
+
 /**
  * Represents parameters for the Kite Ticker.
  *
@@ -32,8 +35,33 @@ export interface KiteTickerParams {
      * @type {?string}
      */
     root?: string;
+    /**
+     * Maximum number of instruments subscribed on the connection. Defaults to 3000.
+     * @type {?number}
+     */
+    max_tokens?: number;
+    /**
+     * Seconds without a message, heartbeats included, after which the connection is considered lost. Defaults to 5.
+     * @type {?number}
+     */
+    read_timeout?: number;
+    /**
+     * Called before every reconnection attempt with the attempt number and the time the
+     * connection was lost. Returning `true` gives up reconnecting, in addition to `max_retry`.
+     * @type {?Function}
+     */
+    give_up?: (reconnect_count: number, disconnected_at: Date) => boolean;
 }
 
+/**
+ * Connection state of a ticker. `failed` is entered when reconnection is given up, the
+ * ticker stays in it until `connect()` is called again.
+ *
+ * @public
+ * @name KiteTickerState
+ */
+export type KiteTickerState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
 /**
  * Represents the interface for KiteTicker.
  *
@@ -148,6 +176,7 @@ export type KiteTickerEvents =
     | 'close'
     | 'reconnect'
     | 'noreconnect'
+    | 'failed'
     | 'message'
     | 'order_update';
 
@@ -162,6 +191,7 @@ export interface KiteTickerEventCallbacks {
     close: (reason: string) => void;
     reconnect: (reconnect_count: number, reconnect_interval: number) => void;
     noreconnect: () => void;
+    failed: (error: TickerError) => void;
     message: (binaryData: ArrayBuffer) => void;
-    order_update: (order: any) => void;
+    order_update: (order: Order) => void;
 }
@@ -0,0 +1,230 @@
+'use strict';
+
+import { BasketLeg, BasketMargin, BasketResult, MarginOrder, Margins, OrderState, OrderTypes, PlaceBasketOptions, PlaceOrderParams, TransactionTypes, Varieties } from '../interfaces';
+import { COMMODITY_EXCHANGES, FINAL_ORDER_STATES } from '../constants';
+import { KiteConnect } from './connect';
+import { OrderTracker } from './order-tracker';
+import { InputException, OrderException } from './errors';
+
+/**
+ * Client the basket is checked and placed with.
+ */
+type BasketClient = Pick<KiteConnect, 'placeOrder' | 'cancelOrder' | 'orderBasketMargins'> & { getMargins(): Promise<Margins> };
+
+/**
+ * Default milliseconds to wait for the fills of the legs.
+ * @type {number}
+ */
+const defaultFillTimeout = 30000;
+
+/**
+ * @classdesc Places baskets of orders, eg. the legs of a spread or a straddle. The margin of the
+ * basket is checked with `orderBasketMargins` before anything is placed, and the BUY legs are
+ * placed and filled before the SELL legs so they hedge them. The fills of the legs are followed
+ * with an `OrderTracker`.
+ *
+ * When a leg cannot be placed or does not fill the remaining legs are not placed. An atomic basket
+ * is then rolled back: open legs are cancelled and the filled quantity of every leg is squared
+ * off with MARKET orders, the short legs first.
+ *
+ * @example
+ * const baskets = new BasketExecutor(kc, tracker);
+ * const result = await baskets.placeBasket([
+ *     { exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: 'SELL', quantity: 75, product: 'NRML', order_type: 'MARKET' },
+ *     { exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24700CE', transaction_type: 'BUY', quantity: 75, product: 'NRML', order_type: 'MARKET' }
+ * ], { atomic: true, fill_timeout: 10000 });
+ * console.log(result.legs.map((leg) => leg.average_price));
+ *
+ * @constructor
+ * @name BasketExecutor
+ * @param {KiteConnect} kite - Client the basket is placed with.
+ * @param {OrderTracker} tracker - Tracker the fills of the legs are followed with.
+ */
+export class BasketExecutor {
+    /**
+     * @private
+     * @type {BasketClient}
+     */
+    private kite: BasketClient;
+    /**
+     * @private
+     * @type {OrderTracker}
+     */
+    private tracker: OrderTracker;
+
+    constructor(kite: BasketClient, tracker: OrderTracker) {
+        this.kite = kite;
+        this.tracker = tracker;
+    }
+
+    /**
+     * Places a basket of orders and resolves once every leg filled. Legs without a `variety` are
+     * regular orders.
+     *
+     * Rejects with an `OrderException` carrying the basket margin as `data` when the available
+     * funds do not cover it. When a leg fails an atomic basket is rolled back and the promise
+     * rejects with an `OrderException` carrying the `BasketResult` as `data`, otherwise it resolves
+     * with a `partial` result.
+     *
+     * @param {PlaceOrderParams[]} orders
+     * @param {PlaceBasketOptions} [options]
+     * @returns {Promise<BasketResult>}
+     */
+    async placeBasket(orders: PlaceOrderParams[], options: PlaceBasketOptions = {}): Promise<BasketResult> {
+        if (!orders.length) throw new InputException('Basket has no orders');
+        const fill_timeout = options.fill_timeout ?? defaultFillTimeout;
+
+        const legs: BasketLeg[] = orders.map((order) => ({
+            variety: order.variety || Varieties.VARIETY_REGULAR,
+            params: { ...order },
+            order_id: null,
+            state: null,
+            filled_quantity: 0,
+            average_price: 0,
+            error: null,
+            exit_order_id: null
+        }));
+        const margin = (options.check_margin ?? true) ? await this.checkMargin(legs) : null;
+
+        const groups = (options.hedge_first ?? true)
+            ? [TransactionTypes.BUY, TransactionTypes.SELL].map((side) => legs.filter((leg) => leg.params.transaction_type === side))
+            : [legs];
+        const result: BasketResult = { state: 'complete', legs: ([] as BasketLeg[]).concat(...groups), margin: margin };
+
+        for (const group of groups) {
+            for (const leg of group) {
+                if (!await this.placeLeg(leg)) break;
+            }
+            if (group.some((leg) => leg.error)) {
+                group.forEach((leg) => this.refresh(leg));
+                break;
+            }
+            // Hedges must be filled before the legs they hedge are placed
+            await Promise.all(group.filter((leg) => leg.order_id).map((leg) => {
+                return this.tracker.waitForFill(leg.order_id as string, fill_timeout).catch((error: Error) => {
+                    leg.error = error;
+                });
+            }));
+            group.forEach((leg) => this.refresh(leg));
+            if (group.some((leg) => leg.error)) break;
+        }
+
+        const failed = result.legs.find((leg) => leg.error);
+        if (!failed) return result;
+        if (!options.atomic) {
+            result.state = 'partial';
+            return result;
+        }
+
+        const unsquared = await this.rollback(result.legs, fill_timeout);
+        result.state = 'rolled_back';
+        let message = 'Basket rolled back, ' + failed.params.tradingsymbol + ' failed: ' + (failed.error as Error).message;
+        if (unsquared.length) message += '. Could not square off ' + unsquared.join(', ');
+        throw new OrderException(message, { data: result });
+    }
+
+    /**
+     * Checks the margin of the basket against the funds of the segments it trades in.
+     *
+     * @private
+     * @param {BasketLeg[]} legs
+     * @returns {Promise<BasketMargin>}
+     */
+    private async checkMargin(legs: BasketLeg[]): Promise<BasketMargin> {
+        const margin_orders: MarginOrder[] = legs.map((leg) => ({
+            exchange: leg.params.exchange,
+            tradingsymbol: leg.params.tradingsymbol,
+            transaction_type: leg.params.transaction_type,
+            variety: leg.variety,
+            product: leg.params.product,
+            order_type: leg.params.order_type,
+            quantity: leg.params.quantity,
+            price: leg.params.price || 0,
+            trigger_price: leg.params.trigger_price || 0
+        }));
+        const [margin, funds] = await Promise.all([this.kite.orderBasketMargins(margin_orders, true), this.kite.getMargins()]);
+
+        const segments = legs.map((leg) => COMMODITY_EXCHANGES.includes(leg.params.exchange) ? 'commodity' : 'equity')
+            .filter((segment, i, all) => all.indexOf(segment) === i) as (keyof Margins)[];
+        const available = segments.reduce((sum, segment) => sum + (funds[segment]?.net || 0), 0);
+        const required = margin.final.total;
+        if (required > available) {
+            const message = 'Insufficient funds for the basket. Required margin is ' + required.toFixed(2) + ' but available margin is ' + available.toFixed(2) + '.';
+            throw new OrderException(message, { data: margin });
+        }
+        return margin;
+    }
+
+    /**
+     * @private
+     * @param {BasketLeg} leg
+     * @returns {Promise<boolean>} Whether the leg was placed.
+     */
+    private async placeLeg(leg: BasketLeg): Promise<boolean> {
+        try {
+            const { order_id } = await this.kite.placeOrder(leg.variety, { ...leg.params });
+            leg.order_id = String(order_id);
+            this.tracker.track(order_id);
+            return true;
+        } catch (error) {
+            leg.error = error as Error;
+            return false;
+        }
+    }
+
+    /**
+     * Cancels the open legs and squares off the filled quantity of every leg, the last placed first.
+     *
+     * @private
+     * @param {BasketLeg[]} legs
+     * @param {number} fill_timeout
+     * @returns {Promise<string[]>} Trading symbols of the legs that could not be squared off.
+     */
+    private async rollback(legs: BasketLeg[], fill_timeout: number): Promise<string[]> {
+        const open = legs.filter((leg) => leg.order_id && !FINAL_ORDER_STATES.includes(leg.state as OrderState));
+        await Promise.all(open.map(async (leg) => {
+            try {
+                await this.kite.cancelOrder(leg.variety, leg.order_id as string);
+            } catch (error) {
+                // The leg may have filled meanwhile, it is squared off below
+            }
+            await this.tracker.waitForFill(leg.order_id as string, fill_timeout).catch(() => undefined);
+            this.refresh(leg);
+        }));
+
+        const unsquared: string[] = [];
+        for (const leg of legs.slice().reverse()) {
+            if (!leg.filled_quantity) continue;
+            try {
+                const { order_id } = await this.kite.placeOrder(Varieties.VARIETY_REGULAR, {
+                    exchange: leg.params.exchange,
+                    tradingsymbol: leg.params.tradingsymbol,
+                    transaction_type: leg.params.transaction_type === TransactionTypes.BUY ? TransactionTypes.SELL : TransactionTypes.BUY,
+                    quantity: leg.filled_quantity,
+                    product: leg.params.product,
+                    order_type: OrderTypes.MARKET,
+                    tag: leg.params.tag
+                });
+                leg.exit_order_id = String(order_id);
+                this.tracker.track(order_id);
+            } catch (error) {
+                unsquared.push(leg.params.tradingsymbol + ' (' + (error as Error).message + ')');
+            }
+        }
+        return unsquared;
+    }
+
+    /**
+     * Copies the tracked state and fills of a leg.
+     *
+     * @private
+     * @param {BasketLeg} leg
+     */
+    private refresh(leg: BasketLeg) {
+        const tracked = leg.order_id ? this.tracker.getOrder(leg.order_id) : null;
+        if (!tracked) return;
+        leg.state = tracked.state;
+        leg.filled_quantity = tracked.filled_quantity;
+        leg.average_price = tracked.average_price;
+    }
+}
@@ -0,0 +1,315 @@
+'use strict';
+
+import fs from 'fs';
+import path from 'path';
+import { CandleQueryOptions, CandleStoreParams, HistoricalData } from '../interfaces';
+import { HISTORICAL_INTERVAL_LIMITS } from '../constants';
+import { KiteConnect } from './connect';
+import { InputException } from './errors';
+import utils from './utils';
+
+/**
+ * Candle as written to disk: `[time, open, high, low, close, volume, oi?]`, time in epoch milliseconds.
+ */
+type CandleRow = number[];
+
+/**
+ * Contents of a candle file. `ranges` lists the `[from, to]` spans (epoch milliseconds) already fetched
+ * from the API, so that spans without any candles (holidays, weekends) are not fetched again.
+ */
+interface CandleSeries {
+    ranges: [number, number][];
+    candles: { [time: number]: CandleRow };
+}
+
+/**
+ * @classdesc On-disk cache for historical candles. Candles are stored in one file per instrument token,
+ * interval and `continuous` / `oi` flag combination. A query only fetches the parts of the range that
+ * have not been fetched before, so repeat queries are served from disk without calling the API.
+ *
+ * Only completed candles are written to disk. The candle still being formed when a query is made is
+ * returned but fetched again by the next query.
+ *
+ * @example
+ * const store = new CandleStore(kc, { directory: './candles' });
+ * // First call downloads 60 days, later calls only fetch the candles added since.
+ * const candles = await store.getCandles(256265, 'minute', fromDate, new Date());
+ *
+ * @constructor
+ * @name CandleStore
+ * @param {KiteConnect} kite - Client used to fetch the missing candles.
+ * @param {CandleStoreParams} params
+ */
+export class CandleStore {
+    /**
+     * @private
+     * @type {KiteConnect}
+     */
+    private kite: KiteConnect;
+    /**
+     * @type {string}
+     */
+    directory: string;
+    /**
+     * @type {boolean}
+     */
+    offline: boolean;
+    /**
+     * @type {number}
+     */
+    concurrency: number;
+    /**
+     * @private
+     * @type {Object}
+     */
+    private series: { [key: string]: CandleSeries } = {};
+    /**
+     * @private
+     * @type {Object}
+     */
+    private locks: { [key: string]: Promise<unknown> } = {};
+
+    constructor(kite: KiteConnect, params: CandleStoreParams) {
+        this.kite = kite;
+        this.directory = params.directory;
+        this.offline = !!params.offline;
+        this.concurrency = params.concurrency || 3;
+    }
+
+    /**
+     * Returns the candles of an instrument between `from_date` and `to_date` (both inclusive),
+     * fetching the spans missing on disk. Offline queries return whatever is on disk.
+     *
+     * @param {(number | string)} instrument_token
+     * @param {string} interval - One of `minute`, `3minute`, `5minute`, `10minute`, `15minute`, `30minute`, `60minute` or `day`.
+     * @param {(string | Date)} from_date - Date string in 'YYYY-MM-DD HH:MM:SS' format or Date object.
+     * @param {(string | Date)} to_date - Date string in 'YYYY-MM-DD HH:MM:SS' format or Date object.
+     * @param {CandleQueryOptions} [options]
+     * @returns {Promise<HistoricalData[]>}
+     */
+    async getCandles(instrument_token: number | string, interval: string, from_date: string | Date, to_date: string | Date, options: CandleQueryOptions = {}): Promise<HistoricalData[]> {
+        if (!HISTORICAL_INTERVAL_LIMITS[interval]) throw new InputException('Invalid `interval`: ' + interval);
+
+        const from = utils.parseDateTime(from_date).getTime();
+        const to = utils.parseDateTime(to_date).getTime();
+        const key = this.getKey(instrument_token, interval, options);
+        const offline = options.offline ?? this.offline;
+
+        return this.withLock(key, async () => {
+            const series = await this.load(key);
+            // Candles that are still forming, returned but not stored
+            const partial: { [time: number]: CandleRow } = {};
+
+            const gaps = offline ? [] : _getGaps(series.ranges, from, to);
+            if (gaps.length) {
+                const now = Date.now();
+                const duration = _getIntervalDuration(interval);
+
+                for (const [start, end] of gaps) {
+                    const candles = await this.kite.getHistoricalDataRange(instrument_token, interval, new Date(start), new Date(end), {
+                        continuous: !!options.continuous,
+                        oi: !!options.oi,
+                        concurrency: this.concurrency
+                    });
+
+                    for (const candle of candles) {
+                        const time = candle.date.getTime();
+                        const row = _toRow(candle);
+                        if (time + duration <= now) {
+                            series.candles[time] = row;
+                        } else {
+                            partial[time] = row;
+                        }
+                    }
+
+                    // Spans after the last completed candle have to be fetched again
+                    const covered = Math.min(end, now - duration);
+                    if (covered > start) series.ranges = _mergeRanges(series.ranges.concat([[start, covered]]));
+                }
+
+                await this.save(key, series);
+            }
+
+            const candles = { ...series.candles, ...partial };
+            return Object.keys(candles).map(Number)
+                .filter((time) => time >= from && time <= to)
+                .sort((a, b) => a - b)
+                .map((time) => _fromRow(candles[time]));
+        });
+    }
+
+    /**
+     * Deletes the stored candles of an instrument.
+     *
+     * @param {(number | string)} instrument_token
+     * @param {string} interval
+     * @param {CandleQueryOptions} [options] - `continuous` / `oi` flags of the candles to delete.
+     * @returns {Promise<void>}
+     */
+    async clear(instrument_token: number | string, interval: string, options: CandleQueryOptions = {}): Promise<void> {
+        const key = this.getKey(instrument_token, interval, options);
+
+        return this.withLock(key, async () => {
+            delete this.series[key];
+            await fs.promises.rm(this.getPath(key), { force: true });
+        });
+    }
+
+    /**
+     * @private
+     * @param {(number | string)} instrument_token
+     * @param {string} interval
+     * @param {CandleQueryOptions} options
+     * @returns {string}
+     */
+    private getKey(instrument_token: number | string, interval: string, options: CandleQueryOptions): string {
+        let key = instrument_token + '_' + interval;
+        if (options.continuous) key += '_continuous';
+        if (options.oi) key += '_oi';
+        return key;
+    }
+
+    /**
+     * @private
+     * @param {string} key
+     * @returns {string}
+     */
+    private getPath(key: string): string {
+        return path.join(this.directory, key + '.json');
+    }
+
+    /**
+     * Runs `fn` once every earlier call for the same key has settled.
+     *
+     * @private
+     * @param {string} key
+     * @param {function} fn
+     * @returns {Promise<T>}
+     */
+    private withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const previous = this.locks[key] || Promise.resolve();
+        const result = previous.then(fn, fn);
+        this.locks[key] = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * @private
+     * @param {string} key
+     * @returns {Promise<CandleSeries>}
+     */
+    private async load(key: string): Promise<CandleSeries> {
+        if (this.series[key]) return this.series[key];
+
+        let series: CandleSeries = { ranges: [], candles: {} };
+        try {
+            const contents = JSON.parse(await fs.promises.readFile(this.getPath(key), 'utf8'));
+            series = { ranges: contents.ranges, candles: {} };
+            for (const row of contents.candles as CandleRow[]) {
+                series.candles[row[0]] = row;
+            }
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        }
+
+        this.series[key] = series;
+        return series;
+    }
+
+    /**
+     * Writes a series to a temporary file and renames it in place, so an interrupted write
+     * never leaves a truncated file behind.
+     *
+     * @private
+     * @param {string} key
+     * @param {CandleSeries} series
+     * @returns {Promise<void>}
+     */
+    private async save(key: string, series: CandleSeries): Promise<void> {
+        const file = this.getPath(key);
+        const candles = Object.keys(series.candles).map(Number).sort((a, b) => a - b).map((time) => series.candles[time]);
+
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(file + '.tmp', JSON.stringify({ ranges: series.ranges, candles: candles }));
+        await fs.promises.rename(file + '.tmp', file);
+    }
+}
+
+/**
+ * Returns the duration of a candle in milliseconds.
+ *
+ * @param interval - Candle interval, eg. `5minute` or `day`
+ * @returns Duration in milliseconds
+ */
+function _getIntervalDuration(interval: string): number {
+    if (interval === 'day') return 24 * 60 * 60 * 1000;
+    return (parseInt(interval, 10) || 1) * 60 * 1000;
+}
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch.
+ *
+ * @param ranges - List of `[from, to]` ranges
+ * @returns Merged ranges
+ */
+function _mergeRanges(ranges: [number, number][]): [number, number][] {
+    const sorted = ranges.slice().sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([range[0], range[1]]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Returns the parts of `[from, to]` not covered by `ranges`.
+ *
+ * @param ranges - Merged, sorted list of covered ranges
+ * @param from - Start of the requested range
+ * @param to - End of the requested range
+ * @returns Uncovered ranges
+ */
+function _getGaps(ranges: [number, number][], from: number, to: number): [number, number][] {
+    const gaps: [number, number][] = [];
+    let start = from;
+    for (const [rangeFrom, rangeTo] of ranges) {
+        if (rangeTo < start) continue;
+        if (rangeFrom > to) break;
+        if (rangeFrom > start) gaps.push([start, rangeFrom]);
+        start = Math.max(start, rangeTo);
+    }
+    if (start < to) gaps.push([start, to]);
+    return gaps;
+}
+
+/**
+ * @param candle - Candle returned by the API
+ * @returns Candle as stored on disk
+ */
+function _toRow(candle: HistoricalData): CandleRow {
+    const row = [candle.date.getTime(), candle.open, candle.high, candle.low, candle.close, candle.volume];
+    if (candle.oi !== undefined) row.push(candle.oi);
+    return row;
+}
+
+/**
+ * @param row - Candle as stored on disk
+ * @returns Candle in the shape returned by `getHistoricalData`
+ */
+function _fromRow(row: CandleRow): HistoricalData {
+    const candle: HistoricalData = {
+        date: new Date(row[0]),
+        open: row[1],
+        high: row[2],
+        low: row[3],
+        close: row[4],
+        volume: row[5]
+    };
+    if (row.length > 6) candle.oi = row[6];
+    return candle;
+}
@@ -0,0 +1,143 @@
+'use strict';
+
+import { ChargeableOrder, ChargeRateTable, ChargesCalculatorParams, ChargeSegment, OrderCharges, TransactionTypes, VirtualContractNote, VirtualContractParam } from '../interfaces';
+import { CHARGE_RATES, IST_OFFSET } from '../constants';
+import { InputException } from './errors';
+
+/**
+ * @classdesc Calculates the brokerage and statutory charges of executed orders offline, eg. to
+ * account for them in backtests. The result has the fields of the virtual contract note, so it
+ * can be cross-checked against `getvirtualContractNote`.
+ *
+ * The rates are looked up by the date of the order in versioned rate tables, each in force from
+ * its `effective_from` date until the next one. Dates before the first table use its rates.
+ *
+ * @example
+ * const calculator = new ChargesCalculator();
+ * const charges = calculator.calculate({
+ *     exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: 'SELL',
+ *     product: 'NRML', quantity: 75, average_price: 120.5
+ * }, '2024-10-17');
+ * console.log(charges.total);
+ *
+ * @constructor
+ * @name ChargesCalculator
+ * @param {ChargesCalculatorParams} [params]
+ */
+export class ChargesCalculator {
+    /**
+     * @private
+     * @type {ChargeRateTable[]}
+     */
+    private rate_tables: ChargeRateTable[];
+    /**
+     * @type {boolean}
+     */
+    intrastate: boolean;
+
+    constructor(params: ChargesCalculatorParams = {}) {
+        const rate_tables = params.rate_tables || CHARGE_RATES;
+        if (!rate_tables.length) throw new InputException('No charge rate tables given');
+        this.rate_tables = rate_tables.slice().sort((a, b) => a.effective_from < b.effective_from ? -1 : a.effective_from > b.effective_from ? 1 : 0);
+        this.intrastate = params.intrastate ?? false;
+    }
+
+    /**
+     * Returns the rate table in force on a date.
+     *
+     * @param {(Date|string)} [date] - Date, or `YYYY-MM-DD` in IST. Defaults to today.
+     * @returns {ChargeRateTable}
+     */
+    getRates(date: Date | string = new Date()): ChargeRateTable {
+        const day = typeof date === 'string' ? date.slice(0, 10) : new Date(date.getTime() + IST_OFFSET).toISOString().slice(0, 10);
+        let rates = this.rate_tables[0];
+        for (const table of this.rate_tables) {
+            if (table.effective_from <= day) rates = table;
+        }
+        return rates;
+    }
+
+    /**
+     * Calculates the charges of an executed order. Values are not rounded.
+     *
+     * @param {ChargeableOrder} order
+     * @param {(Date|string)} [date] - Date the order was executed on. Defaults to today.
+     * @returns {OrderCharges}
+     */
+    calculate(order: ChargeableOrder, date?: Date | string): OrderCharges {
+        const rates = this.getRates(date);
+        const segment = rates.segments[_getSegment(order)];
+        const buy = order.transaction_type === TransactionTypes.BUY;
+        const turnover = order.quantity * (order.multiplier ?? 1) * order.average_price;
+
+        const brokerage = segment.brokerage_rate === null
+            ? segment.max_brokerage
+            : Math.min(turnover * segment.brokerage_rate, segment.max_brokerage);
+        const transaction_tax = turnover * (buy ? segment.transaction_tax_buy : segment.transaction_tax_sell);
+        const exchange_turnover_charge = turnover * (segment.exchange_turnover_charge[order.exchange] || 0);
+        const sebi_turnover_charge = turnover * rates.sebi_turnover_charge;
+        const stamp_duty = buy ? turnover * segment.stamp_duty : 0;
+        const gst = (brokerage + exchange_turnover_charge + sebi_turnover_charge) * rates.gst;
+
+        return {
+            transaction_tax: transaction_tax,
+            transaction_tax_type: segment.transaction_tax_type,
+            exchange_turnover_charge: exchange_turnover_charge,
+            sebi_turnover_charge: sebi_turnover_charge,
+            brokerage: brokerage,
+            stamp_duty: stamp_duty,
+            gst: {
+                igst: this.intrastate ? 0 : gst,
+                cgst: this.intrastate ? gst / 2 : 0,
+                sgst: this.intrastate ? gst / 2 : 0,
+                total: gst
+            },
+            total: brokerage + transaction_tax + exchange_turnover_charge + sebi_turnover_charge + stamp_duty + gst
+        };
+    }
+
+    /**
+     * Offline counterpart of `getvirtualContractNote`, returns the charges of each order.
+     *
+     * @param {VirtualContractParam[]} orders - Orders, with the `multiplier` of `ChargeableOrder` for contracts traded in lots.
+     * @param {(Date|string)} [date] - Date the orders were executed on. Defaults to today.
+     * @returns {VirtualContractNote[]}
+     */
+    getContractNote(orders: (VirtualContractParam & Pick<ChargeableOrder, 'multiplier'>)[], date?: Date | string): VirtualContractNote[] {
+        return orders.map((order) => ({
+            transaction_type: order.transaction_type,
+            tradingsymbol: order.tradingsymbol,
+            exchange: order.exchange,
+            variety: order.variety,
+            product: order.product,
+            order_type: order.order_type,
+            quantity: order.quantity,
+            price: order.average_price,
+            charges: this.calculate(order, date)
+        }));
+    }
+}
+
+/**
+ * Derives the segment of an order from its exchange, product and trading symbol.
+ *
+ * @param order - Order to derive the segment of.
+ */
+function _getSegment(order: ChargeableOrder): ChargeSegment {
+    const option = /\d(CE|PE)$/.test(order.tradingsymbol);
+    switch (order.exchange) {
+        case 'NSE':
+        case 'BSE':
+            return order.product === 'CNC' ? 'equity_delivery' : 'equity_intraday';
+        case 'NFO':
+        case 'BFO':
+            return option ? 'equity_options' : 'equity_futures';
+        case 'CDS':
+        case 'BCD':
+            return option ? 'currency_options' : 'currency_futures';
+        case 'MCX':
+            return option ? 'commodity_options' : 'commodity_futures';
+        default:
+            throw new InputException('Charges of ' + order.exchange + ' orders are not supported');
+    }
+}
@@ -5,8 +5,11 @@ import csvParse from 'papaparse';
 import sha256 from 'crypto-js/sha256';
 import qs from 'qs';
 import utils from './utils';
-import { KiteConnectParams, Varieties, GTTStatusTypes, AnyObject, Order, MarginOrder, VirtualContractParam, TransactionTypes, KiteConnectInterface, CancelOrderParams, ExitOrderParams, ModifyGTTParams, ModifyOrderParams, PlaceGTTParams, PlaceMFOrderParams, PlaceOrderParams, ConvertPositionParams, Exchanges } from '../interfaces';
-import { DEFAULTS, ROUTES } from '../constants';
+import { KiteError, DataException, NetworkException, GeneralException, InputException, BatchException, createKiteError } from './errors';
+import { ResolvedRetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+import { RateLimiter } from './rate-limiter';
+import { KiteConnectParams, Varieties, GTTStatusTypes, AnyObject, Order, MarginOrder, VirtualContractParam, TransactionTypes, KiteConnectInterface, CancelOrderParams, ExitOrderParams, ModifyGTTParams, ModifyOrderParams, PlaceGTTParams, PlaceMFOrderParams, PlaceOrderParams, PlaceOrderValidator, ConvertPositionParams, Exchanges, RetryPolicy, RateLimitMetrics, SessionData, Profile, UserMargin, Margins, OrderResponse, Trade, OrderMargin, BasketMargin, VirtualContractNote, Holding, AuctionInstrument, Positions, Instrument, Quote, OHLCQuote, LTPQuote, TriggerRange, HistoricalData, HistoricalDataRangeOptions, BatchFailure, MFOrder, MFOrderResponse, MFSIP, MFSIPResponse, MFHolding, MFInstrument, GTT, GTTResponse } from '../interfaces';
+import { DEFAULTS, ROUTES, HISTORICAL_INTERVAL_LIMITS, QUOTE_INSTRUMENT_LIMITS } from '../constants';
 
 
 /**
@@ -72,6 +75,10 @@ import { DEFAULTS, ROUTES } from '../constants';
  * }
  * ~~~~
  *
+ * Rejected promises carry a `KiteError` subclass (`TokenException`, `InputException`, `OrderException`,
+ * `NetworkException`, `DataException`, `PermissionException` or `GeneralException`) with the HTTP `status`,
+ * `request_id`, `route` and original `payload` of the failed request.
+ *
  * @constructor
  * @name KiteConnect
  *
@@ -87,6 +94,10 @@ import { DEFAULTS, ROUTES } from '../constants';
  * @param {bool}   [params.debug=false] If set to true, will console log requests and responses.
  * @param {number} [params.timeout=7000] Time (milliseconds) for which the API client will wait
  *	for a request to complete before it fails.
+ * @param {RetryPolicy} [params.retry=null] Retry policy for failed requests. Only `GET` requests
+ *	are retried unless `retry_non_idempotent` is set.
+ * @param {(boolean | Object)} [params.rate_limit=true] Throttle requests on the client with the default
+ *	per route family limits. Pass a map of family to `RateLimit` to override them or `false` to disable it.
  *
  * @example <caption>Initialize KiteConnect object</caption>
  * const kc = new KiteConnect({ api_key: apiKey })
@@ -119,6 +130,10 @@ export class KiteConnect implements KiteConnectInterface {
      * @type {?number}
      */
     timeout?: number;
+    /**
+     * @type {?(RetryPolicy | null)}
+     */
+    retry?: RetryPolicy | null;
     /**
      * @type {?(function | null)}
      */
@@ -132,6 +147,28 @@ export class KiteConnect implements KiteConnectInterface {
      * @type {AxiosInstance}
      */
     private requestInstance: AxiosInstance;
+    /**
+     * @private
+     * @type {(ResolvedRetryPolicy | null)}
+     */
+    private retryPolicy: ResolvedRetryPolicy | null;
+    /**
+     * @private
+     * @type {(RateLimiter | null)}
+     */
+    private rateLimiter: RateLimiter | null;
+    /**
+     * Paces quote batches with the default limits when the rate limiter is disabled.
+     *
+     * @private
+     * @type {(RateLimiter | null)}
+     */
+    private batchLimiter: RateLimiter | null = null;
+    /**
+     * @private
+     * @type {(PlaceOrderValidator | null)}
+     */
+    private orderValidator: PlaceOrderValidator | null = null;
 
     // Constants
     readonly PRODUCT_MIS: string = 'MIS';
@@ -207,6 +244,9 @@ export class KiteConnect implements KiteConnectInterface {
         this.timeout = params.timeout || DEFAULTS.timeout;
         this.debug = params.debug || DEFAULTS.debug;
         this.access_token = params.access_token || null;
+        this.retry = params.retry || null;
+        this.retryPolicy = this.retry ? resolveRetryPolicy(this.retry) : null;
+        this.rateLimiter = params.rate_limit === false ? null : new RateLimiter(typeof params.rate_limit === 'object' ? params.rate_limit : {});
         this.default_login_uri = DEFAULTS.login;
         this.session_expiry_hook = null;
         this.requestInstance = this.createAxiosInstance();
@@ -257,7 +297,14 @@ export class KiteConnect implements KiteConnectInterface {
             const contentType = response.headers['content-type'];
             if (contentType?.includes('application/json') && typeof response.data === 'object') {
                 // Throw incase of error
-                if (response.data.error_type) throw response.data;
+                if (response.data.error_type) {
+                    throw createKiteError(response.data.error_type, response.data.message, {
+                        status: response.status,
+                        request_id: getRequestId(response.headers),
+                        data: response.data.data,
+                        payload: response.data
+                    });
+                }
 
                 // Return success data
                 return response.data.data;
@@ -265,42 +312,46 @@ export class KiteConnect implements KiteConnectInterface {
                 // Return the response directly
                 return response.data
             } else {
-                return {
-                    'error_type': 'DataException',
-                    'message': 'Unknown content type (' + contentType + ') with response: (' + response.data + ')'
-                };
+                throw new DataException('Unknown content type (' + contentType + ') with response: (' + response.data + ')', {
+                    status: response.status,
+                    request_id: getRequestId(response.headers),
+                    payload: response.data
+                });
             }
         }, (error) => {
-            let resp = {
-                'message': 'Unknown error',
-                'error_type': 'GeneralException',
-                'data': null
-            };
+            let err: KiteError;
 
             if (error.response) {
                 // The request was made and the server responded with a status code
                 // that falls out of the range of 2xx
+                const params = {
+                    status: error.response.status,
+                    request_id: getRequestId(error.response.headers),
+                    payload: error.response.data
+                };
+
                 if (error.response.data && error.response.data.error_type) {
                     if (error.response.data.error_type === 'TokenException' && this.session_expiry_hook) {
                         this.session_expiry_hook();
                     }
 
-                    resp = error.response.data;
+                    err = createKiteError(error.response.data.error_type, error.response.data.message,
+                        { ...params, data: error.response.data.data });
                 } else {
-                    resp.error_type = 'NetworkException';
-                    resp.message = error.response.statusText;
+                    err = new NetworkException(error.response.statusText, params);
                 }
             } else if (error.request) {
                 // The request was made but no response was received
                 // `error.request` is an instance of XMLHttpRequest in the browser and an instance of
                 // http.ClientRequest in node.js
-                resp.error_type = 'NetworkException';
-                resp.message = 'No response from server with error code: ' + error.code;
-            } else if (error.message) {
-                resp = error
+                err = new NetworkException('No response from server with error code: ' + error.code, { payload: _errorPayload(error) });
+            } else if (error instanceof KiteError) {
+                err = error;
+            } else {
+                err = new GeneralException(error.message || 'Unknown error', { payload: _errorPayload(error) });
             }
 
-            return Promise.reject(resp);
+            return Promise.reject(err);
         });
         return requestInstance;
     }
@@ -315,6 +366,29 @@ export class KiteConnect implements KiteConnectInterface {
         this.access_token = accessToken;
     }
 
+    /**
+     * Returns the client side rate limiter metrics per route family.
+     *
+     * @remarks
+     * Returns an empty object when the rate limiter is disabled with `rate_limit: false`.
+     *
+     * @returns {Object} Map of route family to its queue depth and wait time metrics.
+     */
+    getRateLimitMetrics(): { [family: string]: RateLimitMetrics } {
+        return this.rateLimiter ? this.rateLimiter.getMetrics() : {};
+    }
+
+    /**
+     * Sets a validator every order is checked with before `placeOrder` sends it, eg. an
+     * `OrderValidator`. Orders failing validation are rejected without a request.
+     *
+     * @param {(PlaceOrderValidator | null)} validator - `null` stops validating orders.
+     * @returns {void}
+     */
+    setOrderValidator(validator: PlaceOrderValidator | null): void {
+        this.orderValidator = validator;
+    }
+
     /**
      * Sets a callback function to be invoked when the session expires.
      * 
@@ -347,18 +421,18 @@ export class KiteConnect implements KiteConnectInterface {
      *
      * @param {string} request_token - The request token obtained during the login flow.
      * @param {string} api_secret - The API secret associated with the user's account.
-     * @returns {Promise<any>} A promise that resolves when the session generation is successful and rejects if an error occurs.
+     * @returns {Promise<SessionData>} A promise that resolves when the session generation is successful and rejects if an error occurs.
      */
-    generateSession(request_token: string, api_secret: string): Promise<any> {
+    generateSession(request_token: string, api_secret: string): Promise<SessionData> {
         return new Promise((resolve, reject) => {
             const checksum = sha256(this.api_key + request_token + api_secret).toString();
-            const p = this._post('api.token', {
+            const p = this._post<SessionData>('api.token', {
                 api_key: this.api_key,
                 request_token: request_token,
                 checksum: checksum
             }, null, formatGenerateSession);
 
-            p.then((resp: any) => {
+            p.then((resp: SessionData) => {
                 // Set access token.
                 if (resp && resp.access_token) {
                     this.setAccessToken(resp.access_token);
@@ -380,8 +454,8 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {string} [access_token] - The access token to invalidate. If not provided, the default access token is used.
      * @returns {Promise<boolean>} A promise that resolves when the DELETE request is complete.
      */
-    invalidateAccessToken(access_token?: string): Promise<any> {
-        return this._delete('api.token.invalidate', {
+    invalidateAccessToken(access_token?: string): Promise<boolean> {
+        return this._delete<boolean>('api.token.invalidate', {
             api_key: this.api_key,
             access_token: access_token || this.access_token,
         });
@@ -397,20 +471,20 @@ export class KiteConnect implements KiteConnectInterface {
      *
      * @param {string} refresh_token - The refresh token used for renewing the access token.
      * @param {string} api_secret - The API secret required for the renewal process.
-     * @returns {Promise<any>} A promise that resolves to the renewed access token if successful.
+     * @returns {Promise<SessionData>} A promise that resolves to the renewed access token if successful.
      *          If the renewal fails, the promise is rejected with an error message.
      */
-    renewAccessToken(refresh_token: string, api_secret: string): Promise<any> {
+    renewAccessToken(refresh_token: string, api_secret: string): Promise<SessionData> {
         return new Promise((resolve, reject) => {
             const checksum = sha256(this.api_key + refresh_token + api_secret).toString();
 
-            const p = this._post('api.token.renew', {
+            const p = this._post<SessionData>('api.token.renew', {
                 api_key: this.api_key,
                 refresh_token: refresh_token,
                 checksum: checksum
             });
 
-            p.then((resp: any) => {
+            p.then((resp: SessionData) => {
                 if (resp && resp.access_token) {
                     this.setAccessToken(resp.access_token);
                 }
@@ -427,7 +501,7 @@ export class KiteConnect implements KiteConnectInterface {
      * @param  {string} refresh_token - The refresh token to invalidate.
      * @returns A promise that resolves when the DELETE request is complete.
      */
-    invalidateRefreshToken = function (refresh_token: string): Promise<void> {
+    invalidateRefreshToken = function (refresh_token: string): Promise<boolean> {
         return this._delete('api.token.invalidate', {
             api_key: this.api_key,
             refresh_token: refresh_token
@@ -437,10 +511,10 @@ export class KiteConnect implements KiteConnectInterface {
     /**
      * Retrieves the user's profile.
      *
-     * @returns {Promise<any>} A promise that resolves with the user's profile data.
+     * @returns {Promise<Profile>} A promise that resolves with the user's profile data.
      */
-    getProfile(): Promise<any> {
-        return this._get('user.profile');
+    getProfile(): Promise<Profile> {
+        return this._get<Profile>('user.profile');
     };
 
     /**
@@ -450,83 +524,91 @@ export class KiteConnect implements KiteConnectInterface {
      * If a segment is specified, margin details for that segment are retrieved. Otherwise, margin details for all segments are retrieved.
      *
      * @param {?string} segment - Optional. The segment for which to retrieve margin details.
-     * @returns {Promise<any>} A promise that resolves with the margin details.
+     * @returns {Promise<Margins | UserMargin>} A promise that resolves with the margin details.
      *          If a segment is specified, the promise resolves with margin details for that segment.
      *          If no segment is specified, the promise resolves with margin details for all segments.
      */
-    getMargins(segment?: string): Promise<any> {
+    getMargins(): Promise<Margins>;
+    getMargins(segment: string): Promise<UserMargin>;
+    getMargins(segment?: string): Promise<Margins | UserMargin> {
         if (segment) {
-            return this._get('user.margins.segment', { 'segment': segment });
+            return this._get<UserMargin>('user.margins.segment', { 'segment': segment });
         } else {
-            return this._get('user.margins');
+            return this._get<Margins>('user.margins');
         }
     };
 
     /**
      * Places an order with the specified variety and parameters.
      *
+     * @remarks
+     * When a validator is set with `setOrderValidator` the order is only sent once it passes validation.
+     *
      * @param {Varieties} variety - The variety of the order.
      * @param {PlaceOrderParams} params - The parameters for the order.
-     * @returns {Promise<any>} A promise that resolves with the result of the order placement.
+     * @returns {Promise<OrderResponse>} A promise that resolves with the result of the order placement.
      */
-    placeOrder(variety: Varieties, params: PlaceOrderParams): Promise<any> {
+    placeOrder(variety: Varieties, params: PlaceOrderParams): Promise<OrderResponse> {
         params.variety = variety;
-        return this._post('order.place', params);
+        if (this.orderValidator) {
+            return this.orderValidator.validate(variety, params).then(() => this._post<OrderResponse>('order.place', params));
+        }
+        return this._post<OrderResponse>('order.place', params);
     };
 
     /**
      * @param {Varieties} variety  - The variety of the order.
      * @param {(string | number)} order_id - The ID of the order to modify.
      * @param {ModifyOrderParams} params - The parameters for modifying the order.
-     * @returns {Promise<any>} A Promise that resolves with the modified order details.
+     * @returns {Promise<OrderResponse>} A Promise that resolves with the modified order details.
      */
-    modifyOrder(variety: Varieties, order_id: string | number, params: ModifyOrderParams): Promise<any> {
+    modifyOrder(variety: Varieties, order_id: string | number, params: ModifyOrderParams): Promise<OrderResponse> {
         params.variety = variety;
         params.order_id = order_id;
-        return this._put('order.modify', params);
+        return this._put<OrderResponse>('order.modify', params);
     };
 
     /**
      * @param {Varieties} variety - The variety of the order.
      * @param {(string | number)} order_id - The ID of the order to modify.
      * @param {?CancelOrderParams} [params] - The parameters for cancelling the order.
-     * @returns {Promise<any>}
+     * @returns {Promise<OrderResponse>}
      */
-    cancelOrder(variety: Varieties, order_id: string | number, params?: CancelOrderParams): Promise<any> {
+    cancelOrder(variety: Varieties, order_id: string | number, params?: CancelOrderParams): Promise<OrderResponse> {
         params = params || {};
         params.variety = variety;
         params.order_id = order_id;
-        return this._delete('order.cancel', params);
+        return this._delete<OrderResponse>('order.cancel', params);
     };
 
     /**
      * @param {Varieties} variety - The variety of the order.
      * @param {string} order_id - The ID of the order to modify.
      * @param {ExitOrderParams} params - The parameters required for exiting the order.
-     * @returns {Promise<any>}
+     * @returns {Promise<OrderResponse>}
      */
-    exitOrder(variety: Varieties, order_id: string, params: ExitOrderParams): Promise<any> {
+    exitOrder(variety: Varieties, order_id: string, params: ExitOrderParams): Promise<OrderResponse> {
         return this.cancelOrder(variety, order_id, params);
     };
 
     /**
      * Retrieves orders.
      *
-     * @returns {Promise<any>} A Promise that resolves to the retrieved orders.
+     * @returns {Promise<Order[]>} A Promise that resolves to the retrieved orders.
      */
-    getOrders(): Promise<any> {
-        return this._get('orders', null, null, this.formatResponse);
+    getOrders(): Promise<Order[]> {
+        return this._get<Order[]>('orders', null, null, this.formatResponse);
     };
 
     /**
      * Retrieves the order history for a given order ID.
      *
      * @param {(string | number)} order_id - The ID of the order to retrieve history for.
-     * @returns {Promise<any>} - A Promise that resolves to the order history information.
-     *          The resolved value can be of any type.
+     * @returns {Promise<Order[]>} - A Promise that resolves to the order history information,
+     *          one entry per state change of the order.
      */
-    getOrderHistory(order_id: string | number): Promise<any> {
-        return this._get('order.info', { 'order_id': order_id }, null, this.formatResponse);
+    getOrderHistory(order_id: string | number): Promise<Order[]> {
+        return this._get<Order[]>('order.info', { 'order_id': order_id }, null, this.formatResponse);
     };
 
     /**
@@ -535,20 +617,20 @@ export class KiteConnect implements KiteConnectInterface {
      * @remarks
      * This method retrieves trades data from the server.
      *
-     * @returns {Promise<any>} A Promise that resolves with the trades data.
+     * @returns {Promise<Trade[]>} A Promise that resolves with the trades data.
      */
-    getTrades(): Promise<any> {
-        return this._get('trades', null, null, this.formatResponse);
+    getTrades(): Promise<Trade[]> {
+        return this._get<Trade[]>('trades', null, null, this.formatResponse);
     };
 
     /**
      * Retrieves the trades associated with a specific order.
      *
      * @param {string | number} order_id - The ID of the order.
-     * @returns {Promise<any>} A Promise resolving to the trades associated with the order.
+     * @returns {Promise<Trade[]>} A Promise resolving to the trades associated with the order.
      */
-    getOrderTrades(order_id: string | number): Promise<any> {
-        return this._get('order.trades', { 'order_id': order_id }, null, this.formatResponse);
+    getOrderTrades(order_id: string | number): Promise<Trade[]> {
+        return this._get<Trade[]>('order.trades', { 'order_id': order_id }, null, this.formatResponse);
     };
 
     /**
@@ -556,10 +638,10 @@ export class KiteConnect implements KiteConnectInterface {
      * 
      * @param {MarginOrder[]} orders - The array of orders for which margins are to be calculated.
      * @param {string} [mode='compact'] - The mode for margin calculation (optional).
-     * @returns {Promise<any>} - A Promise that resolves with the calculated margins.
+     * @returns {Promise<OrderMargin[]>} - A Promise that resolves with the calculated margins.
      */
-    orderMargins(orders: MarginOrder[], mode: string = 'compact'): Promise<any> {
-        return this._post('order.margins', orders, null, undefined, true,
+    orderMargins(orders: MarginOrder[], mode: string = 'compact'): Promise<OrderMargin[]> {
+        return this._post<OrderMargin[]>('order.margins', orders, null, undefined, true,
             { 'mode': mode });
     };
 
@@ -567,32 +649,32 @@ export class KiteConnect implements KiteConnectInterface {
      * Retrieves the virtual contract note for the specified orders.
      * 
      * @param {VirtualContractParam[]} orders - The array of orders for which to retrieve the virtual contract note.
-     * @returns {Promise<any>} A Promise that resolves with the virtual contract note.
+     * @returns {Promise<VirtualContractNote[]>} A Promise that resolves with the virtual contract note.
      */
-    getvirtualContractNote(orders: VirtualContractParam[]): Promise<any> {
-        return this._post('order.contract_note', orders, null, undefined, true, null);
+    getvirtualContractNote(orders: VirtualContractParam[]): Promise<VirtualContractNote[]> {
+        return this._post<VirtualContractNote[]>('order.contract_note', orders, null, undefined, true, null);
     };
 
     /**
      * Retrieves margin information for a basket of orders.
      *
-     * @param {Order[]} orders - The array of orders for which to retrieve margin information.
+     * @param {MarginOrder[]} orders - The array of orders for which to retrieve margin information.
      * @param {boolean} [consider_positions=true] - Flag indicating whether to consider existing positions.
      * @param {*} [mode='compact'] - The mode of operation. Default is compact.
-     * @returns {Promise<any>} - A Promise that resolves to margin information for the basket of orders.
+     * @returns {Promise<BasketMargin>} - A Promise that resolves to margin information for the basket of orders.
      */
-     orderBasketMargins(orders: Order[], consider_positions: boolean = true, mode: string = 'compact'): Promise<any> {
-        return this._post('order.margins.basket', orders, null, undefined, true,
+     orderBasketMargins(orders: MarginOrder[], consider_positions: boolean = true, mode: string = 'compact'): Promise<BasketMargin> {
+        return this._post<BasketMargin>('order.margins.basket', orders, null, undefined, true,
             { 'consider_positions': consider_positions, 'mode': mode });
     };
 
     /**
      * Retrieves the holdings from the portfolio.
      *
-     * @returns {Promise<any>} A Promise that resolves with the holdings data.
+     * @returns {Promise<Holding[]>} A Promise that resolves with the holdings data.
      */
-    getHoldings(): Promise<any> {
-        return this._get('portfolio.holdings');
+    getHoldings(): Promise<Holding[]> {
+        return this._get<Holding[]>('portfolio.holdings');
     };
 
     /**
@@ -601,66 +683,74 @@ export class KiteConnect implements KiteConnectInterface {
      * @remarks
      * This method retrieves auction instruments from the portfolio holdings.
      *
-     * @returns {Promise<any>} A Promise that resolves with the auction instruments.
+     * @returns {Promise<AuctionInstrument[]>} A Promise that resolves with the auction instruments.
      */
-    getAuctionInstruments(): Promise<any> {
-        return this._get('portfolio.holdings.auction');
+    getAuctionInstruments(): Promise<AuctionInstrument[]> {
+        return this._get<AuctionInstrument[]>('portfolio.holdings.auction');
     };
 
     /**
      * Retrieves positions from the portfolio.
      * 
-     * @returns {Promise<any>} A promise that resolves with the positions data.
+     * @returns {Promise<Positions>} A promise that resolves with the positions data.
      */
-    getPositions(): Promise<any> {
-        return this._get('portfolio.positions');
+    getPositions(): Promise<Positions> {
+        return this._get<Positions>('portfolio.positions');
     };
 
     /**
      * Converts a position based on the provided parameters.
      *
      * @param {ConvertPositionParams} params - The parameters for converting the position.
-     * @returns {Promise<any>} A Promise that resolves with the result of the conversion.
+     * @returns {Promise<boolean>} A Promise that resolves with the result of the conversion.
      * 
      */
-    convertPosition(params: ConvertPositionParams): Promise<any> {
-        return this._put('portfolio.positions.convert', params);
+    convertPosition(params: ConvertPositionParams): Promise<boolean> {
+        return this._put<boolean>('portfolio.positions.convert', params);
     };
 
     /**
      * Retrieves instruments based on the provided exchange.
      *
-     * @param {Exchanges} exchange - Exchange name
-     * @returns {Promise<any>} - A Promise resolving to the fetched instruments.
+     * @param {Exchanges} [exchange] - Exchange name. Instruments of all exchanges are returned when omitted.
+     * @returns {Promise<Instrument[]>} - A Promise resolving to the fetched instruments.
      */
-    getInstruments(exchange: Exchanges): Promise<any> {
+    getInstruments(exchange?: Exchanges): Promise<Instrument[]> {
         if (exchange) {
-            return this._get('market.instruments', {
+            return this._get<Instrument[]>('market.instruments', {
                 'exchange': exchange
             }, null, this.transformInstrumentsResponse);
         } else {
-            return this._get('market.instruments.all', null, null, this.transformInstrumentsResponse);
+            return this._get<Instrument[]>('market.instruments.all', null, null, this.transformInstrumentsResponse);
         }
     };
 
     /**
      * Retrieves Quote data for the specified instruments.
      *
+     * @remarks
+     * Lists longer than the 500 instruments allowed per request are split into batches and the
+     * results merged. When some batches fail the promise rejects with a `BatchException` carrying
+     * the results of the batches that succeeded.
+     *
      * @param {(string | string[])} instruments - An array of exchange:tradingsymbol
-     * @returns {Promise<any>} A promise that resolves with the quote data for the specified instruments.
+     * @returns {Promise<Record<string, Quote>>} A promise that resolves with the quote data for the specified instruments.
      */
-    getQuote(instruments: string | string[]): Promise<any> {
-        return this._get('market.quote', {"i": instruments}, null, formatQuoteResponse);
+    getQuote(instruments: string | string[]): Promise<Record<string, Quote>> {
+        return this.getQuoteBatches<Quote>('market.quote', instruments, formatQuoteResponse);
     };
 
     /**
      * Retrieves OHLC (Open, High, Low, Close) data for the specified instruments.
      *
+     * @remarks
+     * Lists longer than the 1000 instruments allowed per request are split into batches, see `getQuote`.
+     *
      * @param {(string | string[])} instruments - An array of exchange:tradingsymbol.
-     * @returns {Promise<any>} A promise that resolves with the OHLC data for the specified instruments.
+     * @returns {Promise<Record<string, OHLCQuote>>} A promise that resolves with the OHLC data for the specified instruments.
      */
-    getOHLC(instruments: string | string[]): Promise<any> {
-        return this._get('market.quote.ohlc', {"i": instruments});
+    getOHLC(instruments: string | string[]): Promise<Record<string, OHLCQuote>> {
+        return this.getQuoteBatches<OHLCQuote>('market.quote.ohlc', instruments);
     };
 
     /**
@@ -668,14 +758,64 @@ export class KiteConnect implements KiteConnectInterface {
      *
      * @remarks
      * This method fetches the last traded price (LTP) for the provided instruments.
+     * Lists longer than the 1000 instruments allowed per request are split into batches, see `getQuote`.
      *
      * @param {(string | string[])} instruments - An array of exchange:tradingsymbol
-     * @returns {Promise<any>} The last traded price (LTP) of the specified instruments as a Promise<any>.
+     * @returns {Promise<Record<string, LTPQuote>>} The last traded price (LTP) of the specified instruments.
      */
-    getLTP(instruments: string | string[]): Promise<any>{
-        return this._get('market.quote.ltp', {"i": instruments});
+    getLTP(instruments: string | string[]): Promise<Record<string, LTPQuote>> {
+        return this.getQuoteBatches<LTPQuote>('market.quote.ltp', instruments);
     };
 
+    /**
+     * Retrieves the range the trigger prices of orders on the given side are accepted within.
+     *
+     * @param {TransactionTypes} transaction_type - Side of the orders, eg. BUY.
+     * @param {(string | string[])} instruments - An array of exchange:tradingsymbol.
+     * @returns {Promise<Record<string, TriggerRange>>}
+     */
+    getTriggerRange(transaction_type: TransactionTypes, instruments: string | string[]): Promise<Record<string, TriggerRange>> {
+        return this._get<Record<string, TriggerRange>>('market.trigger_range', { 'transaction_type': transaction_type.toLowerCase(), 'i': instruments });
+    };
+
+    /**
+     * Requests a quote route in batches within its per request instrument limit and merges the results.
+     * Batches are paced by the quote rate limit, with the default limits when `rate_limit` is disabled.
+     *
+     * @private
+     * @param {string} route
+     * @param {(string | string[])} instruments
+     * @param {Function} [transform]
+     * @returns {Promise<Record<string, T>>}
+     */
+    private async getQuoteBatches<T>(route: string, instruments: string | string[], transform?: AxiosResponseTransformer): Promise<Record<string, T>> {
+        const list = Array.isArray(instruments) ? instruments : [instruments];
+        const limit = QUOTE_INSTRUMENT_LIMITS[route];
+        if (list.length <= limit) return this._get<Record<string, T>>(route, {"i": instruments}, null, transform);
+
+        const batches: string[][] = [];
+        for (let i = 0; i < list.length; i += limit) batches.push(list.slice(i, i + limit));
+
+        const results: Record<string, T> = {};
+        const failures: BatchFailure[] = [];
+        // Requests wait for the rate limiter when it is enabled, otherwise the batches are paced here
+        if (!this.rateLimiter && !this.batchLimiter) this.batchLimiter = new RateLimiter();
+        const pacer = this.rateLimiter ? null : this.batchLimiter;
+        await utils.mapWithConcurrency(batches, batches.length, async (batch) => {
+            try {
+                if (pacer) await pacer.acquire(route);
+                Object.assign(results, await this._get<Record<string, T>>(route, {"i": batch}, null, transform));
+            } catch (error) {
+                failures.push({ instruments: batch, error: error });
+            }
+        });
+
+        if (failures.length) {
+            throw new BatchException(failures.length + ' of ' + batches.length + ' batches failed', failures, { route: route, data: results });
+        }
+        return results;
+    }
+
     /**
      * Retrieve historical data (candles) for an instrument.
      * For example:
@@ -695,15 +835,15 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {(string | Date)} to_date - Date string in 'YYYY-MM-DD HH:MM:SS' format or Date object. When using Date objects, the local timezone representation is preserved (no UTC conversion).
      * @param {(number | boolean)} [continuous=false]
      * @param {(number | boolean)} [oi=false]
-     * @returns {Promise<any>}
+     * @returns {Promise<HistoricalData[]>}
      */
-    getHistoricalData(instrument_token: number | string, interval: string, from_date: string | Date, to_date: string | Date, continuous: number | boolean = false, oi: number | boolean = false) {
+    getHistoricalData(instrument_token: number | string, interval: string, from_date: string | Date, to_date: string | Date, continuous: number | boolean = false, oi: number | boolean = false): Promise<HistoricalData[]> {
         continuous = continuous ? 1 : 0;
         oi = oi ? 1 : 0;
         if (typeof to_date === 'object') to_date = _getDateTimeString(to_date)
         if (typeof from_date === 'object') from_date = _getDateTimeString(from_date)
 
-        return this._get('market.historical', {
+        return this._get<HistoricalData[]>('market.historical', {
             instrument_token: instrument_token,
             interval: interval,
             from: from_date,
@@ -713,15 +853,57 @@ export class KiteConnect implements KiteConnectInterface {
         }, null, this.parseHistorical);
     };
 
+    /**
+     * Retrieve historical data (candles) for an instrument over a range longer than the API allows per request.
+     *
+     * @remarks
+     * The range is split into windows no longer than the maximum number of days allowed for the interval
+     * (60 days for `minute`, 100 for `3minute` to `10minute`, 200 for `15minute` and `30minute`, 400 for `60minute`
+     * and 2000 for `day`). The windows are fetched with bounded concurrency and merged into a single series
+     * ordered by date, with the candles repeated at window boundaries removed.
+     *
+     * @param {(number | string)} instrument_token
+     * @param {string} interval - One of `minute`, `3minute`, `5minute`, `10minute`, `15minute`, `30minute`, `60minute` or `day`.
+     * @param {(string | Date)} from_date - Date string in 'YYYY-MM-DD HH:MM:SS' format or Date object.
+     * @param {(string | Date)} to_date - Date string in 'YYYY-MM-DD HH:MM:SS' format or Date object.
+     * @param {HistoricalDataRangeOptions} [options]
+     * @returns {Promise<HistoricalData[]>}
+     */
+    async getHistoricalDataRange(instrument_token: number | string, interval: string, from_date: string | Date, to_date: string | Date, options: HistoricalDataRangeOptions = {}): Promise<HistoricalData[]> {
+        const maxDays = HISTORICAL_INTERVAL_LIMITS[interval];
+        if (!maxDays) throw new InputException('Invalid `interval`: ' + interval);
+
+        const from = utils.parseDateTime(from_date);
+        const to = utils.parseDateTime(to_date);
+        if (from > to) throw new InputException('`from_date` is after `to_date`');
+
+        const windows = _getHistoricalWindows(from, to, maxDays);
+        const results = await utils.mapWithConcurrency(windows, options.concurrency || 3, (w) => {
+            return this.getHistoricalData(instrument_token, interval, w.from, w.to, !!options.continuous, !!options.oi);
+        });
+
+        // Merge windows, dropping the candles shared by adjacent windows
+        const candles: { [time: number]: HistoricalData } = {};
+        for (const result of results) {
+            for (const candle of result) {
+                candles[candle.date.getTime()] = candle;
+            }
+        }
+
+        return Object.keys(candles).map(Number).sort((a, b) => a - b).map((time) => candles[time]);
+    }
+
     /**
      * @param {?(string | number)} [order_id]
-     * @returns {*}
+     * @returns {Promise<MFOrder[] | MFOrder>}
      */
-    getMFOrders(order_id?: string | number) {
+    getMFOrders(): Promise<MFOrder[]>;
+    getMFOrders(order_id: string | number): Promise<MFOrder>;
+    getMFOrders(order_id?: string | number): Promise<MFOrder[] | MFOrder> {
         if (order_id) {
-            return this._get('mf.order.info', { 'order_id': order_id }, null, this.formatResponse);
+            return this._get<MFOrder>('mf.order.info', { 'order_id': order_id }, null, this.formatResponse);
         } else {
-            return this._get('mf.orders', null, null, this.formatResponse);
+            return this._get<MFOrder[]>('mf.orders', null, null, this.formatResponse);
         }
     };
 
@@ -729,33 +911,35 @@ export class KiteConnect implements KiteConnectInterface {
      *
      *
      * @param {PlaceMFOrderParams} params
-     * @returns {*}
+     * @returns {Promise<MFOrderResponse>}
      */
-    placeMFOrder(params: PlaceMFOrderParams) {
-        return this._post('mf.order.place', params);
+    placeMFOrder(params: PlaceMFOrderParams): Promise<MFOrderResponse> {
+        return this._post<MFOrderResponse>('mf.order.place', params);
     }
 
     /**
      *
      *
      * @param {(string | number)} order_id
-     * @returns {*}
+     * @returns {Promise<MFOrderResponse>}
      */
-    cancelMFOrder(order_id: string | number) {
-        return this._delete('mf.order.cancel', { 'order_id': order_id })
+    cancelMFOrder(order_id: string | number): Promise<MFOrderResponse> {
+        return this._delete<MFOrderResponse>('mf.order.cancel', { 'order_id': order_id })
     }
 
     /**
      *
      *
      * @param {?(string | number)} [sip_id]
-     * @returns {*}
+     * @returns {Promise<MFSIP[] | MFSIP>}
      */
-    getMFSIPS(sip_id?: string | number) {
+    getMFSIPS(): Promise<MFSIP[]>;
+    getMFSIPS(sip_id: string | number): Promise<MFSIP>;
+    getMFSIPS(sip_id?: string | number): Promise<MFSIP[] | MFSIP> {
         if (sip_id) {
-            return this._get('mf.sip.info', { 'sip_id': sip_id }, null, this.formatResponse);
+            return this._get<MFSIP>('mf.sip.info', { 'sip_id': sip_id }, null, this.formatResponse);
         } else {
-            return this._get('mf.sips', null, null, this.formatResponse);
+            return this._get<MFSIP[]>('mf.sips', null, null, this.formatResponse);
         }
     }
 
@@ -763,10 +947,10 @@ export class KiteConnect implements KiteConnectInterface {
      *
      *
      * @param {Order} params
-     * @returns {*}
+     * @returns {Promise<MFSIPResponse>}
      */
-    placeMFSIP(params: Order) {
-        return this._post('mf.sip.place', params);
+    placeMFSIP(params: Order): Promise<MFSIPResponse> {
+        return this._post<MFSIPResponse>('mf.sip.place', params);
     }
 
     /**
@@ -774,58 +958,58 @@ export class KiteConnect implements KiteConnectInterface {
      *
      * @param {(string | number)} sip_id
      * @param {Order} params
-     * @returns {*}
+     * @returns {Promise<MFSIPResponse>}
      */
-    modifyMFSIP(sip_id: string | number, params: Order) {
+    modifyMFSIP(sip_id: string | number, params: Order): Promise<MFSIPResponse> {
         params.sip_id = sip_id;
-        return this._put('mf.sip.modify', params);
+        return this._put<MFSIPResponse>('mf.sip.modify', params);
     }
 
     /**
      *
      *
      * @param {(string | number)} sip_id
-     * @returns {*}
+     * @returns {Promise<MFSIPResponse>}
      */
-    cancelMFSIP(sip_id: string | number) {
-        return this._delete('mf.sip.cancel', { 'sip_id': sip_id });
+    cancelMFSIP(sip_id: string | number): Promise<MFSIPResponse> {
+        return this._delete<MFSIPResponse>('mf.sip.cancel', { 'sip_id': sip_id });
     }
 
     /**
      *
      *
-     * @returns {*}
+     * @returns {Promise<MFHolding[]>}
      */
-    getMFHoldings() {
-        return this._get('mf.holdings');
+    getMFHoldings(): Promise<MFHolding[]> {
+        return this._get<MFHolding[]>('mf.holdings');
     }
 
     /**
      *
      *
-     * @returns {*}
+     * @returns {Promise<MFInstrument[]>}
      */
-    getMFInstruments() {
-        return this._get('mf.instruments', null, null, transformMFInstrumentsResponse);
+    getMFInstruments(): Promise<MFInstrument[]> {
+        return this._get<MFInstrument[]>('mf.instruments', null, null, transformMFInstrumentsResponse);
     }
 
     /**
      * Get GTTs list
      * 
-     * @returns {Promise<any>}
+     * @returns {Promise<GTT[]>}
      */
-    getGTTs() {
-        return this._get('gtt.triggers', null, null, this.formatResponse);
+    getGTTs(): Promise<GTT[]> {
+        return this._get<GTT[]>('gtt.triggers', null, null, this.formatResponse);
     }
 
     /**
      * Get specific GTT history
      *
      * @param {(string | number)} trigger_id
-     * @returns {Promise<any>}
+     * @returns {Promise<GTT>}
      */
-    getGTT(trigger_id: string | number) {
-        return this._get('gtt.trigger_info', { 'trigger_id': trigger_id }, null, this.formatResponse);
+    getGTT(trigger_id: string | number): Promise<GTT> {
+        return this._get<GTT>('gtt.trigger_info', { 'trigger_id': trigger_id }, null, this.formatResponse);
     };
 
     /**
@@ -836,13 +1020,13 @@ export class KiteConnect implements KiteConnectInterface {
      */
     private _getGTTPayload(params: PlaceGTTParams) {
         if (params.trigger_type !== GTTStatusTypes.GTT_TYPE_OCO && params.trigger_type !== GTTStatusTypes.GTT_TYPE_SINGLE) {
-            throw new Error('Invalid `params.trigger_type`')
+            throw new InputException('Invalid `params.trigger_type`')
         }
         if (params.trigger_type === GTTStatusTypes.GTT_TYPE_OCO && params.trigger_values?.length !== 2) {
-            throw new Error('Invalid `trigger_values` for `OCO` order type')
+            throw new InputException('Invalid `trigger_values` for `OCO` order type')
         }
         if (params.trigger_type === GTTStatusTypes.GTT_TYPE_SINGLE && params.trigger_values?.length !== 1) {
-            throw new Error('Invalid `trigger_values` for `single` order type')
+            throw new InputException('Invalid `trigger_values` for `single` order type')
         }
         const condition = {
             exchange: params.exchange,
@@ -868,11 +1052,11 @@ export class KiteConnect implements KiteConnectInterface {
     /**
      * Place GTT.
      * @param {PlaceGTTParams} params
-     * @returns {Promise<any>}
+     * @returns {Promise<GTTResponse>}
      */
-    placeGTT(params: PlaceGTTParams) {
+    placeGTT(params: PlaceGTTParams): Promise<GTTResponse> {
         const payload = this._getGTTPayload(params);
-        return this._post('gtt.place', {
+        return this._post<GTTResponse>('gtt.place', {
             condition: JSON.stringify(payload.condition),
             orders: JSON.stringify(payload.orders),
             type: params.trigger_type
@@ -884,11 +1068,11 @@ export class KiteConnect implements KiteConnectInterface {
      *
      * @param {(string | number)} trigger_id
      * @param {PlaceGTTParams} params
-     * @returns {Promise<any>}
+     * @returns {Promise<GTTResponse>}
      */
-    modifyGTT(trigger_id: string | number, params: PlaceGTTParams) {
+    modifyGTT(trigger_id: string | number, params: PlaceGTTParams): Promise<GTTResponse> {
         const payload = this._getGTTPayload(params);
-        return this._put('gtt.modify', {
+        return this._put<GTTResponse>('gtt.modify', {
             trigger_id: trigger_id,
             type: params.trigger_type,
             condition: JSON.stringify(payload.condition),
@@ -900,10 +1084,10 @@ export class KiteConnect implements KiteConnectInterface {
      * Delete specific GTT order
      *
      * @param {(string | number)} trigger_id
-     * @returns {Promise<any>}
+     * @returns {Promise<GTTResponse>}
      */
-    deleteGTT(trigger_id: string | number) {
-        return this._delete('gtt.delete', { 'trigger_id': trigger_id }, null, undefined);
+    deleteGTT(trigger_id: string | number): Promise<GTTResponse> {
+        return this._delete<GTTResponse>('gtt.delete', { 'trigger_id': trigger_id }, null, undefined);
     };
 
     /**
@@ -916,7 +1100,7 @@ export class KiteConnect implements KiteConnectInterface {
     validatePostback(postback_data: AnyObject, api_secret: string) {
         if (!postback_data || !postback_data.checksum || !postback_data.order_id ||
             !postback_data.order_timestamp || !api_secret) {
-            throw new Error('Invalid postback data or api_secret');
+            throw new InputException('Invalid postback data or api_secret');
         }
 
         const inputString = postback_data.order_id + postback_data.order_timestamp + api_secret;
@@ -938,10 +1122,10 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {?(string | null)} [responseType]
      * @param {?AxiosResponseTransformer} [responseTransformer]
      * @param {boolean} [isJSON=false]
-     * @returns {*}
+     * @returns {Promise<T>}
      */
-    private _get(route: string, params?: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false) {
-        return this.request(route, 'GET', params || {}, responseType, responseTransformer, isJSON);
+    private _get<T = any>(route: string, params?: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false): Promise<T> {
+        return this.request<T>(route, 'GET', params || {}, responseType, responseTransformer, isJSON);
     }
 
     /**
@@ -954,10 +1138,10 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {?AxiosResponseTransformer} [responseTransformer]
      * @param {boolean} [isJSON=false]
      * @param {(AnyObject | null)} [queryParams=null]
-     * @returns {*}
+     * @returns {Promise<T>}
      */
-    private _post(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false, queryParams: AnyObject | null = null) {
-        return this.request(route, 'POST', params || {}, responseType, responseTransformer, isJSON, queryParams);
+    private _post<T = unknown>(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false, queryParams: AnyObject | null = null): Promise<T> {
+        return this.request<T>(route, 'POST', params || {}, responseType, responseTransformer, isJSON, queryParams);
     }
 
     /**
@@ -970,10 +1154,10 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {?AxiosResponseTransformer} [responseTransformer]
      * @param {boolean} [isJSON=false]
      * @param {*} [queryParams=null]
-     * @returns {*}
+     * @returns {Promise<T>}
      */
-    private _put(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false, queryParams = null) {
-        return this.request(route, 'PUT', params || {}, responseType, responseTransformer, isJSON, queryParams);
+    private _put<T = unknown>(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false, queryParams = null): Promise<T> {
+        return this.request<T>(route, 'PUT', params || {}, responseType, responseTransformer, isJSON, queryParams);
     }
 
     /**
@@ -985,10 +1169,10 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {?(string | null)} [responseType]
      * @param {?AxiosResponseTransformer} [responseTransformer]
      * @param {boolean} [isJSON=false]
-     * @returns {*}
+     * @returns {Promise<T>}
      */
-    private _delete(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false) {
-        return this.request(route, 'DELETE', params || {}, responseType, responseTransformer, isJSON);
+    private _delete<T = unknown>(route: string, params: AnyObject | null, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON = false): Promise<T> {
+        return this.request<T>(route, 'DELETE', params || {}, responseType, responseTransformer, isJSON);
     }
 
     /**
@@ -1002,9 +1186,9 @@ export class KiteConnect implements KiteConnectInterface {
      * @param {?AxiosResponseTransformer} [responseTransformer]
      * @param {?boolean} [isJSON]
      * @param {?(Record<string, any> | null)} [queryParams]
-     * @returns {*}
+     * @returns {Promise<T>}
      */
-    private request(route: string, method: Method, params: AnyObject, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON?: boolean, queryParams?: Record<string, any> | null) {
+    private request<T = unknown>(route: string, method: Method, params: AnyObject, responseType?: string | null, responseTransformer?: AxiosResponseTransformer, isJSON?: boolean, queryParams?: Record<string, any> | null): Promise<T> {
         // Check access token
         if (!responseType) responseType = 'json';
         let uri = ROUTES[route];
@@ -1057,7 +1241,17 @@ export class KiteConnect implements KiteConnectInterface {
         if (responseTransformer) {
             options.transformResponse = (axios.defaults.transformResponse as any).concat(responseTransformer);
         }
-        return this.requestInstance.request(options);
+        // The response interceptor unwraps the payload, so the promise resolves with the data itself
+        const send = async () => {
+            // Wait for a slot before every attempt, including retries
+            if (this.rateLimiter) await this.rateLimiter.acquire(route);
+            return this.requestInstance.request<T, T>(options);
+        };
+        return withRetry(send, method, this.retryPolicy).catch((err) => {
+            // Tag the error with the route that failed
+            if (err instanceof KiteError && !err.route) err.route = route;
+            throw err;
+        });
     }
 
 
@@ -1085,7 +1279,7 @@ export class KiteConnect implements KiteConnectInterface {
             }
     
             // Add OI field if its returned
-            if (d[6]) {
+            if (d.length > 6) {
                 c['oi'] = d[6]
             }
     
@@ -1165,6 +1359,27 @@ export class KiteConnect implements KiteConnectInterface {
 
 }
 
+/**
+ * Returns the request id sent by the API, if any.
+ *
+ * @param {AnyObject} headers
+ * @returns {(string | null)}
+ */
+function getRequestId(headers: AnyObject): string | null {
+    return (headers && headers['x-request-id']) || null;
+}
+
+/**
+ * Returns the fields of a request error that are safe to keep on a KiteError. The request
+ * config of the error carries the `Authorization` header, so the error itself is not kept.
+ *
+ * @param {AnyObject} error
+ * @returns {AnyObject}
+ */
+function _errorPayload(error: AnyObject): AnyObject {
+    return { 'code': error.code ?? null, 'message': error.message ?? null };
+}
+
 /**
  *
  * @param {AnyObject} data
@@ -1234,6 +1449,28 @@ function transformMFInstrumentsResponse(data: any, headers: AnyObject) {
 }
 
 
+/**
+ * Splits a date range into consecutive windows spanning at most `maxDays` days.
+ * Adjacent windows share their boundary timestamp.
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @param maxDays - Maximum number of days per window
+ * @returns List of windows
+ */
+function _getHistoricalWindows(from: Date, to: Date, maxDays: number): { from: Date, to: Date }[] {
+    const windows: { from: Date, to: Date }[] = [];
+    let start = from;
+    do {
+        const end = new Date(start);
+        end.setDate(end.getDate() + maxDays);
+        windows.push({ from: start, to: end < to ? end : to });
+        start = end;
+    } while (start < to);
+
+    return windows;
+}
+
 /**
  * Converts a Date object to YYYY-MM-DD HH:MM:SS format.
  * Preserves the local timezone representation instead of converting to UTC.
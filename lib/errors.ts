@@ -0,0 +1,200 @@
+'use strict';
+
+import { BatchFailure, KiteErrorParams, TickerError } from '../interfaces';
+
+/**
+ * @classdesc Base class for all errors raised by the Kite Connect client.
+ * Every rejected API promise rejects with an instance of one of its subclasses,
+ * so errors can be told apart with `instanceof` as well as with `error_type`.
+ *
+ * ~~~~
+ * import { KiteConnect, TokenException, NetworkException } from 'kiteconnect';
+ *
+ * try {
+ *     await kc.getPositions();
+ * } catch (err) {
+ *     if (err instanceof TokenException) {
+ *         // Session expired, login again
+ *     } else if (err instanceof NetworkException) {
+ *         console.error('Request failed', err.status, err.route);
+ *     }
+ * }
+ * ~~~~
+ *
+ * @constructor
+ * @name KiteError
+ */
+export class KiteError extends Error {
+    /**
+     * @type {string}
+     */
+    error_type: string;
+    /**
+     * @type {(number | null)}
+     */
+    status: number | null;
+    /**
+     * @type {(string | null)}
+     */
+    request_id: string | null;
+    /**
+     * @type {(string | null)}
+     */
+    route: string | null;
+    /**
+     * @type {unknown}
+     */
+    data: unknown;
+    /**
+     * @type {unknown}
+     */
+    payload: unknown;
+
+    /**
+     * Creates an instance of KiteError.
+     *
+     * @param {string} message - Human readable error message.
+     * @param {KiteErrorParams} [params] - Context of the failed request.
+     */
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message);
+        this.name = 'KiteError';
+        this.error_type = params.error_type || 'GeneralException';
+        this.status = params.status ?? null;
+        this.request_id = params.request_id ?? null;
+        this.route = params.route ?? null;
+        this.data = params.data ?? null;
+        this.payload = params.payload ?? null;
+    }
+}
+
+/**
+ * Session expired or the access token is invalid. The user has to login again.
+ */
+export class TokenException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'TokenException' });
+        this.name = 'TokenException';
+    }
+}
+
+/**
+ * Missing or invalid parameters in the request.
+ */
+export class InputException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'InputException' });
+        this.name = 'InputException';
+    }
+}
+
+/**
+ * Order placement, modification or cancellation failed.
+ */
+export class OrderException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'OrderException' });
+        this.name = 'OrderException';
+    }
+}
+
+/**
+ * The API could not be reached or responded with a non JSON error.
+ */
+export class NetworkException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'NetworkException' });
+        this.name = 'NetworkException';
+    }
+}
+
+/**
+ * The API responded with data the client could not understand.
+ */
+export class DataException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'DataException' });
+        this.name = 'DataException';
+    }
+}
+
+/**
+ * The user does not have permission for the requested action.
+ */
+export class PermissionException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'PermissionException' });
+        this.name = 'PermissionException';
+    }
+}
+
+/**
+ * Any other error. `error_type` retains the exception type reported by the API.
+ */
+export class GeneralException extends KiteError {
+    constructor(message: string, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: params.error_type || 'GeneralException' });
+        this.name = 'GeneralException';
+    }
+}
+
+/**
+ * Some batches of a request split into several API calls failed. `data` holds the merged
+ * results of the batches that succeeded and `failures` the batches that did not.
+ */
+export class BatchException extends KiteError {
+    /**
+     * @type {BatchFailure[]}
+     */
+    failures: BatchFailure[];
+
+    constructor(message: string, failures: BatchFailure[], params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'BatchException' });
+        this.name = 'BatchException';
+        this.failures = failures;
+    }
+}
+
+/**
+ * The ticker gave up reconnecting. `reconnect_count` is the number of attempts made.
+ */
+export class TickerException extends KiteError implements TickerError {
+    /**
+     * @type {number}
+     */
+    reconnect_count: number;
+
+    constructor(message: string, reconnect_count: number, params: KiteErrorParams = {}) {
+        super(message, { ...params, error_type: 'TickerException' });
+        this.name = 'TickerException';
+        this.reconnect_count = reconnect_count;
+    }
+}
+
+/**
+ * Map of API `error_type` to error class.
+ * @type {Object}
+ */
+const errorClasses: { [key: string]: new (message: string, params?: KiteErrorParams) => KiteError } = {
+    'TokenException': TokenException,
+    'InputException': InputException,
+    'OrderException': OrderException,
+    'NetworkException': NetworkException,
+    'DataException': DataException,
+    'PermissionException': PermissionException,
+    'GeneralException': GeneralException
+};
+
+/**
+ * Creates the error instance for the given `error_type`.
+ * Unknown types fall back to {@link GeneralException} with the reported type preserved.
+ *
+ * @param {string} error_type - Exception type reported by the API.
+ * @param {string} message - Human readable error message.
+ * @param {KiteErrorParams} [params] - Context of the failed request.
+ * @returns {KiteError}
+ */
+export function createKiteError(error_type: string, message: string, params: KiteErrorParams = {}): KiteError {
+    const ErrorClass = errorClasses[error_type] || GeneralException;
+    return new ErrorClass(message, { ...params, error_type });
+}
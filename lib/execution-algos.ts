@@ -0,0 +1,415 @@
+'use strict';
+
+import { AlgoOrderParams, ExecutionAlgo, ExecutionReport, FullTick, OrderTypes, PegOptions, ScheduleOptions, Tick, TickSource, TrackedOrder, TransactionTypes, TwapOptions, Varieties, VwapOptions } from '../interfaces';
+import { FINAL_ORDER_STATES } from '../constants';
+import { KiteConnect } from './connect';
+import { OrderTracker } from './order-tracker';
+import { SourceListener } from './source-listener';
+import utils from './utils';
+import { GeneralException, InputException, OrderException } from './errors';
+
+/**
+ * Client the orders are placed and worked with.
+ */
+type AlgoClient = Pick<KiteConnect, 'placeOrder' | 'modifyOrder' | 'cancelOrder'>;
+
+/**
+ * Last and best prices of an instrument.
+ */
+interface AlgoQuote {
+    last_price: number;
+    bid: number | null;
+    ask: number | null;
+}
+
+/**
+ * A pegged order once it is done.
+ */
+interface PegFill {
+    order: TrackedOrder;
+    /**
+     * Whether it was converted to a MARKET order
+     */
+    market: boolean;
+    /**
+     * Why the order was cancelled before it filled, eg. the MARKET order was not confirmed
+     */
+    error?: Error;
+}
+
+const defaultMaxSlippage = 0.005;
+const defaultPegTimeout = 30000;
+const defaultRepriceInterval = 1000;
+const defaultTickSize = 0.05;
+// Milliseconds a MARKET order, or the cancellation of an order, is given to be confirmed
+const CONFIRM_TIMEOUT = 10000;
+
+/**
+ * @classdesc Execution algorithms working an order against the quotes of a ticker, instead of
+ * one limit order that may never fill.
+ *
+ * - `peg` places a limit order at the best bid (buy) or ask (sell) and follows it as it moves,
+ *   never further than `max_slippage` from the arrival price. Once `timeout` passes, counted
+ *   from the call including the wait for a quote, the order is converted to a MARKET order.
+ * - `twap` slices the order into equal parts at equal intervals over `duration`, `vwap` in
+ *   proportion to a volume profile. Each slice is pegged until the next one is due.
+ *
+ * Each run resolves with an `ExecutionReport` comparing the average fill with the arrival price.
+ * When an order fails, eg. its MARKET conversion is not confirmed, its remaining quantity is
+ * cancelled and the run rejects with an `OrderException` carrying the report of the fills so far.
+ * Subscribe the instruments in full mode, the best bid and ask come from the market depth.
+ *
+ * @example
+ * const algos = new ExecutionAlgos(kc, tracker);
+ * algos.attach(ticker);
+ * const report = await algos.twap({ exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', instrument_token: 10626050,
+ *     transaction_type: 'BUY', quantity: 750, product: 'NRML' }, { duration: 300000, slices: 5, lot_size: 75 });
+ * console.log(report.average_price, 'vs arrival', report.arrival_price, report.slippage_bps, 'bps');
+ *
+ * @constructor
+ * @name ExecutionAlgos
+ * @param {KiteConnect} kite - Client the orders are placed with, or a `PaperKiteConnect`.
+ * @param {OrderTracker} tracker - Tracker the fills of the orders are followed with.
+ */
+export class ExecutionAlgos {
+    /**
+     * @private
+     * @type {AlgoClient}
+     */
+    private kite: AlgoClient;
+    /**
+     * @private
+     * @type {OrderTracker}
+     */
+    private tracker: OrderTracker;
+    /**
+     * @private
+     * @type {SourceListener}
+     */
+    private sources = new SourceListener('ticks', (ticks: Tick[]) => this.updateTicks(ticks));
+    /**
+     * Latest quote by instrument token.
+     * @private
+     * @type {Map<number, AlgoQuote>}
+     */
+    private quotes = new Map<number, AlgoQuote>();
+    /**
+     * Called with every quote update.
+     * @private
+     * @type {Set<Function>}
+     */
+    private listeners = new Set<(instrument_token: number, quote: AlgoQuote) => void>();
+    constructor(kite: AlgoClient, tracker: OrderTracker) {
+        this.kite = kite;
+        this.tracker = tracker;
+    }
+
+    /**
+     * Prices orders with the ticks of a ticker, ticker pool or tick replayer.
+     *
+     * @param {TickSource} source
+     * @returns {void}
+     */
+    attach(source: TickSource): void {
+        this.sources.attach(source);
+    }
+
+    /**
+     * Stops listening to the ticks of a source, or of every source.
+     *
+     * @param {TickSource} [source]
+     * @returns {void}
+     */
+    detach(source?: TickSource): void {
+        this.sources.detach(source);
+    }
+
+    /**
+     * Works an order as a limit order pegged to the best bid or ask.
+     *
+     * @param {AlgoOrderParams} params
+     * @param {PegOptions} [options]
+     * @returns {Promise<ExecutionReport>}
+     */
+    async peg(params: AlgoOrderParams, options: PegOptions = {}): Promise<ExecutionReport> {
+        const started_at = new Date();
+        const deadline = started_at.getTime() + (options.timeout ?? defaultPegTimeout);
+        const arrival_price = _midPrice(await this.waitForQuote(params.instrument_token, deadline - Date.now()));
+        const fill = await this.pegOrder(params, params.quantity, arrival_price, Math.max(deadline - Date.now(), 0), options);
+        const report = _report('peg', params, arrival_price, [fill], started_at);
+        if (fill.error) {
+            throw new OrderException('Peg of ' + params.tradingsymbol + ' failed: ' + fill.error.message, { data: report, payload: fill.error });
+        }
+        return report;
+    }
+
+    /**
+     * Works an order as equal slices at equal intervals over the duration.
+     *
+     * @param {AlgoOrderParams} params
+     * @param {TwapOptions} options
+     * @returns {Promise<ExecutionReport>}
+     */
+    async twap(params: AlgoOrderParams, options: TwapOptions): Promise<ExecutionReport> {
+        if (!(options.slices >= 1)) throw new InputException('Invalid `slices`');
+        return this.schedule('twap', params, new Array(Math.floor(options.slices)).fill(1), options);
+    }
+
+    /**
+     * Works an order as slices at equal intervals over the duration, in proportion to the volume profile.
+     *
+     * @param {AlgoOrderParams} params
+     * @param {VwapOptions} options
+     * @returns {Promise<ExecutionReport>}
+     */
+    async vwap(params: AlgoOrderParams, options: VwapOptions): Promise<ExecutionReport> {
+        const profile = options.volume_profile || [];
+        if (!profile.length || profile.some((volume) => !(volume >= 0)) || !profile.some((volume) => volume > 0)) {
+            throw new InputException('Invalid `volume_profile`');
+        }
+        return this.schedule('vwap', params, profile, options);
+    }
+
+    /**
+     * Places the slices of an order at equal intervals, each pegged until the next one is due.
+     *
+     * @private
+     * @param {ExecutionAlgo} algo
+     * @param {AlgoOrderParams} params
+     * @param {number[]} weights - Share of each slice
+     * @param {ScheduleOptions} options
+     * @returns {Promise<ExecutionReport>}
+     */
+    private async schedule(algo: ExecutionAlgo, params: AlgoOrderParams, weights: number[], options: ScheduleOptions): Promise<ExecutionReport> {
+        const quantities = _allocate(params.quantity, weights, options.lot_size || 1);
+        const interval = options.duration / quantities.length;
+        const started_at = new Date();
+        const arrival_price = _midPrice(await this.waitForQuote(params.instrument_token, interval));
+
+        const fills: PegFill[] = [];
+        for (let i = 0; i < quantities.length; i++) {
+            const due = started_at.getTime() + i * interval;
+            if (due > Date.now()) await utils.sleep(due - Date.now());
+            if (!quantities[i]) continue;
+            try {
+                const timeout = Math.max(due + interval - Date.now(), 0);
+                const fill = await this.pegOrder(params, quantities[i], arrival_price, timeout, options);
+                fills.push(fill);
+                if (fill.error) throw fill.error;
+            } catch (error) {
+                const done = fills.filter((fill) => !fill.error).length;
+                const message = algo.toUpperCase() + ' of ' + params.tradingsymbol + ' stopped after ' + done + ' slices: ' + (error as Error).message;
+                throw new OrderException(message, { data: _report(algo, params, arrival_price, fills, started_at), payload: error });
+            }
+        }
+        return _report(algo, params, arrival_price, fills, started_at);
+    }
+
+    /**
+     * Places a limit order at the best bid or ask and reprices it with the quotes until it fills
+     * or times out. When the MARKET order it is converted to does not fill, the order is cancelled
+     * and resolves with the error.
+     *
+     * @private
+     * @param {AlgoOrderParams} params
+     * @param {number} quantity
+     * @param {number} arrival_price
+     * @param {number} timeout
+     * @param {PegOptions} options
+     * @returns {Promise<PegFill>}
+     */
+    private async pegOrder(params: AlgoOrderParams, quantity: number, arrival_price: number, timeout: number, options: PegOptions): Promise<PegFill> {
+        const variety = params.variety || Varieties.VARIETY_REGULAR;
+        const buy = params.transaction_type === TransactionTypes.BUY;
+        const tick_size = options.tick_size || defaultTickSize;
+        const max_slippage = options.max_slippage ?? defaultMaxSlippage;
+        const reprice_interval = options.reprice_interval ?? defaultRepriceInterval;
+        const bound = arrival_price * (buy ? 1 + max_slippage : 1 - max_slippage);
+        const priceOf = (quote: AlgoQuote) => {
+            const best = (buy ? quote.bid : quote.ask) ?? quote.last_price;
+            return _roundToTick(buy ? Math.min(best, bound) : Math.max(best, bound), tick_size, buy);
+        };
+
+        let price = priceOf(this.quotes.get(params.instrument_token) as AlgoQuote);
+        const { order_id } = await this.kite.placeOrder(variety, {
+            exchange: params.exchange,
+            tradingsymbol: params.tradingsymbol,
+            transaction_type: params.transaction_type,
+            quantity: quantity,
+            product: params.product,
+            order_type: OrderTypes.LIMIT,
+            price: price,
+            tag: params.tag
+        });
+        const id = String(order_id);
+        this.tracker.track(id);
+
+        let repriced_at = Date.now();
+        let repricing = false;
+        const reprice = (instrument_token: number, quote: AlgoQuote) => {
+            const next = priceOf(quote);
+            if (instrument_token !== params.instrument_token || repricing || next === price) return;
+            if (Date.now() - repriced_at < reprice_interval) return;
+            const tracked = this.tracker.getOrder(id);
+            if (!tracked || FINAL_ORDER_STATES.includes(tracked.state)) return;
+
+            repricing = true;
+            this.kite.modifyOrder(variety, id, { price: next })
+                .then(() => {
+                    price = next;
+                    repriced_at = Date.now();
+                })
+                // The order may have filled meanwhile
+                .catch(() => undefined)
+                .finally(() => repricing = false);
+        };
+
+        this.listeners.add(reprice);
+        try {
+            return { order: await this.tracker.waitForFill(id, timeout), market: false };
+        } catch (error) {
+            const tracked = (error as OrderException).data as TrackedOrder;
+            if (FINAL_ORDER_STATES.includes(tracked.state)) throw error;
+        } finally {
+            this.listeners.delete(reprice);
+        }
+
+        // Timed out with quantity left
+        if (options.market_on_timeout ?? true) {
+            await this.kite.modifyOrder(variety, id, { order_type: OrderTypes.MARKET }).catch(() => undefined);
+            try {
+                return { order: await this.tracker.waitForFill(id, CONFIRM_TIMEOUT), market: true };
+            } catch (error) {
+                return { order: await this.cancelRest(variety, id), market: false, error: error as Error };
+            }
+        }
+        return { order: await this.cancelRest(variety, id), market: false };
+    }
+
+    /**
+     * Cancels the remaining quantity of an order and waits for the cancellation to be confirmed.
+     *
+     * @private
+     * @param {Varieties} variety
+     * @param {string} order_id
+     * @returns {Promise<TrackedOrder>}
+     */
+    private async cancelRest(variety: Varieties, order_id: string): Promise<TrackedOrder> {
+        await this.kite.cancelOrder(variety, order_id).catch(() => undefined);
+        await this.tracker.waitForFill(order_id, CONFIRM_TIMEOUT).catch(() => undefined);
+        return this.tracker.getOrder(order_id) as TrackedOrder;
+    }
+
+    /**
+     * Resolves with the quote of an instrument once there is one.
+     *
+     * @private
+     * @param {number} instrument_token
+     * @param {number} timeout
+     * @returns {Promise<AlgoQuote>}
+     */
+    private waitForQuote(instrument_token: number, timeout: number): Promise<AlgoQuote> {
+        const quote = this.quotes.get(instrument_token);
+        if (quote) return Promise.resolve(quote);
+        return new Promise((resolve, reject) => {
+            const onQuote = (token: number, quote: AlgoQuote) => {
+                if (token !== instrument_token) return;
+                clearTimeout(timer);
+                this.listeners.delete(onQuote);
+                resolve(quote);
+            };
+            const timer = setTimeout(() => {
+                this.listeners.delete(onQuote);
+                reject(new GeneralException('No quote for instrument ' + instrument_token + ' within ' + timeout + 'ms'));
+            }, timeout);
+            this.listeners.add(onQuote);
+        });
+    }
+
+    /**
+     * @private
+     * @param {Tick[]} ticks
+     */
+    private updateTicks(ticks: Tick[]) {
+        for (const tick of ticks) {
+            const full = tick as FullTick;
+            const bid = full.depth?.buy.find((level) => level.quantity > 0);
+            const ask = full.depth?.sell.find((level) => level.quantity > 0);
+            const quote = { last_price: tick.last_price, bid: bid ? bid.price : null, ask: ask ? ask.price : null };
+            this.quotes.set(tick.instrument_token, quote);
+            Array.from(this.listeners).forEach((listener) => listener(tick.instrument_token, quote));
+        }
+    }
+}
+
+/**
+ * @param quantity - Quantity of the order
+ * @param weights - Share of each slice
+ * @param lot_size - Lot size of the instrument
+ * @returns Quantity of each slice, in whole lots
+ */
+function _allocate(quantity: number, weights: number[], lot_size: number): number[] {
+    if (!(quantity > 0) || quantity % lot_size !== 0) {
+        throw new InputException('Quantity ' + quantity + ' is not a multiple of the lot size ' + lot_size);
+    }
+    const lots = quantity / lot_size;
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = weights.map((weight) => lots * weight / total);
+    const allocated = shares.map(Math.floor);
+
+    // Hand out the lots lost to rounding down, largest remainder first
+    const order = shares.map((share, i) => i).sort((a, b) => (shares[b] - allocated[b]) - (shares[a] - allocated[a]));
+    for (let i = 0, left = lots - allocated.reduce((sum, n) => sum + n, 0); i < left; i++) allocated[order[i]]++;
+    return allocated.map((n) => n * lot_size);
+}
+
+/**
+ * @param quote - Quote of the instrument
+ * @returns Mid price, or the last price without a two sided quote
+ */
+function _midPrice(quote: AlgoQuote): number {
+    return quote.bid !== null && quote.ask !== null ? (quote.bid + quote.ask) / 2 : quote.last_price;
+}
+
+/**
+ * @param price - Price to round
+ * @param tick_size - Tick size of the instrument
+ * @param down - Round down, for buy orders, or up
+ * @returns Price on the tick size
+ */
+function _roundToTick(price: number, tick_size: number, down: boolean): number {
+    const ticks = price / tick_size;
+    const rounded = down ? Math.floor(ticks + 1e-9) : Math.ceil(ticks - 1e-9);
+    return Math.round(rounded * tick_size * 1e6) / 1e6;
+}
+
+/**
+ * @param algo - Algorithm that worked the order
+ * @param params - Order parameters
+ * @param arrival_price - Price when the algorithm started
+ * @param fills - Orders placed by the algorithm
+ * @param started_at - Time the algorithm started
+ * @returns Execution report
+ */
+function _report(algo: ExecutionAlgo, params: AlgoOrderParams, arrival_price: number, fills: PegFill[], started_at: Date): ExecutionReport {
+    const filled_quantity = fills.reduce((sum, fill) => sum + fill.order.filled_quantity, 0);
+    const filled_value = fills.reduce((sum, fill) => sum + fill.order.filled_quantity * fill.order.average_price, 0);
+    const average_price = filled_quantity ? filled_value / filled_quantity : 0;
+    const slippage = filled_quantity ? (average_price - arrival_price) * (params.transaction_type === TransactionTypes.BUY ? 1 : -1) : 0;
+    return {
+        algo: algo,
+        exchange: params.exchange,
+        tradingsymbol: params.tradingsymbol,
+        transaction_type: params.transaction_type,
+        quantity: params.quantity,
+        filled_quantity: filled_quantity,
+        average_price: average_price,
+        arrival_price: arrival_price,
+        slippage: slippage,
+        slippage_bps: arrival_price ? slippage / arrival_price * 10000 : 0,
+        order_ids: fills.map((fill) => fill.order.order_id),
+        market_orders: fills.filter((fill) => fill.market).length,
+        started_at: started_at,
+        finished_at: new Date()
+    };
+}
@@ -0,0 +1,271 @@
+'use strict';
+
+import { FullTick, GreeksParams, Instrument, LTPQuote, LTPTick, OptionAnalytics, OptionChain, OptionGreeks, OptionPricingInput, PricingModel } from '../interfaces';
+import { GREEKS_DEFAULTS, IST_OFFSET } from '../constants';
+import { InstrumentStore } from './instrument-store';
+import { InputException } from './errors';
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the theoretical price and greeks of a European option with the generalised
+ * Black-Scholes formula. Black-76 is Black-Scholes with a cost of carry of zero.
+ *
+ * @param {OptionPricingInput} input
+ * @returns {OptionGreeks}
+ */
+export function priceOption(input: OptionPricingInput): OptionGreeks {
+    const { underlying_price: S, strike: K, time_to_expiry: T, volatility: v, risk_free_rate: r } = input;
+    if (T <= 0 || v <= 0) throw new InputException('Time to expiry and volatility must be positive');
+
+    // Cost of carry
+    const b = input.model === 'black-76' ? 0 : r - input.dividend_yield;
+    const sqrtT = Math.sqrt(T);
+    const d1 = (Math.log(S / K) + (b + v * v / 2) * T) / (v * sqrtT);
+    const d2 = d1 - v * sqrtT;
+    const carry = Math.exp((b - r) * T);
+    const discount = Math.exp(-r * T);
+
+    const gamma = carry * _pdf(d1) / (S * v * sqrtT);
+    const vega = S * carry * _pdf(d1) * sqrtT;
+    const decay = -S * carry * _pdf(d1) * v / (2 * sqrtT);
+
+    let price: number, delta: number, theta: number, rho: number;
+    if (input.option_type === 'CE') {
+        price = S * carry * _cdf(d1) - K * discount * _cdf(d2);
+        delta = carry * _cdf(d1);
+        theta = decay - (b - r) * S * carry * _cdf(d1) - r * K * discount * _cdf(d2);
+        rho = b === 0 ? -T * price : K * T * discount * _cdf(d2);
+    } else {
+        price = K * discount * _cdf(-d2) - S * carry * _cdf(-d1);
+        delta = carry * (_cdf(d1) - 1);
+        theta = decay + (b - r) * S * carry * _cdf(-d1) + r * K * discount * _cdf(-d2);
+        rho = b === 0 ? -T * price : -K * T * discount * _cdf(-d2);
+    }
+
+    return {
+        price: price,
+        delta: delta,
+        gamma: gamma,
+        theta: theta / 365,
+        vega: vega / 100,
+        rho: rho / 100
+    };
+}
+
+/**
+ * Solves the volatility at which the model price matches `price`. Returns `null` when the price
+ * is outside the arbitrage bounds of the option and no volatility matches it.
+ *
+ * @param {number} price - Traded price of the option.
+ * @param {OptionPricingInput} input - Pricing inputs, `volatility` is ignored.
+ * @returns {?number}
+ */
+export function impliedVolatility(price: number, input: OptionPricingInput): number | null {
+    const { underlying_price: S, strike: K, time_to_expiry: T, risk_free_rate: r } = input;
+    if (T <= 0 || price <= 0) return null;
+
+    const b = input.model === 'black-76' ? 0 : r - input.dividend_yield;
+    const forward = S * Math.exp((b - r) * T);
+    const strike = K * Math.exp(-r * T);
+    const lower = input.option_type === 'CE' ? Math.max(forward - strike, 0) : Math.max(strike - forward, 0);
+    const upper = input.option_type === 'CE' ? forward : strike;
+    if (price <= lower || price >= upper) return null;
+
+    // Newton-Raphson, falling back to bisection when a step leaves the bracket
+    let low = 1e-6, high = 10, v = 0.3;
+    for (let i = 0; i < 100; i++) {
+        const greeks = priceOption({ ...input, volatility: v });
+        const diff = greeks.price - price;
+        if (Math.abs(diff) < 1e-6) return v;
+
+        if (diff > 0) high = v; else low = v;
+        const step = greeks.vega * 100;
+        const next = step > 1e-10 ? v - diff / step : NaN;
+        v = next > low && next < high ? next : (low + high) / 2;
+    }
+    return v;
+}
+
+/**
+ * @classdesc Implied volatility and greeks of traded options. Strike, option type and expiry are
+ * looked up in the instrument master by instrument token, so quotes and ticks can be passed directly.
+ *
+ * @example
+ * const greeks = new GreeksCalculator(instruments, { risk_free_rate: 0.07 });
+ * ticker.on('ticks', (ticks) => {
+ *     const analytics = greeks.forTick(ticks[0], niftySpot);
+ * });
+ *
+ * @constructor
+ * @name GreeksCalculator
+ * @param {InstrumentStore} instruments - Loaded instrument store the contracts are looked up in.
+ * @param {GreeksParams} [params]
+ */
+export class GreeksCalculator {
+    /**
+     * @private
+     * @type {InstrumentStore}
+     */
+    private instruments: InstrumentStore;
+    /**
+     * @type {number}
+     */
+    risk_free_rate: number;
+    /**
+     * @type {number}
+     */
+    dividend_yield: number;
+    /**
+     * @type {PricingModel}
+     */
+    model: PricingModel;
+    /**
+     * @type {string}
+     */
+    expiry_time: string;
+
+    constructor(instruments: InstrumentStore, params: GreeksParams = {}) {
+        this.instruments = instruments;
+        this.risk_free_rate = params.risk_free_rate ?? GREEKS_DEFAULTS.risk_free_rate;
+        this.dividend_yield = params.dividend_yield ?? GREEKS_DEFAULTS.dividend_yield;
+        this.model = params.model || GREEKS_DEFAULTS.model;
+        this.expiry_time = params.expiry_time || GREEKS_DEFAULTS.expiry_time;
+    }
+
+    /**
+     * Returns the implied volatility and greeks of an option contract at a traded price. Returns `null`
+     * when the contract has expired or no volatility matches the price.
+     *
+     * @param {Instrument} instrument - Option contract from the instrument master.
+     * @param {number} option_price - Traded price of the option.
+     * @param {number} underlying_price - Spot price, or futures price with the `black-76` model.
+     * @param {Date} [at] - Time of the price, defaults to now.
+     * @returns {?OptionAnalytics}
+     */
+    calculate(instrument: Instrument, option_price: number, underlying_price: number, at: Date = new Date()): OptionAnalytics | null {
+        if (instrument.instrument_type !== 'CE' && instrument.instrument_type !== 'PE') {
+            throw new InputException(instrument.tradingsymbol + ' is not an option contract');
+        }
+
+        const time_to_expiry = this.getTimeToExpiry(instrument, at);
+        if (time_to_expiry <= 0) return null;
+
+        const input: OptionPricingInput = {
+            option_type: instrument.instrument_type,
+            underlying_price: underlying_price,
+            strike: instrument.strike,
+            time_to_expiry: time_to_expiry,
+            volatility: 0,
+            risk_free_rate: this.risk_free_rate,
+            dividend_yield: this.dividend_yield,
+            model: this.model
+        };
+        const volatility = impliedVolatility(option_price, input);
+        if (volatility === null) return null;
+
+        return {
+            ...priceOption({ ...input, volatility: volatility }),
+            implied_volatility: volatility,
+            time_to_expiry: time_to_expiry
+        };
+    }
+
+    /**
+     * Returns the analytics of a quote returned by `getQuote`, `getOHLC` or `getLTP`.
+     *
+     * @param {LTPQuote} quote
+     * @param {number} underlying_price - Spot price, or futures price with the `black-76` model.
+     * @param {Date} [at] - Defaults to the quote timestamp, or now.
+     * @returns {?OptionAnalytics}
+     */
+    forQuote(quote: LTPQuote & { timestamp?: Date }, underlying_price: number, at?: Date): OptionAnalytics | null {
+        return this.calculate(this.getContract(quote.instrument_token), quote.last_price, underlying_price, at || quote.timestamp || new Date());
+    }
+
+    /**
+     * Returns the analytics of a tick received by the ticker.
+     *
+     * @param {(LTPTick | FullTick)} tick
+     * @param {number} underlying_price - Spot price, or futures price with the `black-76` model.
+     * @param {Date} [at] - Defaults to the exchange timestamp of the tick, or now.
+     * @returns {?OptionAnalytics}
+     */
+    forTick(tick: LTPTick | FullTick, underlying_price: number, at?: Date): OptionAnalytics | null {
+        const timestamp = 'exchange_timestamp' in tick ? tick.exchange_timestamp : null;
+        return this.calculate(this.getContract(tick.instrument_token), tick.last_price, underlying_price, at || timestamp || new Date());
+    }
+
+    /**
+     * Sets the `greeks` of every quoted leg of an option chain.
+     *
+     * @param {OptionChain} chain
+     * @param {number} [underlying_price] - Defaults to the spot price of the chain.
+     * @param {Date} [at] - Defaults to now.
+     * @returns {OptionChain} The same chain.
+     */
+    forChain(chain: OptionChain, underlying_price?: number, at: Date = new Date()): OptionChain {
+        const price = underlying_price ?? chain.spot;
+        if (price === null || price === undefined) throw new InputException('`underlying_price` is required, the chain has no spot price');
+
+        for (const row of chain.rows) {
+            for (const leg of [row.CE, row.PE]) {
+                if (leg) leg.greeks = this.calculate(leg.instrument, leg.last_price, price, at);
+            }
+        }
+        return chain;
+    }
+
+    /**
+     * Returns the time from `at` to the expiry of a contract in years.
+     *
+     * @param {Instrument} instrument
+     * @param {Date} [at]
+     * @returns {number}
+     */
+    getTimeToExpiry(instrument: Instrument, at: Date = new Date()): number {
+        if (!instrument.expiry) throw new InputException(instrument.tradingsymbol + ' has no expiry');
+
+        // Expiries of the instrument master are UTC midnight of the expiry date
+        const date = typeof instrument.expiry === 'string' ? instrument.expiry : instrument.expiry.toISOString();
+        const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+        const [hours, minutes] = this.expiry_time.split(':').map(Number);
+        const expiry = Date.UTC(year, month - 1, day, hours, minutes) - IST_OFFSET;
+
+        return (expiry - at.getTime()) / MS_PER_YEAR;
+    }
+
+    /**
+     * @private
+     * @param {(number | string)} instrument_token
+     * @returns {Instrument}
+     */
+    private getContract(instrument_token: number | string): Instrument {
+        const instrument = this.instruments.getInstrumentByToken(instrument_token);
+        if (!instrument) throw new InputException('Unknown instrument token: ' + instrument_token);
+        return instrument;
+    }
+}
+
+/**
+ * Standard normal probability density function.
+ *
+ * @param x - Value
+ * @returns Density at `x`
+ */
+function _pdf(x: number): number {
+    return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution function (Abramowitz and Stegun 26.2.17, error below 7.5e-8).
+ *
+ * @param x - Value
+ * @returns Probability of a value at most `x`
+ */
+function _cdf(x: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    const p = 1 - _pdf(x) * poly;
+    return x >= 0 ? p : 1 - p;
+}
@@ -2,3 +2,20 @@
 
 export { KiteConnect } from './connect';
 export { KiteTicker } from './ticker';
+export { KiteError, TokenException, InputException, OrderException, NetworkException, DataException, PermissionException, GeneralException, BatchException, TickerException } from './errors';
+export { CandleStore } from './candle-store';
+export { InstrumentStore } from './instrument-store';
+export { getOptionChain } from './option-chain';
+export { GreeksCalculator, priceOption, impliedVolatility } from './greeks';
+export { KiteTickerPool } from './ticker-pool';
+export { TickRecorder, TickReplayer } from './tick-recorder';
+export { MockTickerServer } from './mock-ticker-server';
+export { MockKiteServer } from './mock-kite-server';
+export { PaperKiteConnect } from './paper-kite-connect';
+export { OrderTracker } from './order-tracker';
+export { ProtectionManager } from './protection-manager';
+export { OrderValidator } from './order-validator';
+export { OrderSlicer, SlicedOrder } from './order-slicer';
+export { BasketExecutor } from './basket-executor';
+export { ExecutionAlgos } from './execution-algos';
+export { ChargesCalculator } from './charges';
\ No newline at end of file
@@ -0,0 +1,415 @@
+'use strict';
+
+import fs from 'fs';
+import path from 'path';
+import { DerivativeQuery, Exchanges, Instrument, InstrumentStoreParams, OptionChain, OptionChainParams } from '../interfaces';
+import { KiteConnect } from './connect';
+import { getOptionChain } from './option-chain';
+import { GeneralException, InputException } from './errors';
+
+/**
+ * Contents of the instrument cache file.
+ */
+interface InstrumentCache {
+    fetched_at: string;
+    instruments: Instrument[];
+}
+
+/**
+ * Derivatives of an underlying: expiry (`YYYY-MM-DD`) to strike to instrument type.
+ * Futures are stored with a strike of `0`.
+ */
+type DerivativeIndex = { [expiry: string]: { [strike: number]: { [instrument_type: string]: Instrument } } };
+
+/**
+ * @classdesc Instrument master cache with symbol, token and derivative lookups. The master is
+ * downloaded at most once a day with `getInstruments` and optionally cached on disk, so restarts
+ * during the day do not download it again.
+ *
+ * Call `load()` before querying and again before using the store on a new trading day, it only
+ * downloads the master when the loaded one is from an earlier day.
+ *
+ * @example
+ * const instruments = new InstrumentStore(kc, { directory: './cache', exchanges: [Exchanges.NSE, Exchanges.NFO] });
+ * await instruments.load();
+ * const expiry = instruments.getNearestExpiry('NIFTY');
+ * const strikes = instruments.getStrikesAround('NIFTY', expiry, 24520, 5);
+ * const chain = await instruments.getOptionChain('NIFTY', expiry, { strikes_around: 10 });
+ *
+ * @constructor
+ * @name InstrumentStore
+ * @param {KiteConnect} kite - Client used to download the instrument master.
+ * @param {InstrumentStoreParams} [params]
+ */
+export class InstrumentStore {
+    /**
+     * @private
+     * @type {KiteConnect}
+     */
+    private kite: KiteConnect;
+    /**
+     * @type {?string}
+     */
+    directory: string | null;
+    /**
+     * @type {?Exchanges[]}
+     */
+    exchanges: Exchanges[] | null;
+    /**
+     * Time the loaded master was downloaded at.
+     * @type {?Date}
+     */
+    fetched_at: Date | null = null;
+    /**
+     * @private
+     * @type {?Promise<void>}
+     */
+    private loading: Promise<void> | null = null;
+    /**
+     * @private
+     * @type {Object}
+     */
+    private bySymbol: { [symbol: string]: Instrument } = {};
+    /**
+     * @private
+     * @type {Object}
+     */
+    private byToken: { [instrument_token: string]: Instrument } = {};
+    /**
+     * @private
+     * @type {Object}
+     */
+    private byUnderlying: { [name: string]: DerivativeIndex } = {};
+
+    constructor(kite: KiteConnect, params: InstrumentStoreParams = {}) {
+        this.kite = kite;
+        this.directory = params.directory || null;
+        this.exchanges = params.exchanges || null;
+    }
+
+    /**
+     * Loads the instrument master unless the loaded one was downloaded today. The on-disk cache
+     * is used when it is from today, otherwise the master is downloaded and the cache rewritten.
+     *
+     * @returns {Promise<void>}
+     */
+    load(): Promise<void> {
+        if (this.fetched_at && _isToday(this.fetched_at)) return Promise.resolve();
+        if (!this.loading) {
+            this.loading = this.loadMaster(false).finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Downloads the instrument master, ignoring the loaded and cached ones.
+     *
+     * @returns {Promise<void>}
+     */
+    refresh(): Promise<void> {
+        return this.loadMaster(true);
+    }
+
+    /**
+     * Returns the instrument with the given trading symbol.
+     *
+     * @param {string} symbol - Trading symbol with exchange (`NSE:INFY`) or without.
+     * @param {Exchanges} [exchange] - Exchange, when `symbol` does not contain it.
+     * @returns {?Instrument}
+     */
+    getInstrument(symbol: string, exchange?: Exchanges): Instrument | null {
+        this.checkLoaded();
+        if (exchange) symbol = exchange + ':' + symbol;
+        if (symbol.indexOf(':') === -1) throw new InputException('Exchange is required for `' + symbol + '`');
+        return this.bySymbol[symbol] || null;
+    }
+
+    /**
+     * @param {(number | string)} instrument_token
+     * @returns {?Instrument}
+     */
+    getInstrumentByToken(instrument_token: number | string): Instrument | null {
+        this.checkLoaded();
+        return this.byToken[String(instrument_token)] || null;
+    }
+
+    /**
+     * @param {string} symbol - Trading symbol with exchange (`NFO:NIFTY24OCT24500CE`) or without.
+     * @param {Exchanges} [exchange]
+     * @returns {?number}
+     */
+    getLotSize(symbol: string, exchange?: Exchanges): number | null {
+        const instrument = this.getInstrument(symbol, exchange);
+        return instrument ? instrument.lot_size : null;
+    }
+
+    /**
+     * @param {string} symbol - Trading symbol with exchange (`NSE:INFY`) or without.
+     * @param {Exchanges} [exchange]
+     * @returns {?number}
+     */
+    getTickSize(symbol: string, exchange?: Exchanges): number | null {
+        const instrument = this.getInstrument(symbol, exchange);
+        return instrument ? instrument.tick_size : null;
+    }
+
+    /**
+     * Returns the futures and options of an underlying, ordered by expiry, strike and instrument type.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {DerivativeQuery} [query]
+     * @returns {Instrument[]}
+     */
+    getDerivatives(name: string, query: DerivativeQuery = {}): Instrument[] {
+        this.checkLoaded();
+        const index = this.byUnderlying[name] || {};
+        const expiry = query.expiry ? _getExpiryKey(query.expiry) : null;
+        const today = _getDateKey(new Date());
+
+        const results: Instrument[] = [];
+        for (const key of Object.keys(index).sort()) {
+            if (expiry ? key !== expiry : (!query.include_expired && key < today)) continue;
+
+            const strikes = Object.keys(index[key]).map(Number).sort((a, b) => a - b);
+            for (const strike of strikes) {
+                if (query.strike !== undefined && strike !== query.strike) continue;
+                for (const type of Object.keys(index[key][strike]).sort()) {
+                    if (query.instrument_type && type !== query.instrument_type) continue;
+                    results.push(index[key][strike][type]);
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Returns the option contract for an underlying, expiry, strike and option type.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {(Date | string)} expiry - Expiry date, either as returned by the store or in `YYYY-MM-DD` format.
+     * @param {number} strike
+     * @param {('CE' | 'PE')} instrument_type
+     * @returns {?Instrument}
+     */
+    getOption(name: string, expiry: Date | string, strike: number, instrument_type: 'CE' | 'PE'): Instrument | null {
+        this.checkLoaded();
+        const strikes = (this.byUnderlying[name] || {})[_getExpiryKey(expiry)];
+        return (strikes && strikes[strike] && strikes[strike][instrument_type]) || null;
+    }
+
+    /**
+     * Returns the upcoming expiries of an underlying in ascending order, including today's.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {('CE' | 'PE' | 'FUT')} [instrument_type] - Only expiries with contracts of this type.
+     * @returns {Date[]}
+     */
+    getExpiries(name: string, instrument_type?: 'CE' | 'PE' | 'FUT'): Date[] {
+        this.checkLoaded();
+        const index = this.byUnderlying[name] || {};
+        const today = _getDateKey(new Date());
+
+        return Object.keys(index).sort()
+            .filter((key) => key >= today)
+            .filter((key) => !instrument_type || Object.keys(index[key]).some((strike) => index[key][Number(strike)][instrument_type]))
+            .map((key) => new Date(key));
+    }
+
+    /**
+     * Returns the nearest upcoming expiry of an underlying, today's expiry included.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {('CE' | 'PE' | 'FUT')} [instrument_type] - Only expiries with contracts of this type.
+     * @returns {?Date}
+     */
+    getNearestExpiry(name: string, instrument_type?: 'CE' | 'PE' | 'FUT'): Date | null {
+        return this.getExpiries(name, instrument_type)[0] || null;
+    }
+
+    /**
+     * Returns the option strikes of an expiry in ascending order.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {(Date | string)} expiry
+     * @returns {number[]}
+     */
+    getStrikes(name: string, expiry: Date | string): number[] {
+        this.checkLoaded();
+        const strikes = (this.byUnderlying[name] || {})[_getExpiryKey(expiry)] || {};
+        return Object.keys(strikes).map(Number)
+            .filter((strike) => strikes[strike].CE || strikes[strike].PE)
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Returns the strike closest to `spot` and up to `count` strikes on either side of it.
+     *
+     * @param {string} name - Name of the underlying, eg. `NIFTY`.
+     * @param {(Date | string)} expiry
+     * @param {number} spot - Price of the underlying.
+     * @param {number} count - Number of strikes on each side of the at-the-money strike.
+     * @returns {number[]}
+     */
+    getStrikesAround(name: string, expiry: Date | string, spot: number, count: number): number[] {
+        const strikes = this.getStrikes(name, expiry);
+        if (!strikes.length) return [];
+
+        let atm = 0;
+        for (let i = 1; i < strikes.length; i++) {
+            if (Math.abs(strikes[i] - spot) < Math.abs(strikes[atm] - spot)) atm = i;
+        }
+        return strikes.slice(Math.max(0, atm - count), atm + count + 1);
+    }
+
+    /**
+     * Builds the option chain of an underlying for an expiry, quoted with the client of the store.
+     * Loads the store if needed, see `getOptionChain`.
+     *
+     * @param {string} underlying - Name of the underlying, eg. `NIFTY`.
+     * @param {(Date | string)} expiry - Expiry date, either as returned by the store or in `YYYY-MM-DD` format.
+     * @param {OptionChainParams} [params]
+     * @returns {Promise<OptionChain>}
+     */
+    getOptionChain(underlying: string, expiry: Date | string, params: OptionChainParams = {}): Promise<OptionChain> {
+        return getOptionChain(this.kite, this, underlying, expiry, params);
+    }
+
+    /**
+     * @private
+     */
+    private checkLoaded() {
+        if (!this.fetched_at) throw new GeneralException('Instruments are not loaded, call `load()` first');
+    }
+
+    /**
+     * @private
+     * @param {boolean} force - Skip the on-disk cache.
+     * @returns {Promise<void>}
+     */
+    private async loadMaster(force: boolean): Promise<void> {
+        const file = this.directory ? path.join(this.directory, this.getCacheName()) : null;
+
+        if (file && !force) {
+            const cache = await _readCache(file);
+            if (cache && _isToday(new Date(cache.fetched_at))) {
+                this.index(cache.instruments.map(_reviveInstrument), new Date(cache.fetched_at));
+                return;
+            }
+        }
+
+        let instruments: Instrument[] = [];
+        for (const exchange of this.exchanges || [undefined]) {
+            instruments = instruments.concat(await this.kite.getInstruments(exchange));
+        }
+        const fetched_at = new Date();
+
+        if (file) {
+            const cache: InstrumentCache = { fetched_at: fetched_at.toISOString(), instruments: instruments };
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.writeFile(file + '.tmp', JSON.stringify(cache));
+            await fs.promises.rename(file + '.tmp', file);
+        }
+
+        this.index(instruments, fetched_at);
+    }
+
+    /**
+     * @private
+     * @returns {string}
+     */
+    private getCacheName(): string {
+        const exchanges = this.exchanges ? this.exchanges.slice().sort().join('_') : 'all';
+        return 'instruments_' + exchanges + '.json';
+    }
+
+    /**
+     * Rebuilds the lookup indexes.
+     *
+     * @private
+     * @param {Instrument[]} instruments
+     * @param {Date} fetched_at
+     */
+    private index(instruments: Instrument[], fetched_at: Date) {
+        const bySymbol: { [symbol: string]: Instrument } = {};
+        const byToken: { [instrument_token: string]: Instrument } = {};
+        const byUnderlying: { [name: string]: DerivativeIndex } = {};
+
+        for (const instrument of instruments) {
+            bySymbol[instrument.exchange + ':' + instrument.tradingsymbol] = instrument;
+            byToken[String(instrument.instrument_token)] = instrument;
+
+            const type = instrument.instrument_type;
+            if (!instrument.name || !instrument.expiry || (type !== 'CE' && type !== 'PE' && type !== 'FUT')) continue;
+
+            const expiry = _getExpiryKey(instrument.expiry);
+            const strike = type === 'FUT' ? 0 : instrument.strike;
+            const underlying = byUnderlying[instrument.name] = byUnderlying[instrument.name] || {};
+            const strikes = underlying[expiry] = underlying[expiry] || {};
+            const types = strikes[strike] = strikes[strike] || {};
+            types[type] = instrument;
+        }
+
+        this.bySymbol = bySymbol;
+        this.byToken = byToken;
+        this.byUnderlying = byUnderlying;
+        this.fetched_at = fetched_at;
+    }
+}
+
+/**
+ * Returns the `YYYY-MM-DD` key of an expiry. Expiries parsed from the instrument master are
+ * UTC midnight, so the UTC date is used for Date objects.
+ *
+ * @param expiry - Expiry date or `YYYY-MM-DD` string
+ * @returns Expiry key
+ */
+function _getExpiryKey(expiry: Date | string): string {
+    if (typeof expiry === 'string') return expiry.slice(0, 10);
+    return expiry.toISOString().slice(0, 10);
+}
+
+/**
+ * @param date - Date object
+ * @returns Local date in `YYYY-MM-DD` format
+ */
+function _getDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * @param date - Date object
+ * @returns Whether the date falls on the local current day
+ */
+function _isToday(date: Date): boolean {
+    return _getDateKey(date) === _getDateKey(new Date());
+}
+
+/**
+ * Reads the instrument cache file.
+ *
+ * @param file - Path of the cache file
+ * @returns Cache contents, or `null` when the file does not exist
+ */
+async function _readCache(file: string): Promise<InstrumentCache | null> {
+    try {
+        return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+    }
+}
+
+/**
+ * Restores the expiry Date of an instrument read from the cache file.
+ *
+ * @param instrument - Instrument as read from JSON
+ * @returns Instrument
+ */
+function _reviveInstrument(instrument: Instrument): Instrument {
+    if (instrument.expiry) instrument.expiry = new Date(instrument.expiry);
+    return instrument;
+}
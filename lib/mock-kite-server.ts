@@ -0,0 +1,801 @@
+'use strict';
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { ROUTES } from '../constants';
+import { AnyObject, MockKiteFailure, MockKiteRequest, MockKiteServerParams } from '../interfaces';
+import { GeneralException, InputException, KiteError, TokenException } from './errors';
+
+/**
+ * Method and kiteconnect-mocks fixture of every route.
+ */
+const ROUTE_FIXTURES: { [route: string]: [string, string] } = {
+    'api.token': ['POST', 'generate_session.json'],
+    'api.token.invalidate': ['DELETE', 'session_logout.json'],
+    'api.token.renew': ['POST', 'generate_session.json'],
+    'user.profile': ['GET', 'profile.json'],
+    'user.margins': ['GET', 'margins.json'],
+    'user.margins.segment': ['GET', 'margins_equity.json'],
+
+    'orders': ['GET', 'orders.json'],
+    'trades': ['GET', 'trades.json'],
+    'order.info': ['GET', 'order_info.json'],
+    'order.place': ['POST', 'order_response.json'],
+    'order.modify': ['PUT', 'order_modify.json'],
+    'order.cancel': ['DELETE', 'order_cancel.json'],
+    'order.trades': ['GET', 'order_trades.json'],
+    'order.margins': ['POST', 'order_margins.json'],
+    'order.margins.basket': ['POST', 'basket_margins.json'],
+    'order.contract_note': ['POST', 'virtual_contract_note.json'],
+
+    'portfolio.positions': ['GET', 'positions.json'],
+    'portfolio.holdings': ['GET', 'holdings.json'],
+    'portfolio.holdings.auction': ['GET', 'auctions_list.json'],
+    'portfolio.positions.convert': ['PUT', 'convert_position.json'],
+
+    'mf.orders': ['GET', 'mf_orders.json'],
+    'mf.order.info': ['GET', 'mf_orders_info.json'],
+    'mf.order.place': ['POST', 'mf_order_response.json'],
+    'mf.order.cancel': ['DELETE', 'mf_order_cancel.json'],
+
+    'mf.sips': ['GET', 'mf_sips.json'],
+    'mf.sip.info': ['GET', 'mf_sip_info.json'],
+    'mf.sip.place': ['POST', 'mf_sip_place.json'],
+    'mf.sip.modify': ['PUT', 'mf_sip_modify.json'],
+    'mf.sip.cancel': ['DELETE', 'mf_sip_cancel.json'],
+
+    'mf.holdings': ['GET', 'mf_holdings.json'],
+    'mf.instruments': ['GET', 'mf_instruments.csv'],
+
+    'market.instruments.all': ['GET', 'instruments_all.csv'],
+    'market.instruments': ['GET', 'instruments_nse.csv'],
+    'market.historical': ['GET', 'historical_minute.json'],
+    'market.trigger_range': ['GET', 'trigger_range.json'],
+
+    'market.quote': ['GET', 'quote.json'],
+    'market.quote.ohlc': ['GET', 'ohlc.json'],
+    'market.quote.ltp': ['GET', 'ltp.json'],
+
+    'gtt.triggers': ['GET', 'gtt_get_orders.json'],
+    'gtt.trigger_info': ['GET', 'gtt_get_order.json'],
+    'gtt.place': ['POST', 'gtt_place_order.json'],
+    'gtt.modify': ['PUT', 'gtt_modify_order.json'],
+    'gtt.delete': ['DELETE', 'gtt_delete_order.json']
+};
+
+// Routes that do not require an access token
+const PUBLIC_ROUTES = ['api.token', 'api.token.renew'];
+// Order statuses that can still be modified or cancelled
+const OPEN_STATUSES = ['OPEN', 'TRIGGER PENDING'];
+
+/**
+ * A route compiled to a path pattern.
+ */
+interface CompiledRoute {
+    route: string;
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+}
+
+/**
+ * @classdesc In-process HTTP server answering every route of `ROUTES` like the Kite Connect API,
+ * for integration tests against a real `KiteConnect` client. Point `root` at the server:
+ *
+ * - Read-only routes answer with the kiteconnect-mocks fixture of the route, or with a response
+ *   set with `setResponse`.
+ * - Orders and GTTs are stateful: placed orders are listed by `getOrders`, can be modified and
+ *   cancelled while open, and are filled or rejected with `fillOrder` and `rejectOrder`. GTTs can be
+ *   placed, modified, deleted and triggered with `triggerGTT`. `order_update` is emitted on every
+ *   order change, eg. to forward it through a `MockTickerServer`.
+ * - `injectError` fails the next requests of a route and `setLatency` delays the responses.
+ *
+ * @example
+ * const server = new MockKiteServer({ fixtures: 'test/kiteconnect-mocks' });
+ * const kc = new KiteConnect({ api_key: 'api_key', root: await server.start() });
+ * const { order_id } = await kc.placeOrder('regular', { exchange: 'NSE', tradingsymbol: 'INFY', ... });
+ * server.fillOrder(order_id, 1500);
+ * server.injectError('orders', { status: 429 });
+ *
+ * @constructor
+ * @name MockKiteServer
+ * @param {MockKiteServerParams} [params]
+ */
+export class MockKiteServer extends EventEmitter {
+    /**
+     * Root of the server to pass to `KiteConnect`, set by `start()`.
+     * @type {string}
+     */
+    root = '';
+    /**
+     * Requests received, oldest first.
+     * @type {MockKiteRequest[]}
+     */
+    requests: MockKiteRequest[] = [];
+
+    /**
+     * @private
+     * @type {MockKiteServerParams}
+     */
+    private params: MockKiteServerParams;
+    /**
+     * @private
+     * @type {?http.Server}
+     */
+    private server: http.Server | null = null;
+    /**
+     * @private
+     * @type {CompiledRoute[]}
+     */
+    private routes: CompiledRoute[];
+    /**
+     * Responses set with `setResponse`.
+     * @private
+     * @type {Object}
+     */
+    private responses: { [route: string]: unknown } = {};
+    /**
+     * Pending injected errors per route, `*` for every route.
+     * @private
+     * @type {Object}
+     */
+    private failures: { [route: string]: MockKiteFailure[] } = {};
+    /**
+     * Response delay in milliseconds per route, `*` for every route.
+     * @private
+     * @type {Object}
+     */
+    private latency: { [route: string]: number } = {};
+    /**
+     * Orders by order id with the order after every change.
+     * @private
+     * @type {Object}
+     */
+    private orders: { [order_id: string]: AnyObject[] } = {};
+    /**
+     * @private
+     * @type {AnyObject[]}
+     */
+    private trades: AnyObject[] = [];
+    /**
+     * @private
+     * @type {Object}
+     */
+    private triggers: { [trigger_id: number]: AnyObject } = {};
+    /**
+     * Last prices market orders are filled at, by `exchange:tradingsymbol`.
+     * @private
+     * @type {Object}
+     */
+    private last_prices: { [instrument: string]: number } = {};
+    /**
+     * @private
+     * @type {number}
+     */
+    private sequence = 0;
+
+    constructor(params: MockKiteServerParams = {}) {
+        super();
+        this.params = params;
+        this.latency['*'] = params.latency || 0;
+        this.routes = _compileRoutes();
+    }
+
+    /**
+     * Starts listening.
+     *
+     * @returns {Promise<string>} Root to pass to `KiteConnect`.
+     */
+    start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = this.server = http.createServer((req, res) => {
+                this.handle(req, res).catch((e) => {
+                    if (!res.headersSent) _reply(res, 500, _errorBody(new GeneralException(String(e))));
+                    else res.end();
+                });
+            });
+            server.once('error', reject);
+            server.listen(this.params.port || 0, '127.0.0.1', () => {
+                this.root = 'http://127.0.0.1:' + (server.address() as AddressInfo).port;
+                resolve(this.root);
+            });
+        });
+    }
+
+    /**
+     * Stops listening.
+     *
+     * @returns {Promise<void>}
+     */
+    stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return Promise.resolve();
+        this.server = null;
+        return new Promise((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Clears the orders, trades, GTTs, injected errors, latency, responses and requests.
+     *
+     * @returns {void}
+     */
+    reset(): void {
+        this.requests = [];
+        this.responses = {};
+        this.failures = {};
+        this.latency = { '*': this.params.latency || 0 };
+        this.orders = {};
+        this.trades = [];
+        this.triggers = {};
+        this.last_prices = {};
+    }
+
+    /**
+     * Answers a route with `data` instead of its fixture. CSV routes take the CSV text.
+     *
+     * @param {string} route - Name of the route in `ROUTES`.
+     * @param {*} data - The `data` field of the response.
+     * @returns {void}
+     */
+    setResponse(route: string, data: unknown): void {
+        this.responses[route] = data;
+    }
+
+    /**
+     * Fails the next requests of a route.
+     *
+     * @param {string} route - Name of the route in `ROUTES`, or `*` for every route.
+     * @param {MockKiteFailure} failure
+     * @returns {void}
+     */
+    injectError(route: string, failure: MockKiteFailure): void {
+        (this.failures[route] = this.failures[route] || []).push({ ...failure, times: failure.times ?? 1 });
+    }
+
+    /**
+     * Delays the responses of a route.
+     *
+     * @param {number} latency - Delay in milliseconds.
+     * @param {string} [route='*'] - Name of the route in `ROUTES`, or `*` for every route.
+     * @returns {void}
+     */
+    setLatency(latency: number, route = '*'): void {
+        this.latency[route] = latency;
+    }
+
+    /**
+     * Sets the price market orders of an instrument are filled at when placed. Market orders of
+     * instruments without a price stay open until `fillOrder` is called.
+     *
+     * @param {string} instrument - Instrument in `exchange:tradingsymbol` format.
+     * @param {number} last_price
+     * @returns {void}
+     */
+    setLastPrice(instrument: string, last_price: number): void {
+        this.last_prices[instrument] = last_price;
+    }
+
+    /**
+     * Returns the current state of an order.
+     *
+     * @param {string} order_id
+     * @returns {?AnyObject}
+     */
+    getOrder(order_id: string): AnyObject | null {
+        const history = this.orders[order_id];
+        return history ? { ...history[history.length - 1] } : null;
+    }
+
+    /**
+     * Fills an open order, completely unless `quantity` is less than the pending quantity.
+     *
+     * @param {string} order_id
+     * @param {number} [average_price] - Defaults to the order price.
+     * @param {number} [quantity] - Defaults to the pending quantity.
+     * @returns {AnyObject} The updated order.
+     */
+    fillOrder(order_id: string, average_price?: number, quantity?: number): AnyObject {
+        const order = this.getOpenOrder(order_id);
+        const filled = Math.min(quantity ?? order.pending_quantity, order.pending_quantity);
+        const price = average_price ?? (order.price || order.trigger_price);
+
+        order.average_price = (order.average_price * order.filled_quantity + price * filled) / (order.filled_quantity + filled);
+        order.filled_quantity += filled;
+        order.pending_quantity -= filled;
+        order.status = order.pending_quantity ? 'OPEN' : 'COMPLETE';
+        order.exchange_timestamp = _timestamp();
+
+        this.trades.push({
+            trade_id: String(++this.sequence),
+            order_id: order.order_id,
+            exchange_order_id: order.exchange_order_id,
+            tradingsymbol: order.tradingsymbol,
+            exchange: order.exchange,
+            instrument_token: order.instrument_token,
+            transaction_type: order.transaction_type,
+            product: order.product,
+            average_price: price,
+            quantity: filled,
+            fill_timestamp: order.exchange_timestamp,
+            order_timestamp: order.order_timestamp,
+            exchange_timestamp: order.exchange_timestamp
+        });
+        return this.updateOrder(order);
+    }
+
+    /**
+     * Rejects an open order.
+     *
+     * @param {string} order_id
+     * @param {string} [message]
+     * @returns {AnyObject} The updated order.
+     */
+    rejectOrder(order_id: string, message = 'Order rejected'): AnyObject {
+        const order = this.getOpenOrder(order_id);
+        order.status = 'REJECTED';
+        order.status_message = message;
+        order.status_message_raw = message;
+        return this.updateOrder(order);
+    }
+
+    /**
+     * Triggers an active GTT: places its orders and marks it triggered.
+     *
+     * @param {number} trigger_id
+     * @returns {AnyObject} The updated GTT.
+     */
+    triggerGTT(trigger_id: number): AnyObject {
+        const trigger = this.getActiveTrigger(trigger_id);
+        for (const order of trigger.orders) {
+            const placed = this.placeOrder({ ...order, variety: 'regular', tag: 'gtt' });
+            order.result = { order_result: { order_id: placed.order_id, status: 'success' }, timestamp: _timestamp() };
+        }
+        trigger.status = 'triggered';
+        trigger.updated_at = _timestamp();
+        return { ...trigger };
+    }
+
+    /**
+     * @private
+     * @param {http.IncomingMessage} req
+     * @param {http.ServerResponse} res
+     */
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', this.root);
+        const method = (req.method || 'GET').toUpperCase();
+        const match = this.match(method, url.pathname);
+
+        const params: AnyObject = {};
+        url.searchParams.forEach((value, key) => _addParam(params, key, value));
+        try {
+            Object.assign(params, _parseBody(await _readBody(req), req.headers['content-type']));
+        } catch (e) {
+            return _reply(res, 400, _errorBody(new InputException('Invalid request body: ' + (e as Error).message, { status: 400 })));
+        }
+
+        if (!match) {
+            return _reply(res, 404, _errorBody(new GeneralException('Route not found: ' + method + ' ' + url.pathname)));
+        }
+        Object.assign(params, match.params);
+        this.requests.push({ method: method, route: match.route, path: url.pathname, params: params });
+
+        const latency = this.latency[match.route] ?? this.latency['*'];
+        if (latency) await new Promise((resolve) => setTimeout(resolve, latency));
+
+        const failure = this.takeFailure(match.route);
+        if (failure) {
+            const error_type = failure.error_type || _defaultErrorType(failure.status);
+            return _reply(res, failure.status, {
+                status: 'error',
+                message: failure.message || error_type,
+                data: null,
+                error_type: error_type
+            });
+        }
+
+        const authorization = req.headers['authorization'] || '';
+        if (this.params.access_token && !PUBLIC_ROUTES.includes(match.route) && !authorization.endsWith(':' + this.params.access_token)) {
+            return _reply(res, 403, _errorBody(new TokenException('Incorrect `api_key` or `access_token`.')));
+        }
+
+        try {
+            const data = this.respond(match.route, params);
+            if (typeof data === 'string') return _reply(res, 200, data, 'text/csv');
+            _reply(res, 200, { status: 'success', data: data });
+        } catch (e) {
+            const error = e instanceof KiteError ? e : new GeneralException(String(e));
+            _reply(res, error.status || 500, _errorBody(error));
+        }
+    }
+
+    /**
+     * Returns the `data` of the response of a route.
+     *
+     * @private
+     * @param {string} route
+     * @param {AnyObject} params
+     * @returns {*}
+     */
+    private respond(route: string, params: AnyObject): unknown {
+        switch (route) {
+            case 'orders':
+                return Object.keys(this.orders).map((order_id) => this.getOrder(order_id));
+            case 'order.info':
+                return this.getHistory(params.order_id);
+            case 'order.place':
+                return { order_id: this.placeOrder(params).order_id };
+            case 'order.modify':
+                return { order_id: this.modifyOrder(params).order_id };
+            case 'order.cancel':
+                return { order_id: this.cancelOrder(params).order_id };
+            case 'trades':
+                return this.trades;
+            case 'order.trades':
+                this.getHistory(params.order_id);
+                return this.trades.filter((trade) => trade.order_id === params.order_id);
+            case 'gtt.triggers':
+                return Object.values(this.triggers);
+            case 'gtt.trigger_info':
+                return this.getTrigger(params.trigger_id);
+            case 'gtt.place':
+                return { trigger_id: this.saveTrigger(null, params).id };
+            case 'gtt.modify':
+                return { trigger_id: this.saveTrigger(this.getActiveTrigger(params.trigger_id), params).id };
+            case 'gtt.delete': {
+                const trigger = this.getTrigger(params.trigger_id);
+                trigger.status = 'deleted';
+                trigger.updated_at = _timestamp();
+                return { trigger_id: trigger.id };
+            }
+        }
+
+        if (route in this.responses) return this.responses[route];
+        return this.readFixture(route);
+    }
+
+    /**
+     * @private
+     * @param {string} route
+     * @returns {*}
+     */
+    private readFixture(route: string): unknown {
+        const fixture = ROUTE_FIXTURES[route][1];
+        const file = this.params.fixtures ? path.join(this.params.fixtures, fixture) : null;
+        if (!file || !fs.existsSync(file)) {
+            throw new GeneralException('No fixture for route ' + route, { status: 404 });
+        }
+
+        const content = fs.readFileSync(file, 'utf8');
+        return fixture.endsWith('.csv') ? content : JSON.parse(content).data;
+    }
+
+    /**
+     * @private
+     * @param {AnyObject} params
+     * @returns {AnyObject} The placed order.
+     */
+    private placeOrder(params: AnyObject): AnyObject {
+        for (const field of ['exchange', 'tradingsymbol', 'transaction_type', 'order_type', 'quantity', 'product']) {
+            if (!params[field]) throw new InputException('Missing `' + field + '`', { status: 400 });
+        }
+
+        const quantity = Number(params.quantity);
+        const order_id = String(++this.sequence);
+        const order: AnyObject = {
+            placed_by: 'MOCK',
+            order_id: order_id,
+            exchange_order_id: order_id,
+            parent_order_id: null,
+            status: params.order_type === 'SL' || params.order_type === 'SL-M' ? 'TRIGGER PENDING' : 'OPEN',
+            status_message: null,
+            status_message_raw: null,
+            order_timestamp: _timestamp(),
+            exchange_update_timestamp: null,
+            exchange_timestamp: null,
+            variety: params.variety,
+            modified: false,
+            exchange: params.exchange,
+            tradingsymbol: params.tradingsymbol,
+            instrument_token: 0,
+            order_type: params.order_type,
+            transaction_type: params.transaction_type,
+            validity: params.validity || 'DAY',
+            product: params.product,
+            quantity: quantity,
+            disclosed_quantity: Number(params.disclosed_quantity || 0),
+            price: Number(params.price || 0),
+            trigger_price: Number(params.trigger_price || 0),
+            average_price: 0,
+            filled_quantity: 0,
+            pending_quantity: quantity,
+            cancelled_quantity: 0,
+            market_protection: 0,
+            meta: {},
+            tag: params.tag || null,
+            guid: order_id
+        };
+        this.orders[order_id] = [];
+        this.updateOrder(order);
+
+        const last_price = this.last_prices[order.exchange + ':' + order.tradingsymbol];
+        if (order.order_type === 'MARKET' && last_price !== undefined) this.fillOrder(order_id, last_price);
+        return order;
+    }
+
+    /**
+     * @private
+     * @param {AnyObject} params
+     * @returns {AnyObject} The modified order.
+     */
+    private modifyOrder(params: AnyObject): AnyObject {
+        const order = this.getOpenOrder(params.order_id);
+        for (const field of ['quantity', 'price', 'trigger_price', 'disclosed_quantity']) {
+            if (params[field] !== undefined) order[field] = Number(params[field]);
+        }
+        for (const field of ['order_type', 'validity']) {
+            if (params[field] !== undefined) order[field] = params[field];
+        }
+        order.pending_quantity = order.quantity - order.filled_quantity;
+        order.modified = true;
+        return this.updateOrder(order);
+    }
+
+    /**
+     * @private
+     * @param {AnyObject} params
+     * @returns {AnyObject} The cancelled order.
+     */
+    private cancelOrder(params: AnyObject): AnyObject {
+        const order = this.getOpenOrder(params.order_id);
+        order.status = 'CANCELLED';
+        order.cancelled_quantity = order.pending_quantity;
+        order.pending_quantity = 0;
+        return this.updateOrder(order);
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {AnyObject[]}
+     */
+    private getHistory(order_id: string): AnyObject[] {
+        const history = this.orders[order_id];
+        if (!history) throw new InputException('Order not found', { status: 400 });
+        return history;
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {AnyObject} A copy of the order to update.
+     */
+    private getOpenOrder(order_id: string): AnyObject {
+        const order = this.getOrder(order_id);
+        if (!order) throw new InputException('Order not found', { status: 400 });
+        if (!OPEN_STATUSES.includes(order.status)) {
+            throw new InputException('Order cannot be modified or cancelled as it is ' + order.status, { status: 400 });
+        }
+        return order;
+    }
+
+    /**
+     * Records a change of an order and emits it.
+     *
+     * @private
+     * @param {AnyObject} order
+     * @returns {AnyObject}
+     */
+    private updateOrder(order: AnyObject): AnyObject {
+        this.orders[order.order_id].push({ ...order });
+        this.emit('order_update', { ...order });
+        return order;
+    }
+
+    /**
+     * @private
+     * @param {(number | string)} trigger_id
+     * @returns {AnyObject}
+     */
+    private getTrigger(trigger_id: number | string): AnyObject {
+        const trigger = this.triggers[Number(trigger_id)];
+        if (!trigger) throw new InputException('Trigger not found', { status: 400 });
+        return trigger;
+    }
+
+    /**
+     * @private
+     * @param {(number | string)} trigger_id
+     * @returns {AnyObject}
+     */
+    private getActiveTrigger(trigger_id: number | string): AnyObject {
+        const trigger = this.getTrigger(trigger_id);
+        if (trigger.status !== 'active') throw new InputException('Trigger is ' + trigger.status, { status: 400 });
+        return trigger;
+    }
+
+    /**
+     * Creates a GTT, or updates `trigger` with the request parameters.
+     *
+     * @private
+     * @param {?AnyObject} trigger
+     * @param {AnyObject} params
+     * @returns {AnyObject}
+     */
+    private saveTrigger(trigger: AnyObject | null, params: AnyObject): AnyObject {
+        let condition: AnyObject, orders: AnyObject[];
+        try {
+            condition = JSON.parse(params.condition);
+            orders = JSON.parse(params.orders);
+        } catch (e) {
+            throw new InputException('Invalid `condition` or `orders`', { status: 400 });
+        }
+
+        const now = _timestamp();
+        if (!trigger) {
+            const expires = new Date();
+            expires.setFullYear(expires.getFullYear() + 1);
+            trigger = {
+                id: ++this.sequence,
+                user_id: 'MOCK',
+                parent_trigger: null,
+                created_at: now,
+                expires_at: _timestamp(expires),
+                status: 'active',
+                meta: null
+            };
+            this.triggers[trigger.id] = trigger;
+        }
+
+        trigger.type = params.type;
+        trigger.updated_at = now;
+        trigger.condition = { instrument_token: 0, ...condition };
+        trigger.orders = orders.map((order) => ({ ...order, result: null }));
+        return trigger;
+    }
+
+    /**
+     * @private
+     * @param {string} route
+     * @returns {?MockKiteFailure}
+     */
+    private takeFailure(route: string): MockKiteFailure | null {
+        for (const key of [route, '*']) {
+            const failures = this.failures[key];
+            if (!failures || !failures.length) continue;
+
+            const failure = failures[0];
+            if (--(failure.times as number) <= 0) failures.shift();
+            return failure;
+        }
+        return null;
+    }
+
+    /**
+     * @private
+     * @param {string} method
+     * @param {string} pathname
+     * @returns {?Object} Route name and path parameters.
+     */
+    private match(method: string, pathname: string): { route: string, params: AnyObject } | null {
+        for (const route of this.routes) {
+            if (route.method !== method) continue;
+            const match = route.pattern.exec(pathname);
+            if (!match) continue;
+
+            const params: AnyObject = {};
+            route.keys.forEach((key, i) => params[key] = decodeURIComponent(match[i + 1]));
+            return { route: route.route, params: params };
+        }
+        return null;
+    }
+}
+
+/**
+ * Compiles the routes to path patterns, routes with fewer parameters first so that literal
+ * segments win over parameters.
+ *
+ * @returns Compiled routes
+ */
+function _compileRoutes(): CompiledRoute[] {
+    const routes: CompiledRoute[] = [];
+    for (const route in ROUTE_FIXTURES) {
+        const keys: string[] = [];
+        const source = ROUTES[route].replace(/\{(\w+)\}/g, (_, key) => {
+            keys.push(key);
+            return '([^/]+)';
+        });
+        routes.push({ route: route, method: ROUTE_FIXTURES[route][0], pattern: new RegExp('^' + source + '$'), keys: keys });
+    }
+    return routes.sort((a, b) => a.keys.length - b.keys.length);
+}
+
+/**
+ * @param req - Request
+ * @returns Request body
+ */
+function _readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => body += chunk);
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * @param body - Request body
+ * @param content_type - Content type of the body
+ * @returns Body parameters
+ */
+function _parseBody(body: string, content_type?: string): AnyObject {
+    if (!body) return {};
+    if (content_type && content_type.includes('application/json')) {
+        const parsed = JSON.parse(body);
+        // Margin requests post a list of orders
+        return Array.isArray(parsed) ? { orders: parsed } : parsed;
+    }
+
+    const params: AnyObject = {};
+    new URLSearchParams(body).forEach((value, key) => _addParam(params, key, value));
+    return params;
+}
+
+/**
+ * Adds a parameter, repeated parameters are collected in a list.
+ *
+ * @param params - Parameters
+ * @param key - Name
+ * @param value - Value
+ */
+function _addParam(params: AnyObject, key: string, value: string) {
+    if (!(key in params)) {
+        params[key] = value;
+    } else {
+        params[key] = ([] as string[]).concat(params[key], value);
+    }
+}
+
+/**
+ * @param error - Error
+ * @returns Error response of the API
+ */
+function _errorBody(error: KiteError): AnyObject {
+    return { status: 'error', message: error.message, data: null, error_type: error.error_type };
+}
+
+/**
+ * @param status - HTTP status
+ * @returns Exception type the API responds with for the status
+ */
+function _defaultErrorType(status: number): string {
+    if (status === 403) return 'TokenException';
+    if (status === 500) return 'GeneralException';
+    if (status >= 400 && status < 500 && status !== 429) return 'InputException';
+    return 'NetworkException';
+}
+
+/**
+ * @param res - Response
+ * @param status - HTTP status
+ * @param body - Response body, objects are sent as JSON
+ * @param content_type - Content type of string bodies
+ */
+function _reply(res: http.ServerResponse, status: number, body: AnyObject | string, content_type = 'application/json') {
+    const data = typeof body === 'string' ? body : JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' ? content_type : 'application/json' });
+    res.end(data);
+}
+
+/**
+ * @param date - Date, defaults to now
+ * @returns Date in the `YYYY-MM-DD HH:mm:ss` format of the API
+ */
+function _timestamp(date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate()) + ' ' +
+        pad(date.getHours()) + ':' + pad(date.getMinutes()) + ':' + pad(date.getSeconds());
+}
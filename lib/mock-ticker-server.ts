@@ -0,0 +1,352 @@
+'use strict';
+
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { IncomingMessage } from 'http';
+import { MockTick, MockTickerConnection, MockTickerServerParams } from '../interfaces';
+
+// Exchange segments with their own price divisors, see `parseBinary`
+const segmentNseCD = 3;
+const segmentBseCD = 6;
+const segmentIndices = 9;
+
+/**
+ * @classdesc Local WebSocket server speaking the Kite streaming protocol, to test ticker code
+ * without the network. It handles `subscribe`, `unsubscribe` and `mode` messages, sends ticks as
+ * binary LTP, quote and full packets in the mode each client subscribed them in, sends heartbeats,
+ * order updates, and can drop or refuse connections on demand.
+ *
+ * @example
+ * const server = new MockTickerServer();
+ * const root = await server.start();
+ * const ticker = new KiteTicker({ api_key: 'api_key', access_token: 'token', root: root });
+ * ticker.on('connect', () => ticker.subscribe([256265]));
+ * server.on('subscribe', () => server.sendTicks([{ instrument_token: 256265, last_price: 24500 }]));
+ * ticker.connect();
+ *
+ * @constructor
+ * @name MockTickerServer
+ * @param {MockTickerServerParams} [params]
+ */
+export class MockTickerServer extends EventEmitter {
+    /**
+     * WebSocket root of the server, set by `start()`.
+     * @type {string}
+     */
+    root = '';
+    /**
+     * @type {number}
+     */
+    heartbeat_interval: number;
+
+    /**
+     * @private
+     * @type {MockTickerServerParams}
+     */
+    private params: MockTickerServerParams;
+    /**
+     * @private
+     * @type {?WebSocket.Server}
+     */
+    private server: WebSocket.Server | null = null;
+    /**
+     * @private
+     * @type {Map<WebSocket, MockTickerConnection>}
+     */
+    private connections = new Map<WebSocket, MockTickerConnection>();
+    /**
+     * @private
+     * @type {?NodeJS.Timeout}
+     */
+    private heartbeat_timer: NodeJS.Timeout | undefined;
+    /**
+     * Number of upcoming connections to refuse.
+     * @private
+     * @type {number}
+     */
+    private refused = 0;
+
+    constructor(params: MockTickerServerParams = {}) {
+        super();
+        this.params = params;
+        this.heartbeat_interval = params.heartbeat_interval ?? 1000;
+    }
+
+    /**
+     * Starts listening.
+     *
+     * @returns {Promise<string>} WebSocket root to pass to `KiteTicker`.
+     */
+    start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = this.server = new WebSocket.Server({
+                port: this.params.port || 0,
+                verifyClient: (info: { req: IncomingMessage }, callback: (result: boolean, code?: number) => void) => {
+                    if (this.refused > 0) {
+                        this.refused--;
+                        return callback(false, 503);
+                    }
+                    const query = _getQuery(info.req);
+                    if (this.params.access_token && query.get('access_token') !== this.params.access_token) return callback(false, 403);
+                    callback(true);
+                }
+            }, () => {
+                this.root = 'ws://127.0.0.1:' + (server.address() as AddressInfo).port + '/';
+                this.setHeartbeat(this.heartbeat_interval);
+                resolve(this.root);
+            });
+            server.once('error', reject);
+            server.on('connection', (socket: WebSocket, req: IncomingMessage) => this.accept(socket, req));
+        });
+    }
+
+    /**
+     * Closes every connection and stops listening.
+     *
+     * @returns {Promise<void>}
+     */
+    stop(): Promise<void> {
+        const server = this.server;
+        clearInterval(this.heartbeat_timer);
+        if (!server) return Promise.resolve();
+
+        this.server = null;
+        this.connections.forEach((connection, socket) => socket.terminate());
+        this.connections.clear();
+        return new Promise((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Returns the connected clients.
+     *
+     * @returns {MockTickerConnection[]}
+     */
+    getConnections(): MockTickerConnection[] {
+        return Array.from(this.connections.values());
+    }
+
+    /**
+     * Sends ticks to the clients subscribed to them, one frame per client with a packet per tick
+     * in the mode the client subscribed the instrument in.
+     *
+     * @param {MockTick[]} ticks
+     * @returns {void}
+     */
+    sendTicks(ticks: MockTick[]): void {
+        this.connections.forEach((connection, socket) => {
+            const packets: Buffer[] = [];
+            for (const tick of ticks) {
+                const mode = connection.subscriptions[tick.instrument_token];
+                if (mode) packets.push(_encodePacket(tick, mode));
+            }
+            if (packets.length) _send(socket, _encodeFrame(packets));
+        });
+    }
+
+    /**
+     * Sends an order update to every client, or the clients of one API key.
+     *
+     * @param {Object} order - Order as returned by `getOrders`.
+     * @param {string} [api_key]
+     * @returns {void}
+     */
+    sendOrderUpdate(order: object, api_key?: string): void {
+        const message = JSON.stringify({ type: 'order', data: order });
+        this.connections.forEach((connection, socket) => {
+            if (!api_key || connection.api_key === api_key) _send(socket, message);
+        });
+    }
+
+    /**
+     * Changes the heartbeat interval, `0` stops the heartbeats.
+     *
+     * @param {number} interval - Milliseconds between heartbeats.
+     * @returns {void}
+     */
+    setHeartbeat(interval: number): void {
+        this.heartbeat_interval = interval;
+        clearInterval(this.heartbeat_timer);
+        this.heartbeat_timer = undefined;
+        if (!interval) return;
+
+        this.heartbeat_timer = setInterval(() => {
+            this.connections.forEach((connection, socket) => _send(socket, Buffer.alloc(1)));
+        }, interval);
+        this.heartbeat_timer.unref();
+    }
+
+    /**
+     * Closes every connection. An abrupt drop terminates the sockets without a close handshake.
+     *
+     * @param {boolean} [abrupt=false]
+     * @returns {void}
+     */
+    dropConnections(abrupt = false): void {
+        this.connections.forEach((connection, socket) => abrupt ? socket.terminate() : socket.close());
+    }
+
+    /**
+     * Refuses the next connection attempts with a 503 response.
+     *
+     * @param {number} count - Number of attempts to refuse.
+     * @returns {void}
+     */
+    refuseConnections(count: number): void {
+        this.refused = count;
+    }
+
+    /**
+     * @private
+     * @param {WebSocket} socket
+     * @param {IncomingMessage} req
+     */
+    private accept(socket: WebSocket, req: IncomingMessage) {
+        const query = _getQuery(req);
+        const connection: MockTickerConnection = {
+            api_key: query.get('api_key') || '',
+            access_token: query.get('access_token') || '',
+            subscriptions: {}
+        };
+        this.connections.set(socket, connection);
+
+        socket.on('message', (data: WebSocket.Data) => this.handleMessage(connection, data.toString()));
+        socket.on('close', () => {
+            this.connections.delete(socket);
+            this.emit('disconnect', connection);
+        });
+        this.emit('connection', connection);
+    }
+
+    /**
+     * @private
+     * @param {MockTickerConnection} connection
+     * @param {string} data
+     */
+    private handleMessage(connection: MockTickerConnection, data: string) {
+        let message: { a: string, v: unknown };
+        try {
+            message = JSON.parse(data);
+        } catch (e) {
+            return;
+        }
+
+        const subscriptions = connection.subscriptions;
+        if (message.a === 'subscribe') {
+            for (const token of message.v as number[]) {
+                if (!subscriptions[token]) subscriptions[token] = 'quote';
+            }
+        } else if (message.a === 'unsubscribe') {
+            for (const token of message.v as number[]) delete subscriptions[token];
+        } else if (message.a === 'mode') {
+            const [mode, tokens] = message.v as [string, number[]];
+            for (const token of tokens) {
+                if (subscriptions[token]) subscriptions[token] = mode;
+            }
+        } else {
+            return;
+        }
+        this.emit(message.a, connection, message.v);
+    }
+}
+
+/**
+ * @param req - Upgrade request
+ * @returns Query parameters of the request
+ */
+function _getQuery(req: IncomingMessage): URLSearchParams {
+    return new URL(req.url || '/', 'ws://localhost').searchParams;
+}
+
+/**
+ * @param socket - Client socket
+ * @param data - Message
+ */
+function _send(socket: WebSocket, data: Buffer | string) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(data);
+}
+
+/**
+ * Joins packets into a frame: the number of packets, then each packet prefixed with its length.
+ *
+ * @param packets - Tick packets
+ * @returns Frame
+ */
+function _encodeFrame(packets: Buffer[]): Buffer {
+    const parts = [_int16(packets.length)];
+    for (const packet of packets) parts.push(_int16(packet.length), packet);
+    return Buffer.concat(parts);
+}
+
+/**
+ * Encodes a tick in the packet layout of a mode, the inverse of `parseBinary`.
+ *
+ * @param tick - Tick
+ * @param mode - `ltp`, `quote` or `full`
+ * @returns Packet
+ */
+function _encodePacket(tick: MockTick, mode: string): Buffer {
+    const segment = tick.instrument_token & 0xff;
+    const divisor = segment === segmentNseCD ? 10000000 : segment === segmentBseCD ? 10000 : 100;
+    const price = (value?: number) => Math.round((value || 0) * divisor);
+    const time = (value?: Date | null) => value ? Math.floor(value.getTime() / 1000) : 0;
+    const ohlc = tick.ohlc || { open: 0, high: 0, low: 0, close: 0 };
+
+    const values = [tick.instrument_token, price(tick.last_price)];
+    if (mode === 'ltp') return _uint32(values);
+
+    if (segment === segmentIndices) {
+        // Index packets carry the high before the open and the change in price, the only signed field
+        values.push(price(ohlc.high), price(ohlc.low), price(ohlc.open), price(ohlc.close));
+        const parts = [_uint32(values), _int32([price(tick.last_price - ohlc.close)])];
+        if (mode === 'full') parts.push(_uint32([time(tick.exchange_timestamp)]));
+        return Buffer.concat(parts);
+    }
+
+    values.push(tick.last_traded_quantity || 0, price(tick.average_traded_price), tick.volume_traded || 0,
+        tick.total_buy_quantity || 0, tick.total_sell_quantity || 0,
+        price(ohlc.open), price(ohlc.high), price(ohlc.low), price(ohlc.close));
+    if (mode !== 'full') return _uint32(values);
+
+    values.push(time(tick.last_trade_time), tick.oi || 0, tick.oi_day_high || 0, tick.oi_day_low || 0, time(tick.exchange_timestamp));
+    const depth = tick.depth || { buy: [], sell: [] };
+    const levels = Buffer.alloc(120);
+    for (let i = 0; i < 10; i++) {
+        const level = i < 5 ? depth.buy[i] : depth.sell[i - 5];
+        if (!level) continue;
+        levels.writeUInt32BE(level.quantity, i * 12);
+        levels.writeUInt32BE(price(level.price), i * 12 + 4);
+        levels.writeInt16BE(level.orders, i * 12 + 8);
+    }
+    return Buffer.concat([_uint32(values), levels]);
+}
+
+/**
+ * @param values - Non-negative integers, eg. volumes and open interest above 2^31
+ * @returns Big endian unsigned 32 bit integers
+ */
+function _uint32(values: number[]): Buffer {
+    const buffer = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+    return buffer;
+}
+
+/**
+ * @param values - Integers
+ * @returns Big endian 32 bit integers
+ */
+function _int32(values: number[]): Buffer {
+    const buffer = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => buffer.writeInt32BE(value, i * 4));
+    return buffer;
+}
+
+/**
+ * @param value - Integer
+ * @returns Big endian 16 bit integer
+ */
+function _int16(value: number): Buffer {
+    const buffer = Buffer.alloc(2);
+    buffer.writeInt16BE(value, 0);
+    return buffer;
+}
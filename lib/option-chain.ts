@@ -0,0 +1,114 @@
+'use strict';
+
+import { Instrument, OptionChain, OptionChainLeg, OptionChainParams, OptionChainRow, Quote } from '../interfaces';
+import { KiteConnect } from './connect';
+import { InstrumentStore } from './instrument-store';
+import { InputException } from './errors';
+
+/**
+ * Builds the option chain of an underlying for an expiry. The contracts are resolved from the
+ * instrument store and quoted with `getQuote`.
+ *
+ * @example
+ * const chain = await getOptionChain(kc, instruments, 'NIFTY', expiry, { strikes_around: 10 });
+ * for (const row of chain.rows) console.log(row.strike, row.CE?.last_price, row.PE?.last_price);
+ *
+ * @param {KiteConnect} kite - Client used to fetch the quotes.
+ * @param {InstrumentStore} instruments - Store the contracts are resolved from, loaded if needed.
+ * @param {string} underlying - Name of the underlying, eg. `NIFTY`.
+ * @param {(Date | string)} expiry - Expiry date, either as returned by the store or in `YYYY-MM-DD` format.
+ * @param {OptionChainParams} [params]
+ * @returns {Promise<OptionChain>}
+ */
+export async function getOptionChain(kite: KiteConnect, instruments: InstrumentStore, underlying: string, expiry: Date | string, params: OptionChainParams = {}): Promise<OptionChain> {
+    await instruments.load();
+
+    let strikes = instruments.getStrikes(underlying, expiry);
+    if (!strikes.length) throw new InputException('No options listed for ' + underlying + ' expiring on ' + _formatExpiry(expiry));
+
+    let spot: number | null = null;
+    if (params.strikes_around !== undefined) {
+        spot = params.spot ?? await _getFuturesPrice(kite, instruments, underlying);
+        strikes = instruments.getStrikesAround(underlying, expiry, spot, params.strikes_around);
+    }
+
+    const contracts: Instrument[] = [];
+    for (const strike of strikes) {
+        for (const type of ['CE', 'PE'] as const) {
+            const contract = instruments.getOption(underlying, expiry, strike, type);
+            if (contract) contracts.push(contract);
+        }
+    }
+
+    // getQuote splits the contracts into batches within the per request limit
+    const quotes = await kite.getQuote(contracts.map(_getSymbol));
+
+    const rows: OptionChainRow[] = strikes.map((strike) => ({ strike: strike, CE: null, PE: null }));
+    const byStrike: { [strike: number]: OptionChainRow } = {};
+    for (const row of rows) byStrike[row.strike] = row;
+
+    for (const contract of contracts) {
+        const quote = quotes[_getSymbol(contract)];
+        if (quote) byStrike[contract.strike][contract.instrument_type as 'CE' | 'PE'] = _toLeg(contract, quote);
+    }
+
+    return {
+        underlying: underlying,
+        expiry: new Date(_formatExpiry(expiry)),
+        spot: spot,
+        rows: rows
+    };
+}
+
+/**
+ * Returns the last price of the nearest futures contract of an underlying.
+ *
+ * @param kite - Client used to fetch the price
+ * @param instruments - Store the contract is resolved from
+ * @param underlying - Name of the underlying
+ * @returns Last price
+ */
+async function _getFuturesPrice(kite: KiteConnect, instruments: InstrumentStore, underlying: string): Promise<number> {
+    const future = instruments.getDerivatives(underlying, { instrument_type: 'FUT' })[0];
+    if (!future) throw new InputException('`spot` is required, no futures listed for ' + underlying);
+
+    const symbol = _getSymbol(future);
+    const ltp = await kite.getLTP([symbol]);
+    if (!ltp[symbol]) throw new InputException('`spot` is required, no price for ' + symbol);
+
+    return ltp[symbol].last_price;
+}
+
+/**
+ * @param instrument - Instrument
+ * @returns Instrument in `exchange:tradingsymbol` format
+ */
+function _getSymbol(instrument: Instrument): string {
+    return instrument.exchange + ':' + instrument.tradingsymbol;
+}
+
+/**
+ * @param expiry - Expiry date or `YYYY-MM-DD` string
+ * @returns Expiry in `YYYY-MM-DD` format
+ */
+function _formatExpiry(expiry: Date | string): string {
+    return typeof expiry === 'string' ? expiry.slice(0, 10) : expiry.toISOString().slice(0, 10);
+}
+
+/**
+ * @param instrument - Option contract
+ * @param quote - Full quote of the contract
+ * @returns Option chain leg
+ */
+function _toLeg(instrument: Instrument, quote: Quote): OptionChainLeg {
+    const depth = quote.depth || { buy: [], sell: [] };
+    return {
+        instrument: instrument,
+        last_price: quote.last_price,
+        oi: quote.oi || 0,
+        volume: quote.volume || 0,
+        bid: depth.buy.length ? depth.buy[0].price : 0,
+        ask: depth.sell.length ? depth.sell[0].price : 0,
+        depth: depth
+    };
+}
@@ -0,0 +1,404 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { Exchanges, OrderSlice, OrderSlicerParams, OrderState, PlaceOrderParams, SlicedOrderEventCallbacks, SlicedOrderEvents, SlicedOrderStatus, SliceOrderOptions, TrackedOrder, TransactionTypes, Varieties } from '../interfaces';
+import { FINAL_ORDER_STATES, FREEZE_QUANTITIES } from '../constants';
+import { KiteConnect } from './connect';
+import { InstrumentStore } from './instrument-store';
+import { OrderTracker } from './order-tracker';
+import utils from './utils';
+import { InputException, OrderException } from './errors';
+
+/**
+ * Client the child orders are placed and cancelled with.
+ */
+type SlicerClient = Pick<KiteConnect, 'placeOrder' | 'cancelOrder'>;
+
+/**
+ * A placed child order.
+ */
+interface SliceChild {
+    order_id: string;
+    variety: Varieties;
+    quantity: number;
+}
+
+/**
+ * Default milliseconds between child orders.
+ * @type {number}
+ */
+const defaultSliceInterval = 200;
+
+// Exchanges whose index derivatives have freeze quantities
+const FREEZE_EXCHANGES = ['NFO', 'BFO'];
+const MAX_ICEBERG_LEGS = 50;
+
+/**
+ * @classdesc Places orders larger than the exchange freeze quantity, which would be rejected as a
+ * single order, as several child orders within it. Each child order is a whole number of lots and
+ * they are placed one after another with a pause in between. In iceberg mode the quantity is
+ * placed as iceberg orders instead, whose legs are within the freeze quantity.
+ *
+ * The freeze quantity is looked up by the name of the underlying in `FREEZE_QUANTITIES`, merged
+ * with the `freeze_quantities` param. Orders in instruments without a freeze quantity are placed
+ * as they are.
+ *
+ * @example
+ * const slicer = new OrderSlicer(kc, tracker, {}, instruments);
+ * const order = await slicer.placeOrderSliced('regular', { exchange: 'NFO', tradingsymbol: 'BANKNIFTY24OCT51000CE',
+ *     transaction_type: 'BUY', quantity: 2400, product: 'NRML', order_type: 'LIMIT', price: 310 });
+ * // three child orders of 900, 900 and 600
+ * const status = await order.waitForFill(10000);
+ * console.log(status.filled_quantity, 'filled at', status.average_price);
+ *
+ * @constructor
+ * @name OrderSlicer
+ * @param {KiteConnect} kite - Client the orders are placed with, or a `PaperKiteConnect`.
+ * @param {OrderTracker} tracker - Tracker the fills of the child orders are followed with.
+ * @param {OrderSlicerParams} [params]
+ * @param {InstrumentStore} [instruments] - Loaded instrument store the underlying and lot size are read from.
+ */
+export class OrderSlicer {
+    /**
+     * @type {Object}
+     */
+    freeze_quantities: { [name: string]: number };
+    /**
+     * @type {number}
+     */
+    interval: number;
+
+    /**
+     * @private
+     * @type {SlicerClient}
+     */
+    private kite: SlicerClient;
+    /**
+     * @private
+     * @type {OrderTracker}
+     */
+    private tracker: OrderTracker;
+    /**
+     * @private
+     * @type {?InstrumentStore}
+     */
+    private instruments: InstrumentStore | null;
+
+    constructor(kite: SlicerClient, tracker: OrderTracker, params: OrderSlicerParams = {}, instruments?: InstrumentStore) {
+        this.kite = kite;
+        this.tracker = tracker;
+        this.instruments = instruments || null;
+        this.freeze_quantities = { ...FREEZE_QUANTITIES, ...params.freeze_quantities };
+        this.interval = params.interval ?? defaultSliceInterval;
+    }
+
+    /**
+     * Returns the freeze quantity of an instrument, `null` when it has none.
+     *
+     * @param {Exchanges} exchange
+     * @param {string} tradingsymbol
+     * @returns {?number}
+     */
+    getFreezeQuantity(exchange: Exchanges, tradingsymbol: string): number | null {
+        if (!FREEZE_EXCHANGES.includes(exchange)) return null;
+        const instrument = this.instruments ? this.instruments.getInstrument(tradingsymbol, exchange) : null;
+        const name = instrument ? instrument.name : _guessName(tradingsymbol, Object.keys(this.freeze_quantities));
+        return name && this.freeze_quantities[name] ? this.freeze_quantities[name] : null;
+    }
+
+    /**
+     * Splits an order into the child orders `placeOrderSliced` places, without placing them.
+     *
+     * @param {Varieties} variety
+     * @param {PlaceOrderParams} params
+     * @param {SliceOrderOptions} [options]
+     * @returns {OrderSlice[]}
+     */
+    slice(variety: Varieties, params: PlaceOrderParams, options: SliceOrderOptions = {}): OrderSlice[] {
+        const lot_size = options.lot_size
+            ?? (this.instruments ? this.instruments.getLotSize(params.tradingsymbol, params.exchange) : null)
+            ?? 1;
+        const freeze_quantity = options.freeze_quantity ?? this.getFreezeQuantity(params.exchange, params.tradingsymbol);
+        if (params.quantity % lot_size !== 0) {
+            throw new InputException('Quantity ' + params.quantity + ' is not a multiple of the lot size ' + lot_size);
+        }
+        if (!freeze_quantity || params.quantity <= freeze_quantity) return [{ variety: variety, params: { ...params } }];
+
+        // Largest whole number of lots within the freeze quantity
+        const max_quantity = Math.floor(freeze_quantity / lot_size) * lot_size;
+        if (max_quantity <= 0) {
+            throw new InputException('Freeze quantity ' + freeze_quantity + ' is less than the lot size ' + lot_size);
+        }
+
+        if (options.mode === 'iceberg') {
+            if (variety !== Varieties.VARIETY_REGULAR && variety !== Varieties.VARIETY_ICEBERG) {
+                throw new InputException('Orders of the ' + variety + ' variety cannot be placed as iceberg orders');
+            }
+            return _split(params.quantity, max_quantity * MAX_ICEBERG_LEGS).map((quantity) => {
+                const legs = Math.ceil(quantity / max_quantity);
+                if (legs < 2) return { variety: variety === Varieties.VARIETY_ICEBERG ? Varieties.VARIETY_REGULAR : variety, params: { ...params, quantity: quantity } };
+                const iceberg_quantity = Math.ceil(quantity / legs / lot_size) * lot_size;
+                return {
+                    variety: Varieties.VARIETY_ICEBERG,
+                    params: { ...params, quantity: quantity, iceberg_legs: legs, iceberg_quantity: iceberg_quantity }
+                };
+            });
+        }
+        return _split(params.quantity, max_quantity).map((quantity) => ({ variety: variety, params: { ...params, quantity: quantity } }));
+    }
+
+    /**
+     * Places an order as child orders within the freeze quantity, pausing `interval` milliseconds
+     * between them, and resolves with a handle following their combined fills.
+     *
+     * When placing a child order fails the remaining ones are not placed. The error is rethrown if
+     * no child order was placed, otherwise the promise rejects with an `OrderException` whose `data`
+     * is the handle of the child orders that were placed, eg. to cancel them.
+     *
+     * @param {Varieties} variety
+     * @param {PlaceOrderParams} params
+     * @param {SliceOrderOptions} [options]
+     * @returns {Promise<SlicedOrder>}
+     */
+    async placeOrderSliced(variety: Varieties, params: PlaceOrderParams, options: SliceOrderOptions = {}): Promise<SlicedOrder> {
+        const slices = this.slice(variety, params, options);
+        const children: SliceChild[] = [];
+        for (const slice of slices) {
+            if (children.length && this.interval > 0) await utils.sleep(this.interval);
+            try {
+                const { order_id } = await this.kite.placeOrder(slice.variety, slice.params);
+                this.tracker.track(order_id);
+                children.push({ order_id: String(order_id), variety: slice.variety, quantity: slice.params.quantity });
+            } catch (error) {
+                if (!children.length) throw error;
+                const message = 'Placed ' + children.length + ' of ' + slices.length + ' orders of ' + params.tradingsymbol + ': ' + (error as Error).message;
+                throw new OrderException(message, { data: new SlicedOrder(this.kite, this.tracker, params, children), payload: error });
+            }
+        }
+        return new SlicedOrder(this.kite, this.tracker, params, children);
+    }
+}
+
+/**
+ * @classdesc Handle of the child orders of an order placed with `OrderSlicer.placeOrderSliced`,
+ * combining their states and fills from an `OrderTracker`. Emits `change` and `fill` with the
+ * combined status as the child orders change, until every child order is final.
+ *
+ * @constructor
+ * @name SlicedOrder
+ * @param {KiteConnect} kite - Client the child orders are cancelled with.
+ * @param {OrderTracker} tracker - Tracker following the child orders.
+ * @param {PlaceOrderParams} params - Parameters of the whole order.
+ * @param {Object[]} children - Order id, variety and quantity of each child order.
+ */
+export class SlicedOrder extends EventEmitter {
+    /**
+     * @type {Exchanges}
+     */
+    exchange: Exchanges;
+    /**
+     * @type {string}
+     */
+    tradingsymbol: string;
+    /**
+     * @type {TransactionTypes}
+     */
+    transaction_type: TransactionTypes;
+    /**
+     * Quantity of the child orders together.
+     * @type {number}
+     */
+    quantity: number;
+    /**
+     * @type {string[]}
+     */
+    order_ids: string[];
+
+    /**
+     * @private
+     * @type {SlicerClient}
+     */
+    private kite: SlicerClient;
+    /**
+     * @private
+     * @type {OrderTracker}
+     */
+    private tracker: OrderTracker;
+    /**
+     * @private
+     * @type {Map<string, SliceChild>}
+     */
+    private children = new Map<string, SliceChild>();
+    /**
+     * @private
+     * @type {Function}
+     */
+    private onChange = (order: TrackedOrder) => this.handleChange(order);
+    /**
+     * Filled quantity of each child order seen so far.
+     * @private
+     * @type {Map<string, number>}
+     */
+    private filled = new Map<string, number>();
+
+    constructor(kite: SlicerClient, tracker: OrderTracker, params: PlaceOrderParams, children: SliceChild[]) {
+        super();
+        this.kite = kite;
+        this.tracker = tracker;
+        this.exchange = params.exchange;
+        this.tradingsymbol = params.tradingsymbol;
+        this.transaction_type = params.transaction_type;
+        this.order_ids = children.map((child) => child.order_id);
+        children.forEach((child) => {
+            this.children.set(child.order_id, child);
+            this.filled.set(child.order_id, this.tracker.getOrder(child.order_id)?.filled_quantity || 0);
+        });
+        this.quantity = children.reduce((sum, child) => sum + child.quantity, 0);
+
+        this.tracker.on('change', this.onChange);
+    }
+
+    /**
+     * Returns the combined state, fills and average price of the child orders.
+     *
+     * @returns {SlicedOrderStatus}
+     */
+    getStatus(): SlicedOrderStatus {
+        const orders = this.order_ids.map((order_id) => this.tracker.getOrder(order_id) || this.tracker.track(order_id));
+        const filled_quantity = orders.reduce((sum, order) => sum + order.filled_quantity, 0);
+        const filled_value = orders.reduce((sum, order) => sum + order.filled_quantity * order.average_price, 0);
+        const open = orders.filter((order) => !FINAL_ORDER_STATES.includes(order.state));
+        return {
+            state: _combinedState(orders, filled_quantity),
+            quantity: this.quantity,
+            filled_quantity: filled_quantity,
+            pending_quantity: open.reduce((sum, order) => sum + (this.children.get(order.order_id) as SliceChild).quantity - order.filled_quantity, 0),
+            average_price: filled_quantity ? filled_value / filled_quantity : 0,
+            orders: orders
+        };
+    }
+
+    /**
+     * Resolves with the combined status once every child order is complete. Rejects with an
+     * `OrderException` when a child order is cancelled or rejected, or not complete within the
+     * timeout, with the combined status as the `data` of the exception.
+     *
+     * @param {number} [timeout] - Milliseconds to wait, see `OrderTracker.waitForFill`.
+     * @returns {Promise<SlicedOrderStatus>}
+     */
+    waitForFill(timeout?: number): Promise<SlicedOrderStatus> {
+        return Promise.all(this.order_ids.map((order_id) => this.tracker.waitForFill(order_id, timeout)))
+            .then(() => this.getStatus())
+            .catch((error: Error) => {
+                const message = 'Sliced order of ' + this.tradingsymbol + ' not filled: ' + error.message;
+                throw new OrderException(message, { data: this.getStatus(), payload: error });
+            });
+    }
+
+    /**
+     * Cancels the child orders that are not complete, cancelled or rejected yet.
+     *
+     * @returns {Promise<void>}
+     */
+    async cancel(): Promise<void> {
+        const open = this.getStatus().orders.filter((order) => !FINAL_ORDER_STATES.includes(order.state));
+        await Promise.all(open.map((order) => this.kite.cancelOrder((this.children.get(order.order_id) as SliceChild).variety, order.order_id)));
+    }
+
+    /**
+     * Stops following the child orders, `change` and `fill` are no longer emitted.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this.tracker.off('change', this.onChange);
+    }
+
+    /**
+     * Bind a callback function to an event.
+     *
+     * @param {SlicedOrderEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {SlicedOrder}
+     */
+    on<T extends SlicedOrderEvents>(e: T, callback: SlicedOrderEventCallbacks[T]): this {
+        return super.on(e, callback);
+    }
+
+    /**
+     * Bind a callback function to the next occurrence of an event.
+     *
+     * @param {SlicedOrderEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {SlicedOrder}
+     */
+    once<T extends SlicedOrderEvents>(e: T, callback: SlicedOrderEventCallbacks[T]): this {
+        return super.once(e, callback);
+    }
+
+    /**
+     * Remove a callback function bound to an event.
+     *
+     * @param {SlicedOrderEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {SlicedOrder}
+     */
+    off<T extends SlicedOrderEvents>(e: T, callback: SlicedOrderEventCallbacks[T]): this {
+        return super.off(e, callback);
+    }
+
+    /**
+     * Emits the combined status when a child order changed or filled, and stops once all are final.
+     *
+     * @private
+     * @param {TrackedOrder} order
+     */
+    private handleChange(order: TrackedOrder) {
+        if (!this.children.has(order.order_id)) return;
+        const quantity = order.filled_quantity - (this.filled.get(order.order_id) || 0);
+        this.filled.set(order.order_id, order.filled_quantity);
+
+        const status = this.getStatus();
+        this.emit('change', status);
+        if (quantity > 0) this.emit('fill', status, quantity);
+        if (status.orders.every((child) => FINAL_ORDER_STATES.includes(child.state))) this.stop();
+    }
+}
+
+/**
+ * @param quantity - Quantity to split
+ * @param max_quantity - Largest quantity of a part
+ * @returns Parts of at most `max_quantity`, the last one holding the remainder
+ */
+function _split(quantity: number, max_quantity: number): number[] {
+    const parts: number[] = [];
+    for (let remaining = quantity; remaining > 0; remaining -= max_quantity) parts.push(Math.min(remaining, max_quantity));
+    return parts;
+}
+
+/**
+ * @param tradingsymbol - Trading symbol of a derivative, eg. `NIFTY24OCT24500CE`
+ * @param names - Known underlying names
+ * @returns Longest known name the symbol starts with followed by its expiry, `null` if none
+ */
+function _guessName(tradingsymbol: string, names: string[]): string | null {
+    const matches = names.filter((name) => tradingsymbol.startsWith(name) && /^\d/.test(tradingsymbol.slice(name.length)));
+    return matches.sort((a, b) => b.length - a.length)[0] || null;
+}
+
+/**
+ * @param orders - Tracked child orders
+ * @param filled_quantity - Filled quantity of all child orders
+ * @returns Combined state of the child orders
+ */
+function _combinedState(orders: TrackedOrder[], filled_quantity: number): OrderState {
+    if (orders.every((order) => FINAL_ORDER_STATES.includes(order.state))) {
+        if (orders.every((order) => order.state === 'COMPLETE')) return 'COMPLETE';
+        return orders.every((order) => order.state === 'REJECTED') ? 'REJECTED' : 'CANCELLED';
+    }
+    if (filled_quantity > 0) return 'PARTIALLY FILLED';
+    for (const state of ['OPEN', 'TRIGGER PENDING'] as OrderState[]) {
+        if (orders.some((order) => order.state === state)) return state;
+    }
+    return 'PENDING';
+}
@@ -0,0 +1,388 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { Order, OrderState, OrderTrackerEventCallbacks, OrderTrackerEvents, OrderTrackerParams, OrderUpdateSource, TrackedOrder } from '../interfaces';
+import { FINAL_ORDER_STATES } from '../constants';
+import { KiteConnect } from './connect';
+import { SourceListener } from './source-listener';
+import { OrderException } from './errors';
+
+/**
+ * Default milliseconds between reconciliations.
+ * @type {number}
+ */
+const defaultReconcileInterval = 5000;
+
+/**
+ * Default milliseconds `waitForFill` waits.
+ * @type {number}
+ */
+const defaultFillTimeout = 30000;
+
+/**
+ * Number of untracked orders whose latest update is kept.
+ * @type {number}
+ */
+const untrackedLimit = 100;
+
+/**
+ * @classdesc Tracks the state of orders from the `order_update` stream of a ticker, and
+ * reconciles it with the order book fetched with `getOrders` while orders are still pending, so
+ * updates lost on a dropped connection are caught up with. Each order moves through the states
+ * of `OrderState`. Updates arriving out of order are ignored: an order never moves back to an
+ * update with an earlier exchange timestamp or a lower filled quantity, and complete, cancelled
+ * and rejected orders are final.
+ *
+ * Only the orders passed to `track` are followed. The latest updates of the last 100 other orders
+ * are kept, so an order tracked right after it is placed starts from the updates that arrived
+ * before. State changes are emitted on `change`, fills on `fill`, and changes found by
+ * reconciliation that never arrived on the stream on `missed_update`.
+ *
+ * @example
+ * const tracker = new OrderTracker(kc, { reconcile_interval: 2000 });
+ * tracker.attach(ticker);
+ * const { order_id } = await kc.placeOrder('regular', params);
+ * const order = await tracker.waitForFill(order_id, 10000);
+ * console.log('Filled at', order.average_price);
+ *
+ * @constructor
+ * @name OrderTracker
+ * @param {KiteConnect} kite - Client the order book is reconciled with, or a `PaperKiteConnect`.
+ * @param {OrderTrackerParams} [params]
+ */
+export class OrderTracker extends EventEmitter {
+    /**
+     * @type {number}
+     */
+    reconcile_interval: number;
+
+    /**
+     * @private
+     * @type {Pick<KiteConnect, 'getOrders'>}
+     */
+    private kite: Pick<KiteConnect, 'getOrders'>;
+    /**
+     * @private
+     * @type {Map<string, TrackedOrder>}
+     */
+    private orders = new Map<string, TrackedOrder>();
+    /**
+     * Latest update of each order not tracked yet, oldest first.
+     * @private
+     * @type {Map<string, Order>}
+     */
+    private untracked = new Map<string, Order>();
+    /**
+     * @private
+     * @type {SourceListener}
+     */
+    private sources = new SourceListener('order_update', (order: Order) => this.update(order, 'stream'));
+    /**
+     * @private
+     * @type {?NodeJS.Timeout}
+     */
+    private reconcile_timer: NodeJS.Timeout | undefined;
+    /**
+     * Reconciliation in flight, shared by concurrent callers.
+     * @private
+     * @type {?Promise<void>}
+     */
+    private reconciling: Promise<void> | null = null;
+    constructor(kite: Pick<KiteConnect, 'getOrders'>, params: OrderTrackerParams = {}) {
+        super();
+        this.kite = kite;
+        this.reconcile_interval = params.reconcile_interval ?? defaultReconcileInterval;
+    }
+
+    /**
+     * Tracks the order updates of a ticker, ticker pool or paper broker.
+     *
+     * @param {OrderUpdateSource} source
+     * @returns {void}
+     */
+    attach(source: OrderUpdateSource): void {
+        this.sources.attach(source);
+    }
+
+    /**
+     * Stops listening to the order updates of a source, or of every source.
+     *
+     * @param {OrderUpdateSource} [source]
+     * @returns {void}
+     */
+    detach(source?: OrderUpdateSource): void {
+        this.sources.detach(source);
+    }
+
+    /**
+     * Detaches every source and stops reconciling.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this.detach();
+        clearInterval(this.reconcile_timer);
+        this.reconcile_timer = undefined;
+    }
+
+    /**
+     * Starts tracking an order, eg. right after placing it and before any update arrived.
+     *
+     * @param {(string | number)} order_id
+     * @returns {TrackedOrder}
+     */
+    track(order_id: string | number): TrackedOrder {
+        const id = String(order_id);
+        if (!this.orders.has(id)) {
+            this.orders.set(id, {
+                order_id: id,
+                state: 'PENDING',
+                status: '',
+                filled_quantity: 0,
+                pending_quantity: 0,
+                average_price: 0,
+                order: null,
+                source: null,
+                updated_at: new Date()
+            });
+            const early = this.untracked.get(id);
+            this.untracked.delete(id);
+            if (early) this.update(early, 'stream');
+        }
+        this.schedule();
+        return { ...this.orders.get(id) as TrackedOrder };
+    }
+
+    /**
+     * @param {(string | number)} order_id
+     * @returns {?TrackedOrder}
+     */
+    getOrder(order_id: string | number): TrackedOrder | null {
+        const tracked = this.orders.get(String(order_id));
+        return tracked ? { ...tracked } : null;
+    }
+
+    /**
+     * Returns the tracked orders, or the ones in the given states.
+     *
+     * @param {OrderState[]} [states]
+     * @returns {TrackedOrder[]}
+     */
+    getOrders(states?: OrderState[]): TrackedOrder[] {
+        const orders = Array.from(this.orders.values(), (tracked) => ({ ...tracked }));
+        return states ? orders.filter((tracked) => states.includes(tracked.state)) : orders;
+    }
+
+    /**
+     * Fetches the order book and applies the changes of the tracked orders. Concurrent calls share
+     * one request.
+     *
+     * @returns {Promise<void>}
+     */
+    reconcile(): Promise<void> {
+        if (!this.reconciling) {
+            this.reconciling = this.kite.getOrders()
+                .then((orders) => orders
+                    .filter((order) => order && this.orders.has(String(order.order_id)))
+                    .forEach((order) => this.update(order, 'reconcile')))
+                .finally(() => this.reconciling = null);
+        }
+        return this.reconciling;
+    }
+
+    /**
+     * Resolves with the order once it is complete. Rejects with an `OrderException` when the order
+     * is cancelled or rejected, or still not complete after the timeout and a last reconciliation.
+     * The tracked order is attached as the `data` of the exception.
+     *
+     * @param {(string | number)} order_id
+     * @param {number} [timeout=30000] - Milliseconds to wait.
+     * @returns {Promise<TrackedOrder>}
+     */
+    waitForFill(order_id: string | number, timeout = defaultFillTimeout): Promise<TrackedOrder> {
+        const id = String(order_id);
+        return new Promise((resolve, reject) => {
+            const settle = (tracked: TrackedOrder, timed_out = false) => {
+                if (tracked.state === 'COMPLETE') {
+                    resolve(tracked);
+                } else if (timed_out) {
+                    reject(new OrderException('Order ' + id + ' not filled within ' + timeout + 'ms', { data: tracked }));
+                } else if (FINAL_ORDER_STATES.includes(tracked.state)) {
+                    const reason = tracked.order?.status_message ? ': ' + tracked.order.status_message : '';
+                    reject(new OrderException('Order ' + id + ' ' + tracked.state.toLowerCase() + reason, { data: tracked }));
+                } else {
+                    return false;
+                }
+                return true;
+            };
+            if (settle(this.track(id))) return;
+
+            const onChange = (tracked: TrackedOrder) => {
+                if (tracked.order_id !== id || !settle(tracked)) return;
+                clearTimeout(timer);
+                this.off('change', onChange);
+            };
+            const timer = setTimeout(() => {
+                this.off('change', onChange);
+                // The fill may have been missed, check the order book once more
+                this.reconcile().catch(() => undefined).then(() => {
+                    const tracked = this.getOrder(id);
+                    if (tracked) settle(tracked, true);
+                });
+            }, timeout);
+            this.on('change', onChange);
+        });
+    }
+
+    /**
+     * Bind a callback function to an event.
+     *
+     * @param {OrderTrackerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {OrderTracker}
+     */
+    on<T extends OrderTrackerEvents>(e: T, callback: OrderTrackerEventCallbacks[T]): this {
+        return super.on(e, callback);
+    }
+
+    /**
+     * Bind a callback function to the next occurrence of an event.
+     *
+     * @param {OrderTrackerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {OrderTracker}
+     */
+    once<T extends OrderTrackerEvents>(e: T, callback: OrderTrackerEventCallbacks[T]): this {
+        return super.once(e, callback);
+    }
+
+    /**
+     * Remove a callback function bound to an event.
+     *
+     * @param {OrderTrackerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {OrderTracker}
+     */
+    off<T extends OrderTrackerEvents>(e: T, callback: OrderTrackerEventCallbacks[T]): this {
+        return super.off(e, callback);
+    }
+
+    /**
+     * Applies an order update unless it is older than the tracked state.
+     *
+     * @private
+     * @param {Order} order
+     * @param {('stream' | 'reconcile')} source
+     */
+    private update(order: Order, source: 'stream' | 'reconcile') {
+        if (!order || order.order_id === undefined || order.order_id === null) return;
+
+        const order_id = String(order.order_id);
+        const tracked = this.orders.get(order_id);
+        if (!tracked) {
+            if (source === 'stream') this.keepUntracked(order_id, order);
+            return;
+        }
+
+        const state = _stateOf(order);
+        const filled_quantity = Number(order.filled_quantity || 0);
+        if (!_isLater(tracked, order, filled_quantity)) return;
+
+        const previous = tracked.state;
+        const filled = filled_quantity - tracked.filled_quantity;
+        const changed = state !== previous || filled > 0;
+        const next: TrackedOrder = {
+            order_id: order_id,
+            state: state,
+            status: order.status || '',
+            filled_quantity: filled_quantity,
+            pending_quantity: Number(order.pending_quantity || 0),
+            average_price: Number(order.average_price || 0),
+            order: order,
+            source: changed ? source : tracked.source,
+            updated_at: new Date()
+        };
+        this.orders.set(order_id, next);
+
+        if (changed && source === 'reconcile' && this.sources.size) this.emit('missed_update', { ...next }, previous);
+        if (changed) this.emit('change', { ...next }, previous);
+        if (filled > 0) this.emit('fill', { ...next }, filled);
+        this.schedule();
+    }
+
+    /**
+     * Keeps the latest update of an order that is not tracked, dropping the oldest order over the limit.
+     *
+     * @private
+     * @param {string} order_id
+     * @param {Order} order
+     */
+    private keepUntracked(order_id: string, order: Order) {
+        this.untracked.delete(order_id);
+        this.untracked.set(order_id, order);
+        if (this.untracked.size > untrackedLimit) this.untracked.delete(this.untracked.keys().next().value);
+    }
+
+    /**
+     * Reconciles periodically while a tracked order is pending and stops once all are final.
+     *
+     * @private
+     */
+    private schedule() {
+        const pending = Array.from(this.orders.values()).some((tracked) => !FINAL_ORDER_STATES.includes(tracked.state));
+        if (pending && !this.reconcile_timer && this.reconcile_interval > 0) {
+            this.reconcile_timer = setInterval(() => {
+                this.reconcile().catch((error) => {
+                    if (this.listenerCount('error') > 0) this.emit('error', error);
+                });
+            }, this.reconcile_interval);
+            // Polling must not keep the process alive
+            this.reconcile_timer.unref();
+        } else if (!pending && this.reconcile_timer) {
+            clearInterval(this.reconcile_timer);
+            this.reconcile_timer = undefined;
+        }
+    }
+}
+
+/**
+ * @param order - Order update or order book entry
+ * @returns State of the order
+ */
+function _stateOf(order: Order): OrderState {
+    const status = order.status || '';
+    const filled = Number(order.filled_quantity || 0) > 0;
+    if (status === 'COMPLETE' || status === 'REJECTED') return status;
+    if (status.startsWith('CANCELLED')) return 'CANCELLED';
+    if (filled) return 'PARTIALLY FILLED';
+    if (status === 'OPEN' || status === 'TRIGGER PENDING') return status;
+    return 'PENDING';
+}
+
+/**
+ * @param tracked - Tracked state of the order
+ * @param order - Order update or order book entry
+ * @param filled_quantity - Filled quantity of the update
+ * @returns Whether the update is not older than the tracked state
+ */
+function _isLater(tracked: TrackedOrder, order: Order, filled_quantity: number): boolean {
+    if (FINAL_ORDER_STATES.includes(tracked.state)) return false;
+    if (filled_quantity !== tracked.filled_quantity) return filled_quantity > tracked.filled_quantity;
+
+    // Order updates carry timestamps as strings and the order book as Date objects, which may be
+    // parsed in different time zones, so only timestamps of the same kind are compared
+    const updated_at = _updatedAt(order);
+    const tracked_at = tracked.order ? _updatedAt(tracked.order) : null;
+    if (updated_at === null || tracked_at === null || typeof updated_at !== typeof tracked_at) return true;
+    return new Date(updated_at).getTime() >= new Date(tracked_at).getTime();
+}
+
+/**
+ * @param order - Order update or order book entry
+ * @returns Timestamp of the last exchange update of the order, null when it has no valid one
+ */
+function _updatedAt(order: Order): Date | string | null {
+    const value = order.exchange_update_timestamp || order.exchange_timestamp || order.order_timestamp;
+    if (!value || isNaN(new Date(value).getTime())) return null;
+    return value;
+}
@@ -0,0 +1,210 @@
+'use strict';
+
+import { Instrument, OrderTypes, OrderValidatorParams, PlaceOrderParams, PlaceOrderValidator, Products, TransactionTypes, Validities, Varieties } from '../interfaces';
+import { KiteConnect } from './connect';
+import { InstrumentStore } from './instrument-store';
+import { InputException } from './errors';
+
+// Order types that take a limit price, and the ones that take a trigger price
+const PRICED_ORDER_TYPES: string[] = [OrderTypes.LIMIT, OrderTypes.SL];
+const TRIGGERED_ORDER_TYPES: string[] = [OrderTypes.SL, OrderTypes.SLM];
+
+const MIN_ICEBERG_LEGS = 2;
+const MAX_ICEBERG_LEGS = 50;
+
+/**
+ * @classdesc Checks orders before they are sent, so a price off the tick size, a quantity that is
+ * not a multiple of the lot size or a missing trigger price is rejected without a request instead
+ * of by the exchange. Prices are checked against the `tick_size` and quantities against the
+ * `lot_size` of the instrument, the order type against the variety and validity, and trigger
+ * prices against the range returned by `getTriggerRange`.
+ *
+ * Validation is opt-in: call `validate` before placing an order, or set the validator on a client
+ * with `setOrderValidator` to validate every `placeOrder`.
+ *
+ * @example
+ * const validator = new OrderValidator(kc, instruments);
+ * kc.setOrderValidator(validator);
+ * await kc.placeOrder('regular', { exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', quantity: 30, ... });
+ * // InputException: Invalid order for NFO:NIFTY24OCT24500CE: quantity 30 is not a multiple of the lot size 75
+ *
+ * @constructor
+ * @name OrderValidator
+ * @param {KiteConnect} kite - Client trigger ranges are fetched with.
+ * @param {InstrumentStore} instruments - Loaded instrument store the tick and lot sizes are read from.
+ * @param {OrderValidatorParams} [params]
+ */
+export class OrderValidator implements PlaceOrderValidator {
+    /**
+     * @type {boolean}
+     */
+    trigger_range: boolean;
+
+    /**
+     * @private
+     * @type {Pick<KiteConnect, 'getTriggerRange'>}
+     */
+    private kite: Pick<KiteConnect, 'getTriggerRange'>;
+    /**
+     * @private
+     * @type {InstrumentStore}
+     */
+    private instruments: InstrumentStore;
+
+    constructor(kite: Pick<KiteConnect, 'getTriggerRange'>, instruments: InstrumentStore, params: OrderValidatorParams = {}) {
+        this.kite = kite;
+        this.instruments = instruments;
+        this.trigger_range = params.trigger_range ?? true;
+    }
+
+    /**
+     * Returns the problems of an order found from the instrument master alone, without requests.
+     *
+     * @param {Varieties} variety
+     * @param {PlaceOrderParams} params
+     * @returns {string[]} Problems of the order, empty when it is valid.
+     */
+    check(variety: Varieties, params: PlaceOrderParams): string[] {
+        const instrument = this.instruments.getInstrument(params.tradingsymbol, params.exchange);
+        if (!instrument) return ['unknown instrument'];
+
+        return [
+            ..._checkQuantity(params, instrument),
+            ..._checkPrices(variety, params, instrument),
+            ..._checkVariety(variety, params, instrument),
+            ..._checkValidity(variety, params)
+        ];
+    }
+
+    /**
+     * Resolves when the order passes `check` and its trigger price is within the trigger range of
+     * the instrument. Rejects with an `InputException` listing the problems otherwise, they are
+     * attached as its `data`.
+     *
+     * @param {Varieties} variety
+     * @param {PlaceOrderParams} params
+     * @returns {Promise<void>}
+     */
+    async validate(variety: Varieties, params: PlaceOrderParams): Promise<void> {
+        const symbol = params.exchange + ':' + params.tradingsymbol;
+        const errors = this.check(variety, params);
+        if (!errors.length && this.trigger_range && params.trigger_price) {
+            const ranges = await this.kite.getTriggerRange(params.transaction_type, symbol);
+            const range = ranges[symbol];
+            if (range && (params.trigger_price < range.lower || params.trigger_price > range.upper)) {
+                errors.push('trigger price ' + params.trigger_price + ' is outside the trigger range ' + range.lower.toFixed(2) + ' - ' + range.upper.toFixed(2));
+            }
+        }
+        if (errors.length) throw new InputException('Invalid order for ' + symbol + ': ' + errors.join(', '), { data: errors });
+    }
+}
+
+/**
+ * @param params - Order parameters
+ * @param instrument - Instrument of the order
+ * @returns Problems of the quantities
+ */
+function _checkQuantity(params: PlaceOrderParams, instrument: Instrument): string[] {
+    const errors: string[] = [];
+    const lot_size = instrument.lot_size || 1;
+    if (!Number.isInteger(params.quantity) || params.quantity <= 0) {
+        errors.push('quantity ' + params.quantity + ' is not a positive whole number');
+    } else if (params.quantity % lot_size !== 0) {
+        errors.push('quantity ' + params.quantity + ' is not a multiple of the lot size ' + lot_size);
+    }
+    if (params.disclosed_quantity && params.disclosed_quantity > params.quantity) {
+        errors.push('disclosed quantity ' + params.disclosed_quantity + ' exceeds the quantity ' + params.quantity);
+    }
+    return errors;
+}
+
+/**
+ * @param variety - Variety of the order
+ * @param params - Order parameters
+ * @param instrument - Instrument of the order
+ * @returns Problems of the price and trigger price
+ */
+function _checkPrices(variety: Varieties, params: PlaceOrderParams, instrument: Instrument): string[] {
+    const errors: string[] = [];
+    const priced = PRICED_ORDER_TYPES.includes(params.order_type);
+    // Cover orders carry the trigger price of their stop loss leg
+    const triggered = TRIGGERED_ORDER_TYPES.includes(params.order_type) || variety === Varieties.VARIETY_CO;
+
+    if (priced && !(params.price && params.price > 0)) errors.push('price is required for ' + params.order_type + ' orders');
+    if (!priced && params.price) errors.push('price is not allowed for ' + params.order_type + ' orders');
+    if (triggered && !(params.trigger_price && params.trigger_price > 0)) errors.push('trigger price is required for ' + (variety === Varieties.VARIETY_CO ? 'cover' : params.order_type) + ' orders');
+    if (!triggered && params.trigger_price) errors.push('trigger price is not allowed for ' + params.order_type + ' orders');
+
+    for (const [name, price] of [['price', params.price], ['trigger price', params.trigger_price]] as [string, number | undefined][]) {
+        if (price && !_isTickMultiple(price, instrument.tick_size)) {
+            errors.push(name + ' ' + price + ' is not a multiple of the tick size ' + instrument.tick_size);
+        }
+    }
+
+    if (params.order_type === OrderTypes.SL && params.price && params.trigger_price) {
+        const buy = params.transaction_type === TransactionTypes.BUY;
+        if (buy ? params.trigger_price > params.price : params.trigger_price < params.price) {
+            errors.push('trigger price of ' + params.transaction_type + ' SL orders must be ' + (buy ? 'at most' : 'at least') + ' the price');
+        }
+    }
+    return errors;
+}
+
+/**
+ * @param variety - Variety of the order
+ * @param params - Order parameters
+ * @param instrument - Instrument of the order
+ * @returns Problems of the order type and product with the variety
+ */
+function _checkVariety(variety: Varieties, params: PlaceOrderParams, instrument: Instrument): string[] {
+    const errors: string[] = [];
+    if (variety === Varieties.VARIETY_CO) {
+        if (TRIGGERED_ORDER_TYPES.includes(params.order_type)) errors.push('cover orders must be MARKET or LIMIT orders');
+        if (params.product !== Products.MIS) errors.push('cover orders must use the MIS product');
+    }
+    if (variety === Varieties.VARIETY_ICEBERG) {
+        const legs = params.iceberg_legs;
+        const leg_quantity = params.iceberg_quantity;
+        if (!legs || !Number.isInteger(legs) || legs < MIN_ICEBERG_LEGS || legs > MAX_ICEBERG_LEGS) {
+            errors.push('iceberg legs must be a whole number from ' + MIN_ICEBERG_LEGS + ' to ' + MAX_ICEBERG_LEGS);
+        }
+        if (!leg_quantity || leg_quantity % (instrument.lot_size || 1) !== 0) {
+            errors.push('iceberg quantity must be a multiple of the lot size ' + (instrument.lot_size || 1));
+        } else if (legs && leg_quantity * legs < params.quantity) {
+            errors.push('iceberg legs of ' + leg_quantity + ' do not add up to the quantity ' + params.quantity);
+        }
+    } else if (params.iceberg_legs || params.iceberg_quantity) {
+        errors.push('iceberg legs are only allowed for iceberg orders');
+    }
+    return errors;
+}
+
+/**
+ * @param variety - Variety of the order
+ * @param params - Order parameters
+ * @returns Problems of the validity with the variety and order type
+ */
+function _checkValidity(variety: Varieties, params: PlaceOrderParams): string[] {
+    const errors: string[] = [];
+    const validity = params.validity || Validities.DAY;
+    if (validity === Validities.IOC && TRIGGERED_ORDER_TYPES.includes(params.order_type)) errors.push('IOC validity is not allowed for ' + params.order_type + ' orders');
+    if (validity === Validities.IOC && variety === Varieties.VARIETY_AMO) errors.push('IOC validity is not allowed for after market orders');
+    if (validity === Validities.TTL) {
+        if (params.order_type !== OrderTypes.LIMIT) errors.push('TTL validity is only allowed for LIMIT orders');
+        if (!params.validity_ttl || !Number.isInteger(params.validity_ttl) || params.validity_ttl <= 0) errors.push('validity ttl in minutes is required for TTL validity');
+    } else if (params.validity_ttl) {
+        errors.push('validity ttl is only allowed for TTL validity');
+    }
+    return errors;
+}
+
+/**
+ * @param price - Price to check
+ * @param tick_size - Tick size of the instrument
+ * @returns Whether the price is a multiple of the tick size, within floating point error
+ */
+function _isTickMultiple(price: number, tick_size: number): boolean {
+    if (!tick_size) return true;
+    const ticks = price / tick_size;
+    return Math.abs(ticks - Math.round(ticks)) < 1e-6;
+}
@@ -0,0 +1,784 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { Exchanges, FullTick, Margins, ModifyOrderParams, Order, OrderResponse, OrderTypes, PaperKiteConnectParams, PlaceOrderParams, Position, Positions, Products, Tick, TickSource, Trade, TransactionTypes, UserMargin, Validities, Varieties } from '../interfaces';
+import { COMMODITY_EXCHANGES, IST_OFFSET, PAPER_TRADING_DEFAULTS } from '../constants';
+import { KiteConnect } from './connect';
+import { InstrumentStore } from './instrument-store';
+import { SourceListener } from './source-listener';
+import { InputException, OrderException } from './errors';
+
+const OPEN_STATUSES = ['OPEN', 'TRIGGER PENDING'];
+// Exchanges with option contracts, for guessing option symbols without an instrument store
+const DERIVATIVE_EXCHANGES = ['NFO', 'BFO', 'CDS', 'BCD', 'MCX'];
+
+/**
+ * An order with the fields the paper broker fills in.
+ */
+interface PaperOrder extends Order {
+    order_id: string;
+    status: string;
+    exchange: Exchanges;
+    tradingsymbol: string;
+    transaction_type: TransactionTypes;
+    order_type: OrderTypes;
+    product: Products;
+    quantity: number;
+    price: number;
+    trigger_price: number;
+    average_price: number;
+    filled_quantity: number;
+    pending_quantity: number;
+    cancelled_quantity: number;
+}
+
+/**
+ * Last and best prices of an instrument.
+ */
+interface PaperQuote {
+    last_price: number;
+    bid: number | null;
+    ask: number | null;
+}
+
+/**
+ * Fills of an instrument in one product, a position is derived from it.
+ */
+interface PaperBook {
+    exchange: Exchanges;
+    tradingsymbol: string;
+    instrument_token: number;
+    product: Products;
+    /**
+     * Net quantity, negative when short
+     */
+    quantity: number;
+    average_price: number;
+    realised: number;
+    buy_quantity: number;
+    buy_value: number;
+    sell_quantity: number;
+    sell_value: number;
+}
+
+/**
+ * @classdesc Simulated broker with the order, portfolio and funds methods of `KiteConnect`, to
+ * run strategies on live or replayed ticks without placing real orders. Orders are filled against
+ * the last price of the instrument, or the best bid and offer of full mode ticks: MARKET orders
+ * immediately, LIMIT orders once marketable and SL / SL-M orders once the last price crosses the
+ * trigger price. Every change of an order is emitted on `order_update`, like `KiteTicker` does
+ * for the orders of a real account, with its timestamps in the `YYYY-MM-DD HH:mm:ss` format of
+ * the API. The order and trade getters return `Date` objects like `KiteConnect` does.
+ *
+ * Orders are filled in full at a single price. Margins are blocked at a flat rate of the order
+ * value per product, see `PAPER_TRADING_DEFAULTS`, and orders exceeding the available funds are
+ * rejected.
+ *
+ * Ticks are matched to orders through the instrument store. Without one, prices can only be set
+ * with `updatePrice`.
+ *
+ * @example
+ * const paper = new PaperKiteConnect({ opening_balance: 500000 }, instruments);
+ * paper.attach(ticker);
+ * paper.on('order_update', (order) => console.log(order.status));
+ * await paper.placeOrder('regular', { exchange: 'NSE', tradingsymbol: 'INFY', transaction_type: 'BUY',
+ *     quantity: 10, product: 'MIS', order_type: 'LIMIT', price: 1500 });
+ *
+ * @constructor
+ * @name PaperKiteConnect
+ * @param {PaperKiteConnectParams} [params]
+ * @param {InstrumentStore} [instruments] - Loaded instrument store ticks are matched to orders with.
+ */
+export class PaperKiteConnect extends EventEmitter implements Pick<KiteConnect, 'placeOrder' | 'modifyOrder' | 'cancelOrder' | 'getOrders' | 'getOrderHistory' | 'getOrderTrades' | 'getTrades' | 'getPositions' | 'getMargins'> {
+    /**
+     * Funds of the equity segment at the start of the session.
+     * @type {number}
+     */
+    opening_balance: number;
+    /**
+     * Funds of the commodity segment at the start of the session.
+     * @type {number}
+     */
+    commodity_balance: number;
+    /**
+     * @type {Object<string, number>}
+     */
+    margin_rates: { [product: string]: number };
+
+    /**
+     * @private
+     * @type {?InstrumentStore}
+     */
+    private instruments: InstrumentStore | null;
+    /**
+     * History of each order, in the order they were placed.
+     * @private
+     * @type {Map<string, PaperOrder[]>}
+     */
+    private orders = new Map<string, PaperOrder[]>();
+    /**
+     * @private
+     * @type {Trade[]}
+     */
+    private trades: Trade[] = [];
+    /**
+     * @private
+     * @type {Map<string, PaperBook>}
+     */
+    private books = new Map<string, PaperBook>();
+    /**
+     * @private
+     * @type {Object<string, PaperQuote>}
+     */
+    private quotes: { [instrument: string]: PaperQuote } = {};
+    /**
+     * @private
+     * @type {SourceListener}
+     */
+    private sources = new SourceListener('ticks', (ticks: Tick[]) => this.updateTicks(ticks));
+    /**
+     * Exchange time of the last tick, orders are timestamped with it.
+     * @private
+     * @type {?Date}
+     */
+    private clock: Date | null = null;
+    /**
+     * @private
+     * @type {number}
+     */
+    private sequence = 0;
+
+    constructor(params: PaperKiteConnectParams = {}, instruments?: InstrumentStore) {
+        super();
+        this.opening_balance = params.opening_balance ?? PAPER_TRADING_DEFAULTS.opening_balance;
+        this.commodity_balance = params.commodity_balance ?? 0;
+        this.margin_rates = { ...PAPER_TRADING_DEFAULTS.margin_rates, ...params.margin_rates };
+        this.instruments = instruments || null;
+    }
+
+    /**
+     * Fills orders against the ticks of a ticker, ticker pool or tick replayer.
+     *
+     * @param {TickSource} source
+     * @returns {void}
+     */
+    attach(source: TickSource): void {
+        if (!this.instruments) throw new InputException('An instrument store is required to match ticks to orders');
+        this.sources.attach(source);
+    }
+
+    /**
+     * Stops listening to the ticks of a source, or of every source.
+     *
+     * @param {TickSource} [source]
+     * @returns {void}
+     */
+    detach(source?: TickSource): void {
+        this.sources.detach(source);
+    }
+
+    /**
+     * Sets the last price of an instrument and fills the orders it makes marketable.
+     *
+     * @param {string} instrument - Trading symbol with exchange, eg. `NSE:INFY`.
+     * @param {number} last_price
+     * @param {Date} [timestamp] - Exchange time of the price.
+     * @returns {void}
+     */
+    updatePrice(instrument: string, last_price: number, timestamp?: Date): void {
+        if (timestamp) this.clock = timestamp;
+        this.quotes[instrument] = { last_price: last_price, bid: null, ask: null };
+        this.match(instrument);
+    }
+
+    /**
+     * Place an order.
+     *
+     * @param {Varieties} variety
+     * @param {PlaceOrderParams} params
+     * @returns {Promise<OrderResponse>}
+     */
+    async placeOrder(variety: Varieties, params: PlaceOrderParams): Promise<OrderResponse> {
+        for (const field of ['exchange', 'tradingsymbol', 'transaction_type', 'order_type', 'product'] as const) {
+            if (!params[field]) throw new InputException('Missing `' + field + '`');
+        }
+        const quantity = Number(params.quantity);
+        if (!(quantity > 0) || !Number.isInteger(quantity)) throw new InputException('Invalid `quantity`');
+
+        const order_type = params.order_type;
+        if ((order_type === OrderTypes.LIMIT || order_type === OrderTypes.SL) && !(Number(params.price) > 0)) {
+            throw new InputException('Invalid `price` for ' + order_type + ' order');
+        }
+        if ((order_type === OrderTypes.SL || order_type === OrderTypes.SLM) && !(Number(params.trigger_price) > 0)) {
+            throw new InputException('Invalid `trigger_price` for ' + order_type + ' order');
+        }
+
+        const instrument = params.exchange + ':' + params.tradingsymbol;
+        const order_id = String(++this.sequence);
+        const now = this.now();
+        const order: PaperOrder = {
+            placed_by: 'PAPER',
+            order_id: order_id,
+            exchange_order_id: order_id,
+            status: order_type === OrderTypes.SL || order_type === OrderTypes.SLM ? 'TRIGGER PENDING' : 'OPEN',
+            order_timestamp: now,
+            exchange_update_timestamp: null,
+            exchange_timestamp: now,
+            variety: variety,
+            modified: false,
+            exchange: params.exchange,
+            tradingsymbol: params.tradingsymbol,
+            instrument_token: this.getInstrumentToken(instrument),
+            order_type: order_type,
+            transaction_type: params.transaction_type,
+            validity: params.validity || Validities.DAY,
+            product: params.product,
+            quantity: quantity,
+            disclosed_quantity: Number(params.disclosed_quantity || 0),
+            price: Number(params.price || 0),
+            trigger_price: Number(params.trigger_price || 0),
+            average_price: 0,
+            filled_quantity: 0,
+            pending_quantity: quantity,
+            cancelled_quantity: 0,
+            market_protection: 0,
+            meta: {},
+            tag: params.tag,
+            guid: order_id
+        };
+        this.orders.set(order_id, []);
+
+        const required = this.getOrderMargin(order);
+        const available = this.getSegmentMargin(_segmentOf(order.exchange)).net;
+        if (required > available) {
+            return this.reject(order, 'Insufficient funds. Required margin is ' + required.toFixed(2) +
+                ' but available margin is ' + available.toFixed(2) + '.');
+        }
+
+        this.updateOrder(order);
+        this.matchOrder(order);
+        const placed = this.getLatest(order_id);
+        if (placed.validity === 'IOC' && placed.status === 'OPEN') this.cancel(placed);
+        return { order_id: order_id };
+    }
+
+    /**
+     * Modify an open or trigger pending order.
+     *
+     * @param {Varieties} variety
+     * @param {(string | number)} order_id
+     * @param {ModifyOrderParams} params
+     * @returns {Promise<OrderResponse>}
+     */
+    async modifyOrder(variety: Varieties, order_id: string | number, params: ModifyOrderParams): Promise<OrderResponse> {
+        const order = this.getOpenOrder(String(order_id));
+        const blocked = this.getOrderMargin(order);
+        for (const field of ['quantity', 'price', 'trigger_price', 'disclosed_quantity'] as const) {
+            if (params[field] !== undefined) order[field] = Number(params[field]);
+        }
+        if (params.order_type) order.order_type = params.order_type;
+        if (params.validity) order.validity = params.validity;
+        if (!(order.quantity > order.filled_quantity)) throw new InputException('Invalid `quantity`');
+        order.pending_quantity = order.quantity - order.filled_quantity;
+
+        // The margin blocked by the order is already deducted from the available margin
+        const required = this.getOrderMargin(order) - blocked;
+        const available = this.getSegmentMargin(_segmentOf(order.exchange)).net;
+        if (required > available) {
+            throw new OrderException('Insufficient funds. Additional margin required is ' + required.toFixed(2) +
+                ' but available margin is ' + available.toFixed(2) + '.');
+        }
+
+        order.modified = true;
+        this.updateOrder(order);
+        this.matchOrder(order);
+        return { order_id: order.order_id };
+    }
+
+    /**
+     * Cancel an open or trigger pending order.
+     *
+     * @param {Varieties} variety
+     * @param {(string | number)} order_id
+     * @returns {Promise<OrderResponse>}
+     */
+    async cancelOrder(variety: Varieties, order_id: string | number): Promise<OrderResponse> {
+        const order = this.getOpenOrder(String(order_id));
+        this.cancel(order);
+        return { order_id: order.order_id };
+    }
+
+    /**
+     * Get the orders of the session with their latest status.
+     *
+     * @returns {Promise<Order[]>}
+     */
+    async getOrders(): Promise<Order[]> {
+        return Array.from(this.orders.values(), (history) => ({ ...history[history.length - 1] }));
+    }
+
+    /**
+     * Get every state an order went through.
+     *
+     * @param {(string | number)} order_id
+     * @returns {Promise<Order[]>}
+     */
+    async getOrderHistory(order_id: string | number): Promise<Order[]> {
+        return this.getHistory(String(order_id)).map((order) => ({ ...order }));
+    }
+
+    /**
+     * Get the trades of the session.
+     *
+     * @returns {Promise<Trade[]>}
+     */
+    async getTrades(): Promise<Trade[]> {
+        return this.trades.map((trade) => ({ ...trade }));
+    }
+
+    /**
+     * Get the trades of an order.
+     *
+     * @param {(string | number)} order_id
+     * @returns {Promise<Trade[]>}
+     */
+    async getOrderTrades(order_id: string | number): Promise<Trade[]> {
+        this.getHistory(String(order_id));
+        return this.trades.filter((trade) => trade.order_id === String(order_id)).map((trade) => ({ ...trade }));
+    }
+
+    /**
+     * Get the positions of the session, marked to the last prices. Net and day positions are the
+     * same as nothing is carried overnight.
+     *
+     * @returns {Promise<Positions>}
+     */
+    async getPositions(): Promise<Positions> {
+        const positions = Array.from(this.books.values(), (book) => this.getPosition(book));
+        return { net: positions, day: positions.map((position) => ({ ...position })) };
+    }
+
+    /**
+     * Get the funds and margins of a segment, or of every segment.
+     *
+     * @param {string} [segment] - `equity` or `commodity`.
+     * @returns {Promise<Margins | UserMargin>}
+     */
+    getMargins(): Promise<Margins>;
+    getMargins(segment: string): Promise<UserMargin>;
+    async getMargins(segment?: string): Promise<Margins | UserMargin> {
+        if (!segment) return { equity: this.getSegmentMargin('equity'), commodity: this.getSegmentMargin('commodity') };
+        if (segment !== 'equity' && segment !== 'commodity') throw new InputException('Invalid segment `' + segment + '`');
+        return this.getSegmentMargin(segment);
+    }
+
+    /**
+     * @private
+     * @param {Tick[]} ticks
+     */
+    private updateTicks(ticks: Tick[]) {
+        for (const tick of ticks) {
+            const instrument = this.instruments?.getInstrumentByToken(tick.instrument_token);
+            if (!instrument) continue;
+
+            const full = tick as FullTick;
+            if (full.exchange_timestamp) this.clock = full.exchange_timestamp;
+            const bid = full.depth?.buy.find((level) => level.quantity > 0);
+            const ask = full.depth?.sell.find((level) => level.quantity > 0);
+            const key = instrument.exchange + ':' + instrument.tradingsymbol;
+            this.quotes[key] = { last_price: tick.last_price, bid: bid ? bid.price : null, ask: ask ? ask.price : null };
+            this.match(key);
+        }
+    }
+
+    /**
+     * Fills the open orders of an instrument that are marketable at its current price.
+     *
+     * @private
+     * @param {string} instrument
+     */
+    private match(instrument: string) {
+        for (const history of Array.from(this.orders.values())) {
+            const order = history[history.length - 1];
+            if (order && OPEN_STATUSES.includes(order.status) && order.exchange + ':' + order.tradingsymbol === instrument) {
+                this.matchOrder({ ...order });
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @param {PaperOrder} order - A copy of the latest state of the order.
+     */
+    private matchOrder(order: PaperOrder) {
+        const quote = this.quotes[order.exchange + ':' + order.tradingsymbol];
+        if (!quote || !OPEN_STATUSES.includes(order.status)) return;
+
+        const buy = order.transaction_type === TransactionTypes.BUY;
+        if (order.status === 'TRIGGER PENDING') {
+            const triggered = buy ? quote.last_price >= order.trigger_price : quote.last_price <= order.trigger_price;
+            if (!triggered) return;
+            if (order.order_type === OrderTypes.SL) {
+                order.status = 'OPEN';
+                this.updateOrder(order);
+            }
+        }
+
+        const price = (buy ? quote.ask : quote.bid) ?? quote.last_price;
+        if (order.order_type === OrderTypes.MARKET || order.order_type === OrderTypes.SLM) return this.fill(order, price);
+        if (buy ? price <= order.price : price >= order.price) this.fill(order, price);
+    }
+
+    /**
+     * Fills the pending quantity of an order and books the trade.
+     *
+     * @private
+     * @param {PaperOrder} order
+     * @param {number} price
+     */
+    private fill(order: PaperOrder, price: number) {
+        const quantity = order.pending_quantity;
+        const now = this.now();
+        order.average_price = (order.average_price * order.filled_quantity + price * quantity) / (order.filled_quantity + quantity);
+        order.filled_quantity += quantity;
+        order.pending_quantity = 0;
+        order.status = 'COMPLETE';
+        order.exchange_update_timestamp = _formatTimestamp(now);
+
+        this.trades.push({
+            trade_id: String(this.trades.length + 1),
+            order_id: order.order_id,
+            exchange_order_id: order.order_id,
+            tradingsymbol: order.tradingsymbol,
+            exchange: order.exchange,
+            instrument_token: order.instrument_token || 0,
+            transaction_type: order.transaction_type,
+            product: order.product,
+            average_price: price,
+            quantity: quantity,
+            fill_timestamp: now,
+            order_timestamp: order.order_timestamp || now,
+            exchange_timestamp: now
+        });
+        this.book(order, quantity, price);
+        this.updateOrder(order);
+    }
+
+    /**
+     * Adds a fill to the position of the instrument and product, realising the P&L of the
+     * quantity it closes.
+     *
+     * @private
+     * @param {PaperOrder} order
+     * @param {number} quantity
+     * @param {number} price
+     */
+    private book(order: PaperOrder, quantity: number, price: number) {
+        const key = order.exchange + ':' + order.tradingsymbol + ':' + order.product;
+        let book = this.books.get(key);
+        if (!book) {
+            book = {
+                exchange: order.exchange,
+                tradingsymbol: order.tradingsymbol,
+                instrument_token: order.instrument_token || 0,
+                product: order.product,
+                quantity: 0,
+                average_price: 0,
+                realised: 0,
+                buy_quantity: 0,
+                buy_value: 0,
+                sell_quantity: 0,
+                sell_value: 0
+            };
+            this.books.set(key, book);
+        }
+
+        const signed = order.transaction_type === TransactionTypes.BUY ? quantity : -quantity;
+        if (signed > 0) {
+            book.buy_quantity += quantity;
+            book.buy_value += quantity * price;
+        } else {
+            book.sell_quantity += quantity;
+            book.sell_value += quantity * price;
+        }
+
+        const held = Math.abs(book.quantity);
+        if (!held || Math.sign(book.quantity) === Math.sign(signed)) {
+            book.average_price = (held * book.average_price + quantity * price) / (held + quantity);
+        } else {
+            const closed = Math.min(held, quantity);
+            book.realised += closed * (price - book.average_price) * Math.sign(book.quantity);
+            // A fill larger than the position reverses it at the fill price
+            if (quantity > closed) book.average_price = price;
+        }
+        book.quantity += signed;
+        if (!book.quantity) book.average_price = 0;
+    }
+
+    /**
+     * @private
+     * @param {PaperBook} book
+     * @returns {Position}
+     */
+    private getPosition(book: PaperBook): Position {
+        const quote = this.quotes[book.exchange + ':' + book.tradingsymbol];
+        const last_price = quote ? quote.last_price : book.average_price;
+        const unrealised = book.quantity * (last_price - book.average_price);
+        const pnl = book.realised + unrealised;
+        const buy_price = book.buy_quantity ? book.buy_value / book.buy_quantity : 0;
+        const sell_price = book.sell_quantity ? book.sell_value / book.sell_quantity : 0;
+
+        return {
+            tradingsymbol: book.tradingsymbol,
+            exchange: book.exchange,
+            instrument_token: book.instrument_token,
+            product: book.product,
+            quantity: book.quantity,
+            overnight_quantity: 0,
+            multiplier: 1,
+            average_price: book.average_price,
+            close_price: 0,
+            last_price: last_price,
+            value: book.sell_value - book.buy_value,
+            pnl: pnl,
+            m2m: pnl,
+            unrealised: unrealised,
+            realised: book.realised,
+            buy_quantity: book.buy_quantity,
+            buy_price: buy_price,
+            buy_value: book.buy_value,
+            buy_m2m: book.buy_value,
+            day_buy_quantity: book.buy_quantity,
+            day_buy_price: buy_price,
+            day_buy_value: book.buy_value,
+            sell_quantity: book.sell_quantity,
+            sell_price: sell_price,
+            sell_value: book.sell_value,
+            sell_m2m: book.sell_value,
+            day_sell_quantity: book.sell_quantity,
+            day_sell_price: sell_price,
+            day_sell_value: book.sell_value
+        };
+    }
+
+    /**
+     * Funds of a segment: the opening balance plus the P&L of its positions, less the margin
+     * blocked by its positions and open orders.
+     *
+     * @private
+     * @param {string} segment
+     * @returns {UserMargin}
+     */
+    private getSegmentMargin(segment: string): UserMargin {
+        let span = 0, option_premium = 0, realised = 0, unrealised = 0, turnover = 0;
+        this.books.forEach((book) => {
+            if (_segmentOf(book.exchange) !== segment) return;
+            const position = this.getPosition(book);
+            realised += position.realised;
+            unrealised += position.unrealised;
+            turnover += book.buy_value + book.sell_value;
+
+            const margin = Math.abs(book.quantity) * book.average_price;
+            if (book.quantity > 0 && this.isOption(book.exchange, book.tradingsymbol)) option_premium += margin;
+            else span += margin * this.getMarginRate(book.product);
+        });
+        this.orders.forEach((history) => {
+            const order = history[history.length - 1];
+            if (order && OPEN_STATUSES.includes(order.status) && _segmentOf(order.exchange) === segment) span += this.getOrderMargin(order);
+        });
+
+        const opening_balance = segment === 'commodity' ? this.commodity_balance : this.opening_balance;
+        const net = opening_balance + realised + unrealised - span - option_premium;
+        return {
+            enabled: true,
+            net: net,
+            available: {
+                adhoc_margin: 0,
+                cash: opening_balance,
+                opening_balance: opening_balance,
+                live_balance: net,
+                collateral: 0,
+                intraday_payin: 0
+            },
+            utilised: {
+                debits: span + option_premium,
+                exposure: 0,
+                m2m_realised: realised,
+                m2m_unrealised: unrealised,
+                option_premium: option_premium,
+                payout: 0,
+                span: span,
+                holding_sales: 0,
+                turnover: turnover,
+                liquid_collateral: 0,
+                stock_collateral: 0,
+                delivery: 0
+            }
+        };
+    }
+
+    /**
+     * Margin blocked by the pending quantity of an order that adds to the position.
+     *
+     * @private
+     * @param {PaperOrder} order
+     * @returns {number}
+     */
+    private getOrderMargin(order: PaperOrder): number {
+        const instrument = order.exchange + ':' + order.tradingsymbol;
+        const book = this.books.get(instrument + ':' + order.product);
+        const held = book ? book.quantity : 0;
+        const signed = order.transaction_type === TransactionTypes.BUY ? order.pending_quantity : -order.pending_quantity;
+        const added = Math.max(0, Math.abs(held + signed) - Math.abs(held));
+
+        const quote = this.quotes[instrument];
+        const price = order.price || order.trigger_price || (quote ? quote.last_price : 0);
+        const rate = signed > 0 && this.isOption(order.exchange, order.tradingsymbol) ? 1 : this.getMarginRate(order.product);
+        return added * price * rate;
+    }
+
+    /**
+     * @private
+     * @param {string} product
+     * @returns {number}
+     */
+    private getMarginRate(product: string): number {
+        return this.margin_rates[product] ?? 1;
+    }
+
+    /**
+     * @private
+     * @param {Exchanges} exchange
+     * @param {string} tradingsymbol
+     * @returns {boolean}
+     */
+    private isOption(exchange: Exchanges, tradingsymbol: string): boolean {
+        if (this.instruments) {
+            const instrument = this.instruments.getInstrument(tradingsymbol, exchange);
+            if (instrument) return instrument.instrument_type === 'CE' || instrument.instrument_type === 'PE';
+        }
+        return DERIVATIVE_EXCHANGES.includes(exchange) && /\d(CE|PE)$/.test(tradingsymbol);
+    }
+
+    /**
+     * @private
+     * @param {string} instrument
+     * @returns {number}
+     */
+    private getInstrumentToken(instrument: string): number {
+        const found = this.instruments ? this.instruments.getInstrument(instrument) : null;
+        return found ? Number(found.instrument_token) : 0;
+    }
+
+    /**
+     * @private
+     * @param {PaperOrder} order
+     */
+    private cancel(order: PaperOrder) {
+        order.status = 'CANCELLED';
+        order.cancelled_quantity = order.pending_quantity;
+        order.pending_quantity = 0;
+        this.updateOrder(order);
+    }
+
+    /**
+     * @private
+     * @param {PaperOrder} order
+     * @param {string} message
+     * @returns {OrderResponse}
+     */
+    private reject(order: PaperOrder, message: string): OrderResponse {
+        order.status = 'REJECTED';
+        order.status_message = message;
+        order.status_message_raw = message;
+        order.exchange_timestamp = null;
+        order.cancelled_quantity = order.pending_quantity;
+        order.pending_quantity = 0;
+        this.updateOrder(order);
+        return { order_id: order.order_id };
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {PaperOrder[]}
+     */
+    private getHistory(order_id: string): PaperOrder[] {
+        const history = this.orders.get(order_id);
+        if (!history) throw new InputException('Order not found');
+        return history;
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {PaperOrder} A copy of the latest state of the order.
+     */
+    private getLatest(order_id: string): PaperOrder {
+        const history = this.getHistory(order_id);
+        return { ...history[history.length - 1] };
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {PaperOrder} A copy of the order to update.
+     */
+    private getOpenOrder(order_id: string): PaperOrder {
+        const order = this.getLatest(order_id);
+        if (!OPEN_STATUSES.includes(order.status)) {
+            throw new InputException('Order cannot be modified or cancelled as it is ' + order.status);
+        }
+        return order;
+    }
+
+    /**
+     * Records a change of an order and emits it.
+     *
+     * @private
+     * @param {PaperOrder} order
+     */
+    private updateOrder(order: PaperOrder) {
+        this.getHistory(order.order_id).push({ ...order });
+        this.emit('order_update', _formatUpdate(order));
+    }
+
+    /**
+     * @private
+     * @returns {Date} Exchange time of the last tick, or the current time.
+     */
+    private now(): Date {
+        return this.clock || new Date();
+    }
+}
+
+/**
+ * @param exchange - Exchange
+ * @returns Segment the funds of the exchange are reported in
+ */
+function _segmentOf(exchange: string): string {
+    return COMMODITY_EXCHANGES.includes(exchange) ? 'commodity' : 'equity';
+}
+
+/**
+ * @param date - Date
+ * @returns Date in the `YYYY-MM-DD HH:mm:ss` IST format of the API
+ */
+function _formatTimestamp(date: Date): string {
+    return new Date(date.getTime() + IST_OFFSET).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Returns the order update payload of an order. Like the updates of `KiteTicker`, its timestamps
+ * are in the format of the API rather than `Date` objects.
+ *
+ * @param order - Order
+ * @returns Order update
+ */
+function _formatUpdate(order: PaperOrder): Order {
+    return {
+        ...order,
+        order_timestamp: order.order_timestamp && _formatTimestamp(order.order_timestamp),
+        exchange_timestamp: order.exchange_timestamp && _formatTimestamp(order.exchange_timestamp)
+    } as unknown as Order;
+}
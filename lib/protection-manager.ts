@@ -0,0 +1,412 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { GTTStatusTypes, OrderTypes, PlaceGTTParams, PlaceOrderParams, ProtectedPosition, ProtectionManagerEventCallbacks, ProtectionManagerEvents, ProtectParams, TrackedOrder, TransactionTypes, Varieties } from '../interfaces';
+import { FINAL_ORDER_STATES } from '../constants';
+import { KiteConnect } from './connect';
+import { OrderTracker } from './order-tracker';
+import { InputException, OrderException } from './errors';
+
+/**
+ * Client the protective orders are placed with, GTT methods are only needed in GTT mode.
+ */
+type ProtectionClient = Pick<KiteConnect, 'placeOrder' | 'modifyOrder' | 'cancelOrder'> &
+    Partial<Pick<KiteConnect, 'placeGTT' | 'modifyGTT' | 'deleteGTT'>>;
+
+/**
+ * @classdesc Protects positions with exit orders resting at the exchange, so a stop loss and a
+ * target still apply when the process stops. A position is protected either with an SL (or SL-M)
+ * order and a target LIMIT order, or with an OCO GTT.
+ *
+ * In orders mode the fills of both legs are followed with an `OrderTracker`: when one leg fills
+ * the position the other one is cancelled, and a partial fill shrinks the other leg to the
+ * remaining quantity. Note that Kite checks the margin of each pending exit order on its own, so
+ * two exit orders for the same option position may need margin for the second one. GTTs are
+ * triggered and cancelled by Kite, without margin, but their fills are not followed.
+ *
+ * Trailing stops are moved with `trail`, which only ever moves the stop in the direction of the
+ * position.
+ *
+ * @example
+ * const tracker = new OrderTracker(kc);
+ * tracker.attach(ticker);
+ * const protection = new ProtectionManager(kc, tracker);
+ * const position = await protection.protect({ exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE',
+ *     transaction_type: 'BUY', quantity: 75, product: 'NRML', stop_loss: 90, stop_limit_price: 88, target: 160 });
+ * protection.on('exit', (position, leg) => console.log(position.tradingsymbol, 'exited at', leg));
+ * await protection.trail(position.id, 110);
+ *
+ * @constructor
+ * @name ProtectionManager
+ * @param {KiteConnect} kite - Client the orders are placed with, or a `PaperKiteConnect` in orders mode.
+ * @param {OrderTracker} tracker - Tracker the fills of the orders are followed with.
+ */
+export class ProtectionManager extends EventEmitter {
+    /**
+     * @private
+     * @type {ProtectionClient}
+     */
+    private kite: ProtectionClient;
+    /**
+     * @private
+     * @type {OrderTracker}
+     */
+    private tracker: OrderTracker;
+    /**
+     * @private
+     * @type {Map<string, ProtectedPosition>}
+     */
+    private positions = new Map<string, ProtectedPosition>();
+    /**
+     * @private
+     * @type {number}
+     */
+    private sequence = 0;
+    /**
+     * Order ids of the legs cancelled by `release`.
+     * @private
+     * @type {Set<string>}
+     */
+    private releasing = new Set<string>();
+    /**
+     * @private
+     * @type {Function}
+     */
+    private onChange = (order: TrackedOrder) => this.handleChange(order);
+
+    constructor(kite: ProtectionClient, tracker: OrderTracker) {
+        super();
+        this.kite = kite;
+        this.tracker = tracker;
+        this.tracker.on('change', this.onChange);
+    }
+
+    /**
+     * Stops following the orders of the tracker. Resting orders are left in place.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this.tracker.off('change', this.onChange);
+    }
+
+    /**
+     * Places the exit orders of a position. If the target cannot be placed the stop loss is
+     * cancelled again and the error is thrown.
+     *
+     * @param {ProtectParams} params
+     * @returns {Promise<ProtectedPosition>}
+     */
+    async protect(params: ProtectParams): Promise<ProtectedPosition> {
+        const long = params.transaction_type === TransactionTypes.BUY;
+        if (!(params.quantity > 0) || !Number.isInteger(params.quantity)) throw new InputException('Invalid `quantity`');
+        if (!(params.stop_loss > 0)) throw new InputException('Invalid `stop_loss`');
+        if (params.target !== undefined && (long ? params.target <= params.stop_loss : params.target >= params.stop_loss)) {
+            throw new InputException('`target` must be on the profit side of `stop_loss`');
+        }
+
+        const mode = params.mode || 'orders';
+        const position: ProtectedPosition = {
+            id: String(++this.sequence),
+            exchange: params.exchange,
+            tradingsymbol: params.tradingsymbol,
+            transaction_type: long ? TransactionTypes.SELL : TransactionTypes.BUY,
+            product: params.product,
+            quantity: params.quantity,
+            remaining_quantity: params.quantity,
+            stop_loss: params.stop_loss,
+            stop_limit_price: params.stop_limit_price ?? null,
+            target: params.target ?? null,
+            mode: mode,
+            stop_order_id: null,
+            target_order_id: null,
+            trigger_id: null,
+            state: 'active',
+            exit_reason: null
+        };
+
+        if (mode === 'gtt') {
+            if (!this.kite.placeGTT) throw new InputException('The client does not support GTT orders');
+            if (!params.last_price) throw new InputException('`last_price` is required in GTT mode');
+            const response = await this.kite.placeGTT(_getGTTParams(position, params.last_price));
+            position.trigger_id = response.trigger_id;
+            this.positions.set(position.id, position);
+            return { ...position };
+        }
+
+        position.stop_order_id = await this.placeLeg(position, 'stop', params.tag);
+        if (position.target !== null) {
+            try {
+                position.target_order_id = await this.placeLeg(position, 'target', params.tag);
+            } catch (error) {
+                await this.kite.cancelOrder(Varieties.VARIETY_REGULAR, position.stop_order_id).catch(() => undefined);
+                throw error;
+            }
+        }
+        this.positions.set(position.id, position);
+        // Updates of the legs may have arrived before their order ids were known
+        this.sync(position);
+        return { ...position };
+    }
+
+    /**
+     * Moves the stop loss of a position, eg. as a trailing stop advances. The stop only moves in
+     * the direction of the position: up for long positions, down for short ones. The gap between
+     * the trigger and limit price of an SL order is kept.
+     *
+     * @param {string} id
+     * @param {number} stop_loss - New trigger price.
+     * @param {number} [last_price] - Last price of the instrument, required in GTT mode.
+     * @returns {Promise<boolean>} Whether the stop loss was moved.
+     */
+    async trail(id: string, stop_loss: number, last_price?: number): Promise<boolean> {
+        const position = this.getActive(id);
+        const long = position.transaction_type === TransactionTypes.SELL;
+        if (long ? stop_loss <= position.stop_loss : stop_loss >= position.stop_loss) return false;
+
+        const stop_limit_price = position.stop_limit_price === null ? null : stop_loss - (position.stop_loss - position.stop_limit_price);
+        const moved = { ...position, stop_loss: stop_loss, stop_limit_price: stop_limit_price };
+        if (position.mode === 'gtt') {
+            if (!this.kite.modifyGTT || position.trigger_id === null) throw new InputException('The client does not support GTT orders');
+            if (!last_price) throw new InputException('`last_price` is required in GTT mode');
+            await this.kite.modifyGTT(position.trigger_id, _getGTTParams(moved, last_price));
+        } else if (position.stop_order_id) {
+            await this.kite.modifyOrder(Varieties.VARIETY_REGULAR, position.stop_order_id, stop_limit_price === null
+                ? { trigger_price: stop_loss }
+                : { trigger_price: stop_loss, price: stop_limit_price });
+        }
+        position.stop_loss = stop_loss;
+        position.stop_limit_price = stop_limit_price;
+        return true;
+    }
+
+    /**
+     * Removes the protection of a position, eg. before exiting it with an order of its own.
+     * Open legs are cancelled, or the GTT is deleted.
+     *
+     * The position is released once every leg is cancelled. When a cancellation fails, eg. because
+     * the leg just filled, the position stays active and its fills are still followed. The target
+     * is cancelled before the stop loss, so a position left active keeps its stop loss.
+     *
+     * @param {string} id
+     * @returns {Promise<void>}
+     */
+    async release(id: string): Promise<void> {
+        const position = this.getActive(id);
+
+        if (position.mode === 'gtt') {
+            if (this.kite.deleteGTT && position.trigger_id !== null) await this.kite.deleteGTT(position.trigger_id);
+        } else {
+            for (const order_id of [position.target_order_id, position.stop_order_id]) {
+                if (!order_id || !this.isOpen(order_id)) continue;
+                this.releasing.add(order_id);
+                try {
+                    await this.kite.cancelOrder(Varieties.VARIETY_REGULAR, order_id);
+                } catch (error) {
+                    this.releasing.delete(order_id);
+                    throw error;
+                }
+            }
+        }
+        if (position.state === 'active') position.state = 'released';
+    }
+
+    /**
+     * @param {string} id
+     * @returns {?ProtectedPosition}
+     */
+    getPosition(id: string): ProtectedPosition | null {
+        const position = this.positions.get(id);
+        return position ? { ...position } : null;
+    }
+
+    /**
+     * Returns the protected positions that were not exited or released.
+     *
+     * @returns {ProtectedPosition[]}
+     */
+    getPositions(): ProtectedPosition[] {
+        return Array.from(this.positions.values())
+            .filter((position) => position.state === 'active')
+            .map((position) => ({ ...position }));
+    }
+
+    /**
+     * Bind a callback function to an event.
+     *
+     * @param {ProtectionManagerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {ProtectionManager}
+     */
+    on<T extends ProtectionManagerEvents>(e: T, callback: ProtectionManagerEventCallbacks[T]): this {
+        return super.on(e, callback);
+    }
+
+    /**
+     * Bind a callback function to the next occurrence of an event.
+     *
+     * @param {ProtectionManagerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {ProtectionManager}
+     */
+    once<T extends ProtectionManagerEvents>(e: T, callback: ProtectionManagerEventCallbacks[T]): this {
+        return super.once(e, callback);
+    }
+
+    /**
+     * Remove a callback function bound to an event.
+     *
+     * @param {ProtectionManagerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {ProtectionManager}
+     */
+    off<T extends ProtectionManagerEvents>(e: T, callback: ProtectionManagerEventCallbacks[T]): this {
+        return super.off(e, callback);
+    }
+
+    /**
+     * @private
+     * @param {ProtectedPosition} position
+     * @param {('stop' | 'target')} leg
+     * @param {string} [tag]
+     * @returns {Promise<string>} Order id of the leg.
+     */
+    private async placeLeg(position: ProtectedPosition, leg: 'stop' | 'target', tag?: string): Promise<string> {
+        const params: PlaceOrderParams = {
+            exchange: position.exchange,
+            tradingsymbol: position.tradingsymbol,
+            transaction_type: position.transaction_type,
+            quantity: position.quantity,
+            product: position.product,
+            order_type: OrderTypes.LIMIT,
+            tag: tag
+        };
+        if (leg === 'target') {
+            params.price = position.target as number;
+        } else if (position.stop_limit_price === null) {
+            params.order_type = OrderTypes.SLM;
+            params.trigger_price = position.stop_loss;
+        } else {
+            params.order_type = OrderTypes.SL;
+            params.trigger_price = position.stop_loss;
+            params.price = position.stop_limit_price;
+        }
+
+        const { order_id } = await this.kite.placeOrder(Varieties.VARIETY_REGULAR, params);
+        this.tracker.track(order_id);
+        return String(order_id);
+    }
+
+    /**
+     * @private
+     * @param {TrackedOrder} order
+     */
+    private handleChange(order: TrackedOrder) {
+        const position = Array.from(this.positions.values()).find((position) =>
+            position.stop_order_id === order.order_id || position.target_order_id === order.order_id);
+        if (!position || position.state !== 'active') return;
+
+        const released = order.state === 'CANCELLED' && this.releasing.has(order.order_id);
+        if (!released && (order.state === 'CANCELLED' || order.state === 'REJECTED')) {
+            const leg = order.order_id === position.stop_order_id ? 'Stop loss' : 'Target';
+            const reason = order.order?.status_message ? ': ' + order.order.status_message : '';
+            this.fail(new OrderException(leg + ' order ' + order.order_id + ' of ' + position.tradingsymbol + ' ' +
+                order.state.toLowerCase() + reason, { data: order }), position);
+        }
+        this.sync(position);
+    }
+
+    /**
+     * Updates the remaining quantity of a position from the fills of its legs, cancels the other
+     * leg once the position is exited or shrinks it after a partial fill.
+     *
+     * @private
+     * @param {ProtectedPosition} position
+     */
+    private sync(position: ProtectedPosition) {
+        const stop = position.stop_order_id ? this.tracker.getOrder(position.stop_order_id) : null;
+        const target = position.target_order_id ? this.tracker.getOrder(position.target_order_id) : null;
+        const stop_filled = stop ? stop.filled_quantity : 0;
+        const target_filled = target ? target.filled_quantity : 0;
+        const remaining_quantity = Math.max(0, position.quantity - stop_filled - target_filled);
+        if (remaining_quantity === position.remaining_quantity) return;
+        position.remaining_quantity = remaining_quantity;
+
+        const sibling = stop_filled ? target : stop;
+        if (remaining_quantity === 0) {
+            position.state = 'exited';
+            position.exit_reason = stop_filled ? 'stop' : 'target';
+            if (sibling && !FINAL_ORDER_STATES.includes(sibling.state)) {
+                this.kite.cancelOrder(Varieties.VARIETY_REGULAR, sibling.order_id).catch((error) => this.fail(error, position));
+            }
+            this.emit('exit', { ...position }, position.exit_reason);
+        } else if (sibling && !FINAL_ORDER_STATES.includes(sibling.state)) {
+            this.kite.modifyOrder(Varieties.VARIETY_REGULAR, sibling.order_id, { quantity: sibling.filled_quantity + remaining_quantity })
+                .catch((error) => this.fail(error, position));
+        }
+    }
+
+    /**
+     * @private
+     * @param {string} order_id
+     * @returns {boolean}
+     */
+    private isOpen(order_id: string): boolean {
+        const order = this.tracker.getOrder(order_id);
+        return !order || !FINAL_ORDER_STATES.includes(order.state);
+    }
+
+    /**
+     * @private
+     * @param {string} id
+     * @returns {ProtectedPosition}
+     */
+    private getActive(id: string): ProtectedPosition {
+        const position = this.positions.get(id);
+        if (!position) throw new InputException('Protected position ' + id + ' not found');
+        if (position.state !== 'active') throw new InputException('Protected position ' + id + ' is ' + position.state);
+        return position;
+    }
+
+    /**
+     * @private
+     * @param {Error} error
+     * @param {ProtectedPosition} position
+     */
+    private fail(error: Error, position: ProtectedPosition) {
+        if (this.listenerCount('error') > 0) this.emit('error', error, { ...position });
+    }
+}
+
+/**
+ * Builds a GTT with the stop loss and target as LIMIT orders. Trigger values and orders are in
+ * ascending order of price, as an OCO GTT expects.
+ *
+ * @param position - Protected position
+ * @param last_price - Last price of the instrument
+ * @returns GTT parameters
+ */
+function _getGTTParams(position: ProtectedPosition, last_price: number): PlaceGTTParams {
+    const stop = {
+        exchange: position.exchange,
+        tradingsymbol: position.tradingsymbol,
+        transaction_type: position.transaction_type,
+        quantity: position.remaining_quantity,
+        product: position.product,
+        order_type: OrderTypes.LIMIT,
+        price: position.stop_limit_price ?? position.stop_loss
+    };
+    const params = { tradingsymbol: position.tradingsymbol, exchange: position.exchange, last_price: last_price };
+    if (position.target === null) {
+        return { ...params, trigger_type: GTTStatusTypes.GTT_TYPE_SINGLE, trigger_values: [position.stop_loss], orders: [stop] };
+    }
+
+    const target = { ...stop, price: position.target };
+    const long = position.transaction_type === TransactionTypes.SELL;
+    return {
+        ...params,
+        trigger_type: GTTStatusTypes.GTT_TYPE_OCO,
+        trigger_values: long ? [position.stop_loss, position.target] : [position.target, position.stop_loss],
+        orders: long ? [stop, target] : [target, stop]
+    };
+}
@@ -0,0 +1,169 @@
+'use strict';
+
+import { RateLimit, RateLimitMetrics } from '../interfaces';
+import { RATE_LIMITS } from '../constants';
+import { InputException } from './errors';
+
+/**
+ * Request waiting in the queue of a bucket.
+ */
+interface QueuedRequest {
+    resolve: () => void;
+    enqueued_at: number;
+}
+
+/**
+ * Token bucket which hands out request slots in FIFO order.
+ *
+ * @private
+ */
+class TokenBucket {
+    private rate: number;
+    private capacity: number;
+    private tokens: number;
+    private last_refill: number;
+    private queue: QueuedRequest[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private metrics = {
+        total_requests: 0,
+        throttled_requests: 0,
+        total_wait_time: 0,
+        max_wait_time: 0
+    };
+
+    constructor(limit: RateLimit) {
+        this.rate = limit.rate;
+        // A bucket holds at least one token, otherwise rates below 1/s would never release a request
+        this.capacity = Math.max(1, limit.burst ?? limit.rate);
+        this.tokens = this.capacity;
+        this.last_refill = Date.now();
+    }
+
+    /**
+     * Resolves when a request slot is available.
+     *
+     * @returns {Promise<void>}
+     */
+    acquire(): Promise<void> {
+        return new Promise((resolve) => {
+            this.queue.push({ resolve, enqueued_at: Date.now() });
+            this.drain();
+        });
+    }
+
+    /**
+     * @returns {RateLimitMetrics}
+     */
+    getMetrics(): RateLimitMetrics {
+        return {
+            queue_depth: this.queue.length,
+            total_requests: this.metrics.total_requests,
+            throttled_requests: this.metrics.throttled_requests,
+            total_wait_time: this.metrics.total_wait_time,
+            average_wait_time: this.metrics.total_requests ? this.metrics.total_wait_time / this.metrics.total_requests : 0,
+            max_wait_time: this.metrics.max_wait_time
+        };
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.last_refill) * this.rate / 1000);
+        this.last_refill = now;
+    }
+
+    private drain() {
+        this.refill();
+
+        while (this.queue.length && this.tokens >= 1) {
+            const request = this.queue.shift() as QueuedRequest;
+            const wait = Date.now() - request.enqueued_at;
+            this.tokens -= 1;
+            this.metrics.total_requests++;
+            this.metrics.total_wait_time += wait;
+            if (wait > 0) this.metrics.throttled_requests++;
+            if (wait > this.metrics.max_wait_time) this.metrics.max_wait_time = wait;
+            request.resolve();
+        }
+
+        // Wake up when the next token is available
+        if (this.queue.length && !this.timer) {
+            const delay = Math.ceil((1 - this.tokens) * 1000 / this.rate);
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.drain();
+            }, delay);
+        }
+    }
+}
+
+/**
+ * @classdesc Client side rate limiter. Requests are grouped into families by their `ROUTES` key
+ * and every family is throttled by its own token bucket. Requests over the limit are queued.
+ *
+ * @constructor
+ * @name RateLimiter
+ * @param {Object} [limits] Map of route family to rate limit, merged over the default limits.
+ * @throws {InputException} If a rate is not greater than 0.
+ */
+export class RateLimiter {
+    /**
+     * @private
+     * @type {Object}
+     */
+    private limits: { [family: string]: RateLimit };
+    /**
+     * @private
+     * @type {Object}
+     */
+    private buckets: { [family: string]: TokenBucket } = {};
+
+    constructor(limits: { [family: string]: RateLimit } = {}) {
+        this.limits = { ...RATE_LIMITS, ...limits };
+        for (const family in this.limits) {
+            if (!(this.limits[family].rate > 0)) {
+                throw new InputException('Rate limit of ' + family + ' must be greater than 0');
+            }
+        }
+    }
+
+    /**
+     * Returns the family a route belongs to. The longest matching family wins.
+     *
+     * @param {string} route - `ROUTES` key, for example `market.quote.ltp`.
+     * @returns {string}
+     */
+    getFamily(route: string): string {
+        let family = '';
+        for (const key in this.limits) {
+            if ((route === key || route.indexOf(key + '.') === 0) && key.length > family.length) {
+                family = key;
+            }
+        }
+        return family || 'default';
+    }
+
+    /**
+     * Resolves when the route can be requested.
+     *
+     * @param {string} route - `ROUTES` key of the request.
+     * @returns {Promise<void>}
+     */
+    acquire(route: string): Promise<void> {
+        const family = this.getFamily(route);
+        if (!this.buckets[family]) this.buckets[family] = new TokenBucket(this.limits[family]);
+        return this.buckets[family].acquire();
+    }
+
+    /**
+     * Returns the metrics of every family that has been requested.
+     *
+     * @returns {Object}
+     */
+    getMetrics(): { [family: string]: RateLimitMetrics } {
+        const metrics: { [family: string]: RateLimitMetrics } = {};
+        for (const family in this.buckets) {
+            metrics[family] = this.buckets[family].getMetrics();
+        }
+        return metrics;
+    }
+}
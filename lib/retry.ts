@@ -0,0 +1,93 @@
+'use strict';
+
+import { Method } from 'axios';
+import { RetryPolicy } from '../interfaces';
+import { RETRY_DEFAULTS } from '../constants';
+import { KiteError } from './errors';
+
+/**
+ * Retry policy with all the defaults filled in.
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retry_on'>> & Pick<RetryPolicy, 'retry_on'>;
+
+/**
+ * Fills in the defaults of a user supplied retry policy.
+ *
+ * @param {RetryPolicy} policy
+ * @returns {ResolvedRetryPolicy}
+ */
+export function resolveRetryPolicy(policy: RetryPolicy): ResolvedRetryPolicy {
+    return {
+        max_attempts: policy.max_attempts ?? RETRY_DEFAULTS.max_attempts,
+        initial_delay: policy.initial_delay ?? RETRY_DEFAULTS.initial_delay,
+        max_delay: policy.max_delay ?? RETRY_DEFAULTS.max_delay,
+        multiplier: policy.multiplier ?? RETRY_DEFAULTS.multiplier,
+        jitter: policy.jitter ?? RETRY_DEFAULTS.jitter,
+        retry_error_types: policy.retry_error_types || RETRY_DEFAULTS.retry_error_types,
+        retry_statuses: policy.retry_statuses || RETRY_DEFAULTS.retry_statuses,
+        retry_on: policy.retry_on,
+        retry_non_idempotent: policy.retry_non_idempotent ?? RETRY_DEFAULTS.retry_non_idempotent
+    };
+}
+
+/**
+ * Returns the delay (milliseconds) to wait before the given retry.
+ *
+ * @param {ResolvedRetryPolicy} policy
+ * @param {number} retry - Retry number, starting from 1.
+ * @returns {number}
+ */
+export function getBackoffDelay(policy: ResolvedRetryPolicy, retry: number): number {
+    const delay = Math.min(policy.initial_delay * Math.pow(policy.multiplier, retry - 1), policy.max_delay);
+    return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Checks whether a failed attempt should be retried.
+ *
+ * @param {ResolvedRetryPolicy} policy
+ * @param {Method} method - HTTP method of the request.
+ * @param {*} err - Error the attempt was rejected with.
+ * @param {number} attempt - Number of the attempt that failed, starting from 1.
+ * @returns {boolean}
+ */
+export function shouldRetry(policy: ResolvedRetryPolicy, method: Method, err: unknown, attempt: number): boolean {
+    if (attempt >= policy.max_attempts) return false;
+    if (!(err instanceof KiteError)) return false;
+    // Never repeat a request that may have side effects unless asked to
+    if (method.toUpperCase() !== 'GET' && !policy.retry_non_idempotent) return false;
+
+    if (policy.retry_on) return policy.retry_on(err.error_type, err.status, attempt);
+
+    return policy.retry_error_types.indexOf(err.error_type) !== -1 ||
+        (err.status !== null && policy.retry_statuses.indexOf(err.status) !== -1);
+}
+
+/**
+ * Runs `send` and retries it according to the policy.
+ *
+ * @param {function} send - Function performing a single attempt.
+ * @param {Method} method - HTTP method of the request.
+ * @param {(ResolvedRetryPolicy | null)} policy
+ * @returns {Promise<T>}
+ */
+export async function withRetry<T>(send: () => Promise<T>, method: Method, policy: ResolvedRetryPolicy | null): Promise<T> {
+    let attempt = 1;
+    for (;;) {
+        try {
+            return await send();
+        } catch (err) {
+            if (!policy || !shouldRetry(policy, method, err, attempt)) throw err;
+            await sleep(getBackoffDelay(policy, attempt));
+            attempt++;
+        }
+    }
+}
+
+/**
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,73 @@
+'use strict';
+
+/**
+ * Emitter a listener is attached to, eg. a `TickSource` or an `OrderUpdateSource`.
+ */
+interface EventSource<E extends string, L> {
+    on(event: E, listener: L): unknown;
+    off(event: E, listener: L): unknown;
+}
+
+/**
+ * @classdesc Attaches a listener to an event of several sources, eg. the ticks of a ticker and of
+ * a tick replayer, and detaches it again. A source is only listened to once.
+ *
+ * @constructor
+ * @name SourceListener
+ * @param {string} event - Event to listen to, eg. `ticks`.
+ * @param {Function} listener
+ */
+export class SourceListener<E extends string, L> {
+    /**
+     * @private
+     * @type {string}
+     */
+    private event: E;
+    /**
+     * @private
+     * @type {Function}
+     */
+    private listener: L;
+    /**
+     * @private
+     * @type {EventSource[]}
+     */
+    private sources: EventSource<E, L>[] = [];
+
+    constructor(event: E, listener: L) {
+        this.event = event;
+        this.listener = listener;
+    }
+
+    /**
+     * Number of attached sources.
+     *
+     * @type {number}
+     */
+    get size(): number {
+        return this.sources.length;
+    }
+
+    /**
+     * @param {EventSource} source
+     * @returns {void}
+     */
+    attach(source: EventSource<E, L>): void {
+        if (this.sources.includes(source)) return;
+        source.on(this.event, this.listener);
+        this.sources.push(source);
+    }
+
+    /**
+     * Detaches a source, or every source.
+     *
+     * @param {EventSource} [source]
+     * @returns {void}
+     */
+    detach(source?: EventSource<E, L>): void {
+        for (const attached of this.sources) {
+            if (!source || attached === source) attached.off(this.event, this.listener);
+        }
+        this.sources = this.sources.filter((attached) => source && attached !== source);
+    }
+}
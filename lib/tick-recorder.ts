@@ -0,0 +1,369 @@
+'use strict';
+
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { KiteTickerEventCallbacks, KiteTickerEvents, Tick, TickReplayParams } from '../interfaces';
+import { KiteTicker, parseBinary } from './ticker';
+import { InputException } from './errors';
+
+// Record layout: [1-byte type][8-byte timestamp in ms][4-byte payload length][payload]
+const HEADER_SIZE = 13;
+// Binary tick frame as received on the WebSocket
+const RECORD_FRAME = 0;
+// Order update serialised as JSON
+const RECORD_ORDER_UPDATE = 1;
+// Size of the chunks a recording is read in
+const READ_SIZE = 64 * 1024;
+
+/**
+ * One message of a recording.
+ */
+interface TickRecord {
+    type: number;
+    timestamp: number;
+    payload: Buffer;
+}
+
+/**
+ * @classdesc Records the raw binary frames and the order updates received by a ticker to an
+ * append-only file, each with the time it was received. Frames are stored as received, so a
+ * recording holds the exact packets of the session and can be replayed with `TickReplayer`.
+ *
+ * @example
+ * const recorder = new TickRecorder(ticker, './ticks/2024-06-12.bin');
+ * recorder.start();
+ * // at the end of the session
+ * await recorder.stop();
+ *
+ * @constructor
+ * @name TickRecorder
+ * @param {KiteTicker} ticker - Ticker the messages are recorded from.
+ * @param {string} file - Recording file, appended to when it exists.
+ */
+export class TickRecorder {
+    /**
+     * @type {string}
+     */
+    file: string;
+    /**
+     * Number of messages recorded since `start()`.
+     * @type {number}
+     */
+    count = 0;
+
+    /**
+     * @private
+     * @type {KiteTicker}
+     */
+    private ticker: KiteTicker;
+    /**
+     * @private
+     * @type {?fs.WriteStream}
+     */
+    private stream: fs.WriteStream | null = null;
+    /**
+     * @private
+     * @type {Function}
+     */
+    private onMessage = (data: ArrayBuffer) => this.write(RECORD_FRAME, Buffer.from(data));
+    /**
+     * @private
+     * @type {Function}
+     */
+    private onOrderUpdate = (order: object) => this.write(RECORD_ORDER_UPDATE, Buffer.from(JSON.stringify(order)));
+
+    constructor(ticker: KiteTicker, file: string) {
+        this.ticker = ticker;
+        this.file = file;
+    }
+
+    /**
+     * Starts recording the messages of the ticker.
+     *
+     * @returns {void}
+     */
+    start(): void {
+        if (this.stream) return;
+        this.count = 0;
+        this.stream = fs.createWriteStream(this.file, { flags: 'a' });
+        this.ticker.on('message', this.onMessage);
+        this.ticker.on('order_update', this.onOrderUpdate);
+    }
+
+    /**
+     * Stops recording and resolves once the recorded messages are written to the file.
+     *
+     * @returns {Promise<void>}
+     */
+    stop(): Promise<void> {
+        const stream = this.stream;
+        if (!stream) return Promise.resolve();
+
+        this.stream = null;
+        this.ticker.off('message', this.onMessage);
+        this.ticker.off('order_update', this.onOrderUpdate);
+        return new Promise((resolve, reject) => {
+            stream.once('error', reject);
+            stream.end(resolve);
+        });
+    }
+
+    /**
+     * @private
+     * @param {number} type
+     * @param {Buffer} payload
+     */
+    private write(type: number, payload: Buffer) {
+        if (!this.stream) return;
+
+        const header = Buffer.alloc(HEADER_SIZE);
+        header.writeUInt8(type, 0);
+        header.writeDoubleBE(Date.now(), 1);
+        header.writeUInt32BE(payload.length, 9);
+        this.stream.write(Buffer.concat([header, payload]));
+        this.count++;
+    }
+}
+
+/**
+ * @classdesc Replays a recording of `TickRecorder` through the events of `KiteTicker`: every
+ * frame is emitted on `message` and parsed on `ticks`, order updates on `order_update`. `connect`
+ * is emitted when the replay starts and `disconnect` when it ends, so code written against a
+ * ticker can be run on a recorded session unchanged.
+ *
+ * Once instruments are subscribed only their ticks are emitted on `ticks`, `message` always
+ * carries the whole frames.
+ *
+ * @example
+ * const replayer = new TickReplayer('./ticks/2024-06-12.bin', { speed: 'max' });
+ * replayer.on('ticks', (ticks) => strategy.onTicks(ticks));
+ * await replayer.replay();
+ *
+ * @constructor
+ * @name TickReplayer
+ * @param {string} file - Recording file.
+ * @param {TickReplayParams} [params]
+ */
+export class TickReplayer extends EventEmitter {
+    /**
+     * @type {string}
+     */
+    modeFull = 'full';
+    /**
+     * @type {string}
+     */
+    modeQuote = 'quote';
+    /**
+     * @type {string}
+     */
+    modeLTP = 'ltp';
+    /**
+     * @type {string}
+     */
+    file: string;
+    /**
+     * @type {(number | 'max')}
+     */
+    speed: number | 'max';
+    /**
+     * @type {?Date}
+     */
+    from: Date | null;
+    /**
+     * @type {?Date}
+     */
+    to: Date | null;
+
+    /**
+     * Subscribed instrument tokens, all ticks are emitted while empty.
+     * @private
+     * @type {Set<number>}
+     */
+    private subscriptions = new Set<number>();
+    /**
+     * @private
+     * @type {boolean}
+     */
+    private running = false;
+
+    constructor(file: string, params: TickReplayParams = {}) {
+        super();
+        this.file = file;
+        this.speed = params.speed ?? 1;
+        this.from = params.from || null;
+        this.to = params.to || null;
+        if (this.speed !== 'max' && !(this.speed > 0)) throw new InputException('`speed` must be a positive number or `max`');
+    }
+
+    /**
+     * Replays the recording and resolves when it ends or `stop()` is called.
+     *
+     * @returns {Promise<void>}
+     */
+    async replay(): Promise<void> {
+        if (this.running) throw new InputException('A replay is already running');
+        this.running = true;
+
+        const handle = await fs.promises.open(this.file, 'r');
+        const chunk = Buffer.alloc(READ_SIZE);
+        let buffer = Buffer.alloc(0);
+        let position = 0;
+        // Recording time of the first replayed message and the time it was replayed at
+        let start: { recorded: number, replayed: number } | null = null;
+        let emitted = 0;
+
+        this.emit('connect');
+        try {
+            while (this.running) {
+                const { bytesRead } = await handle.read(chunk, 0, READ_SIZE, position);
+                if (!bytesRead) break;
+                position += bytesRead;
+                buffer = Buffer.concat([buffer, chunk.subarray(0, bytesRead)]);
+
+                let offset = 0;
+                let record: TickRecord | null;
+                while (this.running && (record = _readRecord(buffer, offset))) {
+                    offset += HEADER_SIZE + record.payload.length;
+
+                    if (this.from && record.timestamp < this.from.getTime()) continue;
+                    if (this.to && record.timestamp > this.to.getTime()) {
+                        this.running = false;
+                        break;
+                    }
+
+                    if (this.speed === 'max') {
+                        // Let timers and I/O run now and then
+                        if (++emitted % 1000 === 0) await new Promise((resolve) => setImmediate(resolve));
+                    } else {
+                        if (!start) start = { recorded: record.timestamp, replayed: Date.now() };
+                        const wait = start.replayed + (record.timestamp - start.recorded) / this.speed - Date.now();
+                        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+                        if (!this.running) break;
+                    }
+                    this.emitRecord(record);
+                }
+                // Keep the incomplete record for the next chunk
+                buffer = buffer.subarray(offset);
+            }
+        } finally {
+            this.running = false;
+            await handle.close();
+            this.emit('disconnect');
+        }
+    }
+
+    /**
+     * Stops a running replay.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this.running = false;
+    }
+
+    /**
+     * Only emits the ticks of the given instruments on `ticks`.
+     *
+     * @param {(string[] | number[])} tokens
+     * @returns {number[]}
+     */
+    subscribe(tokens: string[] | number[]): number[] {
+        const subscribed = (tokens as (string | number)[]).map(Number);
+        for (const token of subscribed) this.subscriptions.add(token);
+        return subscribed;
+    }
+
+    /**
+     * @param {(string[] | number[])} tokens
+     * @returns {number[]}
+     */
+    unsubscribe(tokens: string[] | number[]): number[] {
+        const unsubscribed = (tokens as (string | number)[]).map(Number);
+        for (const token of unsubscribed) this.subscriptions.delete(token);
+        return unsubscribed;
+    }
+
+    /**
+     * Has no effect, ticks are replayed in the mode they were recorded in.
+     *
+     * @param {string} mode
+     * @param {(string[] | number[])} tokens
+     * @returns {(string[] | number[])}
+     */
+    setMode(mode: string, tokens: string[] | number[]): string[] | number[] {
+        return tokens;
+    }
+
+    /**
+     * Bind a callback function to an event.
+     *
+     * @param {KiteTickerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {TickReplayer}
+     */
+    on<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+        return super.on(e, callback);
+    }
+
+    /**
+     * Bind a callback function to the next occurrence of an event.
+     *
+     * @param {KiteTickerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {TickReplayer}
+     */
+    once<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+        return super.once(e, callback);
+    }
+
+    /**
+     * Remove a callback function bound to an event.
+     *
+     * @param {KiteTickerEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {TickReplayer}
+     */
+    off<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+        return super.off(e, callback);
+    }
+
+    /**
+     * @private
+     * @param {TickRecord} record
+     */
+    private emitRecord(record: TickRecord) {
+        if (record.type === RECORD_ORDER_UPDATE) {
+            this.emit('order_update', JSON.parse(record.payload.toString()));
+            return;
+        }
+
+        const payload = record.payload;
+        const data = payload.buffer.slice(payload.byteOffset, payload.byteOffset + payload.length);
+        this.emit('message', data);
+        // Heartbeats are a single byte
+        if (data.byteLength <= 2) return;
+
+        let ticks: Tick[] = parseBinary(data);
+        if (this.subscriptions.size) ticks = ticks.filter((tick) => this.subscriptions.has(tick.instrument_token));
+        if (ticks.length) this.emit('ticks', ticks);
+    }
+}
+
+/**
+ * Reads the record at `offset`.
+ *
+ * @param buffer - Recording data
+ * @param offset - Offset of the record
+ * @returns The record, `null` when the buffer ends before it does
+ */
+function _readRecord(buffer: Buffer, offset: number): TickRecord | null {
+    if (buffer.length - offset < HEADER_SIZE) return null;
+    const length = buffer.readUInt32BE(offset + 9);
+    if (buffer.length - offset < HEADER_SIZE + length) return null;
+
+    return {
+        type: buffer.readUInt8(offset),
+        timestamp: buffer.readDoubleBE(offset + 1),
+        payload: buffer.subarray(offset + HEADER_SIZE, offset + HEADER_SIZE + length)
+    };
+}
@@ -0,0 +1,414 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { KiteTickerParams, KiteTickerPoolEventCallbacks, KiteTickerPoolEvents, KiteTickerPoolParams, TickerShardHealth } from '../interfaces';
+import { KiteTicker } from './ticker';
+
+/**
+ * Default number of connections, Kite allows 3 connections per API key.
+ * @type {number}
+ */
+const defaultMaxConnections = 3;
+
+/**
+ * One connection of the pool.
+ */
+interface TickerShard {
+    id: number;
+    ticker: KiteTicker;
+    /**
+     * Number of instruments placed on the connection
+     */
+    load: number;
+    last_tick: Date | null;
+    reconnect_attempts: number;
+    disconnects: number;
+}
+
+/**
+ * @classdesc Streams more instruments than a single connection allows by spreading the
+ * subscriptions over several `KiteTicker` connections. New instruments are placed on the least
+ * loaded connection and a connection is opened when all of them are full. When instruments are
+ * unsubscribed the remaining ones are moved off the least loaded connection if the others can
+ * take them, and the emptied connection is closed.
+ *
+ * The ticks of all connections are emitted as one `ticks` stream. Each connection reconnects on
+ * its own, connection events carry the identifier of the connection and `getHealth()` reports
+ * the state of every connection. Order updates are only emitted from the first connection, as
+ * Kite sends them on every connection.
+ *
+ * @example
+ * const pool = new KiteTickerPool({ api_key: 'api_key', access_token: 'access_token' });
+ * pool.on('ticks', onTicks);
+ * pool.on('disconnect', (shard, error) => console.log('Connection', shard, 'lost', error));
+ * pool.subscribe(optionTokens);
+ * pool.setMode(pool.modeFull, optionTokens);
+ * pool.connect();
+ *
+ * @constructor
+ * @name KiteTickerPool
+ * @param {KiteTickerPoolParams} params - Parameters of every connection and the pool size.
+ */
+export class KiteTickerPool extends EventEmitter {
+    /**
+     * @type {string}
+     */
+    modeFull = 'full';
+    /**
+     * @type {string}
+     */
+    modeQuote = 'quote';
+    /**
+     * @type {string}
+     */
+    modeLTP = 'ltp';
+    /**
+     * Maximum number of connections.
+     * @type {number}
+     */
+    max_connections: number;
+    /**
+     * Maximum number of instruments subscribed on a connection.
+     * @type {number}
+     */
+    max_tokens: number;
+
+    /**
+     * @private
+     * @type {KiteTickerParams}
+     */
+    private params: KiteTickerParams;
+    /**
+     * Open connections, the first one emits the order updates.
+     * @private
+     * @type {TickerShard[]}
+     */
+    private shards: TickerShard[] = [];
+    /**
+     * Connection each subscribed instrument is placed on.
+     * @private
+     * @type {Object}
+     */
+    private placement: { [instrument_token: number]: TickerShard } = {};
+    /**
+     * Identifier of the next connection.
+     * @private
+     * @type {number}
+     */
+    private next_id = 0;
+    /**
+     * Whether `connect()` was called, new connections are then connected right away.
+     * @private
+     * @type {boolean}
+     */
+    private started = false;
+
+    constructor(params: KiteTickerPoolParams) {
+        super();
+        const { max_connections, ...ticker_params } = params;
+        this.params = ticker_params;
+        this.max_connections = max_connections || defaultMaxConnections;
+        // The pool always keeps one connection, for order updates
+        this.max_tokens = this.addShard().ticker.max_tokens;
+    }
+
+    /**
+     * Connects every connection of the pool.
+     *
+     * @returns {void}
+     */
+    connect(): void {
+        this.started = true;
+        for (const shard of this.shards) shard.ticker.connect();
+    }
+
+    /**
+     * Closes every connection of the pool. Subscriptions are kept and restored by `connect()`.
+     *
+     * @returns {void}
+     */
+    disconnect(): void {
+        this.started = false;
+        for (const shard of this.shards) shard.ticker.disconnect();
+    }
+
+    /**
+     * Returns `true` when every connection of the pool is open.
+     *
+     * @returns {boolean}
+     */
+    connected(): boolean {
+        return this.shards.length > 0 && this.shards.every((shard) => shard.ticker.connected());
+    }
+
+    /**
+     * Subscribes to instruments in `quote` mode, unless a mode was already set for them. Every
+     * instrument is placed on the least loaded connection, a connection is opened when all are full.
+     *
+     * Instruments that do not fit in `max_connections` connections are not subscribed, a warning
+     * is emitted on the process and they are left out of the returned list.
+     *
+     * @param {(string[] | number[])} tokens
+     * @returns {number[]} The subscribed tokens.
+     */
+    subscribe(tokens: string[] | number[]): number[] {
+        const accepted: number[] = [];
+        const rejected: number[] = [];
+        const batches = new Map<TickerShard, number[]>();
+
+        for (const token of (tokens as (string | number)[]).map(Number)) {
+            if (this.placement[token]) {
+                accepted.push(token);
+                continue;
+            }
+
+            const shard = this.getFreeShard();
+            if (!shard) {
+                rejected.push(token);
+                continue;
+            }
+            // Reserve the slot so the next token sees the new load
+            this.placement[token] = shard;
+            shard.load++;
+            _push(batches, shard, token);
+            accepted.push(token);
+        }
+
+        if (rejected.length) {
+            process.emitWarning(rejected.length + ' instruments not subscribed, the pool is limited to ' +
+                this.max_connections + ' connections of ' + this.max_tokens + ' instruments', 'KiteTickerWarning');
+        }
+        batches.forEach((batch, shard) => shard.ticker.subscribe(batch));
+        return accepted;
+    }
+
+    /**
+     * Unsubscribes instruments and moves the remaining ones off the least loaded connection
+     * when the other connections can take them.
+     *
+     * @param {(string[] | number[])} tokens
+     * @returns {number[]} The unsubscribed tokens.
+     */
+    unsubscribe(tokens: string[] | number[]): number[] {
+        const removed: number[] = [];
+        const batches = new Map<TickerShard, number[]>();
+
+        for (const token of (tokens as (string | number)[]).map(Number)) {
+            const shard = this.placement[token];
+            if (!shard) continue;
+            delete this.placement[token];
+            shard.load--;
+            _push(batches, shard, token);
+            removed.push(token);
+        }
+
+        batches.forEach((batch, shard) => shard.ticker.unsubscribe(batch));
+        this.rebalance();
+        return removed;
+    }
+
+    /**
+     * Sets the mode of subscribed instruments. Tokens that are not subscribed are ignored.
+     *
+     * @param {string} mode
+     * @param {(string[] | number[])} tokens
+     * @returns {number[]} The tokens the mode was set for.
+     */
+    setMode(mode: string, tokens: string[] | number[]): number[] {
+        const updated: number[] = [];
+        const batches = new Map<TickerShard, number[]>();
+
+        for (const token of (tokens as (string | number)[]).map(Number)) {
+            const shard = this.placement[token];
+            if (!shard) continue;
+            _push(batches, shard, token);
+            updated.push(token);
+        }
+
+        batches.forEach((batch, shard) => shard.ticker.setMode(mode, batch));
+        return updated;
+    }
+
+    /**
+     * Returns the subscribed instrument tokens of all connections and their modes.
+     *
+     * @returns {Object} Map of instrument token to mode.
+     */
+    getSubscriptions(): { [instrument_token: number]: string } {
+        const subscriptions: { [instrument_token: number]: string } = {};
+        for (const shard of this.shards) Object.assign(subscriptions, shard.ticker.getSubscriptions());
+        return subscriptions;
+    }
+
+    /**
+     * Returns the state of every connection of the pool.
+     *
+     * @returns {TickerShardHealth[]}
+     */
+    getHealth(): TickerShardHealth[] {
+        return this.shards.map((shard) => ({
+            shard: shard.id,
+            connected: shard.ticker.connected(),
+            state: shard.ticker.getState(),
+            tokens: shard.load,
+            last_tick: shard.last_tick,
+            reconnect_attempts: shard.reconnect_attempts,
+            disconnects: shard.disconnects
+        }));
+    }
+
+    /**
+     * Bind a callback function to an event.
+     *
+     * @param {KiteTickerPoolEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {KiteTickerPool}
+     */
+    on<T extends KiteTickerPoolEvents>(e: T, callback: KiteTickerPoolEventCallbacks[T]): this {
+        return super.on(e, callback);
+    }
+
+    /**
+     * Bind a callback function to the next occurrence of an event.
+     *
+     * @param {KiteTickerPoolEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {KiteTickerPool}
+     */
+    once<T extends KiteTickerPoolEvents>(e: T, callback: KiteTickerPoolEventCallbacks[T]): this {
+        return super.once(e, callback);
+    }
+
+    /**
+     * Remove a callback function bound to an event.
+     *
+     * @param {KiteTickerPoolEvents} e - The event name
+     * @param {Function} callback - The callback function
+     * @returns {KiteTickerPool}
+     */
+    off<T extends KiteTickerPoolEvents>(e: T, callback: KiteTickerPoolEventCallbacks[T]): this {
+        return super.off(e, callback);
+    }
+
+    /**
+     * Returns the least loaded connection with room for an instrument, opening a connection
+     * when all are full. Returns `null` when the pool is full.
+     *
+     * @private
+     * @returns {?TickerShard}
+     */
+    private getFreeShard(): TickerShard | null {
+        let free: TickerShard | null = null;
+        for (const shard of this.shards) {
+            if (shard.load < this.max_tokens && (!free || shard.load < free.load)) free = shard;
+        }
+        if (free) return free;
+        return this.shards.length < this.max_connections ? this.addShard() : null;
+    }
+
+    /**
+     * Closes the least loaded connection as long as the other connections have room for its
+     * instruments, which are subscribed on them in the same modes.
+     *
+     * @private
+     */
+    private rebalance() {
+        while (this.shards.length > 1) {
+            const total = Object.keys(this.placement).length;
+            if (total > (this.shards.length - 1) * this.max_tokens) return;
+
+            const emptied = this.shards.reduce((min, shard) => shard.load < min.load ? shard : min);
+            const subscriptions = emptied.ticker.getSubscriptions();
+
+            _close(emptied);
+            this.shards = this.shards.filter((shard) => shard !== emptied);
+            for (const token in subscriptions) delete this.placement[token];
+            this.subscribeModes(subscriptions);
+        }
+    }
+
+    /**
+     * Subscribes instruments in the given modes.
+     *
+     * @private
+     * @param {Object} subscriptions - Map of instrument token to mode.
+     */
+    private subscribeModes(subscriptions: { [instrument_token: number]: string }) {
+        const modes: { [mode: string]: number[] } = {};
+        for (const token in subscriptions) {
+            const mode = subscriptions[token];
+            (modes[mode] = modes[mode] || []).push(Number(token));
+        }
+        for (const mode in modes) {
+            this.setMode(mode, this.subscribe(modes[mode]));
+        }
+    }
+
+    /**
+     * Opens a connection and forwards its events.
+     *
+     * @private
+     * @returns {TickerShard}
+     */
+    private addShard(): TickerShard {
+        const shard: TickerShard = {
+            id: this.next_id++,
+            ticker: new KiteTicker({ ...this.params }),
+            load: 0,
+            last_tick: null,
+            reconnect_attempts: 0,
+            disconnects: 0
+        };
+        const ticker = shard.ticker;
+
+        ticker.on('connect', () => {
+            shard.reconnect_attempts = 0;
+            this.emit('connect', shard.id);
+        });
+        ticker.on('ticks', (ticks) => {
+            shard.last_tick = new Date();
+            this.emit('ticks', ticks);
+        });
+        ticker.on('disconnect', (error) => {
+            shard.disconnects++;
+            this.emit('disconnect', shard.id, error);
+        });
+        ticker.on('reconnect', (reconnect_count, reconnect_interval) => {
+            shard.reconnect_attempts = reconnect_count;
+            this.emit('reconnect', shard.id, reconnect_count, reconnect_interval);
+        });
+        ticker.on('noreconnect', () => this.emit('noreconnect', shard.id));
+        ticker.on('failed', (error) => this.emit('failed', shard.id, error));
+        ticker.on('error', (error) => {
+            // An unhandled 'error' event would throw
+            if (this.listenerCount('error')) this.emit('error', shard.id, error);
+        });
+        ticker.on('order_update', (order) => {
+            if (shard === this.shards[0]) this.emit('order_update', order);
+        });
+
+        this.shards.push(shard);
+        if (this.started) ticker.connect();
+        return shard;
+    }
+}
+
+/**
+ * Closes a connection without forwarding its close events.
+ *
+ * @param shard - Connection
+ */
+function _close(shard: TickerShard) {
+    shard.ticker.removeAllListeners();
+    shard.ticker.disconnect();
+}
+
+/**
+ * @param batches - Tokens grouped by connection
+ * @param shard - Connection
+ * @param token - Token to add
+ */
+function _push(batches: Map<TickerShard, number[]>, shard: TickerShard, token: number) {
+    const batch = batches.get(shard);
+    if (batch) batch.push(token); else batches.set(shard, [token]);
+}
@@ -1,5 +1,7 @@
 import WebSocket from 'ws';
-import { AnyObject, KiteTickerInterface, KiteTickerParams, Tick, LTPTick, QuoteTick, FullTick, KiteTickerEvents, KiteTickerEventCallbacks } from '../interfaces';
+import { EventEmitter } from 'events';
+import { AnyObject, KiteTickerInterface, KiteTickerParams, KiteTickerState, Tick, LTPTick, QuoteTick, FullTick, KiteTickerEvents, KiteTickerEventCallbacks } from '../interfaces';
+import { TickerException } from './errors';
 import utils from './utils';
 
 
@@ -7,123 +9,53 @@ import utils from './utils';
  * Read timeout duration in seconds. Default: 5 seconds.
  * @type {number}
  */
- let read_timeout = 5;
-
- /**
-  * Maximum delay for reconnection attempts. Default: 0 (no delay).
-  * @type {number}
-  */
- let reconnect_max_delay = 0;
- 
- /**
-  * Maximum number of reconnection attempts. Default: 0 (no retries).
-  * @type {number}
-  */
- let reconnect_max_tries = 0;
- 
- /**
-  * Outgoing message flags.
-  * @type {string}
-  */
- let mSubscribe = 'subscribe',
-	 mUnSubscribe = 'unsubscribe',
-	 mSetMode = 'mode';
- 
- /**
-  * Public constants.
-  * @type {string}
-  */
- const modeFull = 'full',
-	   modeQuote = 'quote',
-	   modeLTP = 'ltp';
+const defaultReadTimeout = 5;
 
 /**
- * WebSocket connection instance.
- * @type {(WebSocket | null)}
+ * Outgoing message flags.
+ * @type {string}
  */
- let ws: WebSocket | null = null;
-
- /**
-  * Event triggers and their associated callbacks.
-  * @type {Object}
-  */
- let triggers: AnyObject = {
-	 'connect': [],
-	 'ticks': [],
-	 'disconnect': [],
-	 'error': [],
-	 'close': [],
-	 'reconnect': [],
-	 'noreconnect': [],
-	 'message': [],
-	 'order_update': []
- };
- 
- /**
-  * Timer for reading data.
-  * @type {any}
-  */
- let read_timer: any = null;
- 
- /**
-  * Timestamp of the last read operation.
-  * @type {any}
-  */
- let last_read: any = 0;
- 
- /**
-  * Flag indicating whether auto-reconnect is enabled.
-  * @type {boolean}
-  */
- let auto_reconnect: boolean = false;
-
- /**
-  * Flag to control reconnection behavior.
-  * @type {boolean}
-  */
- let should_reconnect: boolean = true;
- 
- /**
-  * Current count of reconnection attempts.
-  * @type {number}
-  */
- let current_reconnection_count = 0;
- 
- /**
-  * Last interval used for reconnecting.
-  * @type {any}
-  */
- let last_reconnect_interval: any = 0;
- 
- /**
-  * Current WebSocket URL in use.
-  * @type {string}
-  */
- let current_ws_url: string = '';
- 
- /**
-  * Default maximum delay for reconnection attempts in seconds.
-  * @type {number}
-  */
- const defaultReconnectMaxDelay: number = 60;
- 
- /**
-  * Default maximum number of reconnection attempts.
-  * @type {number}
-  */
- const defaultReconnectMaxRetries: number = 50;
- 
- /**
-  * Maximum allowed value for the number of reconnection attempts.
-  * @type {number}
-  */
- const maximumReconnectMaxRetries: number = 300;
- 
- /**
-  * Minimum allowed value for the maximum delay for reconnection attempts in seconds.
-  * @type {number}
-  */
- const minimumReconnectMaxDelay: number = 5;
+const mSubscribe = 'subscribe',
+	mUnSubscribe = 'unsubscribe',
+	mSetMode = 'mode';
+
+/**
+ * Public constants.
+ * @type {string}
+ */
+const modeFull = 'full',
+	modeQuote = 'quote',
+	modeLTP = 'ltp';
+
+/**
+ * Maximum number of instruments that can be subscribed on one connection.
+ * @type {number}
+ */
+const defaultMaxTokens = 3000;
+
+/**
+ * Default maximum delay for reconnection attempts in seconds.
+ * @type {number}
+ */
+const defaultReconnectMaxDelay: number = 60;
+
+/**
+ * Default maximum number of reconnection attempts.
+ * @type {number}
+ */
+const defaultReconnectMaxRetries: number = 50;
+
+/**
+ * Maximum allowed value for the number of reconnection attempts.
+ * @type {number}
+ */
+const maximumReconnectMaxRetries: number = 300;
+
+/**
+ * Minimum allowed value for the maximum delay for reconnection attempts in seconds.
+ * @type {number}
+ */
+const minimumReconnectMaxDelay: number = 5;
 
 // segment constants
 /**
@@ -240,6 +172,11 @@ const NseCM = 1,
  * is reached upto 50 then it stops reconnecting.
  * Callback `reconnect` will be called with current reconnect attempt and next reconnect interval and
  * `on_noreconnect` is called when reconnection attempts reaches max retries. 
+ * A `give_up` function can be passed to stop reconnecting earlier, eg. after some time without a connection.
+ *
+ * When reconnection is given up the ticker enters the `failed` state and emits `failed` with a
+ * `TickerException`. The process keeps running, calling `connect()` starts over with a fresh
+ * reconnection count.
  * 
  * Here is an example demonstrating auto reconnection.
  * -------------
@@ -259,6 +196,9 @@ const NseCM = 1,
  * ticker.on('noreconnect', () => {
  *     console.log('noreconnect')
  * })
+ * ticker.on('failed', (error: TickerException) => {
+ *     console.log('Gave up after', error.reconnect_count, 'attempts')
+ * })
  * ticker.on('reconnect', (reconnect_count:any, reconnect_interval:any) => {
  *     console.log('Reconnecting: attempt - ', reconnect_count, ' interval - ', reconnect_interval)
  * })
@@ -289,8 +229,10 @@ const NseCM = 1,
  * @param {number} [params.max_retry=50] is maximum number re-connection attempts. Defaults to 50 attempts and maximum up to 300 attempts.
  * @param {number} [params.max_delay=60] in seconds is the maximum delay after which subsequent re-connection interval will become constant. Defaults to 60s and minimum acceptable value is 5s.
  * @param {string} [params.root='wss://websocket.kite.trade/'] Kite websocket root.
+ * @param {number} [params.read_timeout=5] Seconds without a message after which the connection is considered lost.
+ * @param {Function} [params.give_up] Called before every reconnection attempt with the attempt number and the time the connection was lost, returns `true` to give up.
  */
-export class KiteTicker implements KiteTickerInterface {
+export class KiteTicker extends EventEmitter implements KiteTickerInterface {
 	/**
 	 * @type {string}
 	 */
@@ -327,6 +269,99 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @type {string}
 	 */
 	root: string;
+	/**
+	 * Maximum number of instruments subscribed on the connection.
+	 * @type {number}
+	 */
+	max_tokens: number;
+	/**
+	 * Seconds without a message, heartbeats included, after which the connection is considered lost.
+	 * @type {number}
+	 */
+	read_timeout: number;
+	/**
+	 * @type {?Function}
+	 */
+	give_up?: (reconnect_count: number, disconnected_at: Date) => boolean;
+
+	/**
+	 * Subscribed instrument tokens and their modes, replayed on every connect.
+	 * @private
+	 * @type {Object}
+	 */
+	private subscriptions: { [instrument_token: number]: string } = {};
+	/**
+	 * WebSocket connection of this ticker.
+	 * @private
+	 * @type {(WebSocket | null)}
+	 */
+	private ws: WebSocket | null = null;
+	/**
+	 * Connection state.
+	 * @private
+	 * @type {KiteTickerState}
+	 */
+	private state: KiteTickerState = 'disconnected';
+	/**
+	 * Time the connection was lost, `null` while connected.
+	 * @private
+	 * @type {?Date}
+	 */
+	private disconnected_at: Date | null = null;
+	/**
+	 * Timer checking for read timeouts.
+	 * @private
+	 * @type {any}
+	 */
+	private read_timer: any = null;
+	/**
+	 * Timer of the scheduled reconnection attempt.
+	 * @private
+	 * @type {any}
+	 */
+	private reconnect_timer: any = null;
+	/**
+	 * Timestamp of the last read operation.
+	 * @private
+	 * @type {any}
+	 */
+	private last_read: any = 0;
+	/**
+	 * Flag indicating whether auto-reconnect is enabled.
+	 * @private
+	 * @type {boolean}
+	 */
+	private auto_reconnect: boolean = false;
+	/**
+	 * Flag to control reconnection behavior.
+	 * @private
+	 * @type {boolean}
+	 */
+	private should_reconnect: boolean = true;
+	/**
+	 * Maximum delay for reconnection attempts in seconds.
+	 * @private
+	 * @type {number}
+	 */
+	private reconnect_max_delay = 0;
+	/**
+	 * Maximum number of reconnection attempts.
+	 * @private
+	 * @type {number}
+	 */
+	private reconnect_max_tries = 0;
+	/**
+	 * Current count of reconnection attempts.
+	 * @private
+	 * @type {number}
+	 */
+	private current_reconnection_count = 0;
+	/**
+	 * Last interval used for reconnecting.
+	 * @private
+	 * @type {any}
+	 */
+	private last_reconnect_interval: any = 0;
 
 	/**
 	 * Creates an instance of KiteTicker.
@@ -335,12 +370,16 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @param {KiteTickerParams} params
 	 */
 	constructor(params: KiteTickerParams) {
+		super();
 		this.root = params.root || 'wss://ws.kite.trade/';
 		this.api_key = params.api_key
 		this.access_token = params.access_token
 		this.modeFull = modeFull;
 		this.modeQuote = modeQuote;
 		this.modeLTP = modeLTP;
+		this.max_tokens = params.max_tokens || defaultMaxTokens;
+		this.give_up = params.give_up;
+		this.read_timeout = params.read_timeout || defaultReadTimeout;
 		// Set reconnect to true for undefined
 		if (params.reconnect === undefined) {
 			params.reconnect = true;
@@ -354,15 +393,15 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @param  {number} [max_delay=60]
 	 */
 	autoReconnect(t: boolean, max_retry: number, max_delay: number) {
-		auto_reconnect = t;
+		this.auto_reconnect = t;
 
 		// Set default values
 		max_retry = max_retry || defaultReconnectMaxRetries;
 		max_delay = max_delay || defaultReconnectMaxDelay;
 
 		// Set reconnect constraints
-		reconnect_max_tries = max_retry >= maximumReconnectMaxRetries ? maximumReconnectMaxRetries : max_retry;
-		reconnect_max_delay = max_delay <= minimumReconnectMaxDelay ? minimumReconnectMaxDelay : max_delay;
+		this.reconnect_max_tries = max_retry >= maximumReconnectMaxRetries ? maximumReconnectMaxRetries : max_retry;
+		this.reconnect_max_delay = max_delay <= minimumReconnectMaxDelay ? minimumReconnectMaxDelay : max_delay;
 	}
 
 	/**
@@ -370,17 +409,23 @@ export class KiteTicker implements KiteTickerInterface {
 	 * 
 	 * This method creates a WebSocket connection using the provided credentials and options.
 	 * If a connection is already established or in the process of being established, this method does nothing.
+	 * Connecting after reconnection was given up starts over with a fresh reconnection count.
 	 * 
 	 * @returns {void}
 	 */
-	 connect(): void {
+	connect(): void {
 		// Skip if its already connected
-		if (ws && (ws.readyState === ws.CONNECTING || ws.readyState === ws.OPEN)) return;
+		if (this.ws && (this.ws.readyState === this.ws.CONNECTING || this.ws.readyState === this.ws.OPEN)) return;
+
+		if (this.state === 'failed') this.resetReconnect();
+		if (this.state !== 'reconnecting') this.state = 'connecting';
+		this.should_reconnect = true;
+		clearTimeout(this.reconnect_timer);
 
 		const url = this.root + '?api_key=' + this.api_key +
 			'&access_token=' + this.access_token + '&uid=' + (new Date().getTime().toString());
 
-		ws = new WebSocket(url, {
+		const ws = this.ws = new WebSocket(url, {
 			headers: {
 				'X-Kite-Version': '3',
 				'User-Agent': utils.getUserAgent()
@@ -392,61 +437,61 @@ export class KiteTicker implements KiteTickerInterface {
 
 		ws.onopen = () => {
 			// Reset last reconnect interval
-			last_reconnect_interval = null;
+			this.last_reconnect_interval = null;
 			// Reset current_reconnection_count attempt
-			current_reconnection_count = 0
-			// Store current open connection url to check for auto re-connection.
-			if (!current_ws_url) current_ws_url = url;
+			this.current_reconnection_count = 0
+			this.disconnected_at = null;
+			this.state = 'connected';
+			// Restore the subscriptions of the previous connection
+			this.resubscribe();
 			// Trigger on connect event
-			trigger('connect');
+			this.trigger('connect');
 			// If there isn't an incoming message in n seconds, assume disconnection.
-			clearInterval(read_timer);
+			clearInterval(this.read_timer);
 
-			last_read = new Date();
-			read_timer = setInterval(() => {
+			this.last_read = new Date();
+			this.read_timer = setInterval(() => {
 				// @ts-ignore
-				if ((new Date() - last_read) / 1000 >= read_timeout) {
-					// reset current_ws_url incase current connection times out
-					// This is determined when last heart beat received time interval
-					// exceeds read_timeout value
-					current_ws_url = '';
-					if (ws) ws.close();
-					clearInterval(read_timer);
+				if ((new Date() - this.last_read) / 1000 >= this.read_timeout) {
+					// The close event of the timed out connection is ignored
+					// as it is no longer the current one
+					ws.close();
+					clearInterval(this.read_timer);
 					this.triggerDisconnect();
 				}
-			}, read_timeout * 1000);
+			}, this.read_timeout * 1000);
 		};
 
-		ws.onmessage = function (e:any) {
+		ws.onmessage = (e: any) => {
 			// Binary tick data.
 			if (e.data instanceof ArrayBuffer) {
 				// Trigger on message event when binary message is received
-				trigger('message', [e.data]);
+				this.trigger('message', [e.data]);
 				if (e.data.byteLength > 2) {
 					const d = parseBinary(e.data);
-					if (d) trigger('ticks', [d]);
+					if (d) this.trigger('ticks', [d]);
 				}
 			} else {
-				parseTextMessage(e.data)
+				this.parseTextMessage(e.data)
 			}
 
 			// Set last read time to check for connection timeout
-			last_read = new Date();
+			this.last_read = new Date();
 		};
 
-		ws.onerror = function (e:any) {
-			trigger('error', [e]);
+		ws.onerror = (e: any) => {
+			this.trigger('error', [e]);
 
 			// Force close to avoid ghost connections
-			if (this && this.readyState == this.OPEN) this.close();
+			if (ws.readyState == ws.OPEN) ws.close();
 		};
 
-		ws.onclose = (e:any) => {
-			trigger('close', [e]);
+		ws.onclose = (e: any) => {
+			this.trigger('close', [e]);
 
-			// the ws id doesn't match the current global id,
+			// the ws doesn't match the current one,
 			// meaning it's a ghost close event. just ignore.
-			if (current_ws_url && (url != current_ws_url)) return;
+			if (ws !== this.ws) return;
 
 			this.triggerDisconnect(e);
 		};
@@ -454,29 +499,36 @@ export class KiteTicker implements KiteTickerInterface {
 
 	attemptReconnection() {
 		// Try reconnecting only so many times.
-		// Or if reconnection is not allowed
-		if ((current_reconnection_count > reconnect_max_tries) || !should_reconnect) {
-			trigger('noreconnect');
-			process.exit(1);
+		// Or until the give up policy says so
+		const disconnected_at = this.disconnected_at || new Date();
+		if ((this.current_reconnection_count > this.reconnect_max_tries) ||
+			(this.give_up && this.give_up(this.current_reconnection_count + 1, disconnected_at))) {
+			this.state = 'failed';
+			this.trigger('noreconnect');
+			this.trigger('failed', [new TickerException('Gave up reconnecting after ' + this.current_reconnection_count + ' attempts', this.current_reconnection_count)]);
+			return;
 		}
 
-		if (current_reconnection_count > 0) {
-			last_reconnect_interval = Math.pow(2, current_reconnection_count);
-		} else if (!last_reconnect_interval) {
-			last_reconnect_interval = 1;
+		this.state = 'reconnecting';
+
+		if (this.current_reconnection_count > 0) {
+			this.last_reconnect_interval = Math.pow(2, this.current_reconnection_count);
+		} else if (!this.last_reconnect_interval) {
+			this.last_reconnect_interval = 1;
 		}
 
-		if (last_reconnect_interval > reconnect_max_delay) {
-			last_reconnect_interval = reconnect_max_delay;
+		if (this.last_reconnect_interval > this.reconnect_max_delay) {
+			this.last_reconnect_interval = this.reconnect_max_delay;
 		}
 
-		current_reconnection_count++;
+		this.current_reconnection_count++;
 
-		trigger('reconnect', [current_reconnection_count, last_reconnect_interval]);
+		this.trigger('reconnect', [this.current_reconnection_count, this.last_reconnect_interval]);
 
-		setTimeout(() => {
+		this.reconnect_timer = setTimeout(() => {
+			this.reconnect_timer = null;
 			this.connect();
-		}, last_reconnect_interval * 1000);
+		}, this.last_reconnect_interval * 1000);
 	}
 
 	/**
@@ -484,26 +536,62 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @returns {void}
 	 */
 	triggerDisconnect(e?: WebSocket.CloseEvent): void {
-		ws = null;
-		trigger('disconnect', [e]);
-		if (auto_reconnect) this.attemptReconnection();
+		this.ws = null;
+		clearInterval(this.read_timer);
+		if (!this.disconnected_at) this.disconnected_at = new Date();
+		// Stay in the reconnecting state while a reconnection attempt fails
+		if (this.state !== 'reconnecting') this.state = 'disconnected';
+
+		this.trigger('disconnect', [e]);
+		if (this.auto_reconnect && this.should_reconnect) {
+			this.attemptReconnection();
+		} else {
+			this.state = 'disconnected';
+		}
 	}
 
 	/**
 	 * This method closes the WebSocket connection if it is currently open.
 	 * It checks the readyState to ensure that the connection is not 
 	 * already in the process of closing or closed.
+	 *
+	 * A closed connection is not reconnected, a pending reconnection attempt is cancelled.
 	 */
 	disconnect(): void {
-		if (ws && ws.readyState !== WebSocket.CLOSING && ws.readyState !== WebSocket.CLOSED) {
-			// Stop reconnection mechanism
-			should_reconnect = false;
-			// Close and clear the ws object
-			ws.close();
-			ws = null;
+		// Stop reconnection mechanism
+		this.should_reconnect = false;
+		clearTimeout(this.reconnect_timer);
+		if (this.state === 'reconnecting') this.state = 'disconnected';
+
+		if (this.ws && this.ws.readyState !== WebSocket.CLOSING && this.ws.readyState !== WebSocket.CLOSED) {
+			clearInterval(this.read_timer);
+			// The close event triggers disconnect
+			this.ws.close();
 		}
 	}
 
+	/**
+	 * Resets the reconnection count and interval, and leaves the `failed` state. Use it to allow
+	 * another `max_retry` attempts, eg. before calling `connect()` from a supervisor.
+	 *
+	 * @returns {void}
+	 */
+	resetReconnect(): void {
+		this.current_reconnection_count = 0;
+		this.last_reconnect_interval = null;
+		this.disconnected_at = null;
+		if (this.state === 'failed') this.state = 'disconnected';
+	}
+
+	/**
+	 * Returns the connection state of the ticker.
+	 *
+	 * @returns {KiteTickerState}
+	 */
+	getState(): KiteTickerState {
+		return this.state;
+	}
+
 	/**
 	 * Checks if the WebSocket connection is currently open.
 	 * 
@@ -512,7 +600,7 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @returns {boolean} A boolean value indicating whether the WebSocket connection is open.
 	 */
 	connected(): boolean {
-		return (ws !== null && ws.readyState === ws.OPEN);
+		return (this.ws !== null && this.ws.readyState === this.ws.OPEN);
 	}
 
 
@@ -521,23 +609,69 @@ export class KiteTicker implements KiteTickerInterface {
 	 * 
 	 * @param {KiteTickerEvents} e - The event name
 	 * @param {Function} callback - The callback function
+	 * @returns {KiteTicker}
 	 */
-	on<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]) {
-		if (triggers.hasOwnProperty(e)) {
-			(triggers as AnyObject)[e].push(callback);
-		}
+	on<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+		return super.on(e, callback);
 	};
 
 	/**
+	 * Bind a callback function to the next occurrence of an event.
 	 * 
+	 * @param {KiteTickerEvents} e - The event name
+	 * @param {Function} callback - The callback function
+	 * @returns {KiteTicker}
+	 */
+	once<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+		return super.once(e, callback);
+	};
+
+	/**
+	 * Remove a callback function bound to an event.
+	 * 
+	 * @param {KiteTickerEvents} e - The event name
+	 * @param {Function} callback - The callback function
+	 * @returns {KiteTicker}
+	 */
+	off<T extends KiteTickerEvents>(e: T, callback: KiteTickerEventCallbacks[T]): this {
+		return super.off(e, callback);
+	};
+
+	/**
+	 * Subscribes to instruments in `quote` mode, unless a mode was already set for them.
+	 * Subscriptions are remembered and replayed whenever the ticker (re)connects, so they can
+	 * be made before connecting.
+	 *
+	 * Tokens that would take the connection over `max_tokens` instruments are not subscribed,
+	 * a warning is emitted on the process and they are left out of the returned list.
+	 *
 	 * @param {(string[] | number[])} tokens
-	 * @returns {{}}
+	 * @returns {number[]} The subscribed tokens.
 	 */
 	subscribe(tokens: string[] | number[]) {
-		if (tokens.length > 0) {
-			send({ 'a': mSubscribe, 'v': tokens });
+		const accepted: number[] = [];
+		const rejected: number[] = [];
+		let count = Object.keys(this.subscriptions).length;
+
+		for (const token of (tokens as (string | number)[]).map(Number)) {
+			if (this.subscriptions[token]) {
+				accepted.push(token);
+			} else if (count < this.max_tokens) {
+				this.subscriptions[token] = modeQuote;
+				accepted.push(token);
+				count++;
+			} else {
+				rejected.push(token);
+			}
 		}
-		return tokens;
+
+		if (rejected.length) {
+			process.emitWarning(rejected.length + ' instruments not subscribed, a connection is limited to ' + this.max_tokens + ' instruments', 'KiteTickerWarning');
+		}
+		if (accepted.length > 0) {
+			this.send({ 'a': mSubscribe, 'v': accepted });
+		}
+		return accepted;
 	};
 
 	/**
@@ -546,25 +680,41 @@ export class KiteTicker implements KiteTickerInterface {
 	 * @returns {{}}
 	 */
 	unsubscribe(tokens: string[] | number[]) {
+		for (const token of (tokens as (string | number)[]).map(Number)) {
+			delete this.subscriptions[token];
+		}
 		if (tokens.length > 0) {
-			send({ 'a': mUnSubscribe, 'v': tokens });
+			this.send({ 'a': mUnSubscribe, 'v': tokens });
 		}
 		return tokens;
 	};
 
 	/**
+	 * Sets the mode of subscribed instruments. Tokens that are not subscribed are ignored.
 	 *
 	 * @param {string} mode
 	 * @param {(string[] | number[])} tokens
 	 * @returns {{}}
 	 */
 	setMode(mode: string, tokens: string[] | number[]) {
+		for (const token of (tokens as (string | number)[]).map(Number)) {
+			if (this.subscriptions[token]) this.subscriptions[token] = mode;
+		}
 		if (tokens.length > 0) {
-			send({ 'a': mSetMode, 'v': [mode, tokens] });
+			this.send({ 'a': mSetMode, 'v': [mode, tokens] });
 		}
 		return tokens;
 	};
 
+	/**
+	 * Returns the subscribed instrument tokens and their modes.
+	 *
+	 * @returns {Object} Map of instrument token to mode.
+	 */
+	getSubscriptions(): { [instrument_token: number]: string } {
+		return { ...this.subscriptions };
+	}
+
 	/**
 	 * 
 	 *
@@ -575,52 +725,72 @@ export class KiteTicker implements KiteTickerInterface {
 		return parseBinary(binpacks);
 	}
 
+	/**
+	 * Sends the tracked subscriptions on a new connection, grouped by mode.
+	 *
+	 * @private
+	 */
+	private resubscribe() {
+		const tokens = Object.keys(this.subscriptions).map(Number);
+		if (!tokens.length) return;
+
+		const modes: { [mode: string]: number[] } = {};
+		for (const token of tokens) {
+			const mode = this.subscriptions[token];
+			(modes[mode] = modes[mode] || []).push(token);
+		}
 
-}
-
-
-// send a message via the socket
-// automatically encodes json if possible
-/**
- * @param {(AnyObject | string)} message
- */
-function send(message: AnyObject | string) {
-	if (!ws || ws.readyState != ws.OPEN) return;
-
-	try {
-		if (typeof (message) == 'object') {
-			message = JSON.stringify(message);
+		this.send({ 'a': mSubscribe, 'v': tokens });
+		for (const mode in modes) {
+			this.send({ 'a': mSetMode, 'v': [mode, modes[mode]] });
 		}
-		ws.send(message);
-	} catch (e) { ws.close(); };
-}
+	}
 
-// trigger event callbacks
+	// send a message via the socket
+	// automatically encodes json if possible
+	/**
+	 * @private
+	 * @param {(AnyObject | string)} message
+	 */
+	private send(message: AnyObject | string) {
+		const ws = this.ws;
+		if (!ws || ws.readyState != ws.OPEN) return;
 
-/**
- * @param {string} e
- * @param {?any[]} [args]
- * @returns {void}
- */
-function trigger(e: string, args?: any[]): void {
-	if (!triggers[e]) return;
-	for (let n = 0; n < triggers[e].length; n++) {
-		triggers[e][n].apply(triggers[e][n], args ? args : []);
+		try {
+			if (typeof (message) == 'object') {
+				message = JSON.stringify(message);
+			}
+			ws.send(message);
+		} catch (e) { ws.close(); };
 	}
-}
 
-/**
- * @param {(string | AnyObject)} data
- */
-function parseTextMessage(data: string | AnyObject) {
-	try {
-		data = JSON.parse(data as string)
-	} catch (e) {
-		return
+	// trigger event callbacks
+	// 'error' is only emitted when handled, an unhandled 'error' event would throw
+	/**
+	 * @private
+	 * @param {string} e
+	 * @param {?any[]} [args]
+	 * @returns {void}
+	 */
+	private trigger(e: string, args?: any[]): void {
+		if (e === 'error' && !this.listenerCount(e)) return;
+		this.emit(e, ...(args ? args : []));
 	}
 
-	if ((data as AnyObject).type === 'order') {
-		trigger('order_update', [(data as AnyObject).data]);
+	/**
+	 * @private
+	 * @param {(string | AnyObject)} data
+	 */
+	private parseTextMessage(data: string | AnyObject) {
+		try {
+			data = JSON.parse(data as string)
+		} catch (e) {
+			return
+		}
+
+		if ((data as AnyObject).type === 'order') {
+			this.trigger('order_update', [(data as AnyObject).data]);
+		}
 	}
 }
 
@@ -630,7 +800,7 @@ function parseTextMessage(data: string | AnyObject) {
  * @param {ArrayBuffer} binpacks
  * @returns {Tick[]}
  */
-function parseBinary(binpacks: ArrayBuffer) {
+export function parseBinary(binpacks: ArrayBuffer) {
 	const packets = splitPackets(binpacks),
 		ticks: Tick[] = [];
 
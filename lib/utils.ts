@@ -1,4 +1,5 @@
 import packageInfo from '../package.json';
+import { InputException } from './errors';
 
 /**
  * 
@@ -18,7 +19,67 @@ function getUserAgent() {
 	return 'kiteconnectjs/' + packageInfo.version;
 }
 
+/**
+ * Maps `items` with the async function `fn`, running at most `concurrency` calls at a time.
+ * Results are returned in the order of `items`.
+ *
+ * @param {T[]} items
+ * @param {number} concurrency
+ * @param {function} fn
+ * @returns {Promise<R[]>}
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	const workers = [];
+	for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+		workers.push(worker());
+	}
+	await Promise.all(workers);
+
+	return results;
+}
+
+/**
+ * Parses a date string in YYYY-MM-DD HH:MM:SS (or YYYY-MM-DD) format as local time.
+ *
+ * @param {(string | Date)} date
+ * @returns {Date}
+ */
+function parseDateTime(date: string | Date): Date {
+	if (typeof date === 'object') return date;
+
+	const [d, t = '00:00:00'] = date.trim().split(' ');
+	const [year, month, day] = d.split('-').map(Number);
+	const [hours, minutes, seconds = 0] = t.split(':').map(Number);
+	const parsed = new Date(year, month - 1, day, hours, minutes, seconds);
+	if (isNaN(parsed.getTime())) throw new InputException('Invalid date: ' + date);
+
+	return parsed;
+}
+
+/**
+ * Resolves after `ms` milliseconds.
+ *
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export default {
 	getPackageInfo,
-	getUserAgent
+	getUserAgent,
+	mapWithConcurrency,
+	parseDateTime,
+	sleep
 };
@@ -75,6 +75,7 @@ export interface TradingConfig {
   enableTrailing: boolean;
   debugMode: boolean;
   dryRun: boolean;
+  protectionMode?: 'orders'; // GTTs do not accept MIS orders
   
   // Market Hours
   marketStartHour: number;
@@ -110,6 +111,7 @@ export function loadConfig(): TradingConfig {
     enableTrailing: process.env.ENABLE_TRAILING === 'true',
     debugMode: process.env.DEBUG_MODE === 'true',
     dryRun: process.env.DRY_RUN === 'true',
+    protectionMode: process.env.PROTECTION_MODE === 'orders' ? 'orders' : undefined,
     
     // Market Hours
     marketStartHour: parseInt(process.env.MARKET_START_HOUR || '9'),
@@ -130,6 +132,10 @@ export function loadConfig(): TradingConfig {
   if (!config.accessToken && !config.dryRun) {
     throw new Error('KITE_ACCESS_TOKEN is required for live trading');
   }
+
+  if (process.env.PROTECTION_MODE === 'gtt') {
+    throw new Error('PROTECTION_MODE=gtt is not supported, GTTs do not accept MIS orders. Use PROTECTION_MODE=orders');
+  }
   
   return config;
 }
@@ -124,7 +124,8 @@ export async function runLiveStrategy() {
       finalRR: config.finalRR,
       enableTrailing: config.enableTrailing,
       maxPositions: config.maxPositions,
-      debugMode: config.debugMode
+      debugMode: config.debugMode,
+      protectionMode: config.protectionMode
     };
     
     const manager = new LiveStrategyManager(tradingConfig);
@@ -350,7 +351,8 @@ export async function manualTrading() {
     finalRR: config.finalRR,
     enableTrailing: config.enableTrailing,
     maxPositions: config.maxPositions,
-    debugMode: true
+    debugMode: true,
+    protectionMode: config.protectionMode
   };
   
   const manager = new LiveStrategyManager(tradingConfig);
@@ -6,11 +6,14 @@
  * with a Bollinger band mean‑reversion component.  It exposes
  * functions to compute technical indicators on an array of OHLC data,
  * generate trade signals, compute simplified option profits and
- * aggregate trade statistics.  The code is standalone and does not
- * perform any file I/O; you supply arrays of candle objects and get
- * back arrays of trade objects or summary statistics.
+ * aggregate trade statistics.  The code does not perform any file I/O;
+ * you supply arrays of candle objects and get back arrays of trade
+ * objects or summary statistics.
  */
 
+import { ChargesCalculator } from "../lib";
+import { Exchanges, Products, TransactionTypes } from "../interfaces";
+
 /**
  * Interface describing a single OHLC candle with optional indicator fields.
  */
@@ -29,6 +32,10 @@ export interface Candle {
   [key: string]: any;
 }
 
+// Brokerage and statutory charges, with the rates in force on each trade date
+const chargesCalculator = new ChargesCalculator();
+const LOT_SIZE = 75; // Nifty option lot size the charges are calculated for
+
 /**
  * Interface describing a trade generated by the strategy.
  */
@@ -358,8 +365,10 @@ export function trendFilteredBreakouts(
  * trade buys a call (strike is 10 points below the entry close) and
  * assumes the option is filled at the day's low.  A short trade buys
  * a put (strike 10 points above) filled at the day's high.  Profits
- * are calculated as the change in intrinsic value from entry to exit.
- * Time value and premiums are ignored.
+ * are calculated per unit as the change in intrinsic value from entry to
+ * exit, less the charges of buying and selling one lot of LOT_SIZE units
+ * spread over its units.  Time value and premiums are ignored, so the
+ * intrinsic values are used as the traded prices.
  *
  * @param trades Array of trades with entry and exit indices.
  * @param data Array of candles from which high, low and close prices are read.
@@ -376,18 +385,53 @@ export function computeOptionProfits(trades: Trade[], data: Candle[]): number[]
       const exitUnderlying = data[exitIdx].close;
       const entryIntrinsic = Math.max(entryUnderlying - strike, 0);
       const exitIntrinsic = Math.max(exitUnderlying - strike, 0);
-      return exitIntrinsic - entryIntrinsic;
+      const charges = roundTripCharges(`NIFTY${Math.round(strike)}CE`, LOT_SIZE, entryIntrinsic, data[entryIdx], exitIntrinsic, data[exitIdx]);
+      return exitIntrinsic - entryIntrinsic - charges / LOT_SIZE;
     } else {
       const strike = data[entryIdx].close + 10;
       const entryUnderlying = data[entryIdx].high;
       const exitUnderlying = data[exitIdx].close;
       const entryIntrinsic = Math.max(strike - entryUnderlying, 0);
       const exitIntrinsic = Math.max(strike - exitUnderlying, 0);
-      return exitIntrinsic - entryIntrinsic;
+      const charges = roundTripCharges(`NIFTY${Math.round(strike)}PE`, LOT_SIZE, entryIntrinsic, data[entryIdx], exitIntrinsic, data[exitIdx]);
+      return exitIntrinsic - entryIntrinsic - charges / LOT_SIZE;
     }
   });
 }
 
+/**
+ * Compute the charges of buying and later selling an option contract.
+ * Candles without a valid datetime are charged at today's rates.
+ */
+function roundTripCharges(
+  tradingsymbol: string,
+  quantity: number,
+  entryPrice: number,
+  entryCandle: Candle,
+  exitPrice: number,
+  exitCandle: Candle
+): number {
+  const order = { exchange: Exchanges.NFO, tradingsymbol, product: Products.NRML, quantity };
+  const buy = chargesCalculator.calculate(
+    { ...order, transaction_type: TransactionTypes.BUY, average_price: entryPrice },
+    candleDate(entryCandle)
+  );
+  const sell = chargesCalculator.calculate(
+    { ...order, transaction_type: TransactionTypes.SELL, average_price: exitPrice },
+    candleDate(exitCandle)
+  );
+  return buy.total + sell.total;
+}
+
+/**
+ * Parse the datetime of a candle, undefined when missing or invalid.
+ */
+function candleDate(candle: Candle): Date | undefined {
+  if (!candle.datetime) return undefined;
+  const date = new Date(candle.datetime);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
 /**
  * Summarise an array of trades with basic statistics.
  *
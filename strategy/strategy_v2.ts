@@ -32,6 +32,8 @@
 
 import * as fs from 'fs';
 import { parse as csvParse } from 'csv-parse/sync';
+import { ChargesCalculator } from '../lib';
+import { Exchanges, Products, TransactionTypes } from '../interfaces';
 
 /**
  * Clean a numeric string by removing commas and dashes then parsing as
@@ -143,6 +145,7 @@ export interface TradeRecord {
   finalTarget: number;
   exitPrice: number;
   profit: number;
+  charges: number;
   capitalAfter: number;
   numLots: number;
   forcedFridayExit?: boolean;
@@ -163,6 +166,30 @@ function getNumLots(currCapital: number): number {
 const START_CAPITAL = 15_000;
 const ENTRY_BUFFER = 10;  // buy 10 below LTP
 const RISK_PER_TRADE = 10; // stop amount in rupees
+// Brokerage and statutory charges, with the rates in force on each trade date
+const chargesCalculator = new ChargesCalculator();
+
+/**
+ * Compute the charges of buying and later selling an option contract.
+ */
+function roundTripCharges(
+  contract: OptionRow,
+  quantity: number,
+  entryPrice: number,
+  entryDate: Date,
+  exitPrice: number,
+  exitDate: Date
+): number {
+  const order = {
+    exchange: Exchanges.NFO,
+    tradingsymbol: `NIFTY${contract.strike}${contract.type}`,
+    product: Products.NRML,
+    quantity,
+  };
+  const buy = chargesCalculator.calculate({ ...order, transaction_type: TransactionTypes.BUY, average_price: entryPrice }, entryDate);
+  const sell = chargesCalculator.calculate({ ...order, transaction_type: TransactionTypes.SELL, average_price: exitPrice }, exitDate);
+  return buy.total + sell.total;
+}
 
 // Debugging helper
 const DEBUG = true;
@@ -456,7 +483,8 @@ function selectContract(snapshot: OptionRow[], side: 'long' | 'short', underlyin
  * allowed to run toward a larger final target.  If the option price
  * hits the stop or final target on any of the three trading days,
  * the trade is closed.  Otherwise it is closed at the end of the
- * third day at the available LTP or close price.
+ * third day at the available LTP or close price.  Profits are net of
+ * brokerage and statutory charges.
  *
  * @param daily The array of daily bars with indicators.
  * @param signals The signals generated from the indicators.
@@ -616,7 +644,8 @@ function backtestTrailing(
       }
     }
     if (exitPrice === undefined) return;
-  const profit = (exitPrice - entryLimit) * lotSize;
+  const charges = roundTripCharges(contract, lotSize, entryLimit, tradeDate, exitPrice, exitDate!);
+  const profit = (exitPrice - entryLimit) * lotSize - charges;
     capital += profit;
     trades.push({
       entryDate: tradeDate,
@@ -632,6 +661,7 @@ function backtestTrailing(
       finalTarget,
       exitPrice,
       profit,
+      charges,
       capitalAfter: capital,
       numLots,
       forcedFridayExit
@@ -767,16 +797,17 @@ export function main() {
   const losses = trades.length - wins;
   const winRate = trades.length ? wins / trades.length : 0;
   const totalProfit = trades.reduce((acc, t) => acc + t.profit, 0);
+  const totalCharges = trades.reduce((acc, t) => acc + t.charges, 0);
   const finalCapital = START_CAPITAL + totalProfit;
   console.log(`Total trades: ${trades.length}`);
   console.log(`Wins: ${wins}, Losses: ${losses}, Win rate: ${(winRate * 100).toFixed(2)}%`);
-  console.log(`Total profit: ₹${totalProfit.toFixed(2)}`);
+  console.log(`Total profit: ₹${totalProfit.toFixed(2)} (after ₹${totalCharges.toFixed(2)} charges)`);
   console.log(`Final capital: ₹${finalCapital.toFixed(2)}`);
   // Write CSV of trades
   const csvHeader = [
     'entryDate', 'exitDate', 'signalType', 'side', 'strike', 'expiry',
     'entryLimit', 'initialStop', 'target1', 'trailingStop', 'finalTarget',
-    'exitPrice', 'profit', 'capitalAfter'
+    'exitPrice', 'profit', 'charges', 'capitalAfter'
   ];
   const csvLines = [csvHeader.join(',')];
   trades.forEach((t) => {
@@ -794,6 +825,7 @@ export function main() {
       t.finalTarget.toFixed(2),
       t.exitPrice.toFixed(2),
       t.profit.toFixed(2),
+      t.charges.toFixed(2),
       t.capitalAfter.toFixed(2)
     ].join(',');
     csvLines.push(line);
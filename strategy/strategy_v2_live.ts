@@ -12,8 +12,8 @@
  * mode before using with real capital. Use at your own risk.
  */
 
-import { KiteConnect } from '../lib';
-import { Varieties, Exchanges, TransactionTypes, Products, OrderTypes, Validities } from '../interfaces';
+import { KiteConnect, CandleStore, InstrumentStore, OrderTracker, OrderException, ProtectionManager, OrderSlicer, SlicedOrder } from '../lib';
+import { Varieties, Exchanges, TransactionTypes, Products, OrderTypes, Validities, ProtectionMode, ProtectedPosition, SlicedOrderStatus, OptionChainLeg } from '../interfaces';
 import * as fs from 'fs';
 import { parse as csvParse } from 'csv-parse/sync';
 
@@ -47,21 +47,6 @@ export interface Bar15Min {
   atr: number;
 }
 
-/**
- * Option chain row interface
- */
-export interface OptionChainRow {
-  tradingsymbol: string;
-  strike: number;
-  expiry: Date;
-  instrument_type: 'CE' | 'PE';
-  last_price: number;
-  oi: number;
-  volume: number;
-  bid: number;
-  ask: number;
-}
-
 /**
  * Configuration interface for live trading
  */
@@ -77,6 +62,9 @@ export interface LiveTradingConfig {
   enableTrailing: boolean;
   maxPositions: number;
   debugMode: boolean;
+  candleCacheDir?: string; // Directory for cached historical candles (default 'candles')
+  instrumentCacheDir?: string; // Directory for the cached instrument master (default candleCacheDir)
+  protectionMode?: Extract<ProtectionMode, 'orders'>; // Rest the stop and final target at the exchange as SL + LIMIT orders. GTTs do not accept MIS orders
 }
 
 // ============================================================================
@@ -352,6 +340,18 @@ export interface LivePosition {
   intradayLow?: number;  // Track intraday low for accurate stop detection
   profit?: number;
   signalType?: string; // BB_reversal or breakout
+  protectionId?: string; // ProtectionManager id of the resting exit orders
+  stopTrailed?: boolean; // Whether the resting stop was moved up to the trailing stop
+}
+
+/**
+ * Fill status of the orders of an entry
+ */
+interface OrderFillStatus {
+  filled: boolean;
+  status: string;
+  averagePrice?: number;
+  filledQuantity: number;
 }
 
 
@@ -360,6 +360,11 @@ export interface LivePosition {
  */
 export class LiveStrategyManager {
   private kc: KiteConnect;
+  private candleStore: CandleStore;
+  private instrumentStore: InstrumentStore;
+  private orderTracker: OrderTracker;
+  private protection: ProtectionManager;
+  private orderSlicer: OrderSlicer;
   private config: LiveTradingConfig;
   private positions: Map<string, LivePosition>;
   private capital: number;
@@ -382,6 +387,28 @@ export class LiveStrategyManager {
       debug: false  // Disable axios verbose logging
     });
 
+    // Cache historical candles on disk so restarts only fetch the missing bars
+    this.candleStore = new CandleStore(this.kc, {
+      directory: config.candleCacheDir || 'candles'
+    });
+
+    // NFO instrument master, downloaded at most once a day
+    this.instrumentStore = new InstrumentStore(this.kc, {
+      directory: config.instrumentCacheDir || config.candleCacheDir || 'candles',
+      exchanges: [Exchanges.NFO]
+    });
+
+    // Polls the order book while placed orders are pending
+    this.orderTracker = new OrderTracker(this.kc, { reconcile_interval: 1000 });
+
+    // Splits orders above the exchange freeze quantity into several orders
+    this.orderSlicer = new OrderSlicer(this.kc, this.orderTracker);
+
+    // Exit orders resting at the exchange, so stops still apply if the process dies
+    this.protection = new ProtectionManager(this.kc, this.orderTracker);
+    this.protection.on('exit', (protectedPosition, leg) => this.onProtectedExit(protectedPosition, leg));
+    this.protection.on('error', (error) => this.log('Protection error:', error.message));
+
     this.log('Live Strategy Manager initialized (15-min timeframe)');
   }
 
@@ -405,20 +432,18 @@ export class LiveStrategyManager {
       const toDate = new Date();
       const fromDate = new Date();
       fromDate.setDate(fromDate.getDate() - days);
+      fromDate.setHours(0, 0, 0, 0);
       
-      // Fetch minute data for Nifty 50
-      const response = await this.kc.getHistoricalData(
+      // Fetch minute data for Nifty 50, only the bars missing from the cache are downloaded
+      const historicalData = await this.candleStore.getCandles(
         '256265', // Nifty 50 instrument token
         'minute',
-        fromDate.toISOString().slice(0, 10),
-        toDate.toISOString().slice(0, 10)
+        fromDate,
+        toDate
       );
       
-      // Extract data from response
-      const historicalData = Array.isArray(response) ? response : (response as any).data || [];
-      
-      const minuteBars: MinuteBar[] = historicalData.map((candle: any) => ({
-        datetime: new Date(candle.date),
+      const minuteBars: MinuteBar[] = historicalData.map((candle) => ({
+        datetime: candle.date,
         open: candle.open,
         high: candle.high,
         low: candle.low,
@@ -533,75 +558,30 @@ export class LiveStrategyManager {
   }
 
   /**
-   * Get option chain and select best contract based on OI and volume
+   * Get the option chain of the expiry and select the contract one strike out of the money
    * This matches the selectContract logic from strategy_v2.ts
    */
   private async selectBestContract(
     spotPrice: number,
     side: 'long' | 'short',
     expiry: Date
-  ): Promise<OptionChainRow | null> {
+  ): Promise<OptionChainLeg | null> {
     try {
       const optionType = side === 'long' ? 'CE' : 'PE';
       const targetStrike = await this.findNearestStrike(spotPrice, optionType);
       
       this.log(`Selecting contract: strike=${targetStrike}, type=${optionType}, expiry=${expiry.toISOString().slice(0, 10)}`);
       
-      // Fetch option chain from KiteConnect
-      const instruments = await this.kc.getInstruments(Exchanges.NFO);
+      // Quoted calls and puts of the strikes around the spot price
+      const chain = await this.instrumentStore.getOptionChain('NIFTY', expiry, { strikes_around: 2, spot: spotPrice });
+      const selected = chain.rows.find((row) => row.strike === targetStrike)?.[optionType] || null;
       
-      // Filter for Nifty options with target strike and type
-      const candidates = instruments
-        .filter((inst: any) => 
-          inst.name === 'NIFTY' &&
-          inst.instrument_type === optionType &&
-          inst.strike === targetStrike &&
-          new Date(inst.expiry) >= new Date() // Not expired
-        )
-        .map((inst: any) => ({
-          tradingsymbol: inst.tradingsymbol,
-          strike: inst.strike,
-          expiry: new Date(inst.expiry),
-          instrument_type: inst.instrument_type,
-          instrument_token: inst.instrument_token
-        }));
-      
-      if (candidates.length === 0) {
-        this.log('No candidates found for strike', targetStrike);
+      if (!selected) {
+        this.log('No contract found for strike', targetStrike);
         return null;
       }
       
-      // Sort by expiry (nearest first)
-      candidates.sort((a: any, b: any) => a.expiry.getTime() - b.expiry.getTime());
-      
-      // Get quotes for candidates to check OI and volume
-      const symbols = candidates.slice(0, 5).map((c: any) => `NFO:${c.tradingsymbol}`);
-      const quotes = await this.kc.getQuote(symbols);
-      
-      // Enhance candidates with OI and volume data
-      const enhancedCandidates: OptionChainRow[] = candidates.slice(0, 5).map((c: any) => {
-        const quote = quotes[`NFO:${c.tradingsymbol}`] || {};
-        return {
-          tradingsymbol: c.tradingsymbol,
-          strike: c.strike,
-          expiry: c.expiry,
-          instrument_type: c.instrument_type,
-          last_price: quote.last_price || 0,
-          oi: quote.oi || 0,
-          volume: quote.volume || 0,
-          bid: quote.depth?.buy?.[0]?.price || 0,
-          ask: quote.depth?.sell?.[0]?.price || 0
-        };
-      });
-      
-      // Sort by OI descending (prefer high liquidity)
-      enhancedCandidates.sort((a, b) => b.oi - a.oi);
-      
-      const selected = enhancedCandidates[0];
-      
-      if (selected) {
-        this.log(`Selected contract: ${selected.tradingsymbol}, OI=${selected.oi}, LTP=${selected.last_price}`);
-      }
+      this.log(`Selected contract: ${selected.instrument.tradingsymbol}, OI=${selected.oi}, LTP=${selected.last_price}`);
       
       return selected;
     } catch (error) {
@@ -654,15 +634,11 @@ export class LiveStrategyManager {
    */
   private async getNextExpiry(): Promise<Date> {
     try {
-      // Fetch instruments to get exact expiry dates
-      const instruments = await this.kc.getInstruments(Exchanges.NFO);
-      
-      // Filter for Nifty options and get unique expiry dates
-      const niftyExpiries = instruments
-        .filter((inst: any) => inst.name === 'NIFTY' && inst.instrument_type === 'CE')
-        .map((inst: any) => new Date(inst.expiry))
-        .filter((date: Date) => date > new Date())
-        .sort((a: Date, b: Date) => a.getTime() - b.getTime());
+      // Exact expiry dates from the instrument master
+      await this.instrumentStore.load();
+      const niftyExpiries = this.instrumentStore
+        .getExpiries('NIFTY', 'CE')
+        .filter((date: Date) => date > new Date());
       
       if (niftyExpiries.length === 0) {
         throw new Error('No upcoming expiries found');
@@ -681,14 +657,14 @@ export class LiveStrategyManager {
   }
 
   /**
-   * Place a limit order for an option
+   * Place a limit order for an option, split into several orders above the freeze quantity
    */
   private async placeOptionOrder(
     tradingSymbol: string,
     quantity: number,
     limitPrice: number,
     transactionType: 'BUY' | 'SELL'
-  ): Promise<string> {
+  ): Promise<SlicedOrder> {
     try {
       this.log(`Placing ${transactionType} order: ${tradingSymbol} @ ₹${limitPrice} x ${quantity}`);
       
@@ -704,10 +680,10 @@ export class LiveStrategyManager {
         tag: 'strategy_v2_live'
       };
 
-      const response = await this.kc.placeOrder(Varieties.VARIETY_REGULAR, orderParams);
-      this.log(`Order placed successfully. Order ID: ${response.order_id}`);
+      const order = await this.orderSlicer.placeOrderSliced(Varieties.VARIETY_REGULAR, orderParams, { lot_size: this.config.lotSize });
+      this.log(`Order placed successfully. Order IDs: ${order.order_ids.join(', ')}`);
       
-      return response.order_id;
+      return order;
     } catch (error) {
       this.log(`Error placing order:`, error);
       throw error;
@@ -752,8 +728,8 @@ export class LiveStrategyManager {
         return null;
       }
       
-      const tradingSymbol = contract.tradingsymbol;
-      const strike = contract.strike;
+      const tradingSymbol = contract.instrument.tradingsymbol;
+      const strike = contract.instrument.strike;
       const ltp = contract.last_price;
       
       // Validate LTP
@@ -794,20 +770,37 @@ export class LiveStrategyManager {
         return null;
       }
       
-      // Place order
-      const orderId = await this.placeOptionOrder(tradingSymbol, quantity, entryPrice, 'BUY');
-      
-      // Wait a moment and verify order status
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      const orderStatus = await this.verifyOrderFill(orderId);
-      
+      // Place order. When placing a slice fails the slices already placed are in the exception
+      let order: SlicedOrder;
+      let orderStatus: OrderFillStatus;
+      try {
+        order = await this.placeOptionOrder(tradingSymbol, quantity, entryPrice, 'BUY');
+        // Wait for the order to fill
+        orderStatus = await this.verifyOrderFill(order);
+      } catch (error) {
+        if (!(error instanceof OrderException && error.data instanceof SlicedOrder)) {
+          throw error;
+        }
+        order = error.data;
+        orderStatus = { filled: false, status: 'PARTIALLY PLACED', filledQuantity: 0 };
+      }
+      const orderId = order.order_ids[0];
+
+      // Cancel the rest of an entry that did not fill completely, and keep what filled meanwhile
       if (!orderStatus.filled) {
         this.log('Order not filled. Status:', orderStatus.status);
+        orderStatus = await this.cancelUnfilled(order);
+      }
+
+      if (!orderStatus.filledQuantity) {
         entryAttempt.status = 'FAILED';
         entryAttempt.error = `Order not filled: ${orderStatus.status}`;
         this.logOrderAttempt(entryAttempt);
         return null;
       }
+      if (orderStatus.filledQuantity < quantity) {
+        this.log(`Entry partly filled, booking ${orderStatus.filledQuantity} of ${quantity}`);
+      }
       
       // Create position record
       const position: LivePosition = {
@@ -819,7 +812,7 @@ export class LiveStrategyManager {
         expiry: expiryStr,
         tradingSymbol,
         entryPrice: orderStatus.averagePrice || entryPrice, // Use actual fill price
-        quantity,
+        quantity: orderStatus.filledQuantity,
         initialStop,
         target1,
         trailingStop,
@@ -832,6 +825,7 @@ export class LiveStrategyManager {
       
       // Store position
       this.positions.set(orderId, position);
+      await this.protectPosition(position);
       
       this.log(`Position entered: ${tradingSymbol} @ ₹${position.entryPrice}`);
       this.log(`Targets: T1=₹${target1}, Final=₹${finalTarget}, Stop=₹${initialStop}`);
@@ -843,10 +837,10 @@ export class LiveStrategyManager {
         orderId,
         tradingSymbol,
         strike,
-        optionType: contract.instrument_type,
+        optionType: contract.instrument.instrument_type,
         ltp,
         entryPrice: position.entryPrice,
-        quantity,
+        quantity: position.quantity,
         targets: { target1, trailingStop, finalTarget },
         initialStop,
         oi: contract.oi,
@@ -865,26 +859,102 @@ export class LiveStrategyManager {
   }
 
   /**
-   * Verify if an order was filled
+   * Verify if every order of an entry was filled, waiting up to 5 seconds for the fills
    */
-  private async verifyOrderFill(orderId: string): Promise<{ filled: boolean; status: string; averagePrice?: number }> {
+  private async verifyOrderFill(order: SlicedOrder): Promise<OrderFillStatus> {
     try {
-      const orders = await this.kc.getOrders();
-      const order = orders.find((o: any) => o.order_id === orderId);
-      
-      if (!order) {
-        return { filled: false, status: 'NOT_FOUND' };
-      }
-      
-      const filled = order.status === 'COMPLETE';
+      const status = await order.waitForFill(5000);
       return {
-        filled,
-        status: order.status,
-        averagePrice: order.average_price
+        filled: true,
+        status: status.state,
+        averagePrice: status.average_price,
+        filledQuantity: status.filled_quantity
       };
     } catch (error) {
+      if (error instanceof OrderException) {
+        const status = error.data as SlicedOrderStatus;
+        return { filled: false, status: status.state, averagePrice: status.average_price, filledQuantity: status.filled_quantity };
+      }
       this.log('Error verifying order:', error);
-      return { filled: false, status: 'ERROR' };
+      return { filled: false, status: 'ERROR', filledQuantity: 0 };
+    }
+  }
+
+  /**
+   * Cancel the open orders of an entry that did not fill, and return the quantity filled meanwhile
+   */
+  private async cancelUnfilled(order: SlicedOrder): Promise<OrderFillStatus> {
+    try {
+      await order.cancel();
+    } catch (error) {
+      this.log(`Error cancelling open orders ${order.order_ids.join(', ')}:`, error);
+    }
+    // Catch up with fills that raced the cancellation
+    await this.orderTracker.reconcile().catch(() => undefined);
+    const status = order.getStatus();
+    return { filled: false, status: status.state, averagePrice: status.average_price, filledQuantity: status.filled_quantity };
+  }
+
+  /**
+   * Place the initial stop and final target at the exchange when protectionMode is set
+   */
+  private async protectPosition(position: LivePosition): Promise<void> {
+    if (!this.config.protectionMode || position.initialStop <= 0.05) {
+      return;
+    }
+
+    try {
+      const protectedPosition = await this.protection.protect({
+        exchange: Exchanges.NFO,
+        tradingsymbol: position.tradingSymbol,
+        transaction_type: TransactionTypes.BUY,
+        quantity: position.quantity,
+        product: Products.MIS,
+        stop_loss: position.initialStop,
+        // SL-M orders are not allowed for options, the limit leaves room for slippage
+        stop_limit_price: Math.max(position.initialStop - this.config.entryBuffer, 0.05),
+        target: position.finalTarget,
+        mode: this.config.protectionMode,
+        last_price: position.entryPrice,
+        tag: 'strategy_v2_live'
+      });
+      position.protectionId = protectedPosition.id;
+      this.log(`Protection placed for ${position.tradingSymbol}: Stop=₹${position.initialStop}, Target=₹${position.finalTarget}`);
+    } catch (error) {
+      this.log(`Error protecting position, monitoring it in memory:`, error);
+    }
+  }
+
+  /**
+   * Move the resting stop up to the trailing stop, a failed attempt is retried on the next check
+   */
+  private async trailProtection(position: LivePosition, currentPrice: number): Promise<void> {
+    if (!position.protectionId) {
+      return;
+    }
+
+    try {
+      await this.protection.trail(position.protectionId, position.trailingStop, currentPrice);
+      position.stopTrailed = true;
+    } catch (error) {
+      this.log(`Error trailing stop of ${position.tradingSymbol}, checking it in memory:`, error);
+    }
+  }
+
+  /**
+   * Book a position exited by a resting stop or target order
+   */
+  private async onProtectedExit(protectedPosition: ProtectedPosition, leg: 'stop' | 'target'): Promise<void> {
+    for (const [orderId, position] of this.positions) {
+      if (position.protectionId !== protectedPosition.id) {
+        continue;
+      }
+
+      const legOrderId = leg === 'stop' ? protectedPosition.stop_order_id : protectedPosition.target_order_id;
+      const fill = legOrderId ? this.orderTracker.getOrder(legOrderId) : null;
+      const exitPrice = fill?.average_price || (leg === 'stop' ? protectedPosition.stop_loss : position.finalTarget);
+      const reason = leg === 'target' ? 'target' : position.status === 'trailing' ? 'trailing_stop' : 'stop_loss';
+      await this.exitPosition(orderId, exitPrice, reason, false).catch(() => undefined);
     }
   }
 
@@ -924,8 +994,11 @@ export class LiveStrategyManager {
           continue;
         }
         
+        // Stops and the final target of protected positions rest at the exchange
+        const protectedAtExchange = !!position.protectionId;
+
         // Check if initial stop-loss is hit (using intraday low)
-        if (position.status === 'active' && position.intradayLow <= position.initialStop) {
+        if (!protectedAtExchange && position.status === 'active' && position.intradayLow <= position.initialStop) {
           this.log(`Stop-loss hit for ${position.tradingSymbol}. Exiting...`);
           await this.exitPosition(orderId, currentPrice, 'stop_loss');
           continue;
@@ -936,16 +1009,22 @@ export class LiveStrategyManager {
           this.log(`Target 1:3 hit for ${position.tradingSymbol}. Activating trailing stop at ₹${position.trailingStop}`);
           position.status = 'trailing';
         }
+
+        // Move the resting stop, until then the trailing stop is checked in memory
+        if (protectedAtExchange && position.status === 'trailing' && !position.stopTrailed) {
+          await this.trailProtection(position, currentPrice);
+        }
+        const trailedAtExchange = protectedAtExchange && !!position.stopTrailed;
         
         // Check trailing stop (using intraday low)
-        if (position.status === 'trailing' && position.intradayLow <= position.trailingStop) {
+        if (!trailedAtExchange && position.status === 'trailing' && position.intradayLow <= position.trailingStop) {
           this.log(`Trailing stop hit for ${position.tradingSymbol}. Exiting...`);
           await this.exitPosition(orderId, currentPrice, 'trailing_stop');
           continue;
         }
         
         // Check final target (using intraday high)
-        if (position.intradayHigh >= position.finalTarget) {
+        if (!protectedAtExchange && position.intradayHigh >= position.finalTarget) {
           this.log(`Final target hit for ${position.tradingSymbol}. Exiting...`);
           await this.exitPosition(orderId, currentPrice, 'target');
           continue;
@@ -966,9 +1045,9 @@ export class LiveStrategyManager {
   }
 
   /**
-   * Exit a position
+   * Exit a position, with a fresh sell order unless a resting exit order already filled
    */
-  private async exitPosition(orderId: string, exitPrice: number, reason: string): Promise<void> {
+  private async exitPosition(orderId: string, exitPrice: number, reason: string, placeExitOrder: boolean = true): Promise<void> {
     const position = this.positions.get(orderId);
     if (!position) {
       this.log(`Position ${orderId} not found`);
@@ -976,13 +1055,26 @@ export class LiveStrategyManager {
     }
 
     try {
-      // Place exit order (sell)
-      await this.placeOptionOrder(
-        position.tradingSymbol,
-        position.quantity,
-        exitPrice,
-        'SELL'
-      );
+      if (placeExitOrder) {
+        // Cancel the resting exit orders first so the position is not sold twice. A failed
+        // cancellation throws, and a filled exit order is booked by onProtectedExit.
+        const protectionState = position.protectionId ? this.protection.getPosition(position.protectionId)?.state : null;
+        if (protectionState === 'exited') {
+          this.log(`Position ${position.tradingSymbol} already exited at the exchange`);
+          return;
+        }
+        if (protectionState === 'active') {
+          await this.protection.release(position.protectionId as string);
+        }
+
+        // Place exit order (sell)
+        await this.placeOptionOrder(
+          position.tradingSymbol,
+          position.quantity,
+          exitPrice,
+          'SELL'
+        );
+      }
       
       // Calculate profit
       const profit = (exitPrice - position.entryPrice) * position.quantity;
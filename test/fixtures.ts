@@ -0,0 +1,76 @@
+'use strict';
+
+import { InstrumentStore } from '../lib/instrument-store';
+import { OrderTracker } from '../lib/order-tracker';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { Instrument, PaperKiteConnectParams, PlaceOrderParams } from '../interfaces';
+
+// Header of the instruments dump
+const INSTRUMENTS_HEADER = 'instrument_token,exchange_token,tradingsymbol,name,last_price,expiry,strike,tick_size,lot_size,instrument_type,segment,exchange';
+
+/**
+ * Returns the date the given number of days from today, in `YYYY-MM-DD`.
+ *
+ * @param days - Days from today, negative for past dates.
+ */
+export function expiryAfter(days: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the instruments dump with the given rows.
+ *
+ * @param rows - CSV rows, without the header.
+ */
+export function instrumentsCsv(rows: string[]): string {
+    return [INSTRUMENTS_HEADER, ...rows].join('\n');
+}
+
+/**
+ * Returns the response of the historical data API with the given candles.
+ *
+ * @param candles - Candles as `[timestamp, open, high, low, close, volume, oi?]`.
+ */
+export function candlesResponse(candles: (string | number)[][]) {
+    return { 'status': 'success', 'data': { 'candles': candles } };
+}
+
+/**
+ * Returns a stub of a loaded instrument store that looks up the given instruments.
+ *
+ * @param instruments - Instruments with at least their token, exchange and trading symbol.
+ */
+export function instrumentStore(instruments: Instrument[]): InstrumentStore {
+    return {
+        getInstrument: (symbol: string, exchange?: string) => {
+            const key = exchange ? exchange + ':' + symbol : symbol;
+            return instruments.find((i) => i.exchange + ':' + i.tradingsymbol === key) || null;
+        },
+        getInstrumentByToken: (token: number | string) => instruments.find((i) => i.instrument_token === String(token)) || null
+    } as unknown as InstrumentStore;
+}
+
+/**
+ * Returns a factory of order params, the fields passed to it override the defaults.
+ *
+ * @param defaults - Params of every order.
+ */
+export function orderFactory(defaults: PlaceOrderParams): (params?: Partial<PlaceOrderParams>) => PlaceOrderParams {
+    return (params = {}) => ({ ...defaults, ...params });
+}
+
+/**
+ * Returns a paper broker and an order tracker attached to its order updates, without periodic
+ * reconciliation. Stop the tracker after the test.
+ *
+ * @param params - Params of the paper broker.
+ * @param instruments - Instrument store of the paper broker.
+ */
+export function paperBroker(params: PaperKiteConnectParams = {}, instruments?: InstrumentStore): { paper: PaperKiteConnect, tracker: OrderTracker } {
+    const paper = new PaperKiteConnect(params, instruments);
+    const tracker = new OrderTracker(paper, { reconcile_interval: 0 });
+    tracker.attach(paper);
+    return { paper, tracker };
+}
@@ -369,7 +369,7 @@ function testSuite(){
                 'old_product': Products.CNC,
                 'new_product': Products.MIS,
             })
-            .then(function(response: AnyObject) {
+            .then(function(response: boolean) {
                 expect(response).to.equal(true);
                 return done();
             }).catch(done); 
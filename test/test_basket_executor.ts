@@ -0,0 +1,103 @@
+'use strict';
+
+import { expect } from 'chai';
+import { BasketExecutor } from '../lib/basket-executor';
+import { OrderTracker } from '../lib/order-tracker';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { OrderException } from '../lib/errors';
+import { BasketMargin, BasketResult, Exchanges, MarginOrder, OrderTypes, Products, TransactionTypes } from '../interfaces';
+import { orderFactory, paperBroker } from './fixtures';
+
+// run testsuite
+testBasketExecutor();
+
+function testBasketExecutor() {
+    const leg = orderFactory({
+        exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: TransactionTypes.SELL,
+        quantity: 75, product: Products.NRML, order_type: OrderTypes.MARKET
+    });
+
+    describe('BasketExecutor', function() {
+        let paper: PaperKiteConnect;
+        let tracker: OrderTracker;
+        let margin_orders: MarginOrder[][];
+        let required: number;
+        let baskets: BasketExecutor;
+
+        beforeEach(() => {
+            ({ paper, tracker } = paperBroker({ opening_balance: 100000 }));
+            margin_orders = [];
+            required = 50000;
+            baskets = new BasketExecutor({
+                placeOrder: paper.placeOrder.bind(paper),
+                cancelOrder: paper.cancelOrder.bind(paper),
+                getMargins: () => paper.getMargins(),
+                orderBasketMargins: (orders: MarginOrder[]) => {
+                    margin_orders.push(orders);
+                    return Promise.resolve({ final: { total: required } } as BasketMargin);
+                }
+            }, tracker);
+
+            paper.updatePrice('NFO:NIFTY24OCT24500CE', 100);
+            paper.updatePrice('NFO:NIFTY24OCT24700CE', 40);
+        });
+
+        afterEach(() => tracker.stop());
+
+        it('places the hedge first and resolves with the fills', async () => {
+            const result = await baskets.placeBasket([
+                leg(),
+                leg({ tradingsymbol: 'NIFTY24OCT24700CE', transaction_type: TransactionTypes.BUY })
+            ]);
+
+            expect(margin_orders[0].map((o) => [o.tradingsymbol, o.variety, o.price])).to.deep.equal([
+                ['NIFTY24OCT24500CE', 'regular', 0], ['NIFTY24OCT24700CE', 'regular', 0]
+            ]);
+            expect((await paper.getOrders()).map((o) => [o.tradingsymbol, o.transaction_type])).to.deep.equal([
+                ['NIFTY24OCT24700CE', 'BUY'], ['NIFTY24OCT24500CE', 'SELL']
+            ]);
+            expect(result.state).to.equal('complete');
+            expect(result.legs.map((l) => [l.order_id, l.state, l.filled_quantity, l.average_price])).to.deep.equal([
+                ['1', 'COMPLETE', 75, 40], ['2', 'COMPLETE', 75, 100]
+            ]);
+        })
+
+        it('does not place a basket the funds do not cover', async () => {
+            required = 150000;
+            const error = await baskets.placeBasket([leg()]).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Insufficient funds for the basket. Required margin is 150000.00 but available margin is 100000.00.');
+            expect(await paper.getOrders()).to.have.length(0);
+        })
+
+        it('rolls back an atomic basket when a leg does not fill', async () => {
+            const orders = [
+                leg({ tradingsymbol: 'NIFTY24OCT24700CE', transaction_type: TransactionTypes.BUY }),
+                leg({ order_type: OrderTypes.LIMIT, price: 150 })
+            ];
+            const error = await baskets.placeBasket(orders, { atomic: true, fill_timeout: 20 }).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Basket rolled back, NIFTY24OCT24500CE failed: Order 2 not filled within 20ms');
+
+            const result = error.data as BasketResult;
+            expect(result.state).to.equal('rolled_back');
+            expect(result.legs.map((l) => [l.state, l.exit_order_id])).to.deep.equal([['COMPLETE', '3'], ['CANCELLED', null]]);
+            const placed = await paper.getOrders();
+            expect(placed[2]).to.include({ tradingsymbol: 'NIFTY24OCT24700CE', transaction_type: 'SELL', order_type: 'MARKET', quantity: 75, status: 'COMPLETE' });
+            expect((await paper.getPositions()).net.map((p) => p.quantity)).to.deep.equal([0]);
+        })
+
+        it('stops placing legs after a failure unless atomic', async () => {
+            const orders = [
+                leg({ tradingsymbol: 'NIFTY24OCT24700CE', transaction_type: TransactionTypes.BUY, order_type: OrderTypes.SL }),
+                leg()
+            ];
+            const result = await baskets.placeBasket(orders, { check_margin: false });
+            expect(margin_orders).to.have.length(0);
+            expect(result.state).to.equal('partial');
+            expect(result.legs[0].error?.message).to.equal('Invalid `price` for SL order');
+            expect(result.legs.map((l) => l.order_id)).to.deep.equal([null, null]);
+            expect(await paper.getOrders()).to.have.length(0);
+        })
+    });
+}
@@ -0,0 +1,85 @@
+'use strict';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { CandleStore } from '../lib/candle-store';
+import { candlesResponse } from './fixtures';
+
+// run testsuite
+testCandleStore();
+
+function testCandleStore() {
+    const root = 'http://candles.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root });
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-candles-'));
+
+    describe('CandleStore', function() {
+        after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+        it('fetches a range once and serves it from disk afterwards', async () => {
+            const scope = nock(root)
+                .get('/instruments/historical/100/day')
+                .query((q) => q.from === '2020-01-01 00:00:00' && q.to === '2020-01-10 00:00:00')
+                .reply(200, candlesResponse([
+                    ['2020-01-02T00:00:00+0530', 1, 2, 0.5, 1.5, 100],
+                    ['2020-01-03T00:00:00+0530', 2, 3, 1.5, 2.5, 200]
+                ]));
+
+            const store = new CandleStore(kc, { 'directory': directory });
+            const candles = await store.getCandles(100, 'day', '2020-01-01', '2020-01-10');
+            expect(scope.isDone()).to.equal(true);
+            expect(candles).to.have.length(2);
+            expect(fs.existsSync(path.join(directory, '100_day.json'))).to.equal(true);
+
+            // A new store reads the file, no request is made
+            const reloaded = new CandleStore(kc, { 'directory': directory });
+            const cached = await reloaded.getCandles(100, 'day', '2020-01-01', '2020-01-05');
+            expect(cached).to.have.length(2);
+            expect(cached[0].date.getTime()).to.equal(candles[0].date.getTime());
+            expect(cached[1].close).to.equal(2.5);
+        })
+
+        it('fetches only the missing gaps', async () => {
+            const scope = nock(root)
+                .get('/instruments/historical/100/day')
+                .query((q) => q.from === '2020-01-10 00:00:00' && q.to === '2020-01-20 00:00:00')
+                .reply(200, candlesResponse([
+                    ['2020-01-13T00:00:00+0530', 3, 4, 2.5, 3.5, 300]
+                ]));
+
+            const store = new CandleStore(kc, { 'directory': directory });
+            const candles = await store.getCandles(100, 'day', '2020-01-01', '2020-01-20');
+            expect(scope.isDone()).to.equal(true);
+            expect(candles.map((c) => c.open)).to.deep.equal([1, 2, 3]);
+        })
+
+        it('does not call the API when offline', async () => {
+            const store = new CandleStore(kc, { 'directory': directory, 'offline': true });
+            const candles = await store.getCandles(100, 'day', '2019-01-01', '2020-02-01');
+            expect(candles).to.have.length(3);
+        })
+
+        it('stores candles fetched with oi separately', async () => {
+            const scope = nock(root)
+                .get('/instruments/historical/100/day')
+                .query((q) => q.oi === '1')
+                .reply(200, candlesResponse([
+                    ['2020-01-02T00:00:00+0530', 1, 2, 0.5, 1.5, 100, 50]
+                ]));
+
+            const store = new CandleStore(kc, { 'directory': directory });
+            const candles = await store.getCandles(100, 'day', '2020-01-01', '2020-01-10', { 'oi': true });
+            expect(scope.isDone()).to.equal(true);
+            expect(candles[0].oi).to.equal(50);
+
+            await store.clear(100, 'day', { 'oi': true });
+            expect(fs.existsSync(path.join(directory, '100_day_oi.json'))).to.equal(false);
+        })
+    });
+}
@@ -0,0 +1,94 @@
+'use strict';
+
+import { expect } from 'chai';
+import { ChargesCalculator } from '../lib/charges';
+import { InputException } from '../lib/errors';
+import { CHARGE_RATES } from '../constants';
+import { ChargeableOrder, Exchanges, OrderTypes, Products, TransactionTypes, Varieties } from '../interfaces';
+
+// run testsuite
+testCharges();
+
+function testCharges() {
+    const option: ChargeableOrder = {
+        exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: TransactionTypes.SELL,
+        product: Products.NRML, quantity: 75, average_price: 100
+    };
+
+    describe('ChargesCalculator', function() {
+        const calculator = new ChargesCalculator();
+
+        it('calculates the charges of an option order with the rates of its date', () => {
+            const charges = calculator.calculate(option, '2024-10-17');
+            expect(charges).to.include({ brokerage: 20, transaction_tax_type: 'stt', stamp_duty: 0 });
+            expect(charges.transaction_tax).to.be.closeTo(7.5, 1e-9);
+            expect(charges.exchange_turnover_charge).to.be.closeTo(2.62725, 1e-9);
+            expect(charges.sebi_turnover_charge).to.be.closeTo(0.0075, 1e-9);
+            expect(charges.gst.igst).to.be.closeTo(4.074255, 1e-9);
+            expect(charges.total).to.be.closeTo(34.209005, 1e-9);
+
+            const earlier = calculator.calculate(option, new Date('2024-06-03T04:00:00Z'));
+            expect(earlier.transaction_tax).to.be.closeTo(4.6875, 1e-9);
+            expect(earlier.total).to.be.closeTo(32.72135, 1e-9);
+        })
+
+        it('calculates the charges of equity delivery and intraday orders', () => {
+            const delivery = calculator.calculate({
+                exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.BUY,
+                product: Products.CNC, quantity: 10, average_price: 1500
+            }, '2024-10-17');
+            expect(delivery.brokerage).to.equal(0);
+            expect(delivery.transaction_tax).to.be.closeTo(15, 1e-9);
+            expect(delivery.stamp_duty).to.be.closeTo(2.25, 1e-9);
+            expect(delivery.total).to.be.closeTo(17.79339, 1e-9);
+
+            const intraday = calculator.calculate({
+                exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.BUY,
+                product: Products.MIS, quantity: 1000, average_price: 1000
+            }, '2024-10-17');
+            expect(intraday).to.include({ brokerage: 20, transaction_tax: 0 });
+            expect(intraday.stamp_duty).to.be.closeTo(30, 1e-9);
+
+            const commodity = calculator.calculate({ ...option, exchange: Exchanges.MCX, tradingsymbol: 'CRUDEOIL24NOVFUT' }, '2024-10-17');
+            expect(commodity.transaction_tax_type).to.equal('ctt');
+            expect(commodity.brokerage).to.be.closeTo(2.25, 1e-9);
+        })
+
+        it('calculates the turnover of currency and commodity orders in lots', () => {
+            const currency = calculator.calculate({
+                exchange: Exchanges.CDS, tradingsymbol: 'USDINR24OCTFUT', transaction_type: TransactionTypes.BUY,
+                product: Products.NRML, quantity: 1, average_price: 84, multiplier: 1000
+            }, '2024-10-17');
+            expect(currency.brokerage).to.equal(20);
+            expect(currency.exchange_turnover_charge).to.be.closeTo(0.294, 1e-9);
+            expect(currency.stamp_duty).to.be.closeTo(0.084, 1e-9);
+            expect(currency.total).to.be.closeTo(24.13004, 1e-9);
+
+            const crude = { ...option, exchange: Exchanges.MCX, tradingsymbol: 'CRUDEOIL24NOVFUT', quantity: 1, average_price: 6000 };
+            expect(calculator.calculate({ ...crude, multiplier: 100 }, '2024-10-17').transaction_tax).to.be.closeTo(60, 1e-9);
+            expect(calculator.calculate(crude, '2024-10-17').transaction_tax).to.be.closeTo(0.6, 1e-9);
+        })
+
+        it('returns a contract note with GST split for intrastate clients', () => {
+            const intrastate = new ChargesCalculator({ intrastate: true });
+            const [note] = intrastate.getContractNote([{
+                ...option, order_id: 'backtest-1', variety: Varieties.VARIETY_REGULAR, order_type: OrderTypes.MARKET
+            }], '2024-10-17');
+            expect(note).to.include({ tradingsymbol: 'NIFTY24OCT24500CE', variety: 'regular', quantity: 75, price: 100 });
+            expect(note.charges.gst.igst).to.equal(0);
+            expect(note.charges.gst.cgst).to.be.closeTo(2.0371275, 1e-9);
+            expect(note.charges.gst.sgst).to.equal(note.charges.gst.cgst);
+        })
+
+        it('looks up the rates in the given rate tables', () => {
+            const flat = { ...CHARGE_RATES[1], effective_from: '2025-01-01', gst: 0 };
+            const custom = new ChargesCalculator({ rate_tables: [flat, CHARGE_RATES[0]] });
+            expect(custom.getRates('2020-01-01')).to.equal(CHARGE_RATES[0]);
+            expect(custom.getRates('2024-12-31')).to.equal(CHARGE_RATES[0]);
+            expect(custom.getRates('2025-01-01')).to.equal(flat);
+
+            expect(() => calculator.calculate({ ...option, exchange: Exchanges.NSEIX })).to.throw(InputException);
+            expect(() => new ChargesCalculator({ rate_tables: [] })).to.throw(InputException);
+        })
+    });
+}
@@ -0,0 +1,147 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { KiteError, TokenException, InputException, NetworkException, DataException, GeneralException } from '../lib/errors';
+
+// run testsuite
+testErrors();
+
+function testErrors() {
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': 'http://errors.kite.test' });
+    let expiryHookCalled = false;
+    kc.setSessionExpiryHook(() => { expiryHookCalled = true; });
+
+    nock(kc.root as string)
+      // TokenException
+      .get('/user/profile')
+      .reply(403, {
+          'status': 'error',
+          'message': 'Incorrect `api_key` or `access_token`.',
+          'data': null,
+          'error_type': 'TokenException'
+      }, { 'X-Request-Id': 'req-1' })
+
+      // InputException returned with a 200 status
+      .get('/portfolio/holdings')
+      .reply(200, {
+          'status': 'error',
+          'message': 'Invalid input',
+          'data': { 'field': 'quantity' },
+          'error_type': 'InputException'
+      })
+
+      // Unknown error_type
+      .get('/portfolio/positions')
+      .reply(400, {
+          'status': 'error',
+          'message': 'Insufficient funds',
+          'data': null,
+          'error_type': 'MarginException'
+      })
+
+      // Non JSON error response
+      .get('/orders')
+      .reply(502, 'Bad Gateway', { 'Content-Type': 'text/html' })
+
+      // Unknown content type
+      .get('/trades')
+      .reply(200, 'hello', { 'Content-Type': 'text/plain' })
+
+      // No response
+      .get('/user/margins')
+      .replyWithError({ code: 'ECONNRESET' });
+
+    describe('TokenException', function() {
+        it('rejects with TokenException carrying request details', (done) => {
+            kc.getProfile()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: TokenException) {
+                expect(err).to.be.an.instanceof(TokenException);
+                expect(err).to.be.an.instanceof(KiteError);
+                expect(err).to.be.an.instanceof(Error);
+                expect(err.error_type).to.equal('TokenException');
+                expect(err.status).to.equal(403);
+                expect(err.request_id).to.equal('req-1');
+                expect(err.route).to.equal('user.profile');
+                expect(err.payload).to.have.property('status', 'error');
+                expect(err.stack).to.be.a('string');
+                expect(expiryHookCalled).to.equal(true);
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('InputException', function() {
+        it('rejects with InputException for error payloads with a 2xx status', (done) => {
+            kc.getHoldings()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: InputException) {
+                expect(err).to.be.an.instanceof(InputException);
+                expect(err.status).to.equal(200);
+                expect(err.data).to.deep.equal({ 'field': 'quantity' });
+                expect(err.route).to.equal('portfolio.holdings');
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('GeneralException', function() {
+        it('falls back to GeneralException for unknown error types', (done) => {
+            kc.getPositions()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: GeneralException) {
+                expect(err).to.be.an.instanceof(GeneralException);
+                expect(err.error_type).to.equal('MarginException');
+                expect(err.message).to.equal('Insufficient funds');
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('NetworkException', function() {
+        it('rejects with NetworkException for non JSON error responses', (done) => {
+            kc.getOrders()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: NetworkException) {
+                expect(err).to.be.an.instanceof(NetworkException);
+                expect(err.status).to.equal(502);
+                expect(err.route).to.equal('orders');
+                return done();
+            }).catch(done);
+        })
+        it('rejects with NetworkException when no response is received', (done) => {
+            kc.getMargins()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: NetworkException) {
+                expect(err).to.be.an.instanceof(NetworkException);
+                expect(err.status).to.equal(null);
+                expect(err.message).to.contain('ECONNRESET');
+                expect(err.payload).to.have.all.keys('code', 'message').and.include({ 'code': 'ECONNRESET' });
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('DataException', function() {
+        it('rejects with DataException for unknown content types', (done) => {
+            kc.getTrades()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: DataException) {
+                expect(err).to.be.an.instanceof(DataException);
+                expect(err.route).to.equal('trades');
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('InputException on invalid GTT params', function() {
+        it('throws InputException for invalid trigger type', () => {
+            //@ts-ignore
+            expect(() => kc.placeGTT({ trigger_type: 'invalid' })).to.throw(InputException);
+        })
+    });
+}
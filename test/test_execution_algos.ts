@@ -0,0 +1,134 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { expect } from 'chai';
+import { ExecutionAlgos } from '../lib/execution-algos';
+import { OrderTracker } from '../lib/order-tracker';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { InputException, OrderException } from '../lib/errors';
+import { AlgoOrderParams, Exchanges, Instrument, ModifyOrderParams, OrderTypes, Products, Tick, TransactionTypes, Varieties } from '../interfaces';
+import { instrumentStore, paperBroker } from './fixtures';
+
+// run testsuite
+testExecutionAlgos();
+
+function testExecutionAlgos() {
+    const option = { instrument_token: '1001', exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', instrument_type: 'CE' } as Instrument;
+    const instruments = instrumentStore([option]);
+    const params: AlgoOrderParams = {
+        exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', instrument_token: 1001,
+        transaction_type: TransactionTypes.BUY, quantity: 75, product: Products.NRML
+    };
+
+    function tick(bid: number, ask: number): Tick[] {
+        return [{
+            instrument_token: 1001, last_price: (bid + ask) / 2,
+            depth: { buy: [{ price: bid, quantity: 100, orders: 1 }], sell: [{ price: ask, quantity: 100, orders: 1 }] }
+        } as unknown as Tick];
+    }
+
+    function settle(): Promise<void> {
+        return new Promise((resolve) => setImmediate(resolve));
+    }
+
+    describe('ExecutionAlgos', function() {
+        let stream: EventEmitter;
+        let paper: PaperKiteConnect;
+        let tracker: OrderTracker;
+        let algos: ExecutionAlgos;
+
+        beforeEach(() => {
+            stream = new EventEmitter();
+            ({ paper, tracker } = paperBroker({}, instruments));
+            paper.attach(stream);
+            algos = new ExecutionAlgos(paper, tracker);
+            algos.attach(stream);
+            stream.emit('ticks', tick(99, 101));
+        });
+
+        afterEach(() => {
+            tracker.stop();
+            algos.detach();
+        });
+
+        it('pegs the limit price to the best bid within the slippage bound', async () => {
+            const running = algos.peg(params, { reprice_interval: 0, max_slippage: 0.003 });
+            await settle();
+            expect((await paper.getOrders())[0]).to.include({ order_type: 'LIMIT', price: 99, status: 'OPEN' });
+
+            stream.emit('ticks', tick(99.5, 100.5));
+            await settle();
+            expect((await paper.getOrders())[0]).to.include({ price: 99.5, modified: true });
+
+            // The bid moved past the bound of 100.3
+            stream.emit('ticks', tick(100.5, 101.5));
+            await settle();
+            expect((await paper.getOrders())[0].price).to.equal(100.3);
+
+            stream.emit('ticks', tick(99.1, 99.2));
+            const report = await running;
+            expect(report).to.include({ algo: 'peg', filled_quantity: 75, average_price: 99.2, arrival_price: 100, market_orders: 0 });
+            expect(report.slippage).to.be.closeTo(-0.8, 1e-9);
+            expect(report.slippage_bps).to.be.closeTo(-80, 1e-6);
+        })
+
+        it('converts the order to a market order on timeout', async () => {
+            const report = await algos.peg({ ...params, transaction_type: TransactionTypes.SELL }, { timeout: 10 });
+            const [order] = await paper.getOrders();
+            expect(order).to.include({ order_type: 'MARKET', status: 'COMPLETE', average_price: 99 });
+            expect(report).to.include({ filled_quantity: 75, average_price: 99, market_orders: 1, slippage: 1 });
+            expect(report.order_ids).to.deep.equal(['1']);
+        })
+
+        it('cancels the remaining quantity on timeout without market conversion', async () => {
+            const report = await algos.peg(params, { timeout: 10, market_on_timeout: false });
+            expect((await paper.getOrders())[0].status).to.equal('CANCELLED');
+            expect(report).to.include({ filled_quantity: 0, average_price: 0, slippage: 0, market_orders: 0 });
+        })
+
+        it('cancels the order and reports the fills when the market conversion fails', async () => {
+            const kite = {
+                placeOrder: paper.placeOrder.bind(paper),
+                cancelOrder: paper.cancelOrder.bind(paper),
+                modifyOrder: async (variety: Varieties, order_id: string | number, modify: ModifyOrderParams) => {
+                    if (modify.order_type !== OrderTypes.MARKET) return paper.modifyOrder(variety, order_id, modify);
+                    // The exchange rejects the conversion, the limit order is left open
+                    const [order] = await paper.getOrders();
+                    setImmediate(() => paper.emit('order_update', { ...order, status: 'REJECTED', status_message: 'Market orders are blocked' }));
+                    return { order_id: String(order_id) };
+                }
+            };
+            algos = new ExecutionAlgos(kite, tracker);
+            algos.attach(stream);
+            stream.emit('ticks', tick(99, 101));
+
+            const error = await algos.peg(params, { timeout: 10 }).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Peg of NIFTY24OCT24500CE failed: Order 1 rejected: Market orders are blocked');
+            expect(error.data).to.include({ algo: 'peg', filled_quantity: 0, market_orders: 0 });
+            expect(error.data.order_ids).to.deep.equal(['1']);
+            expect((await paper.getOrders())[0]).to.include({ order_type: 'LIMIT', status: 'CANCELLED' });
+        })
+
+        it('counts the wait for a quote in the peg timeout', async () => {
+            // Quotes of the same contract under another token
+            setTimeout(() => stream.emit('ticks', tick(99, 101).map((t) => ({ ...t, instrument_token: 1002 }))), 40);
+            const report = await algos.peg({ ...params, instrument_token: 1002 }, { timeout: 60 });
+            expect(report).to.include({ filled_quantity: 75, market_orders: 1 });
+            expect(report.finished_at.getTime() - report.started_at.getTime()).to.be.below(90);
+        })
+
+        it('slices TWAP and VWAP orders over the duration', async () => {
+            const twap = await algos.twap({ ...params, quantity: 225 }, { duration: 30, slices: 3, lot_size: 75 });
+            expect(twap).to.include({ algo: 'twap', filled_quantity: 225, average_price: 101, market_orders: 3 });
+            expect(twap.finished_at.getTime() - twap.started_at.getTime()).to.be.at.least(25);
+
+            const vwap = await algos.vwap({ ...params, quantity: 600 }, { duration: 20, volume_profile: [1, 3], lot_size: 75 });
+            expect(vwap.order_ids).to.have.length(2);
+            expect((await paper.getOrders()).slice(3).map((o) => o.quantity)).to.deep.equal([150, 450]);
+
+            const error = await algos.vwap(params, { duration: 20, volume_profile: [0, 0] }).catch((e) => e);
+            expect(error).to.be.an.instanceof(InputException);
+        })
+    });
+}
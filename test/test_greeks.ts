@@ -0,0 +1,98 @@
+'use strict';
+
+import { expect } from 'chai';
+import { priceOption, impliedVolatility, GreeksCalculator } from '../lib/greeks';
+import { InstrumentStore } from '../lib/instrument-store';
+import { Exchanges, Instrument, OptionPricingInput } from '../interfaces';
+
+// run testsuite
+testGreeks();
+
+function testGreeks() {
+    const input: OptionPricingInput = {
+        'option_type': 'CE',
+        'underlying_price': 100,
+        'strike': 100,
+        'time_to_expiry': 1,
+        'volatility': 0.2,
+        'risk_free_rate': 0.05,
+        'dividend_yield': 0,
+        'model': 'black-scholes'
+    };
+
+    describe('priceOption', function() {
+        it('prices a call with Black-Scholes', () => {
+            const greeks = priceOption(input);
+            expect(greeks.price).to.be.closeTo(10.4506, 1e-4);
+            expect(greeks.delta).to.be.closeTo(0.6368, 1e-4);
+            expect(greeks.gamma).to.be.closeTo(0.018762, 1e-6);
+            expect(greeks.vega).to.be.closeTo(0.37524, 1e-5);
+            expect(greeks.theta).to.be.closeTo(-6.4140 / 365, 1e-5);
+            expect(greeks.rho).to.be.closeTo(0.53232, 1e-5);
+        })
+        it('prices a put with Black-Scholes', () => {
+            const greeks = priceOption({ ...input, 'option_type': 'PE' });
+            expect(greeks.price).to.be.closeTo(5.5735, 1e-4);
+            expect(greeks.delta).to.be.closeTo(-0.3632, 1e-4);
+            expect(greeks.rho).to.be.closeTo(-0.41890, 1e-5);
+        })
+        it('prices a call with Black-76', () => {
+            const greeks = priceOption({ ...input, 'model': 'black-76' });
+            expect(greeks.price).to.be.closeTo(7.5771, 1e-4);
+            expect(greeks.delta).to.be.closeTo(0.5135, 1e-4);
+        })
+    });
+
+    describe('impliedVolatility', function() {
+        it('recovers the volatility from the price', () => {
+            for (const volatility of [0.05, 0.2, 0.8]) {
+                for (const option_type of ['CE', 'PE'] as const) {
+                    const price = priceOption({ ...input, option_type, volatility }).price;
+                    expect(impliedVolatility(price, { ...input, option_type })).to.be.closeTo(volatility, 1e-5);
+                }
+            }
+        })
+        it('returns null for prices outside the arbitrage bounds', () => {
+            expect(impliedVolatility(2, { ...input, 'underlying_price': 120 })).to.equal(null);
+            expect(impliedVolatility(150, input)).to.equal(null);
+        })
+    });
+
+    describe('GreeksCalculator', function() {
+        const option: Instrument = {
+            'instrument_token': '1001',
+            'exchange_token': '1',
+            'tradingsymbol': 'NIFTY24500CE',
+            'name': 'NIFTY',
+            'last_price': 0,
+            'expiry': new Date('2024-10-31'),
+            'strike': 24500,
+            'tick_size': 0.05,
+            'lot_size': 25,
+            'instrument_type': 'CE',
+            'segment': 'NFO-OPT',
+            'exchange': Exchanges.NFO
+        };
+        const instruments = { getInstrumentByToken: (token: number | string) => String(token) === '1001' ? option : null } as unknown as InstrumentStore;
+        const calculator = new GreeksCalculator(instruments, { 'risk_free_rate': 0.07 });
+
+        it('measures time to expiry up to the expiry time in IST', () => {
+            // 15:30 IST is 10:00 UTC, one day earlier
+            const years = calculator.getTimeToExpiry(option, new Date('2024-10-30T10:00:00Z'));
+            expect(years).to.be.closeTo(1 / 365, 1e-9);
+        })
+
+        it('solves the implied volatility of a quote', () => {
+            const at = new Date('2024-10-24T10:00:00Z');
+            const price = priceOption({ ...input, 'underlying_price': 24400, 'strike': 24500, 'time_to_expiry': 7 / 365, 'volatility': 0.14, 'risk_free_rate': 0.07 }).price;
+            const analytics = calculator.forQuote({ 'instrument_token': 1001, 'last_price': price }, 24400, at);
+            expect(analytics?.implied_volatility).to.be.closeTo(0.14, 1e-5);
+            expect(analytics?.delta).to.be.within(0, 0.5);
+            expect(analytics?.theta).to.be.below(0);
+        })
+
+        it('returns null for expired contracts', () => {
+            expect(calculator.calculate(option, 10, 24400, new Date('2024-11-01T00:00:00Z'))).to.equal(null);
+        })
+    });
+}
@@ -0,0 +1,83 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { InputException } from '../lib/errors';
+import { candlesResponse } from './fixtures';
+
+// run testsuite
+testHistorical();
+
+function testHistorical() {
+    const root = 'http://historical.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root });
+
+    describe('getHistoricalDataRange', function() {
+        it('splits the range into windows and merges the candles', (done) => {
+            const scope = nock(root)
+                .get('/instruments/historical/100/minute')
+                .query((q) => q.from === '2022-01-01 09:15:00' && q.to === '2022-03-02 09:15:00')
+                .reply(200, candlesResponse([
+                    ['2022-01-03T09:15:00+0530', 1, 2, 0.5, 1.5, 100, 10],
+                    ['2022-03-02T09:15:00+0530', 2, 3, 1.5, 2.5, 200, 0]
+                ]))
+                .get('/instruments/historical/100/minute')
+                .query((q) => q.from === '2022-03-02 09:15:00' && q.to === '2022-04-15 15:30:00')
+                .reply(200, candlesResponse([
+                    ['2022-03-02T09:15:00+0530', 2, 3, 1.5, 2.5, 200, 0],
+                    ['2022-03-03T09:15:00+0530', 3, 4, 2.5, 3.5, 300, 30]
+                ]));
+
+            kc.getHistoricalDataRange(100, 'minute', '2022-01-01 09:15:00', '2022-04-15 15:30:00', { 'oi': true, 'concurrency': 2 })
+            .then(function(response) {
+                expect(scope.isDone()).to.equal(true);
+                expect(response).to.have.length(3);
+                expect(response[0].open).to.equal(1);
+                expect(response[1].open).to.equal(2);
+                expect(response[2].open).to.equal(3);
+                expect(response[0].date.getTime()).to.be.below(response[1].date.getTime());
+                // OI is preserved, including zero values
+                expect(response[0].oi).to.equal(10);
+                expect(response[1].oi).to.equal(0);
+                return done();
+            }).catch(done);
+        })
+
+        it('sends a single request for a range within the limit', (done) => {
+            const scope = nock(root)
+                .get('/instruments/historical/100/day')
+                .query({ from: '2020-01-01 00:00:00', to: '2020-12-31 00:00:00', continuous: 0, oi: 0, instrument_token: '100', interval: 'day' })
+                .reply(200, candlesResponse([['2020-01-01T00:00:00+0530', 1, 2, 0.5, 1.5, 100]]));
+
+            kc.getHistoricalDataRange(100, 'day', new Date(2020, 0, 1), new Date(2020, 11, 31))
+            .then(function(response) {
+                expect(scope.isDone()).to.equal(true);
+                expect(response).to.have.length(1);
+                expect(response[0]).to.not.have.property('oi');
+                return done();
+            }).catch(done);
+        })
+
+        it('rejects unknown intervals', (done) => {
+            kc.getHistoricalDataRange(100, '2minute', '2022-01-01', '2022-02-01')
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err) {
+                expect(err).to.be.an.instanceof(InputException);
+                return done();
+            }).catch(done);
+        })
+
+        it('rejects a from_date after the to_date', (done) => {
+            kc.getHistoricalDataRange(100, 'day', '2022-02-01', '2022-01-01')
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err) {
+                expect(err).to.be.an.instanceof(InputException);
+                expect(err.message).to.equal('`from_date` is after `to_date`');
+                return done();
+            }).catch(done);
+        })
+    });
+}
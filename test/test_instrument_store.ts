@@ -0,0 +1,97 @@
+'use strict';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { InstrumentStore } from '../lib/instrument-store';
+import { GeneralException } from '../lib/errors';
+import { Exchanges } from '../interfaces';
+import { expiryAfter, instrumentsCsv } from './fixtures';
+
+// run testsuite
+testInstrumentStore();
+
+function instrumentDump(): string {
+    const near = expiryAfter(3);
+    const far = expiryAfter(10);
+    const expired = expiryAfter(-7);
+    return instrumentsCsv([
+        `1001,1,NIFTYNEAR24400CE,NIFTY,0,${near},24400,0.05,75,CE,NFO-OPT,NFO`,
+        `1002,2,NIFTYNEAR24400PE,NIFTY,0,${near},24400,0.05,75,PE,NFO-OPT,NFO`,
+        `1003,3,NIFTYNEAR24500CE,NIFTY,0,${near},24500,0.05,75,CE,NFO-OPT,NFO`,
+        `1004,4,NIFTYNEAR24600CE,NIFTY,0,${near},24600,0.05,75,CE,NFO-OPT,NFO`,
+        `1005,5,NIFTYNEAR24700CE,NIFTY,0,${near},24700,0.05,75,CE,NFO-OPT,NFO`,
+        `1006,6,NIFTYFAR24500CE,NIFTY,0,${far},24500,0.05,75,CE,NFO-OPT,NFO`,
+        `1007,7,NIFTYFARFUT,NIFTY,0,${far},0,0.1,75,FUT,NFO-FUT,NFO`,
+        `1008,8,NIFTYOLD24500CE,NIFTY,0,${expired},24500,0.05,75,CE,NFO-OPT,NFO`
+    ]);
+}
+
+function testInstrumentStore() {
+    const root = 'http://instruments.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root });
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-instruments-'));
+
+    describe('InstrumentStore', function() {
+        const store = new InstrumentStore(kc, { 'directory': directory, 'exchanges': [Exchanges.NFO] });
+
+        after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+        it('throws when queried before loading', () => {
+            expect(() => store.getInstrumentByToken(1001)).to.throw(GeneralException);
+        })
+
+        it('downloads the master once and caches it on disk', async () => {
+            const scope = nock(root)
+                .get('/instruments/NFO').query(true)
+                .reply(200, instrumentDump(), { 'Content-Type': 'text/csv' });
+
+            await Promise.all([store.load(), store.load()]);
+            await store.load();
+            expect(scope.isDone()).to.equal(true);
+            expect(fs.existsSync(path.join(directory, 'instruments_NFO.json'))).to.equal(true);
+
+            // A new store loads today's master from disk without a request
+            const cached = new InstrumentStore(kc, { 'directory': directory, 'exchanges': [Exchanges.NFO] });
+            await cached.load();
+            expect(cached.getInstrument('NFO:NIFTYFARFUT')?.expiry).to.be.an.instanceof(Date);
+        })
+
+        it('looks up instruments by symbol and token', () => {
+            expect(store.getInstrument('NFO:NIFTYNEAR24500CE')?.instrument_token).to.equal('1003');
+            expect(store.getInstrument('NIFTYNEAR24500CE', Exchanges.NFO)?.strike).to.equal(24500);
+            expect(store.getInstrument('NSE:NIFTYNEAR24500CE')).to.equal(null);
+            expect(store.getInstrumentByToken(1007)?.tradingsymbol).to.equal('NIFTYFARFUT');
+            expect(store.getLotSize('NFO:NIFTYFARFUT')).to.equal(75);
+            expect(store.getTickSize('NFO:NIFTYFARFUT')).to.equal(0.1);
+        })
+
+        it('returns upcoming expiries', () => {
+            const expiries = store.getExpiries('NIFTY').map((d) => d.toISOString().slice(0, 10));
+            expect(expiries).to.deep.equal([expiryAfter(3), expiryAfter(10)]);
+            expect(store.getNearestExpiry('NIFTY', 'FUT')?.toISOString().slice(0, 10)).to.equal(expiryAfter(10));
+            expect(store.getNearestExpiry('BANKNIFTY')).to.equal(null);
+        })
+
+        it('looks up options and strikes', () => {
+            const expiry = store.getNearestExpiry('NIFTY') as Date;
+            expect(store.getOption('NIFTY', expiry, 24400, 'PE')?.tradingsymbol).to.equal('NIFTYNEAR24400PE');
+            expect(store.getOption('NIFTY', expiryAfter(3), 24500, 'PE')).to.equal(null);
+            expect(store.getStrikes('NIFTY', expiry)).to.deep.equal([24400, 24500, 24600, 24700]);
+            expect(store.getStrikesAround('NIFTY', expiry, 24580, 1)).to.deep.equal([24500, 24600, 24700]);
+            expect(store.getStrikesAround('NIFTY', expiry, 24000, 1)).to.deep.equal([24400, 24500]);
+        })
+
+        it('filters derivatives and skips expired contracts', () => {
+            const contracts = store.getDerivatives('NIFTY', { 'strike': 24500, 'instrument_type': 'CE' });
+            expect(contracts.map((i) => i.tradingsymbol)).to.deep.equal(['NIFTYNEAR24500CE', 'NIFTYFAR24500CE']);
+            const all = store.getDerivatives('NIFTY', { 'strike': 24500, 'include_expired': true });
+            expect(all).to.have.length(3);
+        })
+    });
+}
@@ -0,0 +1,156 @@
+'use strict';
+
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { MockKiteServer } from '../lib/mock-kite-server';
+import { GeneralException, InputException, NetworkException, TokenException } from '../lib/errors';
+import { Exchanges, GTTStatusTypes, OrderTypes, PlaceGTTParams, Products, TransactionTypes, Varieties } from '../interfaces';
+
+// run testsuite
+testMockKiteServer();
+
+function testMockKiteServer() {
+    const fixtures = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-fixtures-'));
+    fs.writeFileSync(path.join(fixtures, 'profile.json'), JSON.stringify({ status: 'success', data: { user_id: 'AB1234' } }));
+
+    describe('MockKiteServer', function() {
+        const server = new MockKiteServer({ fixtures: fixtures, access_token: 'token' });
+        let kc: KiteConnect;
+
+        before(async () => {
+            const root = await server.start();
+            kc = new KiteConnect({ api_key: 'api_key', access_token: 'token', root: root });
+        });
+
+        afterEach(() => server.reset());
+
+        after(async () => {
+            await server.stop();
+            fs.rmSync(fixtures, { recursive: true, force: true });
+        });
+
+        it('serves fixtures and responses set for a route', async () => {
+            expect((await kc.getProfile()).user_id).to.equal('AB1234');
+
+            server.setResponse('market.instruments', 'instrument_token,tradingsymbol,lot_size\n408065,INFY,1');
+            const instruments = await kc.getInstruments(Exchanges.NSE);
+            expect(instruments[0].lot_size).to.equal(1);
+            expect(server.requests.map((r) => r.route)).to.deep.equal(['user.profile', 'market.instruments']);
+            expect(server.requests[1].params.exchange).to.equal('NSE');
+
+            const error = await kc.getHoldings().catch((e) => e);
+            expect(error).to.be.an.instanceof(GeneralException);
+            expect(error.status).to.equal(404);
+        })
+
+        it('rejects requests with another access token', async () => {
+            const other = new KiteConnect({ api_key: 'api_key', access_token: 'expired', root: server.root });
+            const error = await other.getProfile().catch((e) => e);
+            expect(error).to.be.an.instanceof(TokenException);
+        })
+
+        it('answers a malformed body with an input error', async () => {
+            const response = await new Promise<{ status?: number, body: string }>((resolve, reject) => {
+                const req = http.request(server.root + '/margins/orders', {
+                    method: 'POST',
+                    headers: { 'content-type': 'application/json', 'authorization': 'token api_key:token' }
+                }, (res) => {
+                    let body = '';
+                    res.on('data', (chunk) => body += chunk);
+                    res.on('end', () => resolve({ status: res.statusCode, body: body }));
+                });
+                req.on('error', reject);
+                req.end('{bad json');
+            });
+            expect(response.status).to.equal(400);
+            expect(JSON.parse(response.body)).to.include({ status: 'error', error_type: 'InputException' });
+
+            // The server keeps serving
+            expect((await kc.getProfile()).user_id).to.equal('AB1234');
+        })
+
+        it('tracks the order lifecycle', async () => {
+            const updates: string[] = [];
+            server.on('order_update', (order) => updates.push(order.status));
+
+            const { order_id } = await kc.placeOrder(Varieties.VARIETY_REGULAR, {
+                exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.BUY,
+                quantity: 10, product: Products.CNC, order_type: OrderTypes.LIMIT, price: 1500
+            });
+            await kc.modifyOrder(Varieties.VARIETY_REGULAR, order_id, { price: 1510 });
+            server.fillOrder(String(order_id), 1505, 4);
+
+            let orders = await kc.getOrders();
+            expect(orders).to.have.length(1);
+            expect(orders[0]).to.include({ status: 'OPEN', price: 1510, filled_quantity: 4, pending_quantity: 6 });
+
+            await kc.cancelOrder(Varieties.VARIETY_REGULAR, order_id);
+            const history = await kc.getOrderHistory(order_id);
+            expect(history.map((o) => o.status)).to.deep.equal(['OPEN', 'OPEN', 'OPEN', 'CANCELLED']);
+            expect(history[3].cancelled_quantity).to.equal(6);
+            expect(updates).to.deep.equal(['OPEN', 'OPEN', 'OPEN', 'CANCELLED']);
+
+            const trades = await kc.getOrderTrades(order_id);
+            expect(trades.map((t) => [t.quantity, t.average_price])).to.deep.equal([[4, 1505]]);
+
+            const error = await kc.modifyOrder(Varieties.VARIETY_REGULAR, order_id, { price: 1520 }).catch((e) => e);
+            expect(error).to.be.an.instanceof(InputException);
+
+            // Market orders fill at the last price
+            server.setLastPrice('NSE:INFY', 1490);
+            const market = await kc.placeOrder(Varieties.VARIETY_REGULAR, {
+                exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.SELL,
+                quantity: 4, product: Products.CNC, order_type: OrderTypes.MARKET
+            });
+            orders = await kc.getOrders();
+            expect(orders[1]).to.include({ order_id: market.order_id, status: 'COMPLETE', average_price: 1490 });
+            server.removeAllListeners('order_update');
+        })
+
+        it('tracks the GTT lifecycle', async () => {
+            const params: PlaceGTTParams = {
+                trigger_type: GTTStatusTypes.GTT_TYPE_SINGLE, tradingsymbol: 'INFY', exchange: Exchanges.NSE,
+                trigger_values: [1400], last_price: 1500,
+                orders: [{ exchange: 'NSE', tradingsymbol: 'INFY', transaction_type: TransactionTypes.SELL, quantity: 10, product: Products.CNC, order_type: OrderTypes.LIMIT, price: 1395 }]
+            };
+            const { trigger_id } = await kc.placeGTT(params);
+            await kc.modifyGTT(trigger_id, { ...params, trigger_values: [1390] });
+
+            let gtt = await kc.getGTT(trigger_id);
+            expect(gtt.status).to.equal('active');
+            expect(gtt.condition.trigger_values).to.deep.equal([1390]);
+
+            server.triggerGTT(trigger_id);
+            gtt = await kc.getGTT(trigger_id);
+            expect(gtt.status).to.equal('triggered');
+            const orders = await kc.getOrders();
+            expect(orders[0]).to.include({ tradingsymbol: 'INFY', quantity: 10, price: 1395, tag: 'gtt' });
+
+            const error = await kc.deleteGTT(trigger_id).then(() => kc.modifyGTT(trigger_id, params)).catch((e) => e);
+            expect(error).to.be.an.instanceof(InputException);
+            expect((await kc.getGTTs())[0].status).to.equal('deleted');
+        })
+
+        it('injects errors and latency', async () => {
+            server.injectError('user.profile', { status: 403 });
+            server.injectError('*', { status: 429, times: 2 });
+
+            expect(await kc.getProfile().catch((e) => e)).to.be.an.instanceof(TokenException);
+            const throttled = await kc.getProfile().catch((e) => e);
+            expect(throttled).to.be.an.instanceof(NetworkException);
+            expect(throttled.status).to.equal(429);
+            expect(await kc.getOrders().catch((e) => e)).to.be.an.instanceof(NetworkException);
+            expect((await kc.getProfile()).user_id).to.equal('AB1234');
+
+            server.setLatency(50, 'user.profile');
+            const started = Date.now();
+            await kc.getProfile();
+            expect(Date.now() - started).to.be.at.least(45);
+        })
+    });
+}
@@ -0,0 +1,105 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { InstrumentStore } from '../lib/instrument-store';
+import { getOptionChain } from '../lib/option-chain';
+import { InputException } from '../lib/errors';
+import { Exchanges } from '../interfaces';
+import { expiryAfter, instrumentsCsv } from './fixtures';
+
+// run testsuite
+testOptionChain();
+
+// 300 strikes from 20000 to 34950, calls and puts, plus a futures contract
+function instrumentDump(): string {
+    const expiry = expiryAfter(5);
+    const lines = [`1,1,NIFTYFUT,NIFTY,0,${expiry},0,0.1,75,FUT,NFO-FUT,NFO`];
+    for (let i = 0; i < 300; i++) {
+        const strike = 20000 + i * 50;
+        lines.push(`${1000 + i * 2},1,NIFTY${strike}CE,NIFTY,0,${expiry},${strike},0.05,75,CE,NFO-OPT,NFO`);
+        lines.push(`${1001 + i * 2},1,NIFTY${strike}PE,NIFTY,0,${expiry},${strike},0.05,75,PE,NFO-OPT,NFO`);
+    }
+    return instrumentsCsv(lines);
+}
+
+function quoteResponse(uri: string) {
+    const data: { [symbol: string]: object } = {};
+    const symbols = new URL(uri, 'http://localhost').searchParams.getAll('i');
+    for (const symbol of symbols) {
+        data[symbol] = {
+            'instrument_token': 1,
+            'last_price': symbol.length,
+            'volume': 10,
+            'oi': 100,
+            'depth': {
+                'buy': [{ 'price': 9.5, 'quantity': 75, 'orders': 1 }],
+                'sell': []
+            }
+        };
+    }
+    return { 'status': 'success', 'data': data };
+}
+
+function testOptionChain() {
+    const root = 'http://optionchain.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root, 'rate_limit': { 'market.quote': { 'rate': 100 } } });
+    const instruments = new InstrumentStore(kc, { 'exchanges': [Exchanges.NFO] });
+
+    describe('getOptionChain', function() {
+        before(() => {
+            nock(root)
+                .get('/instruments/NFO').query(true)
+                .reply(200, instrumentDump(), { 'Content-Type': 'text/csv' });
+        });
+
+        it('quotes every strike', async () => {
+            const scope = nock(root)
+                .get('/quote').query(true).times(2)
+                .reply(200, (uri) => quoteResponse(uri));
+
+            const chain = await getOptionChain(kc, instruments, 'NIFTY', expiryAfter(5));
+            expect(scope.isDone()).to.equal(true);
+            expect(chain.spot).to.equal(null);
+            expect(chain.rows).to.have.length(300);
+            expect(chain.rows[0].strike).to.equal(20000);
+            expect(chain.rows[0].CE?.instrument.tradingsymbol).to.equal('NIFTY20000CE');
+            expect(chain.rows[0].PE?.oi).to.equal(100);
+            expect(chain.rows[0].PE?.bid).to.equal(9.5);
+            expect(chain.rows[0].PE?.ask).to.equal(0);
+        })
+
+        it('selects strikes around the futures price', async () => {
+            nock(root)
+                .get('/quote/ltp').query(true)
+                .reply(200, { 'status': 'success', 'data': { 'NFO:NIFTYFUT': { 'instrument_token': 1, 'last_price': 24510 } } })
+                .get('/quote').query(true)
+                .reply(200, (uri) => quoteResponse(uri));
+
+            const chain = await instruments.getOptionChain('NIFTY', expiryAfter(5), { 'strikes_around': 2 });
+            expect(chain.spot).to.equal(24510);
+            expect(chain.rows.map((r) => r.strike)).to.deep.equal([24400, 24450, 24500, 24550, 24600]);
+        })
+
+        it('uses the given spot price', async () => {
+            nock(root)
+                .get('/quote').query(true)
+                .reply(200, (uri) => quoteResponse(uri));
+
+            const chain = await getOptionChain(kc, instruments, 'NIFTY', expiryAfter(5), { 'strikes_around': 0, 'spot': 30020 });
+            expect(chain.rows.map((r) => r.strike)).to.deep.equal([30000]);
+        })
+
+        it('rejects expiries without options', (done) => {
+            getOptionChain(kc, instruments, 'NIFTY', expiryAfter(6))
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err) {
+                expect(err).to.be.an.instanceof(InputException);
+                return done();
+            }).catch(done);
+        })
+    });
+}
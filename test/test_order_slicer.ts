@@ -0,0 +1,101 @@
+'use strict';
+
+import { expect } from 'chai';
+import { OrderTracker } from '../lib/order-tracker';
+import { OrderSlicer, SlicedOrder } from '../lib/order-slicer';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { InputException, OrderException } from '../lib/errors';
+import { Exchanges, OrderTypes, PlaceOrderParams, Products, TransactionTypes, Varieties } from '../interfaces';
+import { orderFactory, paperBroker } from './fixtures';
+
+// run testsuite
+testOrderSlicer();
+
+function testOrderSlicer() {
+    const regular = Varieties.VARIETY_REGULAR;
+
+    const order = orderFactory({
+        exchange: Exchanges.NFO, tradingsymbol: 'BANKNIFTY24OCT51000CE', transaction_type: TransactionTypes.BUY,
+        quantity: 2400, product: Products.NRML, order_type: OrderTypes.LIMIT, price: 100
+    });
+
+    describe('OrderSlicer', function() {
+        let paper: PaperKiteConnect;
+        let tracker: OrderTracker;
+        let slicer: OrderSlicer;
+
+        beforeEach(() => {
+            ({ paper, tracker } = paperBroker());
+            slicer = new OrderSlicer(paper, tracker, { interval: 0 });
+        });
+
+        afterEach(() => tracker.stop());
+
+        it('splits orders over the freeze quantity into whole lots', () => {
+            const quantities = (variety: Varieties, params: PlaceOrderParams, lot_size: number) => {
+                return slicer.slice(variety, params, { lot_size: lot_size }).map((slice) => slice.params.quantity);
+            };
+            expect(quantities(regular, order(), 30)).to.deep.equal([900, 900, 600]);
+            expect(quantities(regular, order({ tradingsymbol: 'NIFTY24OCT24500CE', quantity: 1800 }), 75)).to.deep.equal([1800]);
+            expect(quantities(regular, order({ tradingsymbol: 'NIFTYNXT5024OCT70000CE', quantity: 1000 }), 25)).to.deep.equal([600, 400]);
+            expect(quantities(regular, order({ tradingsymbol: 'RELIANCE24OCT3000CE', quantity: 5000 }), 250)).to.deep.equal([5000]);
+            expect(quantities(regular, order({ exchange: Exchanges.NSE, tradingsymbol: 'BANKNIFTY', quantity: 5000 }), 1)).to.deep.equal([5000]);
+
+            const custom = new OrderSlicer(paper, tracker, { freeze_quantities: { RELIANCE: 2000 } });
+            expect(custom.slice(regular, order({ tradingsymbol: 'RELIANCE24OCT3000CE', quantity: 5000 }), { lot_size: 250 }).map((slice) => slice.params.quantity)).to.deep.equal([2000, 2000, 1000]);
+            expect(() => slicer.slice(regular, order({ quantity: 2410 }), { lot_size: 30 })).to.throw(InputException);
+        })
+
+        it('splits orders into iceberg legs', () => {
+            const slices = slicer.slice(regular, order({ tradingsymbol: 'NIFTY24OCT24500CE', quantity: 5400 }), { lot_size: 75, mode: 'iceberg' });
+            expect(slices).to.have.length(1);
+            expect(slices[0].variety).to.equal(Varieties.VARIETY_ICEBERG);
+            expect(slices[0].params).to.include({ quantity: 5400, iceberg_legs: 3, iceberg_quantity: 1800 });
+
+            const large = slicer.slice(regular, order({ quantity: 900 * 51 }), { lot_size: 30, mode: 'iceberg', freeze_quantity: 900 });
+            expect(large.map((slice) => [slice.variety, slice.params.quantity, slice.params.iceberg_legs])).to.deep.equal([
+                ['iceberg', 45000, 50], ['regular', 900, undefined]
+            ]);
+            expect(() => slicer.slice(Varieties.VARIETY_AMO, order(), { lot_size: 30, mode: 'iceberg' })).to.throw(InputException);
+        })
+
+        it('places the child orders and combines their fills', async () => {
+            paper.updatePrice('NFO:BANKNIFTY24OCT51000CE', 105);
+            const sliced = await slicer.placeOrderSliced(regular, order(), { lot_size: 30 });
+            expect(sliced.order_ids).to.deep.equal(['1', '2', '3']);
+            expect(sliced.getStatus()).to.include({ state: 'OPEN', quantity: 2400, filled_quantity: 0, pending_quantity: 2400 });
+
+            const fills: number[] = [];
+            sliced.on('fill', (status, quantity) => fills.push(quantity));
+            const filled = sliced.waitForFill(1000);
+            paper.updatePrice('NFO:BANKNIFTY24OCT51000CE', 99);
+
+            const status = await filled;
+            expect(status).to.include({ state: 'COMPLETE', filled_quantity: 2400, pending_quantity: 0, average_price: 99 });
+            expect(fills).to.deep.equal([900, 900, 600]);
+            expect((await paper.getOrders()).map((o) => o.quantity)).to.deep.equal([900, 900, 600]);
+        })
+
+        it('hands over the placed child orders when placing one fails', async () => {
+            const cancelled: string[] = [];
+            let sequence = 0;
+            const kite = {
+                placeOrder: () => ++sequence < 3 ? Promise.resolve({ order_id: String(sequence) }) : Promise.reject(new Error('Too many requests')),
+                cancelOrder: (variety: Varieties, order_id: string | number) => {
+                    cancelled.push(String(order_id));
+                    return Promise.resolve({ order_id: String(order_id) });
+                }
+            };
+            slicer = new OrderSlicer(kite, tracker, { interval: 1 });
+
+            const error = await slicer.placeOrderSliced(regular, order(), { lot_size: 30 }).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Placed 2 of 3 orders of BANKNIFTY24OCT51000CE: Too many requests');
+            const sliced = error.data as SlicedOrder;
+            expect(sliced.quantity).to.equal(1800);
+            await sliced.cancel();
+            expect(cancelled).to.deep.equal(['1', '2']);
+            sliced.stop();
+        })
+    });
+}
@@ -0,0 +1,180 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { expect } from 'chai';
+import { OrderTracker } from '../lib/order-tracker';
+import { OrderException } from '../lib/errors';
+import { paperBroker } from './fixtures';
+import { Exchanges, Order, OrderState, OrderTypes, Products, TransactionTypes, Varieties } from '../interfaces';
+
+// run testsuite
+testOrderTracker();
+
+function testOrderTracker() {
+    describe('OrderTracker', function() {
+        let book: Order[];
+        let calls: number;
+        let stream: EventEmitter;
+        let tracker: OrderTracker;
+        const kite = {
+            getOrders: () => {
+                calls++;
+                return Promise.resolve(book.map((order) => ({ ...order })));
+            }
+        };
+
+        function update(status: string, filled_quantity = 0, order_id = '1', timestamp?: string): Order {
+            return {
+                order_id: order_id, status: status, quantity: 10, filled_quantity: filled_quantity, pending_quantity: 10 - filled_quantity,
+                average_price: filled_quantity ? 100 : 0, ...(timestamp ? { exchange_update_timestamp: timestamp } : {})
+            };
+        }
+
+        beforeEach(() => {
+            book = [];
+            calls = 0;
+            stream = new EventEmitter();
+            tracker = new OrderTracker(kite, { reconcile_interval: 0 });
+            tracker.attach(stream);
+        });
+
+        afterEach(() => tracker.stop());
+
+        it('follows the order states and ignores late updates', () => {
+            const changes: [OrderState, OrderState | null][] = [];
+            const fills: number[] = [];
+            tracker.on('change', (order, previous) => changes.push([order.state, previous]));
+            tracker.on('fill', (order, quantity) => fills.push(quantity));
+
+            tracker.track('1');
+            stream.emit('order_update', update('VALIDATION PENDING'));
+            stream.emit('order_update', update('OPEN'));
+            stream.emit('order_update', update('OPEN', 4));
+            // Arrives after the partial fill
+            stream.emit('order_update', update('OPEN PENDING'));
+            stream.emit('order_update', update('COMPLETE', 10));
+            stream.emit('order_update', update('CANCELLED', 4));
+
+            expect(changes).to.deep.equal([
+                ['OPEN', 'PENDING'], ['PARTIALLY FILLED', 'OPEN'], ['COMPLETE', 'PARTIALLY FILLED']
+            ]);
+            expect(fills).to.deep.equal([4, 6]);
+            expect(tracker.getOrder(1)).to.include({ state: 'COMPLETE', filled_quantity: 10, source: 'stream' });
+            expect(tracker.getOrders(['OPEN'])).to.have.length(0);
+        })
+
+        it('orders updates of the same fill by their exchange timestamps', () => {
+            tracker.track('1');
+            stream.emit('order_update', update('OPEN', 0, '1', '2024-10-17 09:30:00'));
+            // Modified to a stop loss order
+            stream.emit('order_update', update('TRIGGER PENDING', 0, '1', '2024-10-17 09:30:05'));
+            expect(tracker.getOrder('1')).to.include({ state: 'TRIGGER PENDING' });
+
+            // Arrives after the modification
+            stream.emit('order_update', update('OPEN', 0, '1', '2024-10-17 09:30:01'));
+            expect(tracker.getOrder('1')).to.include({ state: 'TRIGGER PENDING' });
+        })
+
+        it('does not compare the timestamps of updates and the order book', async () => {
+            tracker.track('1');
+            stream.emit('order_update', update('TRIGGER PENDING', 0, '1', '2024-10-17 09:30:05'));
+            // 09:30:06 IST, earlier than the update read as UTC
+            book = [{ ...update('CANCELLED'), exchange_timestamp: new Date('2024-10-17T04:00:06Z') }];
+            await tracker.reconcile();
+            expect(tracker.getOrder('1')).to.include({ state: 'CANCELLED', source: 'reconcile' });
+        })
+
+        it('only keeps the tracked orders', () => {
+            stream.emit('order_update', update('OPEN', 0, '2'));
+            stream.emit('order_update', update('OPEN', 0, '3'));
+            expect(tracker.getOrders()).to.have.length(0);
+            expect(tracker.getOrder('3')).to.equal(null);
+
+            // Updates that arrived before the order was tracked are applied
+            expect(tracker.track('2')).to.include({ state: 'OPEN', source: 'stream' });
+            expect(tracker.getOrders().map((order) => order.order_id)).to.deep.equal(['2']);
+        })
+
+        it('reconciles missed updates with the order book', async () => {
+            const missed: OrderState[] = [];
+            tracker.on('missed_update', (order) => missed.push(order.state));
+
+            tracker.track('1');
+            tracker.track('2');
+            stream.emit('order_update', update('OPEN'));
+            stream.emit('order_update', update('TRIGGER PENDING', 0, '2'));
+            book = [update('COMPLETE', 10), update('TRIGGER PENDING', 0, '2'), update('REJECTED', 0, '3')];
+            await Promise.all([tracker.reconcile(), tracker.reconcile()]);
+
+            expect(calls).to.equal(1);
+            expect(missed).to.deep.equal(['COMPLETE']);
+            // Orders not passed to track are not followed
+            expect(tracker.getOrder('3')).to.equal(null);
+            expect(tracker.getOrder('1')).to.include({ state: 'COMPLETE', source: 'reconcile' });
+            expect(tracker.getOrder('2')).to.include({ state: 'TRIGGER PENDING', source: 'stream' });
+        })
+
+        it('waits for fills', async () => {
+            const filled = tracker.waitForFill('1', 1000);
+            stream.emit('order_update', update('OPEN'));
+            stream.emit('order_update', update('COMPLETE', 10));
+            expect(await filled).to.include({ order_id: '1', average_price: 100 });
+
+            // Already complete
+            expect((await tracker.waitForFill(1)).state).to.equal('COMPLETE');
+
+            const rejected = tracker.waitForFill('2', 1000).catch((e) => e);
+            stream.emit('order_update', { ...update('REJECTED', 0, '2'), status_message: 'Insufficient funds' });
+            const error = await rejected;
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Order 2 rejected: Insufficient funds');
+            expect(error.data.state).to.equal('REJECTED');
+        })
+
+        it('checks the order book once more before timing out', async () => {
+            stream.emit('order_update', update('OPEN'));
+            book = [update('COMPLETE', 10)];
+            expect((await tracker.waitForFill('1', 10)).source).to.equal('reconcile');
+
+            stream.emit('order_update', update('OPEN', 0, '2'));
+            book = [update('OPEN', 0, '2')];
+            const error = await tracker.waitForFill('2', 10).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Order 2 not filled within 10ms');
+        })
+
+        it('reconciles periodically while orders are pending', async () => {
+            tracker = new OrderTracker(kite, { reconcile_interval: 10 });
+            tracker.track('1');
+            book = [update('OPEN')];
+            setTimeout(() => book = [update('COMPLETE', 10)], 30);
+
+            expect((await tracker.waitForFill('1', 1000)).state).to.equal('COMPLETE');
+            const count = calls;
+            expect(count).to.be.at.least(2);
+            await new Promise((resolve) => setTimeout(resolve, 40));
+            expect(calls).to.equal(count);
+
+            // Pending orders that were not passed to track do not keep it polling
+            tracker.attach(stream);
+            stream.emit('order_update', update('OPEN', 0, '3'));
+            book = [update('OPEN', 0, '3'), update('OPEN', 0, '4')];
+            await new Promise((resolve) => setTimeout(resolve, 40));
+            expect(calls).to.equal(count);
+        })
+
+        it('tracks the orders of a paper broker', async () => {
+            const broker = paperBroker();
+            const paper = broker.paper;
+            tracker = broker.tracker;
+
+            const { order_id } = await paper.placeOrder(Varieties.VARIETY_REGULAR, {
+                exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.BUY,
+                quantity: 10, product: Products.MIS, order_type: OrderTypes.LIMIT, price: 1500
+            });
+            const filled = tracker.waitForFill(order_id, 1000);
+            paper.updatePrice('NSE:INFY', 1495);
+            expect(await filled).to.include({ state: 'COMPLETE', average_price: 1495, source: 'stream' });
+        })
+    });
+}
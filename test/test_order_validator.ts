@@ -0,0 +1,95 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { OrderValidator } from '../lib/order-validator';
+import { InputException } from '../lib/errors';
+import { Exchanges, Instrument, OrderTypes, Products, TransactionTypes, Validities, Varieties } from '../interfaces';
+import { instrumentStore, orderFactory } from './fixtures';
+
+// run testsuite
+testOrderValidator();
+
+function testOrderValidator() {
+    const root = 'http://validator.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root });
+    const infy = { instrument_token: '408065', exchange: 'NSE', tradingsymbol: 'INFY', tick_size: 0.05, lot_size: 1 } as Instrument;
+    const option = { instrument_token: '1001', exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', tick_size: 0.05, lot_size: 75 } as Instrument;
+    const instruments = instrumentStore([infy, option]);
+    const order = orderFactory({
+        exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: TransactionTypes.BUY,
+        quantity: 75, product: Products.NRML, order_type: OrderTypes.LIMIT, price: 120.5
+    });
+
+    describe('OrderValidator', function() {
+        const validator = new OrderValidator(kc, instruments);
+
+        afterEach(() => {
+            kc.setOrderValidator(null);
+            nock.cleanAll();
+        });
+
+        it('checks prices against the tick size and quantities against the lot size', () => {
+            const regular = Varieties.VARIETY_REGULAR;
+            expect(validator.check(regular, order())).to.deep.equal([]);
+            expect(validator.check(regular, order({ quantity: 100, price: 120.52 }))).to.deep.equal([
+                'quantity 100 is not a multiple of the lot size 75',
+                'price 120.52 is not a multiple of the tick size 0.05'
+            ]);
+            expect(validator.check(regular, order({ quantity: 0 }))).to.deep.equal(['quantity 0 is not a positive whole number']);
+            expect(validator.check(regular, order({ tradingsymbol: 'NIFTY24OCT24550CE' }))).to.deep.equal(['unknown instrument']);
+        })
+
+        it('checks the order type against the variety and validity', () => {
+            const regular = Varieties.VARIETY_REGULAR;
+            expect(validator.check(regular, order({ order_type: OrderTypes.SL }))).to.deep.equal(['trigger price is required for SL orders']);
+            expect(validator.check(regular, order({ order_type: OrderTypes.SL, trigger_price: 121 }))).to.deep.equal(['trigger price of BUY SL orders must be at most the price']);
+            expect(validator.check(regular, order({ order_type: OrderTypes.MARKET, trigger_price: 110 }))).to.deep.equal([
+                'price is not allowed for MARKET orders',
+                'trigger price is not allowed for MARKET orders'
+            ]);
+            expect(validator.check(regular, order({ order_type: OrderTypes.SLM, price: undefined, trigger_price: 110, validity: Validities.IOC }))).to.deep.equal(['IOC validity is not allowed for SL-M orders']);
+            expect(validator.check(regular, order({ validity: Validities.TTL }))).to.deep.equal(['validity ttl in minutes is required for TTL validity']);
+            expect(validator.check(regular, order({ validity: Validities.TTL, validity_ttl: 5 }))).to.deep.equal([]);
+            expect(validator.check(Varieties.VARIETY_AMO, order({ validity: Validities.IOC }))).to.deep.equal(['IOC validity is not allowed for after market orders']);
+            expect(validator.check(Varieties.VARIETY_CO, order({ product: Products.MIS, trigger_price: 110 }))).to.deep.equal([]);
+            expect(validator.check(Varieties.VARIETY_CO, order())).to.deep.equal([
+                'trigger price is required for cover orders',
+                'cover orders must use the MIS product'
+            ]);
+            expect(validator.check(Varieties.VARIETY_ICEBERG, order({ quantity: 750, iceberg_legs: 4, iceberg_quantity: 150 }))).to.deep.equal(['iceberg legs of 150 do not add up to the quantity 750']);
+            expect(validator.check(Varieties.VARIETY_ICEBERG, order({ quantity: 750, iceberg_legs: 5, iceberg_quantity: 150 }))).to.deep.equal([]);
+        })
+
+        it('checks trigger prices against the trigger range', async () => {
+            const scope = nock(root)
+                .get('/instruments/trigger_range/sell').query(true)
+                .reply(200, { 'status': 'success', 'data': { 'NFO:NIFTY24OCT24500CE': { 'instrument_token': 1001, 'lower': 95.5, 'upper': 140.25, 'percentage': 20 } } });
+
+            const params = order({ transaction_type: TransactionTypes.SELL, order_type: OrderTypes.SL, price: 90, trigger_price: 92 });
+            const error = await validator.validate(Varieties.VARIETY_REGULAR, params).catch((e) => e);
+            expect(scope.isDone()).to.equal(true);
+            expect(error).to.be.an.instanceof(InputException);
+            expect(error.message).to.equal('Invalid order for NFO:NIFTY24OCT24500CE: trigger price 92 is outside the trigger range 95.50 - 140.25');
+            expect(error.data).to.deep.equal(['trigger price 92 is outside the trigger range 95.50 - 140.25']);
+        })
+
+        it('rejects invalid orders in placeOrder without sending them', async () => {
+            const scope = nock(root)
+                .post('/orders/regular')
+                .reply(200, { 'status': 'success', 'data': { 'order_id': '151220000000000' } });
+            kc.setOrderValidator(new OrderValidator(kc, instruments, { trigger_range: false }));
+
+            const error = await kc.placeOrder(Varieties.VARIETY_REGULAR, order({ quantity: 30 })).catch((e: Error) => e);
+            expect(error).to.be.an.instanceof(InputException);
+            expect(scope.isDone()).to.equal(false);
+
+            const response = await kc.placeOrder(Varieties.VARIETY_REGULAR, order());
+            expect(response.order_id).to.equal('151220000000000');
+            expect(scope.isDone()).to.equal(true);
+        })
+    });
+}
@@ -0,0 +1,162 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { expect } from 'chai';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { InputException, OrderException } from '../lib/errors';
+import { Exchanges, Instrument, Order, OrderTypes, Products, Tick, TransactionTypes, Validities, Varieties } from '../interfaces';
+import { instrumentStore, orderFactory } from './fixtures';
+
+// run testsuite
+testPaperKiteConnect();
+
+function testPaperKiteConnect() {
+    const infy = { instrument_token: '408065', exchange: 'NSE', tradingsymbol: 'INFY', instrument_type: 'EQ' } as Instrument;
+    const option = { instrument_token: '1001', exchange: 'NFO', tradingsymbol: 'NIFTY24OCT24500CE', instrument_type: 'CE' } as Instrument;
+    const instruments = instrumentStore([infy, option]);
+    const order = orderFactory({
+        exchange: Exchanges.NSE, tradingsymbol: 'INFY', transaction_type: TransactionTypes.BUY,
+        quantity: 10, product: Products.MIS, order_type: OrderTypes.MARKET
+    });
+
+    function tick(last_price: number, bid?: number, ask?: number): Tick {
+        return {
+            tradable: true, mode: 'full', instrument_token: 408065, last_price: last_price,
+            depth: { buy: bid ? [{ price: bid, quantity: 10, orders: 1 }] : [], sell: ask ? [{ price: ask, quantity: 10, orders: 1 }] : [] }
+        } as unknown as Tick;
+    }
+
+    describe('PaperKiteConnect', function() {
+        let paper: PaperKiteConnect;
+        let ticker: EventEmitter;
+
+        beforeEach(() => {
+            paper = new PaperKiteConnect({ opening_balance: 100000 }, instruments);
+            ticker = new EventEmitter();
+            paper.attach(ticker);
+        });
+
+        it('fills market and limit orders against ticks', async () => {
+            const updates: Order[] = [];
+            paper.on('order_update', (update: Order) => updates.push(update));
+
+            const market = await paper.placeOrder(Varieties.VARIETY_REGULAR, order());
+            const limit = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ transaction_type: TransactionTypes.SELL, order_type: OrderTypes.LIMIT, price: 1510 }));
+            expect(updates.map((o) => o.status)).to.deep.equal(['OPEN', 'OPEN']);
+
+            // Market buys fill at the best offer
+            ticker.emit('ticks', [tick(1500, 1499.5, 1500.5)]);
+            let orders = await paper.getOrders();
+            expect(orders[0]).to.include({ order_id: market.order_id, status: 'COMPLETE', average_price: 1500.5, filled_quantity: 10 });
+            expect(orders[1].status).to.equal('OPEN');
+
+            // Limit sells fill once the best bid reaches the price
+            ticker.emit('ticks', [tick(1512, 1511, 1513)]);
+            orders = await paper.getOrders();
+            expect(orders[1]).to.include({ order_id: limit.order_id, status: 'COMPLETE', average_price: 1511 });
+
+            const trades = await paper.getTrades();
+            expect(trades.map((t) => [t.order_id, t.quantity, t.average_price, t.instrument_token])).to.deep.equal([
+                [market.order_id, 10, 1500.5, 408065], [limit.order_id, 10, 1511, 408065]
+            ]);
+            expect(updates.map((o) => o.status)).to.deep.equal(['OPEN', 'OPEN', 'COMPLETE', 'COMPLETE']);
+
+            paper.detach();
+            ticker.emit('ticks', [tick(1400)]);
+            expect((await paper.getPositions()).net[0].last_price).to.equal(1512);
+        })
+
+        it('triggers stop-loss orders', async () => {
+            const updates: Order[] = [];
+            paper.on('order_update', (update: Order) => updates.push(update));
+            paper.updatePrice('NSE:INFY', 1500, new Date('2024-10-17T04:00:00Z'));
+            const sl = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ order_type: OrderTypes.SL, trigger_price: 1520, price: 1525 }));
+            const slm = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ transaction_type: TransactionTypes.SELL, order_type: OrderTypes.SLM, trigger_price: 1490 }));
+
+            paper.updatePrice('NSE:INFY', 1530);
+            let history = await paper.getOrderHistory(sl.order_id);
+            expect(history.map((o) => o.status)).to.deep.equal(['TRIGGER PENDING', 'OPEN']);
+
+            await paper.modifyOrder(Varieties.VARIETY_REGULAR, sl.order_id, { price: 1535 });
+            history = await paper.getOrderHistory(sl.order_id);
+            expect(history.map((o) => o.status)).to.deep.equal(['TRIGGER PENDING', 'OPEN', 'OPEN', 'COMPLETE']);
+            expect(history[3]).to.include({ average_price: 1530, modified: true, exchange_update_timestamp: '2024-10-17 09:30:00' });
+            expect(history[3].order_timestamp).to.be.an.instanceof(Date);
+            // Order updates carry every timestamp in the format of the API
+            expect(updates[4]).to.include({
+                order_timestamp: '2024-10-17 09:30:00', exchange_timestamp: '2024-10-17 09:30:00', exchange_update_timestamp: '2024-10-17 09:30:00'
+            });
+
+            paper.updatePrice('NSE:INFY', 1485);
+            history = await paper.getOrderHistory(slm.order_id);
+            expect(history.map((o) => o.status)).to.deep.equal(['TRIGGER PENDING', 'COMPLETE']);
+            expect(history[1].average_price).to.equal(1485);
+        })
+
+        it('tracks positions, P&L and margins', async () => {
+            paper.updatePrice('NSE:INFY', 100);
+            await paper.placeOrder(Varieties.VARIETY_REGULAR, order());
+            paper.updatePrice('NSE:INFY', 110);
+            await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ transaction_type: TransactionTypes.SELL, quantity: 4 }));
+            paper.updatePrice('NSE:INFY', 120);
+
+            const { net } = await paper.getPositions();
+            expect(net).to.have.length(1);
+            expect(net[0]).to.include({ quantity: 6, average_price: 100, realised: 40, unrealised: 120, pnl: 160, buy_value: 1000, sell_value: 440 });
+
+            // 6 x 100 x 20% blocked for the MIS position
+            const margins = await paper.getMargins('equity');
+            expect(margins.utilised.span).to.equal(120);
+            expect(margins.net).to.equal(100000 + 160 - 120);
+
+            // Option buyers pay the full premium
+            paper.updatePrice('NFO:NIFTY24OCT24500CE', 100);
+            await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', quantity: 50, product: Products.NRML }));
+            const all = await paper.getMargins();
+            expect(all.equity?.utilised.option_premium).to.equal(5000);
+            expect(all.commodity?.net).to.equal(0);
+        })
+
+        it('rejects orders exceeding the available funds', async () => {
+            const { order_id } = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ product: Products.CNC, order_type: OrderTypes.LIMIT, price: 15000 }));
+            const [rejected] = await paper.getOrderHistory(order_id);
+            expect(rejected.status).to.equal('REJECTED');
+            expect(rejected.status_message).to.equal('Insufficient funds. Required margin is 150000.00 but available margin is 100000.00.');
+
+            // Closing orders block no margin
+            paper.updatePrice('NSE:INFY', 1000);
+            await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ quantity: 100, product: Products.CNC }));
+            const exit = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ transaction_type: TransactionTypes.SELL, quantity: 100, product: Products.CNC, order_type: OrderTypes.LIMIT, price: 1100 }));
+            expect((await paper.getOrderHistory(exit.order_id))[0].status).to.equal('OPEN');
+        })
+
+        it('checks the margin of modified orders', async () => {
+            paper.updatePrice('NSE:INFY', 1000);
+            const { order_id } = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ quantity: 100, product: Products.CNC, order_type: OrderTypes.LIMIT, price: 900 }));
+
+            const error = await paper.modifyOrder(Varieties.VARIETY_REGULAR, order_id, { quantity: 120 }).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(error.message).to.equal('Insufficient funds. Additional margin required is 18000.00 but available margin is 10000.00.');
+            expect((await paper.getOrderHistory(order_id)).map((o) => o.quantity)).to.deep.equal([100]);
+
+            await paper.modifyOrder(Varieties.VARIETY_REGULAR, order_id, { price: 950 });
+            expect((await paper.getMargins('equity')).net).to.equal(5000);
+        })
+
+        it('cancels orders and validates parameters', async () => {
+            paper.updatePrice('NSE:INFY', 1500);
+            const ioc = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ order_type: OrderTypes.LIMIT, price: 1400, validity: Validities.IOC }));
+            expect((await paper.getOrderHistory(ioc.order_id)).map((o) => o.status)).to.deep.equal(['OPEN', 'CANCELLED']);
+
+            const limit = await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ order_type: OrderTypes.LIMIT, price: 1400 }));
+            await paper.cancelOrder(Varieties.VARIETY_REGULAR, limit.order_id);
+            const [cancelled] = await paper.getOrders().then((orders) => orders.filter((o) => o.order_id === limit.order_id));
+            expect(cancelled).to.include({ status: 'CANCELLED', cancelled_quantity: 10, pending_quantity: 0 });
+
+            expect(await paper.cancelOrder(Varieties.VARIETY_REGULAR, limit.order_id).catch((e) => e)).to.be.an.instanceof(InputException);
+            expect(await paper.getOrderHistory('unknown').catch((e) => e)).to.be.an.instanceof(InputException);
+            expect(await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ order_type: OrderTypes.LIMIT })).catch((e) => e)).to.be.an.instanceof(InputException);
+            expect(await paper.placeOrder(Varieties.VARIETY_REGULAR, order({ order_type: OrderTypes.SLM })).catch((e) => e)).to.be.an.instanceof(InputException);
+        })
+    });
+}
@@ -0,0 +1,186 @@
+'use strict';
+
+import { EventEmitter } from 'events';
+import { expect } from 'chai';
+import { OrderTracker } from '../lib/order-tracker';
+import { PaperKiteConnect } from '../lib/paper-kite-connect';
+import { ProtectionManager } from '../lib/protection-manager';
+import { InputException, OrderException } from '../lib/errors';
+import { paperBroker } from './fixtures';
+import { Exchanges, ModifyOrderParams, Order, OrderTypes, PlaceGTTParams, PlaceOrderParams, Products, ProtectParams, TransactionTypes, Varieties } from '../interfaces';
+
+// run testsuite
+testProtectionManager();
+
+function testProtectionManager() {
+    const symbol = 'NFO:NIFTY24OCT24500CE';
+    const params: ProtectParams = {
+        exchange: Exchanges.NFO, tradingsymbol: 'NIFTY24OCT24500CE', transaction_type: TransactionTypes.BUY,
+        quantity: 75, product: Products.NRML, stop_loss: 90, stop_limit_price: 88, target: 160
+    };
+
+    describe('ProtectionManager', function() {
+        let paper: PaperKiteConnect;
+        let tracker: OrderTracker;
+        let protection: ProtectionManager;
+
+        beforeEach(async () => {
+            ({ paper, tracker } = paperBroker());
+            protection = new ProtectionManager(paper, tracker);
+
+            paper.updatePrice(symbol, 100);
+            await paper.placeOrder(Varieties.VARIETY_REGULAR, { ...params, order_type: OrderTypes.MARKET });
+        });
+
+        afterEach(() => tracker.stop());
+
+        it('cancels the target when the stop loss fills', async () => {
+            const exits: string[] = [];
+            protection.on('exit', (position, leg) => exits.push(leg));
+
+            const position = await protection.protect(params);
+            let orders = await paper.getOrders();
+            expect(orders[1]).to.include({ order_id: position.stop_order_id, order_type: 'SL', trigger_price: 90, price: 88, transaction_type: 'SELL', status: 'TRIGGER PENDING' });
+            expect(orders[2]).to.include({ order_id: position.target_order_id, order_type: 'LIMIT', price: 160, status: 'OPEN' });
+
+            paper.updatePrice(symbol, 89);
+            await new Promise((resolve) => setImmediate(resolve));
+            orders = await paper.getOrders();
+            expect(orders[1]).to.include({ status: 'COMPLETE', average_price: 89 });
+            expect(orders[2].status).to.equal('CANCELLED');
+            expect(exits).to.deep.equal(['stop']);
+            expect(protection.getPosition(position.id)).to.include({ state: 'exited', exit_reason: 'stop', remaining_quantity: 0 });
+            expect((await paper.getPositions()).net[0].quantity).to.equal(0);
+        })
+
+        it('trails the stop loss and cancels it when the target fills', async () => {
+            const position = await protection.protect(params);
+            paper.updatePrice(symbol, 130);
+
+            expect(await protection.trail(position.id, 85)).to.equal(false);
+            expect(await protection.trail(position.id, 120)).to.equal(true);
+            const [, stop] = await paper.getOrders();
+            expect(stop).to.include({ trigger_price: 120, price: 118, modified: true });
+            expect(protection.getPosition(position.id)).to.include({ stop_loss: 120, stop_limit_price: 118 });
+
+            paper.updatePrice(symbol, 161);
+            await new Promise((resolve) => setImmediate(resolve));
+            const orders = await paper.getOrders();
+            expect(orders.map((o) => o.status)).to.deep.equal(['COMPLETE', 'CANCELLED', 'COMPLETE']);
+            expect(protection.getPositions()).to.have.length(0);
+
+            const error = await protection.trail(position.id, 130).catch((e) => e);
+            expect(error).to.be.an.instanceof(InputException);
+        })
+
+        it('releases the protection and reports legs cancelled elsewhere', async () => {
+            const errors: Error[] = [];
+            protection.on('error', (error) => errors.push(error));
+
+            const released = await protection.protect(params);
+            await protection.release(released.id);
+            expect((await paper.getOrders()).slice(1).map((o) => o.status)).to.deep.equal(['CANCELLED', 'CANCELLED']);
+            expect(errors).to.have.length(0);
+
+            const position = await protection.protect({ ...params, stop_limit_price: undefined, target: undefined });
+            expect(position.target_order_id).to.equal(null);
+            expect((await paper.getOrders())[3]).to.include({ order_type: 'SL-M', trigger_price: 90 });
+            await paper.cancelOrder(Varieties.VARIETY_REGULAR, position.stop_order_id as string);
+            expect(errors[0]).to.be.an.instanceof(OrderException);
+            expect(errors[0].message).to.equal('Stop loss order ' + position.stop_order_id + ' of NIFTY24OCT24500CE cancelled');
+        })
+
+        it('keeps the position active with its stop loss when a cancellation fails', async () => {
+            let stop_order_id: string | null = null;
+            const kite = {
+                placeOrder: paper.placeOrder.bind(paper),
+                modifyOrder: paper.modifyOrder.bind(paper),
+                cancelOrder: (variety: Varieties, order_id: string | number) => order_id === stop_order_id
+                    ? Promise.reject(new OrderException('Order cannot be cancelled'))
+                    : paper.cancelOrder(variety, order_id)
+            };
+            protection = new ProtectionManager(kite, tracker);
+            const exits: string[] = [];
+            protection.on('exit', (position, leg) => exits.push(leg));
+
+            const position = await protection.protect(params);
+            stop_order_id = position.stop_order_id;
+            const error = await protection.release(position.id).catch((e) => e);
+            expect(error).to.be.an.instanceof(OrderException);
+            expect(protection.getPosition(position.id)?.state).to.equal('active');
+            // The target is cancelled first, the stop loss still rests
+            expect((await paper.getOrders()).slice(1).map((o) => o.status)).to.deep.equal(['TRIGGER PENDING', 'CANCELLED']);
+
+            paper.updatePrice(symbol, 89);
+            await new Promise((resolve) => setImmediate(resolve));
+            expect(exits).to.deep.equal(['stop']);
+            expect(protection.getPosition(position.id)).to.include({ state: 'exited', remaining_quantity: 0 });
+        })
+
+        it('shrinks the other leg after a partial fill', async () => {
+            const stream = new EventEmitter();
+            const calls: [string, string, unknown][] = [];
+            let sequence = 0;
+            const kite = {
+                placeOrder: (variety: Varieties, order: PlaceOrderParams) => {
+                    calls.push(['place', String(++sequence), order.order_type]);
+                    return Promise.resolve({ order_id: String(sequence) });
+                },
+                modifyOrder: (variety: Varieties, order_id: string | number, modify: ModifyOrderParams) => {
+                    calls.push(['modify', String(order_id), modify.quantity]);
+                    return Promise.resolve({ order_id: String(order_id) });
+                },
+                cancelOrder: (variety: Varieties, order_id: string | number) => {
+                    calls.push(['cancel', String(order_id), null]);
+                    return Promise.resolve({ order_id: String(order_id) });
+                }
+            };
+            tracker = new OrderTracker({ getOrders: () => Promise.resolve([]) }, { reconcile_interval: 0 });
+            tracker.attach(stream);
+            protection = new ProtectionManager(kite, tracker);
+
+            const position = await protection.protect(params);
+            const update = (filled_quantity: number, status: string): Order => ({ order_id: position.target_order_id as string, status: status, quantity: 75, filled_quantity: filled_quantity });
+            stream.emit('order_update', update(25, 'OPEN'));
+            stream.emit('order_update', update(75, 'COMPLETE'));
+            expect(calls).to.deep.equal([
+                ['place', '1', 'SL'], ['place', '2', 'LIMIT'], ['modify', '1', 50], ['cancel', '1', null]
+            ]);
+        })
+
+        it('protects positions with an OCO GTT', async () => {
+            const gtts: [string, PlaceGTTParams | number][] = [];
+            const kite = {
+                placeOrder: paper.placeOrder.bind(paper),
+                modifyOrder: paper.modifyOrder.bind(paper),
+                cancelOrder: paper.cancelOrder.bind(paper),
+                placeGTT: (gtt: PlaceGTTParams) => {
+                    gtts.push(['place', gtt]);
+                    return Promise.resolve({ trigger_id: 7 });
+                },
+                modifyGTT: (trigger_id: string | number, gtt: PlaceGTTParams) => {
+                    gtts.push(['modify', gtt]);
+                    return Promise.resolve({ trigger_id: 7 });
+                },
+                deleteGTT: (trigger_id: string | number) => {
+                    gtts.push(['delete', Number(trigger_id)]);
+                    return Promise.resolve({ trigger_id: 7 });
+                }
+            };
+            protection = new ProtectionManager(kite, tracker);
+
+            expect(await protection.protect({ ...params, mode: 'gtt' }).catch((e) => e)).to.be.an.instanceof(InputException);
+            const position = await protection.protect({ ...params, mode: 'gtt', last_price: 100 });
+            expect(position.trigger_id).to.equal(7);
+            await protection.trail(position.id, 110, 140);
+            await protection.release(position.id);
+
+            const [place, modify, remove] = gtts;
+            expect((place[1] as PlaceGTTParams).trigger_values).to.deep.equal([90, 160]);
+            expect((place[1] as PlaceGTTParams).orders.map((o) => [o.transaction_type, o.order_type, o.price])).to.deep.equal([['SELL', 'LIMIT', 88], ['SELL', 'LIMIT', 160]]);
+            expect((modify[1] as PlaceGTTParams).trigger_values).to.deep.equal([110, 160]);
+            expect((modify[1] as PlaceGTTParams).last_price).to.equal(140);
+            expect(remove).to.deep.equal(['delete', 7]);
+        })
+    });
+}
@@ -0,0 +1,110 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { BatchException, NetworkException } from '../lib/errors';
+
+// run testsuite
+testQuoteBatches();
+
+function symbols(count: number): string[] {
+    const list = [];
+    for (let i = 0; i < count; i++) list.push('NSE:SYM' + i);
+    return list;
+}
+
+function ltpResponse(uri: string) {
+    const data: { [symbol: string]: object } = {};
+    for (const symbol of new URL(uri, 'http://localhost').searchParams.getAll('i')) {
+        data[symbol] = { 'instrument_token': 1, 'last_price': 100 };
+    }
+    return { 'status': 'success', 'data': data };
+}
+
+function testQuoteBatches() {
+    const root = 'http://batches.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({ 'api_key': 'your api_key', 'root': root, 'rate_limit': { 'market.quote': { 'rate': 100 } } });
+
+    describe('batched quotes', function() {
+        it('splits getLTP over the per request limit and merges the results', async () => {
+            const sizes: number[] = [];
+            const scope = nock(root)
+                .get('/quote/ltp').query(true).times(3)
+                .reply(200, (uri) => {
+                    sizes.push(new URL(uri, 'http://localhost').searchParams.getAll('i').length);
+                    return ltpResponse(uri);
+                });
+
+            const response = await kc.getLTP(symbols(2500));
+            expect(scope.isDone()).to.equal(true);
+            expect(sizes).to.deep.equal([1000, 1000, 500]);
+            expect(Object.keys(response)).to.have.length(2500);
+            expect(response['NSE:SYM2499'].last_price).to.equal(100);
+        })
+
+        it('formats merged getQuote batches', async () => {
+            nock(root)
+                .get('/quote').query(true).times(2)
+                .reply(200, (uri) => {
+                    const data: { [symbol: string]: object } = {};
+                    for (const symbol of new URL(uri, 'http://localhost').searchParams.getAll('i')) {
+                        data[symbol] = { 'instrument_token': 1, 'last_price': 100, 'timestamp': '2024-10-24 10:00:00', 'last_trade_time': '2024-10-24 09:59:59' };
+                    }
+                    return { 'status': 'success', 'data': data };
+                });
+
+            const response = await kc.getQuote(symbols(501));
+            expect(Object.keys(response)).to.have.length(501);
+            expect(response['NSE:SYM500'].timestamp).to.be.an.instanceof(Date);
+        })
+
+        it('reports failed batches with the partial results', async () => {
+            nock(root)
+                .get('/quote/ohlc').query(true).reply(200, (uri) => ltpResponse(uri))
+                .get('/quote/ohlc').query(true).reply(503, 'Service Unavailable');
+
+            try {
+                await kc.getOHLC(symbols(1500));
+                throw new Error('Expected rejection');
+            } catch (err) {
+                expect(err).to.be.an.instanceof(BatchException);
+                const batchError = err as BatchException;
+                expect(batchError.route).to.equal('market.quote.ohlc');
+                expect(Object.keys(batchError.data as object)).to.have.length(1000);
+                expect(batchError.failures).to.have.length(1);
+                expect(batchError.failures[0].instruments).to.have.length(500);
+                expect(batchError.failures[0].error).to.be.an.instanceof(NetworkException);
+            }
+        })
+
+        it('rejects with the original error when a single request fails', async () => {
+            nock(root).get('/quote/ltp').query(true).reply(503, 'Service Unavailable');
+
+            try {
+                await kc.getLTP(symbols(10));
+                throw new Error('Expected rejection');
+            } catch (err) {
+                expect(err).to.be.an.instanceof(NetworkException);
+            }
+        })
+
+        it('paces batches when the rate limiter is disabled', async () => {
+            //@ts-ignore
+            const unlimited = new KiteConnect({ 'api_key': 'your api_key', 'root': root, 'rate_limit': false });
+            const times: number[] = [];
+            nock(root)
+                .get('/quote/ltp').query(true).times(2)
+                .reply(200, (uri) => {
+                    times.push(Date.now());
+                    return ltpResponse(uri);
+                });
+
+            await unlimited.getLTP(symbols(1500));
+            expect(times).to.have.length(2);
+            expect(times[1] - times[0]).to.be.at.least(900);
+        })
+    });
+}
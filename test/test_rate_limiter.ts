@@ -0,0 +1,83 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { RateLimiter } from '../lib/rate-limiter';
+import { InputException } from '../lib/errors';
+
+// run testsuite
+testRateLimiter();
+
+function testRateLimiter() {
+    describe('RateLimiter families', function() {
+        const limiter = new RateLimiter();
+
+        it('groups routes by ROUTES key family', () => {
+            expect(limiter.getFamily('market.quote')).to.equal('market.quote');
+            expect(limiter.getFamily('market.quote.ltp')).to.equal('market.quote');
+            expect(limiter.getFamily('market.historical')).to.equal('market.historical');
+            expect(limiter.getFamily('order.place')).to.equal('order');
+            expect(limiter.getFamily('order.margins.basket')).to.equal('order');
+            expect(limiter.getFamily('orders')).to.equal('default');
+            expect(limiter.getFamily('market.instruments')).to.equal('default');
+        })
+    });
+
+    describe('RateLimiter throttling', function() {
+        it('queues requests over the limit instead of failing them', async () => {
+            const limiter = new RateLimiter({ 'market.quote': { 'rate': 20, 'burst': 1 } });
+            const start = Date.now();
+            await Promise.all([
+                limiter.acquire('market.quote'),
+                limiter.acquire('market.quote.ltp'),
+                limiter.acquire('market.quote.ohlc')
+            ]);
+            // Two of the three requests wait for a token at 50ms intervals
+            expect(Date.now() - start).to.be.at.least(90);
+
+            const metrics = limiter.getMetrics()['market.quote'];
+            expect(metrics.total_requests).to.equal(3);
+            expect(metrics.throttled_requests).to.equal(2);
+            expect(metrics.queue_depth).to.equal(0);
+            expect(metrics.max_wait_time).to.be.at.least(90);
+        })
+        it('releases requests for rates below one per second', async () => {
+            const limiter = new RateLimiter({ 'market.quote': { 'rate': 0.5 } });
+            const start = Date.now();
+            await limiter.acquire('market.quote');
+            expect(Date.now() - start).to.be.below(20);
+            expect(() => new RateLimiter({ 'order': { 'rate': 0 } })).to.throw(InputException);
+        })
+        it('does not throttle other families', async () => {
+            const limiter = new RateLimiter({ 'market.quote': { 'rate': 1 } });
+            await limiter.acquire('market.quote');
+            const start = Date.now();
+            await limiter.acquire('order.place');
+            expect(Date.now() - start).to.be.below(20);
+        })
+    });
+
+    describe('KiteConnect rate_limit', function() {
+        const root = 'http://ratelimit.kite.test';
+        //@ts-ignore
+        const kc = new KiteConnect({
+            'api_key': 'your api_key',
+            'root': root,
+            'rate_limit': { 'market.quote': { 'rate': 20, 'burst': 1 } }
+        });
+
+        it('throttles requests and exposes metrics', async () => {
+            nock(root)
+                .get('/quote/ltp').query(true).times(2)
+                .reply(200, { 'status': 'success', 'data': { 'NSE:INFY': { 'instrument_token': 408065, 'last_price': 1500 } } });
+
+            await Promise.all([kc.getLTP('NSE:INFY'), kc.getLTP('NSE:INFY')]);
+            const metrics = kc.getRateLimitMetrics();
+            expect(metrics).to.have.property('market.quote');
+            expect(metrics['market.quote'].total_requests).to.equal(2);
+            expect(metrics['market.quote'].throttled_requests).to.equal(1);
+        })
+    });
+}
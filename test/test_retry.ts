@@ -0,0 +1,117 @@
+'use strict';
+
+import nock from 'nock';
+import { expect } from 'chai';
+//@ts-ignore
+import { KiteConnect } from '../lib/connect';
+import { NetworkException } from '../lib/errors';
+import { resolveRetryPolicy, getBackoffDelay, shouldRetry } from '../lib/retry';
+import { Exchanges, OrderTypes, Products, TransactionTypes, Varieties } from '../interfaces';
+
+// run testsuite
+testRetry();
+
+function testRetry() {
+    const root = 'http://retry.kite.test';
+    //@ts-ignore
+    const kc = new KiteConnect({
+        'api_key': 'your api_key',
+        'root': root,
+        'retry': { 'max_attempts': 3, 'initial_delay': 1, 'max_delay': 5 }
+    });
+    const positions = { 'status': 'success', 'data': { 'net': [], 'day': [] } };
+
+    describe('retry policy', function() {
+        it('computes capped exponential backoff', () => {
+            const policy = resolveRetryPolicy({ 'initial_delay': 100, 'max_delay': 350, 'jitter': false });
+            expect(getBackoffDelay(policy, 1)).to.equal(100);
+            expect(getBackoffDelay(policy, 2)).to.equal(200);
+            expect(getBackoffDelay(policy, 3)).to.equal(350);
+        })
+        it('keeps jittered backoff within bounds', () => {
+            const policy = resolveRetryPolicy({ 'initial_delay': 100 });
+            for (let i = 0; i < 20; i++) {
+                const delay = getBackoffDelay(policy, 2);
+                expect(delay).to.be.at.least(0);
+                expect(delay).to.be.at.most(200);
+            }
+        })
+        it('does not retry non idempotent requests unless opted in', () => {
+            const err = new NetworkException('timeout');
+            expect(shouldRetry(resolveRetryPolicy({}), 'POST', err, 1)).to.equal(false);
+            expect(shouldRetry(resolveRetryPolicy({ 'retry_non_idempotent': true }), 'POST', err, 1)).to.equal(true);
+        })
+        it('uses the custom retry_on predicate', () => {
+            const policy = resolveRetryPolicy({ 'retry_on': (error_type, status) => status === 409 });
+            expect(shouldRetry(policy, 'GET', new NetworkException('conflict', { 'status': 409 }), 1)).to.equal(true);
+            expect(shouldRetry(policy, 'GET', new NetworkException('timeout'), 1)).to.equal(false);
+        })
+    });
+
+    describe('retry GET requests', function() {
+        it('retries 5xx responses until success', (done) => {
+            const scope = nock(root)
+                .get('/portfolio/positions').reply(503, 'Service Unavailable')
+                .get('/portfolio/positions').reply(502, 'Bad Gateway')
+                .get('/portfolio/positions').reply(200, positions);
+
+            kc.getPositions()
+            .then(function(response) {
+                expect(response).to.have.property('net');
+                expect(scope.isDone()).to.equal(true);
+                return done();
+            }).catch(done);
+        })
+        it('gives up after max_attempts', (done) => {
+            const scope = nock(root)
+                .get('/portfolio/positions').times(3).reply(503, 'Service Unavailable');
+
+            kc.getPositions()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: NetworkException) {
+                expect(err).to.be.an.instanceof(NetworkException);
+                expect(err.status).to.equal(503);
+                expect(scope.isDone()).to.equal(true);
+                return done();
+            }).catch(done);
+        })
+        it('does not retry errors outside the policy', (done) => {
+            nock(root)
+                .get('/portfolio/positions').reply(400, {
+                    'status': 'error', 'message': 'Invalid', 'data': null, 'error_type': 'InputException'
+                })
+                .get('/portfolio/positions').reply(200, positions);
+
+            kc.getPositions()
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err) {
+                expect(err.error_type).to.equal('InputException');
+                nock.cleanAll();
+                return done();
+            }).catch(done);
+        })
+    });
+
+    describe('retry order placement', function() {
+        it('never retries order placement by default', (done) => {
+            nock(root)
+                .post('/orders/regular').reply(503, 'Service Unavailable')
+                .post('/orders/regular').reply(200, { 'status': 'success', 'data': { 'order_id': '1' } });
+
+            kc.placeOrder(Varieties.VARIETY_REGULAR, {
+                'exchange': Exchanges.NSE,
+                'tradingsymbol': 'SBIN',
+                'transaction_type': TransactionTypes.BUY,
+                'quantity': 1,
+                'product': Products.MIS,
+                'order_type': OrderTypes.MARKET})
+            .then(() => done(new Error('Expected rejection')))
+            .catch(function(err: NetworkException) {
+                expect(err).to.be.an.instanceof(NetworkException);
+                expect(err.route).to.equal('order.place');
+                nock.cleanAll();
+                return done();
+            }).catch(done);
+        })
+    });
+}
@@ -0,0 +1,84 @@
+'use strict';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { KiteTicker } from '../lib/ticker';
+import { TickRecorder, TickReplayer } from '../lib/tick-recorder';
+
+// run testsuite
+testTickRecorder();
+
+// Binary frame with one LTP packet per token
+function ltpFrame(tokens: number[], price: number): ArrayBuffer {
+    const frame = Buffer.alloc(2 + tokens.length * 10);
+    frame.writeInt16BE(tokens.length, 0);
+    tokens.forEach((token, i) => {
+        frame.writeInt16BE(8, 2 + i * 10);
+        frame.writeInt32BE(token, 4 + i * 10);
+        frame.writeInt32BE(price * 100, 8 + i * 10);
+    });
+    return frame.buffer.slice(frame.byteOffset, frame.byteOffset + frame.length);
+}
+
+function testTickRecorder() {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-ticks-'));
+    const file = path.join(directory, 'session.bin');
+
+    describe('TickRecorder', function() {
+        after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+        it('records frames and order updates to an append-only file', async () => {
+            const ticker = new KiteTicker({ api_key: 'api_key', access_token: 'token', reconnect: false });
+            const recorder = new TickRecorder(ticker, file);
+            recorder.start();
+
+            ticker.emit('message', ltpFrame([256265], 100));
+            ticker.emit('message', ltpFrame([256265, 738561], 101));
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            ticker.emit('order_update', { order_id: '1', status: 'COMPLETE' });
+            ticker.emit('message', new ArrayBuffer(1));
+            await recorder.stop();
+
+            // Messages after stop are not recorded
+            ticker.emit('message', ltpFrame([256265], 102));
+            expect(recorder.count).to.equal(4);
+            expect(fs.statSync(file).size).to.equal(4 * 13 + 12 + 22 + 36 + 1);
+        })
+
+        it('replays the recording through the ticker events at max speed', async () => {
+            const replayer = new TickReplayer(file, { speed: 'max' });
+            const events: string[] = [];
+            replayer.on('connect', () => events.push('connect'));
+            replayer.on('message', (data) => events.push('message:' + data.byteLength));
+            replayer.on('ticks', (ticks) => events.push('ticks:' + ticks.map((t) => t.instrument_token + '@' + t.last_price).join(',')));
+            replayer.on('order_update', (order) => events.push('order:' + order.order_id));
+            replayer.on('disconnect', () => events.push('disconnect'));
+
+            const started = Date.now();
+            await replayer.replay();
+            expect(Date.now() - started).to.be.below(100);
+            expect(events).to.deep.equal([
+                'connect',
+                'message:12', 'ticks:256265@100',
+                'message:22', 'ticks:256265@101,738561@101',
+                'order:1',
+                'message:1',
+                'disconnect'
+            ]);
+        })
+
+        it('keeps the recorded timing relative to the speed and filters subscriptions', async () => {
+            const replayer = new TickReplayer(file, { speed: 2 });
+            const ticks: number[] = [];
+            replayer.subscribe([738561]);
+            replayer.on('ticks', (batch) => ticks.push(...batch.map((t) => t.instrument_token)));
+
+            const started = Date.now();
+            await replayer.replay();
+            expect(Date.now() - started).to.be.within(45, 150);
+            expect(ticks).to.deep.equal([738561]);
+        })
+    });
+}
@@ -2,9 +2,12 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
 import { expect } from 'chai';
 //@ts-ignore
 import { KiteTicker } from '../lib/ticker';
+import { TickerException } from '../lib/errors';
 
 
 // Ticker binary packets
@@ -57,6 +60,151 @@ function testTicker() {
     });
 }
 
+function testTickerInstances() {
+    describe('multiple KiteTicker instances', function() {
+        let server: WebSocket.Server;
+        let root: string;
+        const sockets: { [api_key: string]: WebSocket } = {};
+        const received: { [api_key: string]: object[] } = {};
+
+        before((done) => {
+            server = new WebSocket.Server({ port: 0 }, () => {
+                root = 'ws://127.0.0.1:' + (server.address() as AddressInfo).port + '/';
+                done();
+            });
+            server.on('connection', (socket, req) => {
+                const api_key = new URL(req.url as string, 'ws://localhost').searchParams.get('api_key') as string;
+                sockets[api_key] = socket;
+                received[api_key] = [];
+                socket.on('message', (data) => received[api_key].push(JSON.parse(data.toString())));
+            });
+        });
+
+        after((done) => {
+            server.close(() => done());
+        });
+
+        it('keeps a separate connection and listeners per instance', (done) => {
+            const first = new KiteTicker({ api_key: 'first', access_token: 'token', reconnect: false, root: root });
+            const second = new KiteTicker({ api_key: 'second', access_token: 'token', reconnect: false, root: root });
+            const updates: string[] = [];
+            let connected = 0;
+
+            first.on('order_update', (order) => updates.push('first:' + order.order_id));
+            second.on('order_update', (order) => updates.push('second:' + order.order_id));
+
+            const onConnect = () => {
+                if (++connected < 2) return;
+                expect(first.connected()).to.equal(true);
+                expect(second.connected()).to.equal(true);
+                sockets['first'].send(JSON.stringify({ type: 'order', data: { order_id: '1' } }));
+
+                second.once('close', () => {
+                    expect(updates).to.deep.equal(['first:1']);
+                    // Closing the second instance leaves the first connected
+                    expect(first.connected()).to.equal(true);
+                    first.disconnect();
+                    done();
+                });
+                setTimeout(() => second.disconnect(), 50);
+            };
+            first.once('connect', onConnect);
+            second.once('connect', onConnect);
+
+            first.connect();
+            second.connect();
+        })
+
+        it('replays subscriptions on every connect', (done) => {
+            const ticker = new KiteTicker({ api_key: 'resubscribe', access_token: 'token', reconnect: false, root: root });
+            ticker.subscribe([256265, 738561]);
+            ticker.setMode(ticker.modeFull, [738561]);
+            ticker.unsubscribe([256265]);
+            ticker.subscribe(['408065']);
+            expect(ticker.getSubscriptions()).to.deep.equal({ 408065: 'quote', 738561: 'full' });
+
+            let connects = 0;
+            ticker.on('connect', () => setTimeout(() => {
+                expect(received['resubscribe']).to.deep.equal([
+                    { a: 'subscribe', v: [408065, 738561] },
+                    { a: 'mode', v: ['quote', [408065]] },
+                    { a: 'mode', v: ['full', [738561]] }
+                ]);
+                if (++connects === 1) {
+                    // Connect again once the first connection is gone
+                    ticker.once('disconnect', () => setTimeout(() => ticker.connect(), 10));
+                    sockets['resubscribe'].close();
+                } else {
+                    ticker.disconnect();
+                    done();
+                }
+            }, 50));
+            ticker.connect();
+        })
+
+        it('does not subscribe over the connection limit', () => {
+            const ticker = new KiteTicker({ api_key: 'api_key', access_token: 'token', reconnect: false, max_tokens: 2 });
+            const warnings: string[] = [];
+            const onWarning = (warning: Error) => warnings.push(warning.name);
+            process.on('warning', onWarning);
+
+            expect(ticker.subscribe([1, 2])).to.deep.equal([1, 2]);
+            expect(ticker.subscribe([2, 3])).to.deep.equal([2]);
+            expect(Object.keys(ticker.getSubscriptions())).to.deep.equal(['1', '2']);
+
+            return new Promise((resolve) => setImmediate(resolve)).then(() => {
+                process.removeListener('warning', onWarning);
+                expect(warnings).to.deep.equal(['KiteTickerWarning']);
+            });
+        })
+
+        it('supports once and off', () => {
+            const ticker = new KiteTicker({ api_key: 'api_key', access_token: 'token', reconnect: false });
+            let count = 0;
+            const listener = () => count++;
+
+            ticker.once('noreconnect', listener);
+            ticker.emit('noreconnect');
+            ticker.emit('noreconnect');
+            expect(count).to.equal(1);
+
+            ticker.on('noreconnect', listener);
+            ticker.off('noreconnect', listener);
+            ticker.emit('noreconnect');
+            expect(count).to.equal(1);
+        })
+
+        it('fails without exiting when reconnection is given up and recovers on connect', (done) => {
+            const attempts: number[] = [];
+            const ticker = new KiteTicker({
+                api_key: 'recover', access_token: 'token', root: 'ws://127.0.0.1:1/',
+                give_up: (reconnect_count) => attempts.push(reconnect_count) > 0
+            });
+
+            ticker.once('failed', (error) => {
+                expect(error).to.be.an.instanceof(TickerException);
+                expect(error.reconnect_count).to.equal(0);
+                expect(attempts).to.deep.equal([1]);
+                expect(ticker.getState()).to.equal('failed');
+
+                ticker.root = root;
+                ticker.once('connect', () => {
+                    expect(ticker.getState()).to.equal('connected');
+                    // A manual disconnect is not reconnected
+                    ticker.on('reconnect', () => done(new Error('reconnected after disconnect')));
+                    ticker.once('disconnect', () => setTimeout(() => {
+                        expect(ticker.getState()).to.equal('disconnected');
+                        done();
+                    }, 50));
+                    ticker.disconnect();
+                });
+                ticker.connect();
+            });
+            ticker.connect();
+        })
+    });
+}
+
 // Read binary packets
 function readBufferPacket(fileName: string) {
     const rawData = fs.readFileSync(path.join(__dirname, './', fileName));
@@ -75,4 +223,5 @@ function toArrayBuffer(tickerMode: string) {
 }
 
 // Run ticker tests
-testTicker()
\ No newline at end of file
+testTicker()
+testTickerInstances()
\ No newline at end of file
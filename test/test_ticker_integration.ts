@@ -0,0 +1,124 @@
+'use strict';
+
+import { expect } from 'chai';
+import { KiteTicker } from '../lib/ticker';
+import { MockTickerServer } from '../lib/mock-ticker-server';
+import { FullTick, KiteTickerParams, LTPTick, Tick } from '../interfaces';
+
+// run testsuite
+testTickerIntegration();
+
+function testTickerIntegration() {
+    describe('KiteTicker with MockTickerServer', function() {
+        const server = new MockTickerServer({ access_token: 'token' });
+        let root: string;
+        let ticker: KiteTicker;
+
+        function createTicker(params: Partial<KiteTickerParams> = {}) {
+            ticker = new KiteTicker({ api_key: 'api_key', access_token: 'token', root: root, ...params });
+            return ticker;
+        }
+
+        before(async () => {
+            root = await server.start();
+        });
+
+        afterEach(() => {
+            ticker.disconnect();
+            server.refuseConnections(0);
+            server.setHeartbeat(1000);
+        });
+
+        after(() => server.stop());
+
+        it('streams ticks in the subscribed modes', (done) => {
+            createTicker({ reconnect: false });
+            ticker.subscribe([256265, 738561]);
+            ticker.setMode(ticker.modeLTP, [256265]);
+            ticker.setMode(ticker.modeFull, [738561]);
+
+            server.on('mode', function onMode() {
+                const subscriptions = server.getConnections()[0].subscriptions;
+                if (subscriptions[738561] !== 'full') return;
+                server.off('mode', onMode);
+
+                expect(subscriptions).to.deep.equal({ 256265: 'ltp', 738561: 'full' });
+                server.sendTicks([
+                    { instrument_token: 256265, last_price: 24500.5 },
+                    {
+                        instrument_token: 738561, last_price: 2940.7, volume_traded: 2827705,
+                        ohlc: { open: 2915, high: 2949, low: 2910.35, close: 2913.35 },
+                        exchange_timestamp: new Date('2024-06-12T07:16:09.000Z'),
+                        depth: { buy: [{ quantity: 10, price: 2940.65, orders: 2 }], sell: [] }
+                    },
+                    // Not subscribed
+                    { instrument_token: 408065, last_price: 1500 }
+                ]);
+            });
+
+            ticker.on('ticks', (ticks: Tick[]) => {
+                expect(ticks).to.have.length(2);
+                const index = ticks[0] as LTPTick;
+                expect(index).to.deep.equal({ tradable: false, mode: 'ltp', instrument_token: 256265, last_price: 24500.5 });
+
+                const full = ticks[1] as FullTick;
+                expect(full.mode).to.equal('full');
+                expect(full.last_price).to.equal(2940.7);
+                expect(full.volume_traded).to.equal(2827705);
+                expect(full.ohlc.low).to.equal(2910.35);
+                expect(full.exchange_timestamp?.toISOString()).to.equal('2024-06-12T07:16:09.000Z');
+                expect(full.depth?.buy[0]).to.deep.equal({ quantity: 10, price: 2940.65, orders: 2 });
+                done();
+            });
+            ticker.connect();
+        })
+
+        it('emits order updates', (done) => {
+            createTicker({ reconnect: false });
+            ticker.on('order_update', (order) => {
+                expect(order).to.deep.equal({ order_id: '1', status: 'COMPLETE' });
+                done();
+            });
+            ticker.on('connect', () => server.sendOrderUpdate({ order_id: '1', status: 'COMPLETE' }, 'api_key'));
+            ticker.connect();
+        })
+
+        it('disconnects when no message arrives within the read timeout', function(done) {
+            this.timeout(5000);
+            createTicker({ reconnect: false, read_timeout: 1 });
+            ticker.on('connect', () => server.setHeartbeat(0));
+            ticker.on('disconnect', () => {
+                expect(ticker.getState()).to.equal('disconnected');
+                done();
+            });
+            ticker.connect();
+        })
+
+        it('reconnects with backoff and resubscribes after a dropped connection', function(done) {
+            this.timeout(6000);
+            const reconnects: number[][] = [];
+            let connects = 0;
+
+            createTicker();
+            ticker.subscribe([738561]);
+            ticker.on('reconnect', (count, interval) => reconnects.push([count, interval]));
+            ticker.on('connect', () => {
+                if (++connects === 1) {
+                    // The first attempt after the drop is refused
+                    server.refuseConnections(1);
+                    server.dropConnections(true);
+                }
+            });
+            server.on('subscribe', function onSubscribe(connection, tokens) {
+                if (connects < 2) return;
+                server.off('subscribe', onSubscribe);
+
+                expect(tokens).to.deep.equal([738561]);
+                expect(reconnects).to.deep.equal([[1, 1], [2, 2]]);
+                expect(ticker.getState()).to.equal('connected');
+                done();
+            });
+            ticker.connect();
+        })
+    });
+}
@@ -0,0 +1,102 @@
+'use strict';
+
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { expect } from 'chai';
+import { KiteTickerPool } from '../lib/ticker-pool';
+import { Tick } from '../interfaces';
+
+// run testsuite
+testTickerPool();
+
+// Binary message with one LTP packet
+function ltpMessage(token: number, price: number): Buffer {
+    const message = Buffer.alloc(12);
+    message.writeInt16BE(1, 0);
+    message.writeInt16BE(8, 2);
+    message.writeInt32BE(token, 4);
+    message.writeInt32BE(price * 100, 8);
+    return message;
+}
+
+function testTickerPool() {
+    describe('KiteTickerPool', function() {
+        let server: WebSocket.Server;
+        let root: string;
+        const sockets: WebSocket[] = [];
+        const received: object[][] = [];
+
+        before((done) => {
+            server = new WebSocket.Server({ port: 0 }, () => {
+                root = 'ws://127.0.0.1:' + (server.address() as AddressInfo).port + '/';
+                done();
+            });
+            server.on('connection', (socket) => {
+                const messages: object[] = [];
+                sockets.push(socket);
+                received.push(messages);
+                socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+            });
+        });
+
+        // Index of the connection an instrument was first subscribed on
+        function shardOf(token: number): number {
+            return received.findIndex((messages) => (messages[0] as { v: number[] }).v.includes(token));
+        }
+
+        after((done) => {
+            server.close(() => done());
+        });
+
+        it('shards subscriptions and merges the ticks of all connections', (done) => {
+            const pool = new KiteTickerPool({ api_key: 'api_key', access_token: 'token', reconnect: false, root: root, max_tokens: 2, max_connections: 2 });
+            const ticks: Tick[] = [];
+            const warnings: string[] = [];
+            const onWarning = (warning: Error) => warnings.push(warning.name);
+            process.on('warning', onWarning);
+
+            expect(pool.subscribe([1, 2, 3])).to.deep.equal([1, 2, 3]);
+            pool.setMode(pool.modeLTP, [3]);
+            expect(pool.subscribe([4, 5])).to.deep.equal([4]);
+            expect(pool.getHealth().map((h) => h.tokens)).to.deep.equal([2, 2]);
+
+            pool.on('ticks', (batch) => {
+                ticks.push(...batch);
+                if (ticks.length < 2) return;
+
+                expect(ticks.map((t) => t.instrument_token).sort()).to.deep.equal([1, 3]);
+                const health = pool.getHealth();
+                expect(health.every((h) => h.connected)).to.equal(true);
+                expect(health.every((h) => h.last_tick instanceof Date)).to.equal(true);
+                expect(warnings).to.deep.equal(['KiteTickerWarning']);
+                process.off('warning', onWarning);
+
+                // Removing two tokens leaves room to close one connection
+                pool.unsubscribe([2, 4]);
+                expect(pool.getHealth().map((h) => [h.shard, h.tokens])).to.deep.equal([[1, 2]]);
+                expect(pool.getSubscriptions()).to.deep.equal({ 1: 'quote', 3: 'ltp' });
+                setTimeout(() => {
+                    expect(received[shardOf(3)].slice(-3)).to.deep.equal([
+                        { a: 'unsubscribe', v: [4] },
+                        { a: 'subscribe', v: [1] },
+                        { a: 'mode', v: ['quote', [1]] }
+                    ]);
+                    pool.disconnect();
+                    done();
+                }, 50);
+            });
+
+            let connected = 0;
+            pool.on('connect', () => {
+                if (++connected < 2) return;
+                expect(pool.connected()).to.equal(true);
+                // Each connection only streams its own instruments
+                setTimeout(() => {
+                    sockets[shardOf(1)].send(ltpMessage(1, 100));
+                    sockets[shardOf(3)].send(ltpMessage(3, 200));
+                }, 50);
+            });
+            pool.connect();
+        })
+    });
+}
@@ -3,6 +3,44 @@ import KiteTicker from './ticker';
 
 export { KiteConnect, KiteTicker };
 
+// Re-export the error classes and utilities from the declarations generated by the build
+export {
+  KiteError,
+  TokenException,
+  InputException,
+  OrderException,
+  NetworkException,
+  DataException,
+  PermissionException,
+  GeneralException,
+  BatchException,
+  TickerException,
+  CandleStore,
+  InstrumentStore,
+  getOptionChain,
+  GreeksCalculator,
+  priceOption,
+  impliedVolatility,
+  KiteTickerPool,
+  TickRecorder,
+  TickReplayer,
+  MockTickerServer,
+  MockKiteServer,
+  PaperKiteConnect,
+  OrderTracker,
+  ProtectionManager,
+  OrderValidator,
+  OrderSlicer,
+  SlicedOrder,
+  BasketExecutor,
+  ExecutionAlgos,
+  ChargesCalculator
+} from '../dist/lib';
+
+// Re-export the param and response types of the utilities. Names declared in connect.d.ts
+// and ticker.d.ts above take precedence.
+export * from '../dist/interfaces';
+
 // Re-export all types from connect.d.ts
 export type {
   Exchanges,